@@ -0,0 +1,14 @@
+/**
+ * Garage API proxy: forwards every /api/garage-dashboard/* request to the
+ * garage API with the session cookie's token (see lib/garage-bff)
+ */
+
+import { proxyRequest } from "@/lib/garage-bff";
+
+export const dynamic = "force-dynamic";
+
+export const GET = proxyRequest;
+export const POST = proxyRequest;
+export const PATCH = proxyRequest;
+export const PUT = proxyRequest;
+export const DELETE = proxyRequest;
@@ -0,0 +1,10 @@
+/**
+ * Sign in through the proxy, which keeps the token in an httpOnly cookie
+ * (see lib/garage-bff)
+ */
+
+import { loginRequest } from "@/lib/garage-bff";
+
+export const dynamic = "force-dynamic";
+
+export const POST = loginRequest;
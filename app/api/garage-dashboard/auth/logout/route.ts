@@ -0,0 +1,9 @@
+/**
+ * Sign out: drop the proxy's session cookie (see lib/garage-bff)
+ */
+
+import { logoutRequest } from "@/lib/garage-bff";
+
+export const dynamic = "force-dynamic";
+
+export const POST = logoutRequest;
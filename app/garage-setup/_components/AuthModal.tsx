@@ -3,29 +3,41 @@
 /**
  * Authentication Modal Component
  *
- * This modal handles API token collection from the user.
+ * This modal signs the user in with their email and password.
  * It's the first screen users see and is required to access
- * the garage scheduling functionality.
+ * the garage scheduling functionality. It is shown again, with the
+ * email filled in, when the session expires or a request returns 401.
  */
 
 import type React from "react";
-import { Key, ArrowRight, Settings } from "lucide-react";
+import { useState } from "react";
+import { Settings } from "lucide-react";
 import { BRAND_COLOR } from "./types";
 
 interface AuthModalProps {
-  token: string;
-  setToken: (token: string) => void;
-  onProceed: () => void;
+  onLogin: (email: string, password: string) => Promise<void>;
+  defaultEmail?: string; // the previous session's email when signing in again
+  notice?: string | null; // why the user was sent back here, e.g. a 401
 }
 
 export const AuthModal: React.FC<AuthModalProps> = ({
-  token,
-  setToken,
-  onProceed,
+  onLogin,
+  defaultEmail = "",
+  notice,
 }) => {
-  const handleSubmit = (e: React.FormEvent) => {
+  const [email, setEmail] = useState(defaultEmail);
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onProceed();
+    setSubmitting(true);
+    try {
+      await onLogin(email, password);
+    } finally {
+      setSubmitting(false);
+      setPassword("");
+    }
   };
 
   return (
@@ -49,10 +61,16 @@ export const AuthModal: React.FC<AuthModalProps> = ({
             Garage Setup
           </h2>
           <p className="text-gray-600">
-            Enter your API token to configure your garage scheduling system
+            Sign in to configure your garage scheduling system
           </p>
         </div>
 
+        {notice && (
+          <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            {notice}
+          </div>
+        )}
+
         <form
           onSubmit={handleSubmit}
           className="space-y-6"
@@ -60,17 +78,37 @@ export const AuthModal: React.FC<AuthModalProps> = ({
         >
           <div suppressHydrationWarning>
             <label
-              htmlFor="token"
+              htmlFor="email"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Email
+            </label>
+            <input
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              autoComplete="username"
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div suppressHydrationWarning>
+            <label
+              htmlFor="password"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
-              API Token
+              Password
             </label>
             <input
               type="password"
-              id="token"
-              value={token}
-              onChange={(e) => setToken(e.target.value)}
-              placeholder="Enter your API token"
+              id="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter your password"
+              autoComplete="current-password"
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
               required
             />
@@ -78,16 +116,17 @@ export const AuthModal: React.FC<AuthModalProps> = ({
 
           <button
             type="submit"
-            className="w-full py-3 px-4 text-white rounded-lg hover:opacity-90 transition-colors"
+            disabled={submitting}
+            className="w-full py-3 px-4 text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
             style={{ backgroundColor: BRAND_COLOR }}
           >
-            Proceed
+            {submitting ? "Signing in..." : "Sign In"}
           </button>
         </form>
 
         <div className="mt-6 text-center" suppressHydrationWarning>
           <p className="text-sm text-gray-500">
-            Don't have an API token? Contact your system administrator.
+            Don't have an account? Contact your system administrator.
           </p>
         </div>
       </div>
@@ -0,0 +1,170 @@
+"use client"
+
+/**
+ * Bank Holidays Modal Component
+ *
+ * Applies the bundled UK bank holiday dataset for a region and year. The
+ * preview lists every bank holiday and marks the dates that already have a
+ * special-day override; those are skipped when the holidays are applied.
+ * Special days have no name field, so the holiday names only label the
+ * preview.
+ */
+
+import type React from "react"
+import { useState } from "react"
+import { X, Landmark, Eye } from "lucide-react"
+import type { UkRegion } from "@/lib/uk-bank-holidays"
+import { UK_BANK_HOLIDAYS_VERSION, UK_REGIONS, getBankHolidayYears } from "@/lib/uk-bank-holidays"
+import type { BankHolidayPreview } from "./types"
+import { BRAND_COLOR } from "./types"
+import { selectAppliesTo, useScheduleStore } from "./schedule-store"
+
+interface BankHolidaysModalProps {
+  preview: BankHolidayPreview | null
+  onPreview: (region: UkRegion, year: number) => void
+  onApply: () => void
+}
+
+const EXISTING_TYPE_LABELS: { [type: string]: string } = {
+  HOLIDAY: "Already a holiday",
+  CLOSED: "Already closed",
+  OPEN: "Has special hours",
+}
+
+export const BankHolidaysModal: React.FC<BankHolidaysModalProps> = ({ preview, onPreview, onApply }) => {
+  const { state, dispatch } = useScheduleStore()
+  const isOpen = state.activeModal === "bankHolidays"
+  const onClose = () => dispatch({ type: "modal/close" })
+  const appliesTo = selectAppliesTo(state)
+  const loading = state.loading
+  const [region, setRegion] = useState<UkRegion>("england-and-wales")
+  const [year, setYear] = useState(new Date().getFullYear())
+
+  if (!isOpen) return null
+
+  const years = getBankHolidayYears(region)
+  const selectedYear = years.includes(year) ? year : years[years.length - 1]
+  // Only show the preview for the region and year currently selected
+  const items = preview && preview.region === region && preview.year === selectedYear ? preview.items : null
+  const toApply = (items || []).filter((item) => !item.existing_type)
+
+  const formatDate = (dateStr: string) =>
+    new Date(`${dateStr}T00:00:00`).toLocaleDateString("en-GB", {
+      weekday: "short",
+      day: "numeric",
+      month: "long",
+    })
+
+  return (
+    <div className="fixed inset-0 bg-black/80 bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg w-full max-w-2xl max-h-[95vh] overflow-hidden flex flex-col">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-4 md:p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg text-white" style={{ backgroundColor: BRAND_COLOR }}>
+              <Landmark className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="text-xl font-semibold text-gray-800">UK Bank Holidays</h3>
+              <p className="text-sm text-gray-600">
+                Dataset v{UK_BANK_HOLIDAYS_VERSION} · Applies to: {appliesTo}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Modal Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <select
+              value={region}
+              onChange={(e) => setRegion(e.target.value as UkRegion)}
+              className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            >
+              {UK_REGIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={selectedYear}
+              onChange={(e) => setYear(Number.parseInt(e.target.value))}
+              className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+            >
+              {years.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onPreview(region, selectedYear)}
+              disabled={loading}
+              className="flex items-center justify-center gap-2 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <Eye className="w-4 h-4" />
+              Preview
+            </button>
+          </div>
+
+          {items && (
+            <p className="text-xs text-gray-500">
+              Dates are saved as holidays without their names, which only identify them here.
+            </p>
+          )}
+
+          {items && (
+            <div className="border border-gray-200 rounded-lg divide-y">
+              {items.map((item) => (
+                <div
+                  key={item.date}
+                  className={`flex items-center justify-between gap-3 p-3 text-sm ${
+                    item.existing_type ? "bg-gray-50 text-gray-400" : ""
+                  }`}
+                >
+                  <div>
+                    <div className={item.existing_type ? "" : "font-medium text-gray-800"}>{item.title}</div>
+                    <div className="text-xs">{formatDate(item.date)}</div>
+                  </div>
+                  <span
+                    className={`text-xs px-2 py-1 rounded ${
+                      item.existing_type ? "bg-gray-100 text-gray-600" : "bg-amber-100 text-amber-800"
+                    }`}
+                  >
+                    {item.existing_type
+                      ? `Skipped: ${EXISTING_TYPE_LABELS[item.existing_type] || "Has an override"}`
+                      : "Will become holiday"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="border-t border-gray-200 p-4 md:p-6">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onApply}
+              disabled={loading || toApply.length === 0}
+              className="flex-1 text-white py-3 px-4 rounded-lg hover:opacity-90 transition-colors font-medium disabled:opacity-50"
+              style={{ backgroundColor: BRAND_COLOR }}
+            >
+              {loading ? "Applying..." : items ? `Apply ${toApply.length} Bank Holiday(s)` : "Preview to continue"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -13,6 +13,15 @@
  * - Week highlighting with dynamic bars that preserve original colors
  * - No external calendar library used - pure React/JavaScript implementation
  * - Automatic year transitions and proper date handling
+ * - Bay filter: special days set here apply to the selected bay, or to the
+ *   whole garage when "All bays" is selected
+ * - Split-shift days (opening hours with breaks) are marked with two dots
+ * - Recurring special-day rules and UK bank holidays are managed from the header,
+ *   which also offers .ics export and import of the schedule
+ * - Everything that sets special days (day types, recurring rules, bank
+ *   holidays, .ics import) is hidden from roles without specialDays.edit
+ * - A coloured bar across the top of a day shows which weekly pattern
+ *   version governs it; the legend names the versions of the month
  */
 
 import type React from "react";
@@ -23,10 +32,21 @@ import {
   Briefcase,
   Home,
   Gift,
+  Repeat,
+  Landmark,
+  Download,
+  Upload,
 } from "lucide-react";
-import type { WeekDay, DayAvailability } from "./types";
-import { BRAND_COLOR, MONTHS } from "./types";
-import { isToday } from "./utils";
+import type { WeeklyPatternVersion } from "@/lib/garage-api";
+import type { RolePermissions } from "@/lib/garage-permissions";
+import type { WeekDay, DayAvailability, BayOption } from "./types";
+import { BRAND_COLOR, MONTHS, ALL_BAYS } from "./types";
+import {
+  formatVersionRange,
+  getPatternVersionColor,
+  getPatternVersionsForDate,
+  isToday,
+} from "./utils";
 
 interface CalendarViewProps {
   selectedMonth: number;
@@ -35,6 +55,11 @@ interface CalendarViewProps {
   currentWeekData: WeekDay[];
   currentWeekIndex: number;
   availabilityData: { [key: string]: DayAvailability };
+  bays: BayOption[];
+  selectedBayId: string;
+  patternVersions: WeeklyPatternVersion[];
+  permissions: RolePermissions;
+  onBayChange: (bayId: string) => void;
   onMonthChange: (month: number) => void;
   onYearChange: (year: number) => void;
   onDateSelect: (date: string) => void;
@@ -43,6 +68,10 @@ interface CalendarViewProps {
   onSetWeekend: () => void;
   onSetHoliday: () => void;
   onClearSelection: () => void;
+  onManageRules: () => void;
+  onBankHolidays: () => void;
+  onExport: () => void;
+  onImport: () => void;
 }
 
 export const CalendarView: React.FC<CalendarViewProps> = ({
@@ -52,6 +81,11 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   currentWeekData,
   currentWeekIndex,
   availabilityData,
+  bays,
+  selectedBayId,
+  patternVersions,
+  permissions,
+  onBayChange,
   onMonthChange,
   onYearChange,
   onDateSelect,
@@ -60,7 +94,20 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   onSetWeekend,
   onSetHoliday,
   onClearSelection,
+  onManageRules,
+  onBankHolidays,
+  onExport,
+  onImport,
 }) => {
+  const canEditSpecialDays = permissions["specialDays.edit"];
+  const versionBayId = selectedBayId === ALL_BAYS ? undefined : selectedBayId;
+
+  // Pattern versions behind a day, unless a special day overrides the pattern
+  const getDayVersions = (date: string, availability?: DayAvailability) =>
+    availability?.source === "special_day"
+      ? []
+      : getPatternVersionsForDate(patternVersions, date, versionBayId);
+
   // Generate calendar days
   const generateCalendarDays = () => {
     const firstDayOfMonth = new Date(selectedYear, selectedMonth, 1);
@@ -152,6 +199,21 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
     weeks.push(calendarDays.slice(i, i + 7));
   }
 
+  // Pattern versions governing some day of the month, for the legend
+  const monthVersions = Array.from(
+    new Map(
+      calendarDays
+        .filter((dayData) => dayData.isCurrentMonth)
+        .flatMap((dayData) =>
+          getDayVersions(dayData.date, dayData.availability)
+        )
+        .map((version) => [
+          `${version.label}|${version.effective_from}|${version.effective_to}`,
+          version,
+        ])
+    ).values()
+  );
+
   const getAvailabilityColor = (availability?: DayAvailability) => {
     if (!availability) return "#f3f4f6"; // gray-100
 
@@ -199,6 +261,61 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
             <p className="text-sm text-gray-600">Select dates to configure</p>
           </div>
         </div>
+
+        <div className="flex items-center gap-2">
+          {bays.length > 1 && (
+            <select
+              value={selectedBayId}
+              onChange={(e) => onBayChange(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+            >
+              <option value={ALL_BAYS}>All bays</option>
+              {bays.map((bay) => (
+                <option key={bay.id} value={bay.id}>
+                  {bay.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {canEditSpecialDays && (
+            <>
+              <button
+                onClick={onManageRules}
+                className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                title="Recurring special days"
+              >
+                <Repeat className="w-4 h-4" />
+                <span className="hidden sm:inline">Recurring</span>
+              </button>
+              <button
+                onClick={onBankHolidays}
+                className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                title="UK bank holidays"
+              >
+                <Landmark className="w-4 h-4" />
+                <span className="hidden sm:inline">Bank Holidays</span>
+              </button>
+            </>
+          )}
+          <button
+            onClick={onExport}
+            className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            title="Export to calendar (.ics)"
+          >
+            <Download className="w-4 h-4" />
+            <span className="hidden sm:inline">Export</span>
+          </button>
+          {canEditSpecialDays && (
+            <button
+              onClick={onImport}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              title="Import from calendar (.ics)"
+            >
+              <Upload className="w-4 h-4" />
+              <span className="hidden sm:inline">Import</span>
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Month/Year Navigation */}
@@ -278,6 +395,9 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
                 const availabilityColor = getAvailabilityColor(
                   dayData.availability
                 );
+                const dayVersions = dayData.isCurrentMonth
+                  ? getDayVersions(dayData.date, dayData.availability)
+                  : [];
 
                 return (
                   <button
@@ -300,14 +420,40 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
                         : "transparent",
                     }}
                     disabled={!dayData.isCurrentMonth}
+                    title={dayVersions
+                      .map((version) => `${version.label} pattern`)
+                      .join(", ")}
                   >
-                    {dayData.day}
-                    {dayData.availability && (
+                    {dayVersions.length > 0 && (
                       <div
-                        className="absolute bottom-1 left-1/2 transform -translate-x-1/2 w-1 h-1 rounded-full"
-                        style={{ backgroundColor: availabilityColor }}
+                        className="absolute top-0.5 left-1.5 right-1.5 h-0.5 rounded-full"
+                        style={{
+                          backgroundColor: getPatternVersionColor(
+                            patternVersions,
+                            dayVersions[0]
+                          ),
+                        }}
                       />
                     )}
+                    {dayData.day}
+                    {dayData.availability &&
+                      ((dayData.availability.breaks || []).length > 0 ? (
+                        <div className="absolute bottom-1 left-1/2 transform -translate-x-1/2 flex gap-0.5">
+                          <div
+                            className="w-1 h-1 rounded-full"
+                            style={{ backgroundColor: availabilityColor }}
+                          />
+                          <div
+                            className="w-1 h-1 rounded-full"
+                            style={{ backgroundColor: availabilityColor }}
+                          />
+                        </div>
+                      ) : (
+                        <div
+                          className="absolute bottom-1 left-1/2 transform -translate-x-1/2 w-1 h-1 rounded-full"
+                          style={{ backgroundColor: availabilityColor }}
+                        />
+                      ))}
                   </button>
                 );
               })}
@@ -330,35 +476,45 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
               })}
             </h4>
             <p className="text-xs text-gray-600">
-              Choose the day type for this date
+              {canEditSpecialDays
+                ? "Choose the day type for this date"
+                : "Your role can't change the day type of dates"}
+              {canEditSpecialDays &&
+                bays.length > 1 &&
+                ` (applies to ${
+                  bays.find((bay) => bay.id === selectedBayId)?.name ||
+                  "all bays"
+                })`}
             </p>
           </div>
 
-          <div className="grid grid-cols-3 gap-2 mb-3">
-            <button
-              onClick={onSetWorking}
-              className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-sm"
-            >
-              <Briefcase className="w-4 h-4" style={{ color: BRAND_COLOR }} />
-              <span>Working</span>
-            </button>
-            <button
-              onClick={onSetWeekend}
-              className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-sm"
-            >
-              <Home className="w-4 h-4 text-red-500" />{" "}
-              {/* FIXED: was amber-500 */}
-              <span>Weekend</span>
-            </button>
-            <button
-              onClick={onSetHoliday}
-              className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-sm"
-            >
-              <Gift className="w-4 h-4 text-amber-500" />{" "}
-              {/* FIXED: was red-500 */}
-              <span>Holiday</span>
-            </button>
-          </div>
+          {canEditSpecialDays && (
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              <button
+                onClick={onSetWorking}
+                className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+              >
+                <Briefcase className="w-4 h-4" style={{ color: BRAND_COLOR }} />
+                <span>Working</span>
+              </button>
+              <button
+                onClick={onSetWeekend}
+                className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+              >
+                <Home className="w-4 h-4 text-red-500" />{" "}
+                {/* FIXED: was amber-500 */}
+                <span>Weekend</span>
+              </button>
+              <button
+                onClick={onSetHoliday}
+                className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+              >
+                <Gift className="w-4 h-4 text-amber-500" />{" "}
+                {/* FIXED: was red-500 */}
+                <span>Holiday</span>
+              </button>
+            </div>
+          )}
 
           <button
             onClick={onClearSelection}
@@ -390,7 +546,40 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
             {/* FIXED: was red-500 */}
             <span className="text-gray-600">Holiday</span>
           </div>
+          <div className="flex items-center gap-1">
+            <div className="flex gap-0.5">
+              <div
+                className="w-1.5 h-1.5 rounded-full"
+                style={{ backgroundColor: BRAND_COLOR }}
+              />
+              <div
+                className="w-1.5 h-1.5 rounded-full"
+                style={{ backgroundColor: BRAND_COLOR }}
+              />
+            </div>
+            <span className="text-gray-600">Split shift</span>
+          </div>
         </div>
+        {monthVersions.length > 0 && (
+          <div className="mt-3 space-y-1 text-xs">
+            {monthVersions.map((version) => (
+              <div key={version.id} className="flex items-center gap-1">
+                <div
+                  className="w-3 h-0.5 rounded-full"
+                  style={{
+                    backgroundColor: getPatternVersionColor(
+                      patternVersions,
+                      version
+                    ),
+                  }}
+                />
+                <span className="text-gray-600">
+                  {version.label} ({formatVersionRange(version)})
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,124 @@
+"use client"
+
+/**
+ * Export Calendar Modal Component
+ *
+ * Downloads the schedule for a date range as an iCalendar (.ics) file that
+ * can be imported into Google Calendar, Outlook or Apple Calendar. Opening
+ * hours are exported as events, booked slots as busy blocks and holidays as
+ * all-day events.
+ */
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { X, Download } from "lucide-react"
+import { BRAND_COLOR, MAX_EXPORT_DAYS } from "./types"
+import { selectAppliesTo, selectMonthRange, useScheduleStore } from "./schedule-store"
+
+interface ExportCalendarModalProps {
+  onExport: (from: string, to: string) => void
+}
+
+export const ExportCalendarModal: React.FC<ExportCalendarModalProps> = ({ onExport }) => {
+  const { state, dispatch } = useScheduleStore()
+  const isOpen = state.activeModal === "export"
+  const onClose = () => dispatch({ type: "modal/close" })
+  const appliesTo = selectAppliesTo(state)
+  const { from: defaultFrom, to: defaultTo } = selectMonthRange(state)
+  const loading = state.loading
+  const [from, setFrom] = useState(defaultFrom)
+  const [to, setTo] = useState(defaultTo)
+
+  // Start from the month on screen each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setFrom(defaultFrom)
+      setTo(defaultTo)
+    }
+  }, [isOpen, defaultFrom, defaultTo])
+
+  if (!isOpen) return null
+
+  const dayCount =
+    from && to ? Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1 : 0
+  const error =
+    !from || !to
+      ? "Please choose a start and end date"
+      : dayCount < 1
+        ? "The end date must be on or after the start date"
+        : dayCount > MAX_EXPORT_DAYS
+          ? `Please export at most ${MAX_EXPORT_DAYS} days at a time`
+          : null
+
+  return (
+    <div className="fixed inset-0 bg-black/80 bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg w-full max-w-md max-h-[95vh] overflow-hidden flex flex-col">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-4 md:p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg text-white" style={{ backgroundColor: BRAND_COLOR }}>
+              <Download className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="text-xl font-semibold text-gray-800">Export Calendar</h3>
+              <p className="text-sm text-gray-600">Applies to: {appliesTo}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-4 md:p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              From
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              To
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+              />
+            </label>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The .ics file contains opening hours, booked slots (as busy time) and holidays (as all-day events).
+          </p>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="border-t border-gray-200 p-4 md:p-6">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onExport(from, to)}
+              disabled={loading || !!error}
+              className="flex-1 text-white py-3 px-4 rounded-lg hover:opacity-90 transition-colors font-medium disabled:opacity-50"
+              style={{ backgroundColor: BRAND_COLOR }}
+            >
+              {loading ? "Exporting..." : `Download .ics (${Math.max(dayCount, 0)} days)`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
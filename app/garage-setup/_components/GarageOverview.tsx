@@ -0,0 +1,197 @@
+"use client";
+
+/**
+ * Garage Overview Component
+ *
+ * All-sites view for group operators: one row per garage with the visible
+ * week's opening hours side by side, plus how many slots each day has free,
+ * booked and blocked (across all bays). Clicking a garage opens it in the
+ * normal week/calendar view.
+ */
+
+import type React from "react";
+import { ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
+import type { WeekScheduleDay } from "@/lib/garage-api";
+import type { GarageOption, GarageWeekOverview } from "./types";
+import { BRAND_COLOR } from "./types";
+import { formatTimeToAmPm, getOpenIntervals, isToday } from "./utils";
+
+interface GarageOverviewProps {
+  garages: GarageOption[];
+  garageId: string | null;
+  dates: string[]; // the visible week
+  overview: { [garageId: string]: GarageWeekOverview };
+  loading: boolean;
+  onOpenGarage: (garageId: string) => void;
+  onPreviousWeek: () => void;
+  onNextWeek: () => void;
+}
+
+const formatDay = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+};
+
+// Opening hours of a day, or why it has none
+const describeDay = (day: WeekScheduleDay | undefined) => {
+  const schedule = day?.schedule;
+  if (!schedule) return { label: "No schedule", color: "#9ca3af" };
+  if (schedule.type === "HOLIDAY") {
+    return { label: "Holiday", color: "#f59e0b" };
+  }
+  if (
+    schedule.type === "CLOSED" ||
+    !schedule.start_time ||
+    !schedule.end_time
+  ) {
+    return { label: "Closed", color: "#ef4444" };
+  }
+  return {
+    label: getOpenIntervals(
+      schedule.start_time,
+      schedule.end_time,
+      schedule.breaks || []
+    )
+      .map(
+        (interval) =>
+          `${formatTimeToAmPm(interval.start)} - ${formatTimeToAmPm(
+            interval.end
+          )}`
+      )
+      .join(", "),
+    color: BRAND_COLOR,
+  };
+};
+
+export const GarageOverview: React.FC<GarageOverviewProps> = ({
+  garages,
+  garageId,
+  dates,
+  overview,
+  loading,
+  onOpenGarage,
+  onPreviousWeek,
+  onNextWeek,
+}) => {
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 md:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">All Sites</h3>
+          <p className="text-sm text-gray-600">
+            {dates.length > 0 &&
+              `${formatDay(dates[0])} - ${formatDay(dates[dates.length - 1])}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onPreviousWeek}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Previous week"
+          >
+            <ChevronLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <button
+            onClick={onNextWeek}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Next week"
+          >
+            <ChevronRight className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      <div className={`overflow-x-auto ${loading ? "opacity-60" : ""}`}>
+        <table className="w-full min-w-[56rem] text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="text-left font-medium text-gray-600 p-2 w-48">
+                Garage
+              </th>
+              {dates.map((date) => (
+                <th
+                  key={date}
+                  className={`text-left font-medium p-2 ${
+                    isToday(date) ? "text-gray-900" : "text-gray-600"
+                  }`}
+                >
+                  {formatDay(date)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {garages.map((garage) => {
+              const row = overview[garage.id];
+              return (
+                <tr key={garage.id} className="border-t border-gray-200">
+                  <td className="p-2 align-top">
+                    <button
+                      onClick={() => onOpenGarage(garage.id)}
+                      className="flex items-center gap-1 font-medium text-gray-800 hover:underline text-left"
+                      title={`Open ${garage.name}`}
+                    >
+                      {garage.name}
+                      <ExternalLink className="w-3 h-3 text-gray-400 shrink-0" />
+                    </button>
+                    {garage.id === garageId && (
+                      <span className="text-xs text-gray-500">Current</span>
+                    )}
+                  </td>
+                  {row?.error ? (
+                    <td
+                      colSpan={dates.length}
+                      className="p-2 text-xs text-red-600"
+                    >
+                      {row.error}
+                    </td>
+                  ) : (
+                    dates.map((date) => {
+                      if (!row) {
+                        return (
+                          <td key={date} className="p-2 align-top">
+                            <div className="h-4 w-16 bg-gray-100 rounded animate-pulse" />
+                          </td>
+                        );
+                      }
+                      const day = describeDay(
+                        row.days.find((item) => item.date === date)
+                      );
+                      const counts = row.slotCounts[date];
+                      return (
+                        <td key={date} className="p-2 align-top">
+                          <div className="flex items-start gap-1">
+                            <div
+                              className="w-2 h-2 rounded-full mt-1 shrink-0"
+                              style={{ backgroundColor: day.color }}
+                            />
+                            <span className="text-xs text-gray-800">
+                              {day.label}
+                            </span>
+                          </div>
+                          {counts &&
+                            counts.free + counts.booked + counts.blocked >
+                              0 && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                {counts.free} free · {counts.booked} booked
+                                {counts.blocked > 0 &&
+                                  ` · ${counts.blocked} blocked`}
+                              </div>
+                            )}
+                        </td>
+                      );
+                    })
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+"use client";
+
+/**
+ * Garage Switcher Component
+ *
+ * Header control for users who manage several MOT centres: picks the garage
+ * the dashboard shows and toggles the all-sites overview. Each garage keeps
+ * its own cached schedule and state, so switching back is instant.
+ */
+
+import type React from "react";
+import { Building2, LayoutGrid } from "lucide-react";
+import type { GarageOption } from "./types";
+import { BRAND_COLOR } from "./types";
+
+interface GarageSwitcherProps {
+  garages: GarageOption[];
+  garageId: string | null;
+  showOverview: boolean;
+  onGarageChange: (garageId: string) => void;
+  onToggleOverview: () => void;
+}
+
+export const GarageSwitcher: React.FC<GarageSwitcherProps> = ({
+  garages,
+  garageId,
+  showOverview,
+  onGarageChange,
+  onToggleOverview,
+}) => {
+  if (garages.length < 2) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg">
+        <Building2 className="w-4 h-4 text-gray-500" />
+        <select
+          value={garageId || ""}
+          onChange={(e) => onGarageChange(e.target.value)}
+          className="text-sm text-gray-700 bg-transparent focus:outline-none"
+          aria-label="Garage"
+        >
+          {garages.map((garage) => (
+            <option key={garage.id} value={garage.id}>
+              {garage.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button
+        onClick={onToggleOverview}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+          showOverview
+            ? "text-white hover:opacity-90"
+            : "border border-gray-300 text-gray-700 hover:bg-gray-50"
+        }`}
+        style={{ backgroundColor: showOverview ? BRAND_COLOR : undefined }}
+        title="Compare all sites' week schedules"
+      >
+        <LayoutGrid className="w-4 h-4" />
+        All Sites
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+"use client"
+
+/**
+ * Import Calendar Modal Component
+ *
+ * Reads an .ics file (e.g. exported from Google Calendar or Outlook) and
+ * previews each event occurrence in a date range as a schedule change:
+ * all-day events as holidays or closed days, timed events as blocked slots
+ * or special opening hours. The selected items are applied in bulk and each
+ * row then shows whether it succeeded.
+ */
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { X, Upload, CheckCircle, AlertCircle } from "lucide-react"
+import { type IcsImportAction, type IcsImportItem, parseIcs, planIcsImport } from "@/lib/ics-import"
+import type { IcsImportResult } from "./types"
+import { BRAND_COLOR } from "./types"
+import { formatTimeToAmPm, getCurrentDate } from "./utils"
+import { selectAppliesTo, useScheduleStore } from "./schedule-store"
+
+interface ImportCalendarModalProps {
+  results: { [key: string]: IcsImportResult } | null
+  onApply: (items: IcsImportItem[]) => void
+}
+
+const ALL_DAY_ACTIONS: Array<{ value: IcsImportAction; label: string }> = [
+  { value: "HOLIDAY", label: "Holiday" },
+  { value: "CLOSED", label: "Closed" },
+]
+
+const TIMED_ACTIONS: Array<{ value: IcsImportAction; label: string }> = [
+  { value: "BLOCK", label: "Block overlapping slots" },
+  { value: "OPEN", label: "Open only at these times" },
+  { value: "CLOSED", label: "Closed all day" },
+  { value: "HOLIDAY", label: "Holiday all day" },
+]
+
+// Default end of the import range: the same date next year
+const getOneYearAhead = () => {
+  const date = new Date()
+  date.setFullYear(date.getFullYear() + 1)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+}
+
+export const ImportCalendarModal: React.FC<ImportCalendarModalProps> = ({ results, onApply }) => {
+  const { state, dispatch } = useScheduleStore()
+  const isOpen = state.activeModal === "import"
+  const onClose = () => dispatch({ type: "modal/close" })
+  const appliesTo = selectAppliesTo(state)
+  const loading = state.loading
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [fileContent, setFileContent] = useState<string | null>(null)
+  const [from, setFrom] = useState(getCurrentDate())
+  const [to, setTo] = useState(getOneYearAhead())
+  const [items, setItems] = useState<IcsImportItem[]>([])
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
+
+  // Re-plan whenever the file or the date range changes
+  useEffect(() => {
+    if (!fileContent || !from || !to || from > to) {
+      setItems([])
+      setWarnings([])
+      setSelectedKeys(new Set())
+      return
+    }
+
+    const parsed = parseIcs(fileContent)
+    const planned = planIcsImport(parsed.events, from, to)
+    const planWarnings = [...parsed.warnings, ...planned.warnings]
+    setItems(planned.items)
+    setWarnings(parsed.events.length === 0 ? ["No events found in this file", ...planWarnings] : planWarnings)
+    setSelectedKeys(new Set(planned.items.map((item) => item.key)))
+  }, [fileContent, from, to])
+
+  if (!isOpen) return null
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setFileName(file.name)
+    setFileContent(await file.text())
+  }
+
+  const handleClose = () => {
+    setFileName(null)
+    setFileContent(null)
+    onClose()
+  }
+
+  const toggleItem = (key: string) => {
+    const next = new Set(selectedKeys)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setSelectedKeys(next)
+  }
+
+  const setItemAction = (key: string, action: IcsImportAction) => {
+    setItems(items.map((item) => (item.key === key ? { ...item, action } : item)))
+  }
+
+  const selectedItems = items.filter((item) => selectedKeys.has(item.key))
+
+  const formatDate = (dateStr: string) =>
+    new Date(`${dateStr}T00:00:00`).toLocaleDateString("en-GB", {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    })
+
+  return (
+    <div className="fixed inset-0 bg-black/80 bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg w-full max-w-3xl max-h-[95vh] overflow-hidden flex flex-col">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-4 md:p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg text-white" style={{ backgroundColor: BRAND_COLOR }}>
+              <Upload className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="text-xl font-semibold text-gray-800">Import Calendar</h3>
+              <p className="text-sm text-gray-600">Applies to: {appliesTo}</p>
+            </div>
+          </div>
+          <button onClick={handleClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Modal Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="text-sm text-gray-700">
+              .ics file
+              <input
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleFileChange}
+                className="mt-1 w-full text-sm file:mr-2 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              From
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              To
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+              />
+            </label>
+          </div>
+
+          {warnings.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 space-y-1">
+              {warnings.map((warning, index) => (
+                <p key={index}>{warning}</p>
+              ))}
+            </div>
+          )}
+
+          {fileName && items.length === 0 && warnings.length === 0 && (
+            <p className="text-sm text-gray-500">No events from {fileName} fall in this date range.</p>
+          )}
+
+          {items.length > 0 && (
+            <div className="border border-gray-200 rounded-lg divide-y">
+              {items.map((item) => {
+                const result = results?.[item.key]
+                return (
+                  <div key={item.key} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 text-sm">
+                    <label className="flex items-start gap-2 flex-1 min-w-0 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedKeys.has(item.key)}
+                        onChange={() => toggleItem(item.key)}
+                        className="mt-1"
+                      />
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-800 truncate">{item.summary}</div>
+                        <div className="text-xs text-gray-500">
+                          {formatDate(item.date)}
+                          {item.start_time && item.end_time
+                            ? ` · ${formatTimeToAmPm(item.start_time)} - ${formatTimeToAmPm(item.end_time)}`
+                            : " · All day"}
+                        </div>
+                      </div>
+                    </label>
+                    <select
+                      value={item.action}
+                      onChange={(e) => setItemAction(item.key, e.target.value as IcsImportAction)}
+                      disabled={!selectedKeys.has(item.key)}
+                      className="p-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+                    >
+                      {(item.start_time ? TIMED_ACTIONS : ALL_DAY_ACTIONS).map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    {result && (
+                      <span
+                        className={`flex items-center gap-1 text-xs ${
+                          result.success ? "text-green-700" : "text-red-600"
+                        }`}
+                      >
+                        {result.success ? (
+                          <CheckCircle className="w-3 h-3 shrink-0" />
+                        ) : (
+                          <AlertCircle className="w-3 h-3 shrink-0" />
+                        )}
+                        {result.message}
+                      </span>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="border-t border-gray-200 p-4 md:p-6">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={handleClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              {results ? "Done" : "Cancel"}
+            </button>
+            <button
+              onClick={() => onApply(selectedItems)}
+              disabled={loading || selectedItems.length === 0}
+              className="flex-1 text-white py-3 px-4 rounded-lg hover:opacity-90 transition-colors font-medium disabled:opacity-50"
+              style={{ backgroundColor: BRAND_COLOR }}
+            >
+              {loading ? "Importing..." : `Import ${selectedItems.length} Selected`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+"use client";
+
+/**
+ * Pattern Version Timeline Component
+ *
+ * Shows a bay's weekly pattern versions on a twelve-month date axis inside
+ * the weekly pattern modal, with a list below to pick a version to edit or
+ * delete. Versions of a bay never overlap; days no version covers have no
+ * weekly pattern.
+ */
+
+import type React from "react";
+import { useState } from "react";
+import { Pencil, Trash2 } from "lucide-react";
+import type { WeeklyPatternVersion } from "@/lib/garage-api";
+import { MONTHS } from "./types";
+import {
+  formatVersionRange,
+  getCurrentDate,
+  getPatternVersionColor,
+} from "./utils";
+
+const TIMELINE_MONTHS = 12;
+
+interface PatternVersionTimelineProps {
+  versions: WeeklyPatternVersion[]; // of the bay being edited
+  allVersions: WeeklyPatternVersion[]; // every bay's, so colours match the views
+  editingVersionId: string | null;
+  canEdit: boolean;
+  disabled: boolean;
+  onEdit: (version: WeeklyPatternVersion) => void;
+  onDelete: (version: WeeklyPatternVersion) => void;
+}
+
+// Days since the epoch, so date spans can be measured without DST surprises
+const toDayNumber = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / 86400000;
+};
+
+export const PatternVersionTimeline: React.FC<PatternVersionTimelineProps> = ({
+  versions,
+  allVersions,
+  editingVersionId,
+  canEdit,
+  disabled,
+  onEdit,
+  onDelete,
+}) => {
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  // Axis: the current month and the eleven after it
+  const today = getCurrentDate();
+  const [year, month] = today.split("-").map(Number);
+  const axisMonths = Array.from({ length: TIMELINE_MONTHS }, (_, index) => {
+    const date = new Date(year, month - 1 + index, 1);
+    return { month: date.getMonth(), year: date.getFullYear() };
+  });
+  const axisStart = Date.UTC(year, month - 1, 1) / 86400000;
+  const axisEnd = Date.UTC(year, month - 1 + TIMELINE_MONTHS, 1) / 86400000;
+  const axisLength = axisEnd - axisStart;
+  const toPercent = (dayNumber: number) =>
+    ((Math.min(Math.max(dayNumber, axisStart), axisEnd) - axisStart) /
+      axisLength) *
+    100;
+
+  const getSegment = (version: WeeklyPatternVersion) => {
+    const start = toDayNumber(version.effective_from);
+    const end = version.effective_to
+      ? toDayNumber(version.effective_to) + 1
+      : axisEnd;
+    if (end <= axisStart || start >= axisEnd) return null;
+    return {
+      left: toPercent(start),
+      width: toPercent(end) - toPercent(start),
+    };
+  };
+
+  const isCurrent = (version: WeeklyPatternVersion) =>
+    version.effective_from <= today &&
+    (version.effective_to === null || version.effective_to >= today);
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No pattern versions yet. The pattern you save becomes the first one.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      {/* Date Axis */}
+      <div className="relative h-6 rounded bg-gray-100 overflow-hidden">
+        {versions.map((version) => {
+          const segment = getSegment(version);
+          if (!segment) return null;
+          return (
+            <button
+              key={version.id}
+              onClick={() => onEdit(version)}
+              disabled={disabled || !canEdit}
+              className={`absolute top-0 h-full border-x border-white text-[10px] text-white truncate px-1 ${
+                version.id === editingVersionId
+                  ? "ring-2 ring-inset ring-gray-800"
+                  : ""
+              }`}
+              style={{
+                left: `${segment.left}%`,
+                width: `${segment.width}%`,
+                backgroundColor: getPatternVersionColor(allVersions, version),
+              }}
+              title={`${version.label}: ${formatVersionRange(version)}`}
+            >
+              {version.label}
+            </button>
+          );
+        })}
+        <div
+          className="absolute top-0 h-full w-0.5 bg-gray-800"
+          style={{ left: `${toPercent(toDayNumber(today))}%` }}
+          title="Today"
+        />
+      </div>
+      <div className="flex mt-1 text-[10px] text-gray-500">
+        {axisMonths.map((item) => (
+          <span key={`${item.year}-${item.month}`} className="flex-1 truncate">
+            {MONTHS[item.month].slice(0, 3)}
+            {item.month === 0 && ` ${item.year}`}
+          </span>
+        ))}
+      </div>
+
+      {/* Version List */}
+      <div className="mt-3 space-y-2">
+        {versions.map((version) => (
+          <div
+            key={version.id}
+            className={`flex items-center justify-between gap-3 p-2 border rounded-lg ${
+              version.id === editingVersionId
+                ? "border-gray-800 bg-gray-50"
+                : "border-gray-200"
+            }`}
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              <div
+                className="w-3 h-3 rounded-full shrink-0"
+                style={{
+                  backgroundColor: getPatternVersionColor(allVersions, version),
+                }}
+              />
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-800 truncate">
+                  {version.label}
+                  {isCurrent(version) && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      In effect today
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {formatVersionRange(version)}
+                </div>
+              </div>
+            </div>
+
+            {canEdit &&
+              (confirmDeleteId === version.id ? (
+                <div className="flex items-center gap-2 text-xs shrink-0">
+                  <span className="text-gray-600">Delete?</span>
+                  <button
+                    onClick={() => {
+                      setConfirmDeleteId(null);
+                      onDelete(version);
+                    }}
+                    disabled={disabled}
+                    className="px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(null)}
+                    className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                  >
+                    Keep
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => onEdit(version)}
+                    disabled={disabled}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                    title="Edit this version"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(version.id)}
+                    disabled={disabled}
+                    className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                    title="Delete this version"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
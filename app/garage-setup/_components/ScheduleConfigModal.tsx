@@ -0,0 +1,346 @@
+"use client"
+
+/**
+ * Schedule Configuration Modal Component
+ *
+ * Backs up a garage's setup or copies it to another site as a JSON file:
+ * the weekly pattern versions, the special days in a date range and the
+ * days with manual slots. Importing checks the file, lists the patterns,
+ * special days and slot overrides it would apply to this garage (and what
+ * it skips), and applies the selected ones; each row then shows whether it
+ * succeeded. Importing needs permission to edit the weekly pattern and
+ * special days, and to edit and delete slots (overrides replace a day's).
+ */
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { X, FileJson, Download, Upload, CheckCircle, AlertCircle } from "lucide-react"
+import {
+  type ScheduleConfigImportItem,
+  type ScheduleConfigImportPlan,
+  parseScheduleConfig,
+  planScheduleConfigImport,
+} from "@/lib/schedule-config"
+import type { RolePermissions } from "@/lib/garage-permissions"
+import { addDays } from "@/lib/date-utils"
+import type { ConfigImportResult } from "./types"
+import { BRAND_COLOR, MAX_EXPORT_DAYS } from "./types"
+import { formatShortDate, formatTimeToAmPm, getCurrentDate } from "./utils"
+import { useScheduleStore } from "./schedule-store"
+
+interface ScheduleConfigModalProps {
+  results: { [key: string]: ConfigImportResult } | null
+  isResetState: boolean
+  permissions: RolePermissions
+  onExport: (from: string, to: string) => void
+  onApply: (items: ScheduleConfigImportItem[], daysToGenerate: number) => void
+}
+
+const describeItem = (item: ScheduleConfigImportItem) => {
+  switch (item.kind) {
+    case "pattern":
+      return {
+        title: `Weekly pattern "${item.label}"`,
+        detail: item.effectiveTo
+          ? `${formatShortDate(item.effectiveFrom)} - ${formatShortDate(item.effectiveTo)}`
+          : `From ${formatShortDate(item.effectiveFrom)}`,
+      }
+    case "special_day": {
+      const { request } = item
+      return {
+        title: `${formatShortDate(request.date)}: ${
+          request.type === "OPEN" ? "Special opening" : request.type === "HOLIDAY" ? "Holiday" : "Closed"
+        }`,
+        detail:
+          request.type === "OPEN" && request.start_time && request.end_time
+            ? `${formatTimeToAmPm(request.start_time)} - ${formatTimeToAmPm(request.end_time)}`
+            : "All day",
+      }
+    }
+    case "manual_slots":
+      return {
+        title: `${formatShortDate(item.date)}: ${item.slots.length} manual slot(s)`,
+        detail: "Replaces the day's free slots",
+      }
+  }
+}
+
+export const ScheduleConfigModal: React.FC<ScheduleConfigModalProps> = ({
+  results,
+  isResetState,
+  permissions,
+  onExport,
+  onApply,
+}) => {
+  const { state, dispatch } = useScheduleStore()
+  const isOpen = state.activeModal === "config"
+  const loading = state.loading
+  const bays = state.bays
+  const [from, setFrom] = useState(getCurrentDate())
+  const [to, setTo] = useState(addDays(getCurrentDate(), MAX_EXPORT_DAYS - 1))
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [fileContent, setFileContent] = useState<string | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [plan, setPlan] = useState<ScheduleConfigImportPlan | null>(null)
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
+
+  const canImport =
+    permissions["weeklyPattern.edit"] &&
+    permissions["specialDays.edit"] &&
+    permissions["slots.edit"] &&
+    permissions["slots.delete"]
+
+  // Re-plan whenever the file or the garage's bays change
+  useEffect(() => {
+    if (!fileContent) {
+      setErrors([])
+      setPlan(null)
+      setSelectedKeys(new Set())
+      return
+    }
+
+    const parsed = parseScheduleConfig(fileContent)
+    if (!parsed.success) {
+      setErrors(parsed.errors)
+      setPlan(null)
+      setSelectedKeys(new Set())
+      return
+    }
+    const planned = planScheduleConfigImport(parsed.config, bays, getCurrentDate())
+    setErrors([])
+    setPlan(planned)
+    setSelectedKeys(new Set(planned.items.map((item) => item.key)))
+  }, [fileContent, bays])
+
+  if (!isOpen) return null
+
+  // A garage being set up goes back to the setup window
+  const handleClose = () => {
+    setFileName(null)
+    setFileContent(null)
+    dispatch(isResetState ? { type: "modal/open", modal: "weeklyPattern" } : { type: "modal/close" })
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setFileName(file.name)
+    setFileContent(await file.text())
+  }
+
+  const toggleItem = (key: string) => {
+    const next = new Set(selectedKeys)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setSelectedKeys(next)
+  }
+
+  const dayCount =
+    from && to ? Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1 : 0
+  const exportError =
+    !from || !to
+      ? "Please choose a start and end date"
+      : dayCount < 1
+        ? "The end date must be on or after the start date"
+        : dayCount > MAX_EXPORT_DAYS
+          ? `Please export at most ${MAX_EXPORT_DAYS} days at a time`
+          : null
+
+  const selectedItems = plan ? plan.items.filter((item) => selectedKeys.has(item.key)) : []
+  const counts = plan
+    ? {
+        patterns: plan.items.filter((item) => item.kind === "pattern").length,
+        specialDays: plan.items.filter((item) => item.kind === "special_day").length,
+        manualSlots: plan.items.filter((item) => item.kind === "manual_slots").length,
+      }
+    : null
+
+  return (
+    <div className="fixed inset-0 bg-black/80 bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg w-full max-w-3xl max-h-[95vh] overflow-hidden flex flex-col">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-4 md:p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg text-white" style={{ backgroundColor: BRAND_COLOR }}>
+              <FileJson className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="text-xl font-semibold text-gray-800">Schedule Configuration</h3>
+              <p className="text-sm text-gray-600">Back up this garage's setup or copy it to another site</p>
+            </div>
+          </div>
+          <button onClick={handleClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Modal Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+          {/* Export */}
+          {!isResetState && (
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-800">Export</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                <label className="text-sm text-gray-700">
+                  Special days from
+                  <input
+                    type="date"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  To
+                  <input
+                    type="date"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </label>
+                <button
+                  onClick={() => onExport(from, to)}
+                  disabled={loading || !!exportError}
+                  className="flex items-center justify-center gap-2 text-white py-2 px-4 rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+                  style={{ backgroundColor: BRAND_COLOR }}
+                >
+                  <Download className="w-4 h-4" />
+                  Download .json
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                The file contains every weekly pattern version, plus the special days and manual slots in this range.
+                Bookings and blocked slots are not included.
+              </p>
+              {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+            </div>
+          )}
+
+          {/* Import */}
+          {canImport && (
+            <div className={`space-y-3 ${isResetState ? "" : "pt-6 border-t border-gray-200"}`}>
+              <h4 className="font-medium text-gray-800">Import</h4>
+              <label className="block text-sm text-gray-700">
+                Configuration file
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleFileChange}
+                  className="mt-1 w-full text-sm file:mr-2 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700"
+                />
+              </label>
+
+              {errors.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+                  <p className="font-medium">{fileName} can't be imported:</p>
+                  {errors.map((error, index) => (
+                    <p key={index}>{error}</p>
+                  ))}
+                </div>
+              )}
+
+              {plan && counts && (
+                <>
+                  <p className="text-sm text-gray-600">
+                    {counts.patterns} pattern version(s), {counts.specialDays} special day(s) and {counts.manualSlots}{" "}
+                    day(s) of manual slots. Patterns replace this garage's versions where their dates overlap, and slots
+                    are generated {plan.daysToGenerate} days ahead.
+                  </p>
+
+                  {plan.bayMatches.length > 0 && (
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {plan.bayMatches.map((match) => (
+                        <span key={match.from} className="px-2 py-1 rounded bg-gray-100 text-gray-700">
+                          {match.from} → {match.to || "skipped"}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {plan.warnings.length > 0 && (
+                    <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 space-y-1">
+                      {plan.warnings.map((warning, index) => (
+                        <p key={index}>{warning}</p>
+                      ))}
+                    </div>
+                  )}
+
+                  {plan.items.length === 0 ? (
+                    <p className="text-sm text-gray-500">Nothing in {fileName} applies to this garage.</p>
+                  ) : (
+                    <div className="border border-gray-200 rounded-lg divide-y">
+                      {plan.items.map((item) => {
+                        const result = results?.[item.key]
+                        const { title, detail } = describeItem(item)
+                        return (
+                          <div key={item.key} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 text-sm">
+                            <label className="flex items-start gap-2 flex-1 min-w-0 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={selectedKeys.has(item.key)}
+                                onChange={() => toggleItem(item.key)}
+                                className="mt-1"
+                              />
+                              <div className="min-w-0">
+                                <div className="font-medium text-gray-800 truncate">{title}</div>
+                                <div className="text-xs text-gray-500">
+                                  {detail}
+                                  {item.bayName ? ` · ${item.bayName}` : item.kind === "pattern" ? " · All bays" : ""}
+                                </div>
+                              </div>
+                            </label>
+                            {result && (
+                              <span
+                                className={`flex items-center gap-1 text-xs ${
+                                  result.success ? "text-green-700" : "text-red-600"
+                                }`}
+                              >
+                                {result.success ? (
+                                  <CheckCircle className="w-3 h-3 shrink-0" />
+                                ) : (
+                                  <AlertCircle className="w-3 h-3 shrink-0" />
+                                )}
+                                {result.message}
+                              </span>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="border-t border-gray-200 p-4 md:p-6">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={handleClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              {results ? "Done" : "Cancel"}
+            </button>
+            {canImport && (
+              <button
+                onClick={() => plan && onApply(selectedItems, plan.daysToGenerate)}
+                disabled={loading || selectedItems.length === 0}
+                className="flex-1 flex items-center justify-center gap-2 text-white py-3 px-4 rounded-lg hover:opacity-90 transition-colors font-medium disabled:opacity-50"
+                style={{ backgroundColor: BRAND_COLOR }}
+              >
+                <Upload className="w-4 h-4" />
+                {loading ? "Importing..." : `Import ${selectedItems.length} Selected`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -5,68 +5,100 @@
  *
  * This comprehensive modal handles all slot-related operations including:
  * - Viewing existing slots with their status (available, blocked, booked)
+ * - Showing the customer, vehicle and MOT test type behind booked slots
+ * - Reassigning a booking to another free slot (booked slots are locked
+ *   against edit/block/delete until their booking has been moved)
  * - Editing individual slot times
  * - Blocking/unblocking slots
  * - Deleting slots
- * - Adding manual slots with overlap validation
+ * - Adding manual slots with overlap validation (to a chosen bay when the
+ *   garage has several)
  * - Replacing all slots for a date
  * - Removing all slots for a date
  * - Fully responsive design with scroll support
+ *
+ * Slots, bookings and the manual-slot draft are read from the schedule store.
+ * Edit, block and delete actions (and the manual slot section) are only shown
+ * to roles with the matching permission; anyone may reassign a booking.
  */
 
 import type React from "react"
-import { X, Plus, Minus, Trash2, AlertTriangle } from "lucide-react"
-import type { TimeSlot, EditingSlot } from "./types"
-import { BRAND_COLOR } from "./types"
+import { X, Plus, Minus, Trash2, AlertTriangle, User, Car, ArrowRightLeft } from "lucide-react"
+import type { RolePermissions } from "@/lib/garage-permissions"
+import type { TimeSlot, EditingSlot, SlotEditorState } from "./types"
+import { BRAND_COLOR, MOT_TEST_TYPE_LABELS } from "./types"
 import { formatTimeToAmPm } from "./utils"
 import { useState } from "react"
+import { useScheduleStore } from "./schedule-store"
 
 interface SlotManagementModalProps {
-  isOpen: boolean
-  onClose: () => void
-  selectedDate: string | null
-  daySlots: TimeSlot[]
-  manualSlots: TimeSlot[]
-  setManualSlots: (slots: TimeSlot[]) => void
-  editingSlot: EditingSlot | null
-  setEditingSlot: (slot: EditingSlot | null) => void
-  replaceAllSlots: boolean
-  setReplaceAllSlots: (replace: boolean) => void
-  loading: boolean
+  permissions: RolePermissions
   onUpdateSlot: (slotId: string, startTime: string, endTime: string) => void
   onToggleSlotBlock: (slotId: string, isBlocked: boolean) => void
   onDeleteSlot: (slotId: string) => void
+  onReassignBooking: (orderId: string, targetSlotId: string) => void
   onSaveManualSlots: () => void
   onRemoveAllSlots: (date: string) => void
 }
 
 export const SlotManagementModal: React.FC<SlotManagementModalProps> = ({
-  isOpen,
-  onClose,
-  selectedDate,
-  daySlots,
-  manualSlots,
-  setManualSlots,
-  editingSlot,
-  setEditingSlot,
-  replaceAllSlots,
-  setReplaceAllSlots,
-  loading,
+  permissions,
   onUpdateSlot,
   onToggleSlotBlock,
   onDeleteSlot,
+  onReassignBooking,
   onSaveManualSlots,
   onRemoveAllSlots,
 }) => {
+  const { state, dispatch } = useScheduleStore()
+  const { daySlots, bookings, bookingsLoading, bays, loading, conflictSlotId } = state
+  const isOpen = state.activeModal === "slots"
+  const selectedDate = state.selection.date
+  const { manualSlots, manualSlotsBayId, editingSlot, replaceAllSlots } = state.slotEditor
+
+  const update = (changes: Partial<SlotEditorState>) => dispatch({ type: "slotEditor/update", changes })
+  const onClose = () => dispatch({ type: "modal/close" })
+  const setManualSlots = (manualSlots: TimeSlot[]) => update({ manualSlots })
+  const setManualSlotsBayId = (manualSlotsBayId: string) => update({ manualSlotsBayId })
+  const setEditingSlot = (editingSlot: EditingSlot | null) => update({ editingSlot })
+  const setReplaceAllSlots = (replaceAllSlots: boolean) => update({ replaceAllSlots })
+
   const [showRemoveAllConfirm, setShowRemoveAllConfirm] = useState(false)
+  const [reassigningSlotId, setReassigningSlotId] = useState<string | null>(null)
+  const [reassignTargetId, setReassignTargetId] = useState("")
 
   if (!isOpen) return null
 
+  const canEdit = permissions["slots.edit"]
+  const canBlock = permissions["slots.block"]
+  const canDelete = permissions["slots.delete"]
+
+  const bookedSlotsCount = daySlots.filter((slot) => slot.order_id).length
+  const freeSlots = daySlots.filter((slot) => slot.id && !slot.order_id && !slot.is_blocked)
+
   const handleClose = () => {
     onClose()
     setEditingSlot(null)
     setReplaceAllSlots(false)
     setShowRemoveAllConfirm(false)
+    cancelReassign()
+  }
+
+  const startReassign = (slotId: string) => {
+    setEditingSlot(null)
+    setReassigningSlotId(slotId)
+    setReassignTargetId(freeSlots[0]?.id || "")
+  }
+
+  const cancelReassign = () => {
+    setReassigningSlotId(null)
+    setReassignTargetId("")
+  }
+
+  const confirmReassign = (orderId: string) => {
+    if (!reassignTargetId) return
+    onReassignBooking(orderId, reassignTargetId)
+    cancelReassign()
   }
 
   const addManualSlot = () => {
@@ -126,7 +158,7 @@ export const SlotManagementModal: React.FC<SlotManagementModalProps> = ({
           <div className="mb-6">
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
               <h4 className="text-lg font-medium text-gray-800">Existing Slots</h4>
-              {daySlots.length > 0 && (
+              {daySlots.length > 0 && canDelete && (
                 <button
                   onClick={() => setShowRemoveAllConfirm(true)}
                   disabled={loading}
@@ -153,10 +185,12 @@ export const SlotManagementModal: React.FC<SlotManagementModalProps> = ({
                     className={`border rounded-lg p-3 ${
                       slot.is_blocked
                         ? "bg-red-50 border-red-200"
-                        : slot.is_available
-                          ? "border-green-200"
-                          : "bg-gray-50 border-gray-200"
-                    }`}
+                        : slot.order_id
+                          ? "bg-blue-50 border-blue-200"
+                          : slot.is_available
+                            ? "border-green-200"
+                            : "bg-gray-50 border-gray-200"
+                    } ${slot.id && slot.id === conflictSlotId ? "ring-2 ring-red-500" : ""}`}
                     style={{
                       backgroundColor: slot.is_available && !slot.is_blocked ? `${BRAND_COLOR}10` : undefined,
                     }}
@@ -203,6 +237,11 @@ export const SlotManagementModal: React.FC<SlotManagementModalProps> = ({
                         <div className="flex items-center justify-between mb-2">
                           <span className="font-medium text-sm">
                             {formatTimeToAmPm(slot.start)} - {formatTimeToAmPm(slot.end)}
+                            {bays.length > 1 && slot.bay_id && (
+                              <span className="ml-2 text-xs font-normal text-gray-500">
+                                {bays.find((bay) => bay.id === slot.bay_id)?.name}
+                              </span>
+                            )}
                           </span>
                           <span
                             className={`text-xs px-2 py-1 rounded ${
@@ -220,36 +259,125 @@ export const SlotManagementModal: React.FC<SlotManagementModalProps> = ({
                           </span>
                         </div>
 
-                        {slot.is_available && slot.id && (
-                          <div className="grid grid-cols-3 gap-1">
-                            <button
-                              onClick={() => setEditingSlot({ id: slot.id!, start: slot.start, end: slot.end })}
-                              disabled={loading}
-                              className="text-xs px-2 py-1 rounded transition-colors bg-blue-100 text-blue-700 hover:bg-blue-200"
-                            >
-                              Edit
-                            </button>
-                            <button
-                              onClick={() => onToggleSlotBlock(slot.id!, slot.is_blocked || false)}
-                              disabled={loading}
-                              className={`text-xs px-2 py-1 rounded transition-colors ${
-                                slot.is_blocked
-                                  ? "text-white hover:opacity-80"
-                                  : "bg-red-100 text-red-700 hover:bg-red-200"
-                              }`}
-                              style={{
-                                backgroundColor: slot.is_blocked ? BRAND_COLOR : undefined,
-                              }}
-                            >
-                              {slot.is_blocked ? "Unblock" : "Block"}
-                            </button>
-                            <button
-                              onClick={() => onDeleteSlot(slot.id!)}
-                              disabled={loading}
-                              className="text-xs px-2 py-1 rounded transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200"
-                            >
-                              Delete
-                            </button>
+                        {slot.order_id && (
+                          <div className="space-y-2">
+                            {bookings[slot.order_id] ? (
+                              <div className="space-y-1 text-xs text-gray-700">
+                                <div className="flex items-center gap-2">
+                                  <User className="w-3 h-3 text-gray-500" />
+                                  <span className="font-medium">{bookings[slot.order_id].customer_name}</span>
+                                  {bookings[slot.order_id].customer_phone && (
+                                    <span className="text-gray-500">{bookings[slot.order_id].customer_phone}</span>
+                                  )}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <Car className="w-3 h-3 text-gray-500" />
+                                  <span className="px-1.5 py-0.5 rounded bg-yellow-300 font-mono font-bold text-gray-900 tracking-wide">
+                                    {bookings[slot.order_id].vehicle_registration}
+                                  </span>
+                                  {bookings[slot.order_id].vehicle_description && (
+                                    <span className="text-gray-500 truncate">
+                                      {bookings[slot.order_id].vehicle_description}
+                                    </span>
+                                  )}
+                                </div>
+                                <div className="text-gray-600">
+                                  MOT:{" "}
+                                  {MOT_TEST_TYPE_LABELS[bookings[slot.order_id].mot_test_type] ||
+                                    bookings[slot.order_id].mot_test_type}
+                                </div>
+                              </div>
+                            ) : (
+                              <p className="text-xs text-gray-500">
+                                {bookingsLoading ? "Loading booking details..." : "Booking details unavailable"}
+                              </p>
+                            )}
+
+                            {reassigningSlotId === slot.id ? (
+                              <div className="space-y-2 pt-2 border-t border-blue-200">
+                                {freeSlots.length === 0 ? (
+                                  <p className="text-xs text-gray-600">
+                                    No free slots on this date. Add a manual slot first to reassign this booking.
+                                  </p>
+                                ) : (
+                                  <select
+                                    value={reassignTargetId}
+                                    onChange={(e) => setReassignTargetId(e.target.value)}
+                                    className="w-full p-2 border border-gray-300 rounded text-sm focus:ring-2"
+                                  >
+                                    {freeSlots.map((freeSlot) => (
+                                      <option key={freeSlot.id} value={freeSlot.id}>
+                                        {formatTimeToAmPm(freeSlot.start)} - {formatTimeToAmPm(freeSlot.end)}
+                                      </option>
+                                    ))}
+                                  </select>
+                                )}
+                                <div className="flex gap-2">
+                                  <button
+                                    onClick={() => confirmReassign(slot.order_id!)}
+                                    disabled={loading || !reassignTargetId}
+                                    className="flex-1 text-xs px-2 py-1 rounded transition-colors text-white hover:opacity-80 disabled:opacity-50"
+                                    style={{ backgroundColor: BRAND_COLOR }}
+                                  >
+                                    Move Booking
+                                  </button>
+                                  <button
+                                    onClick={cancelReassign}
+                                    className="flex-1 text-xs px-2 py-1 rounded transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              <button
+                                onClick={() => startReassign(slot.id!)}
+                                disabled={loading || !slot.id}
+                                className="flex items-center justify-center gap-1 w-full text-xs px-2 py-1 rounded transition-colors bg-blue-100 text-blue-700 hover:bg-blue-200"
+                              >
+                                <ArrowRightLeft className="w-3 h-3" />
+                                Reassign Booking
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {!slot.order_id && slot.id && (canEdit || canBlock || canDelete) && (
+                          <div className="flex gap-1">
+                            {canEdit && (
+                              <button
+                                onClick={() => setEditingSlot({ id: slot.id!, start: slot.start, end: slot.end })}
+                                disabled={loading}
+                                className="flex-1 text-xs px-2 py-1 rounded transition-colors bg-blue-100 text-blue-700 hover:bg-blue-200"
+                              >
+                                Edit
+                              </button>
+                            )}
+                            {canBlock && (
+                              <button
+                                onClick={() => onToggleSlotBlock(slot.id!, slot.is_blocked || false)}
+                                disabled={loading}
+                                className={`flex-1 text-xs px-2 py-1 rounded transition-colors ${
+                                  slot.is_blocked
+                                    ? "text-white hover:opacity-80"
+                                    : "bg-red-100 text-red-700 hover:bg-red-200"
+                                }`}
+                                style={{
+                                  backgroundColor: slot.is_blocked ? BRAND_COLOR : undefined,
+                                }}
+                              >
+                                {slot.is_blocked ? "Unblock" : "Block"}
+                              </button>
+                            )}
+                            {canDelete && (
+                              <button
+                                onClick={() => onDeleteSlot(slot.id!)}
+                                disabled={loading}
+                                className="flex-1 text-xs px-2 py-1 rounded transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200"
+                              >
+                                Delete
+                              </button>
+                            )}
                           </div>
                         )}
                       </>
@@ -261,68 +389,94 @@ export const SlotManagementModal: React.FC<SlotManagementModalProps> = ({
           </div>
 
           {/* Manual Slot Creation Section */}
-          <div className="border-t pt-6">
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
-              <h4 className="text-lg font-medium text-gray-800">Add Manual Slots</h4>
-              <div className="flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  id="replaceAll"
-                  checked={replaceAllSlots}
-                  onChange={(e) => setReplaceAllSlots(e.target.checked)}
-                  className="rounded"
-                />
-                <label htmlFor="replaceAll" className="text-sm text-gray-600">
-                  Replace all existing slots
-                </label>
-              </div>
-            </div>
-
-            {replaceAllSlots && (
-              <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <p className="text-sm text-yellow-800">
-                  ⚠️ This will delete all existing slots for this date and replace them with the new ones below.
-                </p>
+          {canEdit && (
+            <div className="border-t pt-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+                <h4 className="text-lg font-medium text-gray-800">Add Manual Slots</h4>
+                {/* Replacing removes the existing slots, so it also takes slots.delete */}
+                {canDelete && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="replaceAll"
+                      checked={replaceAllSlots}
+                      onChange={(e) => setReplaceAllSlots(e.target.checked)}
+                      className="rounded"
+                    />
+                    <label htmlFor="replaceAll" className="text-sm text-gray-600">
+                      Replace all existing slots
+                    </label>
+                  </div>
+                )}
               </div>
-            )}
 
-            <div className="space-y-3">
-              {manualSlots.map((slot, index) => (
-                <div key={index} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg">
-                  <input
-                    type="time"
-                    value={slot.start}
-                    onChange={(e) => updateManualSlot(index, "start", e.target.value)}
-                    className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2"
-                    style={{ focusRingColor: BRAND_COLOR }}
-                  />
-                  <span className="text-gray-500 text-sm">to</span>
-                  <input
-                    type="time"
-                    value={slot.end}
-                    onChange={(e) => updateManualSlot(index, "end", e.target.value)}
-                    className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2"
-                    style={{ focusRingColor: BRAND_COLOR }}
-                  />
-                  <button
-                    onClick={() => removeManualSlot(index)}
-                    className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+              {bays.length > 1 && (
+                <div className="flex items-center gap-2 mb-4">
+                  <label htmlFor="manualSlotsBay" className="text-sm text-gray-600">
+                    Bay
+                  </label>
+                  <select
+                    id="manualSlotsBay"
+                    value={manualSlotsBayId}
+                    onChange={(e) => setManualSlotsBayId(e.target.value)}
+                    className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
                   >
-                    <Minus className="w-4 h-4" />
-                  </button>
+                    {bays.map((bay) => (
+                      <option key={bay.id} value={bay.id}>
+                        {bay.name}
+                      </option>
+                    ))}
+                  </select>
                 </div>
-              ))}
+              )}
 
-              <button
-                onClick={addManualSlot}
-                className="flex items-center gap-2 w-full p-3 border-2 border-dashed border-gray-300 rounded-lg hover:border-gray-400 transition-colors"
-                style={{ color: BRAND_COLOR }}
-              >
-                <Plus className="w-4 h-4" />
-                Add Another Slot
-              </button>
+              {replaceAllSlots && (
+                <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm text-yellow-800">
+                    ⚠️ This will delete all existing slots for this date and replace them with the new ones below.
+                    {bookedSlotsCount > 0 && ` ${bookedSlotsCount} booked slot(s) will be kept.`}
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                {manualSlots.map((slot, index) => (
+                  <div key={index} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg">
+                    <input
+                      type="time"
+                      value={slot.start}
+                      onChange={(e) => updateManualSlot(index, "start", e.target.value)}
+                      className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2"
+                      style={{ focusRingColor: BRAND_COLOR }}
+                    />
+                    <span className="text-gray-500 text-sm">to</span>
+                    <input
+                      type="time"
+                      value={slot.end}
+                      onChange={(e) => updateManualSlot(index, "end", e.target.value)}
+                      className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2"
+                      style={{ focusRingColor: BRAND_COLOR }}
+                    />
+                    <button
+                      onClick={() => removeManualSlot(index)}
+                      className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Minus className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+
+                <button
+                  onClick={addManualSlot}
+                  className="flex items-center gap-2 w-full p-3 border-2 border-dashed border-gray-300 rounded-lg hover:border-gray-400 transition-colors"
+                  style={{ color: BRAND_COLOR }}
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Another Slot
+                </button>
+              </div>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -334,14 +488,16 @@ export const SlotManagementModal: React.FC<SlotManagementModalProps> = ({
             >
               Close
             </button>
-            <button
-              onClick={onSaveManualSlots}
-              disabled={loading || manualSlots.length === 0}
-              className="flex-1 text-white py-3 px-4 rounded-lg hover:opacity-90 transition-colors font-medium disabled:opacity-50"
-              style={{ backgroundColor: BRAND_COLOR }}
-            >
-              {loading ? "Saving..." : replaceAllSlots ? "Replace All Slots" : "Add Manual Slots"}
-            </button>
+            {canEdit && (
+              <button
+                onClick={onSaveManualSlots}
+                disabled={loading || manualSlots.length === 0}
+                className="flex-1 text-white py-3 px-4 rounded-lg hover:opacity-90 transition-colors font-medium disabled:opacity-50"
+                style={{ backgroundColor: BRAND_COLOR }}
+              >
+                {loading ? "Saving..." : replaceAllSlots ? "Replace All Slots" : "Add Manual Slots"}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -357,8 +513,10 @@ export const SlotManagementModal: React.FC<SlotManagementModalProps> = ({
               <h4 className="text-lg font-semibold text-gray-800">Remove All Slots?</h4>
             </div>
             <p className="text-gray-600 mb-6">
-              This will permanently delete all time slots for {selectedDate && formatSelectedDate(selectedDate)}. This
-              action cannot be undone.
+              This will delete all time slots for {selectedDate && formatSelectedDate(selectedDate)}. You can bring them
+              back with Undo.
+              {bookedSlotsCount > 0 &&
+                ` ${bookedSlotsCount} booked slot(s) will be kept; reassign their bookings to remove them.`}
             </p>
             <div className="flex gap-3">
               <button
@@ -0,0 +1,143 @@
+"use client";
+
+/**
+ * Slot Timeline Component
+ *
+ * Renders a single day's actual slots on a horizontal time axis shared by
+ * the whole week, so gaps between slots are visible. Booked slots can be
+ * dragged onto any free slot (same or another day) to reschedule them.
+ */
+
+import type React from "react";
+import { useState } from "react";
+import type { TimeSlot, Booking } from "./types";
+import { BRAND_COLOR } from "./types";
+import { formatTimeToAmPm, timeToMinutes } from "./utils";
+
+const DRAG_DATA_TYPE = "application/x-garage-slot";
+
+export interface DraggedSlot {
+  date: string;
+  slotId: string;
+}
+
+interface SlotTimelineProps {
+  date: string;
+  slots: TimeSlot[];
+  bookings: { [orderId: string]: Booking };
+  rangeStart: number; // minutes since midnight
+  rangeEnd: number; // minutes since midnight
+  disabled: boolean;
+  highlightedSlotId?: string | null; // e.g. the slot a move clashed with
+  onMoveBooking: (source: DraggedSlot, target: DraggedSlot) => void;
+}
+
+export const SlotTimeline: React.FC<SlotTimelineProps> = ({
+  date,
+  slots,
+  bookings,
+  rangeStart,
+  rangeEnd,
+  disabled,
+  highlightedSlotId,
+  onMoveBooking,
+}) => {
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const rangeLength = Math.max(rangeEnd - rangeStart, 1);
+
+  const isFree = (slot: TimeSlot) =>
+    !!slot.id && !slot.order_id && !slot.is_blocked;
+
+  const getSlotColor = (slot: TimeSlot) => {
+    if (slot.is_blocked) return "#fca5a5"; // red-300
+    if (slot.order_id) return "#3b82f6"; // blue-500
+    return `${BRAND_COLOR}66`;
+  };
+
+  const getSlotTitle = (slot: TimeSlot) => {
+    const time = `${formatTimeToAmPm(slot.start)} - ${formatTimeToAmPm(
+      slot.end
+    )}`;
+    if (slot.is_blocked) return `${time} (Blocked)`;
+    if (slot.order_id) {
+      const booking = bookings[slot.order_id];
+      return booking
+        ? `${time}: ${booking.customer_name} (${booking.vehicle_registration}) - drag to reschedule`
+        : `${time} (Booked) - drag to reschedule`;
+    }
+    return `${time} (Available)`;
+  };
+
+  const handleDragStart = (e: React.DragEvent, slot: TimeSlot) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData(
+      DRAG_DATA_TYPE,
+      JSON.stringify({ date, slotId: slot.id } as DraggedSlot)
+    );
+  };
+
+  const handleDragOver = (e: React.DragEvent, slot: TimeSlot) => {
+    if (!isFree(slot) || !e.dataTransfer.types.includes(DRAG_DATA_TYPE)) {
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setDropTargetId(slot.id!);
+  };
+
+  const handleDrop = (e: React.DragEvent, slot: TimeSlot) => {
+    e.preventDefault();
+    setDropTargetId(null);
+
+    const raw = e.dataTransfer.getData(DRAG_DATA_TYPE);
+    if (!raw || !isFree(slot)) return;
+
+    const source = JSON.parse(raw) as DraggedSlot;
+    if (source.slotId === slot.id) return;
+
+    onMoveBooking(source, { date, slotId: slot.id! });
+  };
+
+  if (slots.length === 0) {
+    return <p className="text-xs text-gray-400">No slots</p>;
+  }
+
+  return (
+    <div className="relative h-6 rounded bg-gray-100">
+      {slots.map((slot, index) => {
+        const left =
+          ((timeToMinutes(slot.start) - rangeStart) / rangeLength) * 100;
+        const width =
+          ((timeToMinutes(slot.end) - timeToMinutes(slot.start)) /
+            rangeLength) *
+          100;
+        const isDraggable = !disabled && !!slot.order_id && !!slot.id;
+        const isDropTarget = dropTargetId === slot.id;
+
+        return (
+          <div
+            key={slot.id || index}
+            title={getSlotTitle(slot)}
+            draggable={isDraggable}
+            onDragStart={(e) => handleDragStart(e, slot)}
+            onDragOver={(e) => handleDragOver(e, slot)}
+            onDragLeave={() => setDropTargetId(null)}
+            onDrop={(e) => handleDrop(e, slot)}
+            className={`absolute top-0.5 bottom-0.5 rounded-sm border border-white transition-all ${
+              isDraggable ? "cursor-grab active:cursor-grabbing" : ""
+            } ${isDropTarget ? "ring-2 ring-blue-500 z-10" : ""} ${
+              slot.id && slot.id === highlightedSlotId
+                ? "ring-2 ring-red-500 z-10 animate-pulse"
+                : ""
+            }`}
+            style={{
+              left: `${left}%`,
+              width: `${width}%`,
+              backgroundColor: getSlotColor(slot),
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+};
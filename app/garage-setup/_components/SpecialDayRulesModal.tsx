@@ -0,0 +1,431 @@
+"use client"
+
+/**
+ * Special Day Rules Modal Component
+ *
+ * Manages recurring special-day rules such as Christmas Day every year,
+ * "last Monday of May" or every other Saturday. Each rule is expanded into
+ * individual special days up to the horizon; editing or deleting a rule
+ * updates the whole series.
+ */
+
+import type React from "react"
+import { useState } from "react"
+import { X, Repeat, Plus, Pencil, Trash2 } from "lucide-react"
+import type { RecurrencePattern, SpecialDayRule, SpecialDayRuleDay } from "@/lib/special-day-rules"
+import { describePattern, expandPattern, validateRule } from "@/lib/special-day-rules"
+import { getToday } from "@/lib/date-utils"
+import { BRAND_COLOR, DAYS, MONTHS } from "./types"
+import { formatTimeToAmPm } from "./utils"
+import { selectAppliesTo, useScheduleStore } from "./schedule-store"
+
+export type SpecialDayRuleDraft = Pick<SpecialDayRule, "name" | "pattern" | "day"> & { id?: string }
+
+interface SpecialDayRulesModalProps {
+  rules: SpecialDayRule[]
+  horizonEnd: string
+  onSaveRule: (draft: SpecialDayRuleDraft) => void
+  onDeleteRule: (ruleId: string) => void
+}
+
+const NTH_OPTIONS = [
+  { value: 1, label: "First" },
+  { value: 2, label: "Second" },
+  { value: 3, label: "Third" },
+  { value: 4, label: "Fourth" },
+  { value: -1, label: "Last" },
+]
+
+const DAY_TYPE_LABELS: { [type: string]: string } = {
+  HOLIDAY: "Holiday",
+  CLOSED: "Closed",
+  OPEN: "Special hours",
+}
+
+const createEmptyDraft = (): SpecialDayRuleDraft => ({
+  name: "",
+  pattern: { kind: "yearly_date", month: 12, day: 25 },
+  day: { type: "HOLIDAY" },
+})
+
+// Switching the recurrence kind keeps the fields the kinds have in common
+const convertPattern = (pattern: RecurrencePattern, kind: RecurrencePattern["kind"]): RecurrencePattern => {
+  const month = "month" in pattern ? pattern.month : 1
+  const weekday = "weekday" in pattern ? pattern.weekday : 1
+  switch (kind) {
+    case "yearly_date":
+      return { kind, month, day: 1 }
+    case "nth_weekday":
+      return { kind, month, weekday, nth: 1 }
+    case "weekly_interval":
+      return { kind, weekday: 6, interval: 2, anchor_date: "" }
+  }
+}
+
+export const SpecialDayRulesModal: React.FC<SpecialDayRulesModalProps> = ({
+  rules,
+  horizonEnd,
+  onSaveRule,
+  onDeleteRule,
+}) => {
+  const { state, dispatch } = useScheduleStore()
+  const isOpen = state.activeModal === "rules"
+  const onClose = () => dispatch({ type: "modal/close" })
+  const appliesTo = selectAppliesTo(state)
+  const loading = state.loading
+  const [draft, setDraft] = useState<SpecialDayRuleDraft | null>(null)
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+
+  if (!isOpen) return null
+
+  const today = getToday()
+  const draftError = draft ? validateRule(draft) : null
+  const upcomingDates = draft && !draftError ? expandPattern(draft.pattern, today, horizonEnd) : []
+
+  const updatePattern = (update: Partial<RecurrencePattern>) => {
+    setDraft((prev) => prev && { ...prev, pattern: { ...prev.pattern, ...update } as RecurrencePattern })
+  }
+
+  const updateDay = (update: Partial<SpecialDayRuleDay>) => {
+    setDraft((prev) => prev && { ...prev, day: { ...prev.day, ...update } })
+  }
+
+  const handleDayTypeChange = (type: SpecialDayRuleDay["type"]) => {
+    updateDay(
+      type === "OPEN"
+        ? { type, start_time: "10:00", end_time: "14:00", slot_duration: 60 }
+        : { type, start_time: undefined, end_time: undefined, slot_duration: undefined },
+    )
+  }
+
+  const handleEdit = (rule: SpecialDayRule) => {
+    setDraft({ id: rule.id, name: rule.name, pattern: rule.pattern, day: rule.day })
+  }
+
+  const handleSave = () => {
+    if (!draft || draftError) return
+    onSaveRule(draft)
+    setDraft(null)
+  }
+
+  const handleDeleteConfirm = (ruleId: string) => {
+    setConfirmDeleteId(null)
+    onDeleteRule(ruleId)
+  }
+
+  const formatDate = (dateStr: string) =>
+    new Date(`${dateStr}T00:00:00`).toLocaleDateString("en-GB", {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    })
+
+  const getDayDescription = (day: SpecialDayRuleDay) =>
+    day.type === "OPEN" && day.start_time && day.end_time
+      ? `${DAY_TYPE_LABELS.OPEN}: ${formatTimeToAmPm(day.start_time)} - ${formatTimeToAmPm(day.end_time)}`
+      : DAY_TYPE_LABELS[day.type]
+
+  return (
+    <div className="fixed inset-0 bg-black/80 bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg w-full max-w-3xl max-h-[95vh] overflow-hidden flex flex-col">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-4 md:p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg text-white" style={{ backgroundColor: BRAND_COLOR }}>
+              <Repeat className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="text-xl font-semibold text-gray-800">Recurring Special Days</h3>
+              <p className="text-sm text-gray-600">
+                Applied from today until {formatDate(horizonEnd)} · New rules apply to: {appliesTo}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Modal Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+          {/* Existing Rules */}
+          <div className="space-y-3">
+            {rules.length === 0 && !draft && (
+              <p className="text-sm text-gray-500 text-center py-4">
+                No recurring rules yet. Add one for annual holidays or regular closures.
+              </p>
+            )}
+            {rules.map((rule) => (
+              <div key={rule.id} className="p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-800">{rule.name}</div>
+                    <div className="text-sm text-gray-600">{describePattern(rule.pattern)}</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {getDayDescription(rule.day)} · {rule.applied_dates.length} date(s) applied
+                    </div>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <button
+                      onClick={() => handleEdit(rule)}
+                      disabled={loading}
+                      className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                      title="Edit series"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setConfirmDeleteId(rule.id)}
+                      disabled={loading}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Remove series"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {confirmDeleteId === rule.id && (
+                  <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm text-red-800 mb-2">
+                      Remove this rule and the upcoming special days it created? Past dates are kept.
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleDeleteConfirm(rule.id)}
+                        className="flex-1 text-xs px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700 transition-colors"
+                      >
+                        Remove Series
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="flex-1 text-xs px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Rule Editor */}
+          {draft ? (
+            <div className="border-t pt-6 space-y-4">
+              <h4 className="text-lg font-medium text-gray-800">{draft.id ? "Edit Rule" : "New Rule"}</h4>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Christmas Day"
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Repeats</label>
+                <select
+                  value={draft.pattern.kind}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      pattern: convertPattern(draft.pattern, e.target.value as RecurrencePattern["kind"]),
+                    })
+                  }
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="yearly_date">Every year on a fixed date</option>
+                  <option value="nth_weekday">Every year on a weekday of a month</option>
+                  <option value="weekly_interval">Every few weeks on a weekday</option>
+                </select>
+              </div>
+
+              {/* Recurrence Fields */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {draft.pattern.kind === "yearly_date" && (
+                  <>
+                    <input
+                      type="number"
+                      min={1}
+                      max={31}
+                      value={draft.pattern.day}
+                      onChange={(e) => updatePattern({ day: Number.parseInt(e.target.value) || 1 })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    />
+                    <select
+                      value={draft.pattern.month}
+                      onChange={(e) => updatePattern({ month: Number.parseInt(e.target.value) })}
+                      className="sm:col-span-2 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    >
+                      {MONTHS.map((month, index) => (
+                        <option key={month} value={index + 1}>
+                          {month}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+
+                {draft.pattern.kind === "nth_weekday" && (
+                  <>
+                    <select
+                      value={draft.pattern.nth}
+                      onChange={(e) => updatePattern({ nth: Number.parseInt(e.target.value) })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    >
+                      {NTH_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={draft.pattern.weekday}
+                      onChange={(e) => updatePattern({ weekday: Number.parseInt(e.target.value) })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    >
+                      {DAYS.map((day) => (
+                        <option key={day.value} value={day.value}>
+                          {day.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={draft.pattern.month}
+                      onChange={(e) => updatePattern({ month: Number.parseInt(e.target.value) })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    >
+                      {MONTHS.map((month, index) => (
+                        <option key={month} value={index + 1}>
+                          of {month}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+
+                {draft.pattern.kind === "weekly_interval" && (
+                  <>
+                    <select
+                      value={draft.pattern.interval}
+                      onChange={(e) => updatePattern({ interval: Number.parseInt(e.target.value) })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    >
+                      <option value={1}>Every week</option>
+                      <option value={2}>Every other week</option>
+                      <option value={3}>Every 3 weeks</option>
+                      <option value={4}>Every 4 weeks</option>
+                    </select>
+                    <select
+                      value={draft.pattern.weekday}
+                      onChange={(e) => updatePattern({ weekday: Number.parseInt(e.target.value) })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    >
+                      {DAYS.map((day) => (
+                        <option key={day.value} value={day.value}>
+                          on {day.label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="date"
+                      value={draft.pattern.anchor_date}
+                      onChange={(e) => updatePattern({ anchor_date: e.target.value })}
+                      title="First occurrence"
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    />
+                  </>
+                )}
+              </div>
+
+              {/* Day Settings */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <select
+                  value={draft.day.type}
+                  onChange={(e) => handleDayTypeChange(e.target.value as SpecialDayRuleDay["type"])}
+                  className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                >
+                  {Object.entries(DAY_TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                {draft.day.type === "OPEN" && (
+                  <>
+                    <input
+                      type="time"
+                      value={draft.day.start_time || ""}
+                      onChange={(e) => updateDay({ start_time: e.target.value })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    />
+                    <input
+                      type="time"
+                      value={draft.day.end_time || ""}
+                      onChange={(e) => updateDay({ end_time: e.target.value })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                    />
+                  </>
+                )}
+              </div>
+
+              {/* Upcoming Occurrences */}
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                {draftError ? (
+                  <p className="text-sm text-red-600">{draftError}</p>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-700 mb-2">
+                      {describePattern(draft.pattern)}: {upcomingDates.length} date(s) until {formatDate(horizonEnd)}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {upcomingDates.slice(0, 6).map((date) => (
+                        <span key={date} className="text-xs px-2 py-1 bg-white border border-gray-200 rounded">
+                          {formatDate(date)}
+                        </span>
+                      ))}
+                      {upcomingDates.length > 6 && (
+                        <span className="text-xs px-2 py-1 text-gray-500">+{upcomingDates.length - 6} more</span>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={loading || !!draftError}
+                  className="flex-1 text-white py-2 px-4 rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+                  style={{ backgroundColor: BRAND_COLOR }}
+                >
+                  {draft.id ? "Update Series" : "Apply Rule"}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setDraft(createEmptyDraft())}
+              disabled={loading}
+              className="w-full flex items-center justify-center gap-2 p-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-gray-400 hover:text-gray-800 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Add Recurring Rule
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
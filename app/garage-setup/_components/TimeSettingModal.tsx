@@ -5,41 +5,50 @@
  *
  * This modal allows users to configure working hours and slot duration
  * for specific dates. It shows a preview of generated slots and provides
- * facilities for custom time settings.
+ * facilities for custom time settings. Break windows split the day into
+ * several opening intervals (e.g. 08:00-12:30 and 13:30-17:30), and an
+ * optional buffer leaves turnaround time between consecutive slots.
+ * The draft hours live in the schedule store's timeEditor.
  */
 
 import type React from "react";
 import { useState, useEffect } from "react";
-import { X, Clock, Eye } from "lucide-react";
-import type { TimeSlot } from "./types";
-import { BRAND_COLOR } from "./types";
-import { generateTimeSlots, formatTimeToAmPm } from "./utils";
+import { X, Clock, Eye, Coffee, Plus, Minus } from "lucide-react";
+import type { TimeSlot, BreakWindow, TimeEditorState } from "./types";
+import { BRAND_COLOR, BUFFER_OPTIONS } from "./types";
+import { generateTimeSlots, formatTimeToAmPm, validateBreaks } from "./utils";
+import { useScheduleStore } from "./schedule-store";
 
 interface TimeSettingModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  timeSlots: TimeSlot[];
-  setTimeSlots: (slots: TimeSlot[]) => void;
-  slotDuration: number;
-  setSlotDuration: (duration: number) => void;
-  loading: boolean;
   onSave: () => void;
-  useCustomSlots: boolean; // Declare the useCustomSlots variable
 }
 
 export const TimeSettingModal: React.FC<TimeSettingModalProps> = ({
-  isOpen,
-  onClose,
-  timeSlots,
-  setTimeSlots,
-  slotDuration,
-  setSlotDuration,
-  loading,
   onSave,
-  useCustomSlots, // Use the useCustomSlots variable
 }) => {
-  const [startTime, setStartTime] = useState("09:00");
-  const [endTime, setEndTime] = useState("17:00");
+  const { state, dispatch } = useScheduleStore();
+  const isOpen = state.activeModal === "time";
+  const loading = state.loading;
+  const {
+    timeSlots,
+    slotDuration,
+    bufferMinutes,
+    startTime,
+    endTime,
+    breaks,
+    useCustomSlots,
+  } = state.timeEditor;
+
+  const update = (changes: Partial<TimeEditorState>) =>
+    dispatch({ type: "timeEditor/update", changes });
+  const onClose = () => dispatch({ type: "modal/close" });
+  const setTimeSlots = (timeSlots: TimeSlot[]) => update({ timeSlots });
+  const setSlotDuration = (slotDuration: number) => update({ slotDuration });
+  const setBufferMinutes = (bufferMinutes: number) => update({ bufferMinutes });
+  const setStartTime = (startTime: string) => update({ startTime });
+  const setEndTime = (endTime: string) => update({ endTime });
+  const setBreaks = (breaks: BreakWindow[]) => update({ breaks });
+
   const [previewSlots, setPreviewSlots] = useState<
     Array<{ start: string; end: string }>
   >([]);
@@ -55,22 +64,72 @@ export const TimeSettingModal: React.FC<TimeSettingModalProps> = ({
   // Generate preview slots when settings change
   useEffect(() => {
     if (startTime && endTime && slotDuration) {
-      const generated = generateTimeSlots(startTime, endTime, slotDuration);
+      const generated = generateTimeSlots(startTime, endTime, slotDuration, {
+        breaks,
+        bufferMinutes,
+      });
       setPreviewSlots(generated);
     }
-  }, [startTime, endTime, slotDuration]);
+  }, [startTime, endTime, slotDuration, breaks, bufferMinutes]);
 
   if (!isOpen) return null;
 
+  const breakError = validateBreaks(startTime, endTime, breaks);
+
+  // Buffers are the gaps between consecutive slots that no break accounts for
+  const bufferItems = previewSlots.slice(0, -1).flatMap((slot, index) => {
+    const next = previewSlots[index + 1];
+    const isBreakGap = breaks.some(
+      (window) => window.start_time < next.start && slot.end < window.end_time
+    );
+    return slot.end < next.start && !isBreakGap
+      ? [{ start: slot.end, end: next.start, kind: "buffer" as const }]
+      : [];
+  });
+
+  // Slots, buffers and breaks in time order so the preview shows where the gaps fall
+  const previewItems = [
+    ...previewSlots.map((slot) => ({ ...slot, kind: "slot" as const })),
+    ...bufferItems,
+    ...breaks.map((window) => ({
+      start: window.start_time,
+      end: window.end_time,
+      kind: "break" as const,
+    })),
+  ].sort((a, b) => a.start.localeCompare(b.start));
+
   const handleApplyGenerated = () => {
-    const generatedSlots = generateTimeSlots(startTime, endTime, slotDuration);
+    const generatedSlots = generateTimeSlots(startTime, endTime, slotDuration, {
+      breaks,
+      bufferMinutes,
+    });
     setTimeSlots(
       generatedSlots.map((slot) => ({ start: slot.start, end: slot.end }))
     );
   };
 
+  const handleAddBreak = () => {
+    setBreaks([...breaks, { start_time: "12:30", end_time: "13:30" }]);
+  };
+
+  const handleBreakChange = (
+    index: number,
+    field: "start_time" | "end_time",
+    value: string
+  ) => {
+    setBreaks(
+      breaks.map((window, i) =>
+        i === index ? { ...window, [field]: value } : window
+      )
+    );
+  };
+
+  const handleRemoveBreak = (index: number) => {
+    setBreaks(breaks.filter((_, i) => i !== index));
+  };
+
   const isValidTimeRange = () => {
-    return startTime < endTime && previewSlots.length > 0;
+    return startTime < endTime && previewSlots.length > 0 && !breakError;
   };
 
   return (
@@ -127,6 +186,53 @@ export const TimeSettingModal: React.FC<TimeSettingModalProps> = ({
               </div>
             </div>
 
+            {/* Break Windows */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Breaks
+              </label>
+              <div className="space-y-2">
+                {breaks.map((window, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Coffee className="w-4 h-4 text-gray-500 shrink-0" />
+                    <input
+                      type="time"
+                      value={window.start_time}
+                      onChange={(e) =>
+                        handleBreakChange(index, "start_time", e.target.value)
+                      }
+                      className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                    />
+                    <span className="text-gray-500">to</span>
+                    <input
+                      type="time"
+                      value={window.end_time}
+                      onChange={(e) =>
+                        handleBreakChange(index, "end_time", e.target.value)
+                      }
+                      className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                    />
+                    <button
+                      onClick={() => handleRemoveBreak(index)}
+                      className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Minus className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                {breakError && (
+                  <p className="text-xs text-red-600">{breakError}</p>
+                )}
+                <button
+                  onClick={handleAddBreak}
+                  className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add break
+                </button>
+              </div>
+            </div>
+
             {/* Slot Duration */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -149,6 +255,26 @@ export const TimeSettingModal: React.FC<TimeSettingModalProps> = ({
               </select>
             </div>
 
+            {/* Buffer Between Appointments */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Buffer Between Appointments
+              </label>
+              <select
+                value={bufferMinutes}
+                onChange={(e) =>
+                  setBufferMinutes(Number.parseInt(e.target.value))
+                }
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+              >
+                {BUFFER_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes === 0 ? "No buffer" : `${minutes} minutes`}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Slot Preview */}
             <div className="border border-gray-200 rounded-lg p-4">
               <div className="flex items-center gap-2 mb-3">
@@ -161,13 +287,21 @@ export const TimeSettingModal: React.FC<TimeSettingModalProps> = ({
 
               {previewSlots.length > 0 ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 max-h-40 overflow-y-auto">
-                  {previewSlots.map((slot, index) => (
+                  {previewItems.map((item, index) => (
                     <div
                       key={index}
-                      className="text-xs p-2 bg-gray-50 border border-gray-200 rounded text-center"
+                      className={`text-xs p-2 border rounded text-center ${
+                        item.kind === "break"
+                          ? "bg-amber-50 border-amber-200 text-amber-800"
+                          : item.kind === "buffer"
+                          ? "border-dashed border-gray-300 text-gray-400"
+                          : "bg-gray-50 border-gray-200"
+                      }`}
                     >
-                      {formatTimeToAmPm(slot.start)} -{" "}
-                      {formatTimeToAmPm(slot.end)}
+                      {item.kind === "break" && "Break: "}
+                      {item.kind === "buffer" && "Buffer: "}
+                      {formatTimeToAmPm(item.start)} -{" "}
+                      {formatTimeToAmPm(item.end)}
                     </div>
                   ))}
                 </div>
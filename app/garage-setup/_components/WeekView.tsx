@@ -5,34 +5,95 @@
  *
  * This component displays a weekly calendar view showing the current week's
  * schedule with day-by-day availability. It provides navigation controls
- * and quick actions for managing slots.
+ * and quick actions for managing slots. Each day's actual slots are drawn
+ * on a shared timeline where booked slots can be dragged to reschedule.
+ * With several bays and no bay filter, each day stacks one timeline per bay.
+ * Split shifts are listed interval by interval so breaks stay visible.
+ * Days following the weekly pattern name the pattern version governing them.
  */
 
 import type React from "react";
 import { ChevronLeft, ChevronRight, Settings, Calendar } from "lucide-react";
-import type { WeekDay } from "./types";
-import { BRAND_COLOR } from "./types";
-import { isToday, formatTimeToAmPm } from "./utils";
+import type { WeeklyPatternVersion } from "@/lib/garage-api";
+import type { WeekDay, TimeSlot, Booking, BayOption } from "./types";
+import { BRAND_COLOR, ALL_BAYS } from "./types";
+import {
+  isToday,
+  formatTimeToAmPm,
+  timeToMinutes,
+  minutesToTime,
+  getOpenIntervals,
+  formatVersionRange,
+  getPatternVersionColor,
+  getPatternVersionsForDate,
+} from "./utils";
+import { SlotTimeline, type DraggedSlot } from "./SlotTimeline";
 
 interface WeekViewProps {
   currentWeekIndex: number;
   currentWeekData: WeekDay[];
+  weekSlots: { [date: string]: TimeSlot[] };
+  bookings: { [orderId: string]: Booking };
+  bays: BayOption[];
+  selectedBayId: string;
+  patternVersions: WeeklyPatternVersion[];
   selectedCalendarDate: string | null;
   loading: boolean;
+  conflictSlotId: string | null;
   onPreviousWeek: () => void;
   onNextWeek: () => void;
   onManageSlots: (date: string) => void;
+  onMoveBooking: (source: DraggedSlot, target: DraggedSlot) => void;
 }
 
 export const WeekView: React.FC<WeekViewProps> = ({
   currentWeekIndex,
   currentWeekData,
+  weekSlots,
+  bookings,
+  bays,
+  selectedBayId,
+  patternVersions,
   selectedCalendarDate,
   loading,
+  conflictSlotId,
   onPreviousWeek,
   onNextWeek,
   onManageSlots,
+  onMoveBooking,
 }) => {
+  // Shared time axis for all day timelines so slots line up across the week
+  const allSlots = Object.values(weekSlots).flat();
+  const timelineStart = allSlots.length
+    ? Math.min(...allSlots.map((slot) => timeToMinutes(slot.start)))
+    : 8 * 60;
+  const timelineEnd = allSlots.length
+    ? Math.max(...allSlots.map((slot) => timeToMinutes(slot.end)))
+    : 18 * 60;
+
+  // Stack one timeline per bay when viewing every bay of a multi-bay garage
+  const stackByBay = selectedBayId === ALL_BAYS && bays.length > 1;
+  const getTimelineRows = (date: string) => {
+    const slots = weekSlots[date] || [];
+    if (!stackByBay) return [{ key: "all", label: null, slots }];
+
+    return bays.map((bay) => ({
+      key: bay.id,
+      label: bay.name,
+      slots: slots.filter((slot) => slot.bay_id === bay.id),
+    }));
+  };
+
+  // Pattern versions behind a day, unless a special day overrides the pattern
+  const getDayVersions = (dayData: WeekDay) =>
+    dayData.availability.source === "special_day"
+      ? []
+      : getPatternVersionsForDate(
+          patternVersions,
+          dayData.date,
+          selectedBayId === ALL_BAYS ? undefined : selectedBayId
+        );
+
   const getAvailabilityColor = (availability: WeekDay["availability"]) => {
     switch (availability.type) {
       case "working":
@@ -46,20 +107,31 @@ export const WeekView: React.FC<WeekViewProps> = ({
     }
   };
 
+  // Opening hours with breaks cut out, e.g. "8:00 AM - 12:30 PM, 1:30 PM - 5:30 PM"
+  const formatOpeningHours = (availability: WeekDay["availability"]) =>
+    getOpenIntervals(
+      availability.start_time!,
+      availability.end_time!,
+      availability.breaks
+    )
+      .map(
+        (interval) =>
+          `${formatTimeToAmPm(interval.start)} - ${formatTimeToAmPm(
+            interval.end
+          )}`
+      )
+      .join(", ");
+
   const getAvailabilityText = (availability: WeekDay["availability"]) => {
     switch (availability.type) {
       case "working":
         if (availability.start_time && availability.end_time) {
-          return `${formatTimeToAmPm(
-            availability.start_time
-          )} - ${formatTimeToAmPm(availability.end_time)}`;
+          return formatOpeningHours(availability);
         }
         return "Working Day";
       case "weekend":
         if (availability.start_time && availability.end_time) {
-          return `${formatTimeToAmPm(
-            availability.start_time
-          )} - ${formatTimeToAmPm(availability.end_time)}`;
+          return formatOpeningHours(availability);
         }
         return "Weekend Hours";
       case "holiday":
@@ -125,12 +197,19 @@ export const WeekView: React.FC<WeekViewProps> = ({
         </button>
       </div>
 
+      {allSlots.some((slot) => slot.order_id) && (
+        <p className="text-xs text-gray-500 mb-3">
+          Drag a booked slot (blue) onto a free slot to reschedule it.
+        </p>
+      )}
+
       {/* Week Days */}
       <div className="space-y-3 max-h-[60vh] overflow-y-auto">
         {currentWeekData.map((dayData, index) => {
           const isSelected = selectedCalendarDate === dayData.date;
           const isTodayDate = isToday(dayData.date);
           const availabilityColor = getAvailabilityColor(dayData.availability);
+          const dayVersions = getDayVersions(dayData);
 
           return (
             <div
@@ -170,12 +249,41 @@ export const WeekView: React.FC<WeekViewProps> = ({
                     <div
                       className="text-sm font-medium mb-1 truncate"
                       style={{ color: availabilityColor }}
+                      title={getAvailabilityText(dayData.availability)}
                     >
                       {getAvailabilityText(dayData.availability)}
                     </div>
                     {dayData.availability.slot_duration && (
                       <div className="text-xs text-gray-500">
                         {dayData.availability.slot_duration} min slots
+                        {!!dayData.availability.buffer_minutes &&
+                          ` + ${dayData.availability.buffer_minutes} min buffer`}
+                        {(dayData.availability.breaks || []).length > 0 &&
+                          ` · ${dayData.availability.breaks!.length} break${
+                            dayData.availability.breaks!.length > 1 ? "s" : ""
+                          }`}
+                      </div>
+                    )}
+                    {dayVersions.length > 0 && (
+                      <div
+                        className="flex items-center gap-1 mt-1 text-[11px] text-gray-500 truncate"
+                        title={dayVersions
+                          .map(
+                            (version) =>
+                              `${version.label}: ${formatVersionRange(version)}`
+                          )
+                          .join("\n")}
+                      >
+                        <div
+                          className="w-2 h-2 rounded-full shrink-0"
+                          style={{
+                            backgroundColor: getPatternVersionColor(
+                              patternVersions,
+                              dayVersions[0]
+                            ),
+                          }}
+                        />
+                        {dayVersions.map((version) => version.label).join(", ")}
                       </div>
                     )}
                   </div>
@@ -193,25 +301,58 @@ export const WeekView: React.FC<WeekViewProps> = ({
                 )}
               </div>
 
-              {/* Availability Indicator */}
-              <div className="mt-3">
-                <div className="h-1 rounded-full bg-gray-200">
-                  <div
-                    className="h-1 rounded-full transition-all duration-300"
-                    style={{
-                      backgroundColor: availabilityColor,
-                      width:
-                        dayData.availability.type === "working"
-                          ? "100%"
-                          : dayData.availability.type === "weekend"
-                          ? "60%"
-                          : dayData.availability.type === "holiday"
-                          ? "30%"
-                          : "0%",
-                    }}
-                  />
+              {/* Slot Timeline */}
+              {(weekSlots[dayData.date] || []).length > 0 ? (
+                <div className="mt-3 space-y-1">
+                  {getTimelineRows(dayData.date).map((row) => (
+                    <div key={row.key} className="flex items-center gap-2">
+                      {row.label && (
+                        <span className="w-12 shrink-0 text-[10px] text-gray-500 truncate">
+                          {row.label}
+                        </span>
+                      )}
+                      <div className="flex-1">
+                        <SlotTimeline
+                          date={dayData.date}
+                          slots={row.slots}
+                          bookings={bookings}
+                          rangeStart={timelineStart}
+                          rangeEnd={timelineEnd}
+                          disabled={loading}
+                          highlightedSlotId={conflictSlotId}
+                          onMoveBooking={onMoveBooking}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex justify-between mt-1 text-[10px] text-gray-400">
+                    <span>
+                      {formatTimeToAmPm(minutesToTime(timelineStart))}
+                    </span>
+                    <span>{formatTimeToAmPm(minutesToTime(timelineEnd))}</span>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                // Availability Indicator
+                <div className="mt-3">
+                  <div className="h-1 rounded-full bg-gray-200">
+                    <div
+                      className="h-1 rounded-full transition-all duration-300"
+                      style={{
+                        backgroundColor: availabilityColor,
+                        width:
+                          dayData.availability.type === "working"
+                            ? "100%"
+                            : dayData.availability.type === "weekend"
+                            ? "60%"
+                            : dayData.availability.type === "holiday"
+                            ? "30%"
+                            : "0%",
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           );
         })}
@@ -6,46 +6,152 @@
  * This modal handles the initial setup of weekly working patterns.
  * It's shown when the user is in a reset state (is_reset: true) and needs
  * to configure their basic 7-day working schedule with slot generation settings.
+ * Garages with several inspection bays get one pattern per bay, and each
+ * day can have break windows (split shifts such as a lunch break). A
+ * pattern-wide buffer (turnaround time) separates slots, and any day can
+ * override it. Saving needs the weeklyPattern.edit permission, and the
+ * Reset All button is only offered to roles with schedule.reset.
+ * Each save is a pattern version with effective dates (e.g. summer hours
+ * from 1 June to 31 August); the timeline lists the bay's versions, and
+ * editing one replaces just that version for that bay.
+ * Before an existing schedule is changed, a dry run lists the slots the save
+ * would add and remove, the blocks it would lift and the bookings that would
+ * no longer fit, and the save only goes ahead once that is confirmed.
+ * Reset All must be confirmed by typing RESET; the schedule is snapshotted
+ * first, and while the garage is reset the snapshot can be restored here,
+ * or another garage's exported configuration imported instead.
  */
 
 import type React from "react"
-import { useState } from "react"
-import { X, Clock, Calendar, RotateCcw, Settings } from "lucide-react"
-import type { WeeklyPatternSetup } from "./types"
-import { BRAND_COLOR, DAYS } from "./types"
+import { useEffect, useState } from "react"
+import {
+  X,
+  Clock,
+  Calendar,
+  RotateCcw,
+  Settings,
+  Copy,
+  Coffee,
+  Plus,
+  Minus,
+  Layers,
+  ClipboardList,
+  AlertTriangle,
+  History,
+  FileJson,
+} from "lucide-react"
+import type { WeeklyPatternVersion } from "@/lib/garage-api"
+import type { RolePermissions } from "@/lib/garage-permissions"
+import type { PatternImpact } from "@/lib/pattern-impact"
+import { type ScheduleSnapshot, summarizeSnapshot } from "@/lib/schedule-snapshot"
+import type { WeeklyPatternSetup, WeeklyPatternsByBay, BayOption, PatternVersionDraft } from "./types"
+import { BRAND_COLOR, DAYS, DEFAULT_BAY_KEY, BUFFER_OPTIONS } from "./types"
+import { formatShortDate, formatTimeToAmPm, getCurrentDate, toPatternSetup, validateBreaks } from "./utils"
+import { useScheduleStore } from "./schedule-store"
+import { PatternVersionTimeline } from "./PatternVersionTimeline"
 
 interface WeeklyPatternSetupModalProps {
-  isOpen: boolean
-  onClose: () => void
-  onSave: (pattern: WeeklyPatternSetup, daysToGenerate: number) => void
+  onPreview: (
+    patterns: WeeklyPatternsByBay,
+    daysToGenerate: number,
+    bufferMinutes: number,
+    version: PatternVersionDraft,
+  ) => Promise<PatternImpact | null>
+  onSave: (
+    patterns: WeeklyPatternsByBay,
+    daysToGenerate: number,
+    bufferMinutes: number,
+    version: PatternVersionDraft,
+  ) => void
+  onDeleteVersion: (version: WeeklyPatternVersion) => void
   onReset: () => void
-  loading: boolean
+  snapshot: ScheduleSnapshot | null // taken before the last reset
+  onRestore: () => void
+  onImportConfig: () => void
   isResetState: boolean
+  permissions: RolePermissions
 }
 
+const createDefaultPattern = (): WeeklyPatternSetup => ({
+  0: { enabled: false, start_time: "09:00", end_time: "17:00", slot_duration: 60, buffer_minutes: null, breaks: [] }, // Sunday
+  1: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60, buffer_minutes: null, breaks: [] }, // Monday
+  2: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60, buffer_minutes: null, breaks: [] }, // Tuesday
+  3: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60, buffer_minutes: null, breaks: [] }, // Wednesday
+  4: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60, buffer_minutes: null, breaks: [] }, // Thursday
+  5: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60, buffer_minutes: null, breaks: [] }, // Friday
+  6: { enabled: true, start_time: "09:00", end_time: "13:00", slot_duration: 60, buffer_minutes: null, breaks: [] }, // Saturday
+})
+
+// Word typed to confirm a reset
+const RESET_CONFIRMATION = "RESET"
+
+const createVersionDraft = (): PatternVersionDraft => ({
+  label: "",
+  effective_from: getCurrentDate(),
+  effective_to: null,
+  version_id: null,
+})
+
 export const WeeklyPatternSetupModal: React.FC<WeeklyPatternSetupModalProps> = ({
-  isOpen,
-  onClose,
+  onPreview,
   onSave,
+  onDeleteVersion,
   onReset,
-  loading,
+  snapshot,
+  onRestore,
+  onImportConfig,
   isResetState,
+  permissions,
 }) => {
-  const [pattern, setPattern] = useState<WeeklyPatternSetup>({
-    0: { enabled: false, start_time: "09:00", end_time: "17:00", slot_duration: 60 }, // Sunday
-    1: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60 }, // Monday
-    2: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60 }, // Tuesday
-    3: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60 }, // Wednesday
-    4: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60 }, // Thursday
-    5: { enabled: true, start_time: "09:00", end_time: "17:00", slot_duration: 60 }, // Friday
-    6: { enabled: true, start_time: "09:00", end_time: "13:00", slot_duration: 60 }, // Saturday
-  })
+  const { state, dispatch } = useScheduleStore()
+  const isOpen = state.activeModal === "weeklyPattern"
+  const onClose = () => dispatch({ type: "modal/close" })
+  const loading = state.loading
+  const bays = state.bays
+  const [patterns, setPatterns] = useState<WeeklyPatternsByBay>({})
+  const [activeBayKey, setActiveBayKey] = useState(DEFAULT_BAY_KEY)
 
   const [daysToGenerate, setDaysToGenerate] = useState(30)
+  const [bufferMinutes, setBufferMinutes] = useState(0)
   const [showResetConfirm, setShowResetConfirm] = useState(false)
+  const [resetConfirmText, setResetConfirmText] = useState("")
+  const [versionDraft, setVersionDraft] = useState<PatternVersionDraft>(createVersionDraft)
+  // Bay whose version is being edited; only that bay is saved
+  const [editingBayKey, setEditingBayKey] = useState<string | null>(null)
+  // Dry-run result awaiting confirmation
+  const [impact, setImpact] = useState<PatternImpact | null>(null)
+
+  // Every opening starts a new version from today
+  useEffect(() => {
+    if (!isOpen) return
+    setVersionDraft(createVersionDraft())
+    setEditingBayKey(null)
+    setImpact(null)
+  }, [isOpen])
 
   if (!isOpen) return null
 
+  const bayKeys = bays.length > 0 ? bays.map((bay) => bay.id) : [DEFAULT_BAY_KEY]
+  const currentBayKey = editingBayKey || (bayKeys.includes(activeBayKey) ? activeBayKey : bayKeys[0])
+  const bayVersions = state.patternVersions.filter(
+    (version) => currentBayKey === DEFAULT_BAY_KEY || version.bay_id === currentBayKey,
+  )
+  const pattern = patterns[currentBayKey] || createDefaultPattern()
+
+  const setPattern = (update: (prev: WeeklyPatternSetup) => WeeklyPatternSetup) => {
+    setPatterns((prev) => ({
+      ...prev,
+      [currentBayKey]: update(prev[currentBayKey] || createDefaultPattern()),
+    }))
+  }
+
+  const getAllPatterns = (): WeeklyPatternsByBay =>
+    Object.fromEntries(bayKeys.map((key) => [key, patterns[key] || createDefaultPattern()]))
+
+  const handleCopyToAllBays = () => {
+    setPatterns(Object.fromEntries(bayKeys.map((key) => [key, structuredClone(pattern)])))
+  }
+
   const handleDayToggle = (dayIndex: number) => {
     setPattern((prev) => ({
       ...prev,
@@ -76,16 +182,122 @@ export const WeeklyPatternSetupModal: React.FC<WeeklyPatternSetupModalProps> = (
     }))
   }
 
-  const handleSave = () => {
-    onSave(pattern, daysToGenerate)
+  const handleBufferChange = (dayIndex: number, value: number | null) => {
+    setPattern((prev) => ({
+      ...prev,
+      [dayIndex]: {
+        ...prev[dayIndex],
+        buffer_minutes: value,
+      },
+    }))
   }
 
+  const handleAddBreak = (dayIndex: number) => {
+    setPattern((prev) => ({
+      ...prev,
+      [dayIndex]: {
+        ...prev[dayIndex],
+        breaks: [...prev[dayIndex].breaks, { start_time: "12:30", end_time: "13:30" }],
+      },
+    }))
+  }
+
+  const handleBreakChange = (dayIndex: number, breakIndex: number, field: "start_time" | "end_time", value: string) => {
+    setPattern((prev) => ({
+      ...prev,
+      [dayIndex]: {
+        ...prev[dayIndex],
+        breaks: prev[dayIndex].breaks.map((window, index) =>
+          index === breakIndex ? { ...window, [field]: value } : window,
+        ),
+      },
+    }))
+  }
+
+  const handleRemoveBreak = (dayIndex: number, breakIndex: number) => {
+    setPattern((prev) => ({
+      ...prev,
+      [dayIndex]: {
+        ...prev[dayIndex],
+        breaks: prev[dayIndex].breaks.filter((_, index) => index !== breakIndex),
+      },
+    }))
+  }
+
+  const handleEditVersion = (version: WeeklyPatternVersion) => {
+    setPatterns((prev) => ({ ...prev, [currentBayKey]: toPatternSetup(version) }))
+    setBufferMinutes(version.buffer_minutes ?? 0)
+    setVersionDraft({
+      label: version.label,
+      effective_from: version.effective_from,
+      effective_to: version.effective_to,
+      version_id: version.id,
+    })
+    setEditingBayKey(currentBayKey)
+  }
+
+  const handleStopEditing = () => {
+    setVersionDraft(createVersionDraft())
+    setEditingBayKey(null)
+  }
+
+  const getPatternsToSave = (): WeeklyPatternsByBay =>
+    editingBayKey ? { [editingBayKey]: patterns[editingBayKey] || createDefaultPattern() } : getAllPatterns()
+
+  // First-time setup has no slots to compare against, so it saves straight away
+  const handleSave = async () => {
+    if (isResetState) {
+      onSave(getPatternsToSave(), daysToGenerate, bufferMinutes, versionDraft)
+      return
+    }
+    const result = await onPreview(getPatternsToSave(), daysToGenerate, bufferMinutes, versionDraft)
+    if (result) setImpact(result)
+  }
+
+  const handleConfirmSave = () => {
+    setImpact(null)
+    onSave(getPatternsToSave(), daysToGenerate, bufferMinutes, versionDraft)
+  }
+
+  const getBayName = (bayId: string | null) => bays.find((bay) => bay.id === bayId)?.name
+  const formatSlotTimes = (slot: { start_time: string; end_time: string }) =>
+    `${formatTimeToAmPm(slot.start_time)} - ${formatTimeToAmPm(slot.end_time)}`
+
   const handleResetConfirm = () => {
     setShowResetConfirm(false)
+    setResetConfirmText("")
     onReset()
   }
 
+  const handleResetCancel = () => {
+    setShowResetConfirm(false)
+    setResetConfirmText("")
+  }
+
+  // Restoring replays patterns, special days, slots and blocks
+  const canRestore =
+    permissions["weeklyPattern.edit"] &&
+    permissions["specialDays.edit"] &&
+    permissions["slots.edit"] &&
+    permissions["slots.block"]
+  const snapshotSummary = snapshot ? summarizeSnapshot(snapshot) : null
+
   const enabledDaysCount = Object.values(pattern).filter((day) => day.enabled).length
+  const hasAnyEnabledDay = Object.values(getAllPatterns()).some((bayPattern) =>
+    Object.values(bayPattern).some((day) => day.enabled),
+  )
+  const getBreakError = (dayIndex: number) =>
+    validateBreaks(pattern[dayIndex].start_time, pattern[dayIndex].end_time, pattern[dayIndex].breaks)
+  const hasInvalidBreaks = Object.values(getAllPatterns()).some((bayPattern) =>
+    Object.values(bayPattern).some((day) => day.enabled && validateBreaks(day.start_time, day.end_time, day.breaks)),
+  )
+  const dateError = !versionDraft.effective_from
+    ? "Please choose the date this pattern starts."
+    : versionDraft.effective_to && versionDraft.effective_to < versionDraft.effective_from
+      ? "The end date must not be before the start date."
+      : versionDraft.effective_to && versionDraft.effective_to < getCurrentDate()
+        ? "The end date must not be in the past."
+        : null
 
   const getDaysToGenerateLabel = (days: number) => {
     if (days === 1) return "1 day"
@@ -135,6 +347,41 @@ export const WeeklyPatternSetupModal: React.FC<WeeklyPatternSetupModalProps> = (
                 Set up your basic weekly schedule first. You can always modify individual days later or add special
                 hours for holidays and events.
               </p>
+              {permissions["weeklyPattern.edit"] && permissions["specialDays.edit"] && permissions["slots.edit"] && (
+                <button
+                  onClick={onImportConfig}
+                  className="mt-2 flex items-center gap-1 text-sm font-medium text-blue-800 hover:underline"
+                >
+                  <FileJson className="w-4 h-4" />
+                  Import another garage's configuration instead
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Restore Snapshot */}
+          {isResetState && snapshot && snapshotSummary && canRestore && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <div className="flex items-center gap-2 mb-2">
+                <History className="w-5 h-5 text-amber-600" />
+                <h4 className="font-medium text-amber-800">Restore Previous Schedule</h4>
+              </div>
+              <p className="text-sm text-amber-700 mb-3">
+                A snapshot was taken before the reset on{" "}
+                {new Date(snapshot.created_at).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })}:{" "}
+                {snapshotSummary.versions} pattern version(s), {snapshotSummary.specialDays} special day(s) and{" "}
+                {snapshotSummary.slots} slot(s), {snapshotSummary.blocked} of them blocked.
+                {snapshotSummary.bookings > 0 &&
+                  ` Its ${snapshotSummary.bookings} booking(s) can't be restored; their times come back as free slots.`}
+              </p>
+              <button
+                onClick={onRestore}
+                disabled={loading}
+                className="flex items-center gap-2 bg-amber-600 text-white py-2 px-4 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+              >
+                <History className="w-4 h-4" />
+                {loading ? "Restoring..." : "Restore Snapshot"}
+              </button>
             </div>
           )}
 
@@ -164,13 +411,135 @@ export const WeeklyPatternSetupModal: React.FC<WeeklyPatternSetupModalProps> = (
                   <div className="text-xs text-gray-500">Will generate slots from today forward</div>
                 </div>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Buffer Between Appointments</label>
+                <select
+                  value={bufferMinutes}
+                  onChange={(e) => setBufferMinutes(Number.parseInt(e.target.value))}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                >
+                  {BUFFER_OPTIONS.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? "No buffer" : `${minutes} minutes`}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Turnaround time for paperwork and clearing the bay</p>
+              </div>
             </div>
           </div>
 
+          {/* Effective Dates */}
+          <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <div className="flex items-center gap-2 mb-3">
+              <Layers className="w-5 h-5" style={{ color: BRAND_COLOR }} />
+              <h4 className="font-medium text-gray-800">Pattern Version</h4>
+            </div>
+            {editingBayKey && (
+              <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <p className="text-sm text-blue-700">
+                  Editing {versionDraft.label ? `"${versionDraft.label}"` : "a version"}
+                  {bays.length > 1 && ` for ${bays.find((bay) => bay.id === editingBayKey)?.name}`}. Saving replaces
+                  this version only.
+                </p>
+                <button
+                  onClick={handleStopEditing}
+                  className="text-sm text-blue-700 hover:text-blue-900 underline self-start sm:self-auto"
+                >
+                  New version instead
+                </button>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={versionDraft.label}
+                  onChange={(e) => setVersionDraft((prev) => ({ ...prev, label: e.target.value }))}
+                  placeholder="e.g. Summer hours"
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Effective From</label>
+                <input
+                  type="date"
+                  value={versionDraft.effective_from}
+                  onChange={(e) => setVersionDraft((prev) => ({ ...prev, effective_from: e.target.value }))}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Until (optional)</label>
+                <input
+                  type="date"
+                  value={versionDraft.effective_to || ""}
+                  min={versionDraft.effective_from}
+                  onChange={(e) => setVersionDraft((prev) => ({ ...prev, effective_to: e.target.value || null }))}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Leave "Until" empty to keep this pattern until a later version takes over. Versions it overlaps are cut
+              back to make room.
+            </p>
+            {dateError && <p className="text-xs text-red-600 mt-1">{dateError}</p>}
+
+            {!isResetState && (
+              <div className="mt-4">
+                <h5 className="text-sm font-medium text-gray-700 mb-2">
+                  Timeline
+                  {bays.length > 1 && ` - ${bays.find((bay) => bay.id === currentBayKey)?.name}`}
+                </h5>
+                <PatternVersionTimeline
+                  versions={bayVersions}
+                  allVersions={state.patternVersions}
+                  editingVersionId={versionDraft.version_id}
+                  canEdit={permissions["weeklyPattern.edit"]}
+                  disabled={loading}
+                  onEdit={handleEditVersion}
+                  onDelete={onDeleteVersion}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Bay Selection */}
+          {bays.length > 1 && !editingBayKey && (
+            <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="flex flex-wrap gap-2">
+                {bays.map((bay) => (
+                  <button
+                    key={bay.id}
+                    onClick={() => setActiveBayKey(bay.id)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      currentBayKey === bay.id ? "text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                    style={{ backgroundColor: currentBayKey === bay.id ? BRAND_COLOR : undefined }}
+                  >
+                    {bay.name}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleCopyToAllBays}
+                className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-800 transition-colors self-start sm:self-auto"
+              >
+                <Copy className="w-4 h-4" />
+                Copy to all bays
+              </button>
+            </div>
+          )}
+
           {/* Weekly Pattern Configuration */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
-              <h4 className="text-lg font-medium text-gray-800">Weekly Working Pattern</h4>
+              <h4 className="text-lg font-medium text-gray-800">
+                Weekly Working Pattern
+                {bays.length > 1 && ` - ${bays.find((bay) => bay.id === currentBayKey)?.name}`}
+              </h4>
               <div className="text-sm text-gray-600">{enabledDaysCount} of 7 days enabled</div>
             </div>
 
@@ -206,7 +575,7 @@ export const WeeklyPatternSetupModal: React.FC<WeeklyPatternSetupModalProps> = (
                   </div>
 
                   {pattern[day.value].enabled && (
-                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
                       <div>
                         <label className="block text-xs font-medium text-gray-600 mb-1">Start Time</label>
                         <input
@@ -243,6 +612,65 @@ export const WeeklyPatternSetupModal: React.FC<WeeklyPatternSetupModalProps> = (
                           <option value={120}>2 hours</option>
                         </select>
                       </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Buffer (min)</label>
+                        <select
+                          value={pattern[day.value].buffer_minutes ?? ""}
+                          onChange={(e) =>
+                            handleBufferChange(
+                              day.value,
+                              e.target.value === "" ? null : Number.parseInt(e.target.value),
+                            )
+                          }
+                          className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                        >
+                          <option value="">Default ({bufferMinutes} min)</option>
+                          {BUFFER_OPTIONS.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                              {minutes} minutes
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Break Windows */}
+                  {pattern[day.value].enabled && (
+                    <div className="mt-3 space-y-2">
+                      {pattern[day.value].breaks.map((window, breakIndex) => (
+                        <div key={breakIndex} className="flex items-center gap-2">
+                          <Coffee className="w-4 h-4 text-gray-500 shrink-0" />
+                          <span className="text-xs font-medium text-gray-600 w-10">Break</span>
+                          <input
+                            type="time"
+                            value={window.start_time}
+                            onChange={(e) => handleBreakChange(day.value, breakIndex, "start_time", e.target.value)}
+                            className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                          />
+                          <span className="text-gray-500">to</span>
+                          <input
+                            type="time"
+                            value={window.end_time}
+                            onChange={(e) => handleBreakChange(day.value, breakIndex, "end_time", e.target.value)}
+                            className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                          />
+                          <button
+                            onClick={() => handleRemoveBreak(day.value, breakIndex)}
+                            className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          >
+                            <Minus className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      {getBreakError(day.value) && <p className="text-xs text-red-600">{getBreakError(day.value)}</p>}
+                      <button
+                        onClick={() => handleAddBreak(day.value)}
+                        className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-800 transition-colors"
+                      >
+                        <Plus className="w-3 h-3" />
+                        Add break
+                      </button>
                     </div>
                   )}
                 </div>
@@ -262,18 +690,22 @@ export const WeeklyPatternSetupModal: React.FC<WeeklyPatternSetupModalProps> = (
                 >
                   Cancel
                 </button>
-                <button
-                  onClick={() => setShowResetConfirm(true)}
-                  className="flex items-center justify-center gap-2 bg-red-100 text-red-700 py-3 px-4 rounded-lg hover:bg-red-200 transition-colors font-medium"
-                >
-                  <RotateCcw className="w-4 h-4" />
-                  Reset All
-                </button>
+                {permissions["schedule.reset"] && (
+                  <button
+                    onClick={() => setShowResetConfirm(true)}
+                    className="flex items-center justify-center gap-2 bg-red-100 text-red-700 py-3 px-4 rounded-lg hover:bg-red-200 transition-colors font-medium"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Reset All
+                  </button>
+                )}
               </>
             )}
             <button
               onClick={handleSave}
-              disabled={loading || enabledDaysCount === 0}
+              disabled={
+                loading || !permissions["weeklyPattern.edit"] || !hasAnyEnabledDay || hasInvalidBreaks || !!dateError
+              }
               className="flex-1 text-white py-3 px-4 rounded-lg hover:opacity-90 transition-colors font-medium disabled:opacity-50 flex items-center justify-center gap-2"
               style={{ backgroundColor: BRAND_COLOR }}
             >
@@ -285,18 +717,122 @@ export const WeeklyPatternSetupModal: React.FC<WeeklyPatternSetupModalProps> = (
               ) : (
                 <>
                   <Calendar className="w-4 h-4" />
-                  {isResetState ? "Set Up Schedule" : "Update Pattern"}
+                  {isResetState ? "Set Up Schedule" : "Review Changes"}
                 </>
               )}
             </button>
           </div>
 
-          {enabledDaysCount === 0 && (
+          {!hasAnyEnabledDay && (
             <p className="text-sm text-red-600 text-center mt-2">Please enable at least one working day to continue.</p>
           )}
+          {hasAnyEnabledDay && hasInvalidBreaks && (
+            <p className="text-sm text-red-600 text-center mt-2">Please fix the break times before saving.</p>
+          )}
         </div>
       </div>
 
+      {/* Impact Preview */}
+      {impact && (
+        <div className="fixed inset-0 bg-black/90 bg-opacity-50 flex items-center justify-center p-4 z-60">
+          <div className="bg-white rounded-lg w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+            <div className="flex items-center gap-3 p-4 md:p-6 border-b border-gray-200">
+              <div className="p-2 rounded-lg text-white" style={{ backgroundColor: BRAND_COLOR }}>
+                <ClipboardList className="w-5 h-5" />
+              </div>
+              <div>
+                <h4 className="text-lg font-semibold text-gray-800">Review Changes</h4>
+                <p className="text-sm text-gray-600">What saving does to the slots of the next {daysToGenerate} days</p>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 md:p-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                {[
+                  { label: "Slots added", value: impact.added, color: BRAND_COLOR },
+                  { label: "Slots removed", value: impact.removed, color: "#ef4444" },
+                  { label: "Blocks lifted", value: impact.unblocked, color: "#f59e0b" },
+                  { label: "Bookings affected", value: impact.conflicts, color: "#3b82f6" },
+                ].map((item) => (
+                  <div key={item.label} className="p-3 border border-gray-200 rounded-lg text-center">
+                    <div className="text-2xl font-bold" style={{ color: item.value > 0 ? item.color : "#9ca3af" }}>
+                      {item.value}
+                    </div>
+                    <div className="text-xs text-gray-600">{item.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {impact.conflicts > 0 && (
+                <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex gap-2">
+                  <AlertTriangle className="w-4 h-4 text-blue-600 shrink-0 mt-0.5" />
+                  <p className="text-sm text-blue-700">
+                    Bookings are kept, but {impact.conflicts} of them no longer match a slot of the new pattern. Move
+                    them from the week view after saving.
+                  </p>
+                </div>
+              )}
+              {impact.specialDays > 0 && (
+                <p className="mb-4 text-sm text-gray-600">
+                  Special days keep their own hours: {impact.specialDays} in this range are left as they are.
+                </p>
+              )}
+
+              {impact.days.length === 0 ? (
+                <p className="text-sm text-gray-600 text-center py-6">
+                  This pattern doesn't change any slots in the next {daysToGenerate} days.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {impact.days.map((day) => (
+                    <div key={`${day.date}-${day.bayId}`} className="p-3 border border-gray-200 rounded-lg">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-800">
+                          {formatShortDate(day.date)}
+                          {getBayName(day.bayId) && (
+                            <span className="font-normal text-gray-500"> · {getBayName(day.bayId)}</span>
+                          )}
+                        </span>
+                        <span className="flex flex-wrap justify-end gap-2 text-xs">
+                          {day.added.length > 0 && <span className="text-green-700">+{day.added.length} slots</span>}
+                          {day.removed.length > 0 && <span className="text-red-600">-{day.removed.length} slots</span>}
+                          {day.unblocked.length > 0 && (
+                            <span className="text-amber-600">{day.unblocked.length} unblocked</span>
+                          )}
+                          {day.specialDay && <span className="text-gray-500">Special day</span>}
+                        </span>
+                      </div>
+                      {day.conflicts.map((slot) => (
+                        <p key={slot.id} className="mt-1 text-xs text-blue-700">
+                          Booking at {formatSlotTimes(slot)} no longer fits the new slots
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-3 border-t border-gray-200 p-4 md:p-6">
+              <button
+                onClick={() => setImpact(null)}
+                className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleConfirmSave}
+                disabled={loading}
+                className="flex-1 text-white py-2 px-4 rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+                style={{ backgroundColor: BRAND_COLOR }}
+              >
+                {editingBayKey ? "Update Version" : "Save Pattern"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Reset Confirmation Modal */}
       {showResetConfirm && (
         <div className="fixed inset-0 bg-black/90 bg-opacity-50 flex items-center justify-center p-4 z-60">
@@ -307,20 +843,35 @@ export const WeeklyPatternSetupModal: React.FC<WeeklyPatternSetupModalProps> = (
               </div>
               <h4 className="text-lg font-semibold text-gray-800">Reset All Schedules?</h4>
             </div>
-            <p className="text-gray-600 mb-6">
-              This will permanently delete all your weekly patterns, special days, holidays, and time slots. This action
-              cannot be undone.
+            <p className="text-gray-600 mb-3">
+              This will permanently delete all your weekly patterns, special days, holidays, and time slots.
             </p>
+            <p className="text-sm text-gray-600 mb-4">
+              A snapshot of the schedule is saved in this browser first, so it can be restored afterwards. Bookings
+              can't be restored.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Type <span className="font-mono font-semibold">{RESET_CONFIRMATION}</span> to confirm
+            </label>
+            <input
+              type="text"
+              value={resetConfirmText}
+              onChange={(e) => setResetConfirmText(e.target.value)}
+              className="w-full p-2 mb-6 border border-gray-300 rounded-lg font-mono focus:ring-2"
+              autoFocus
+              autoComplete="off"
+              aria-label={`Type ${RESET_CONFIRMATION} to confirm`}
+            />
             <div className="flex gap-3">
               <button
-                onClick={() => setShowResetConfirm(false)}
+                onClick={handleResetCancel}
                 className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors"
               >
                 Cancel
               </button>
               <button
                 onClick={handleResetConfirm}
-                disabled={loading}
+                disabled={loading || resetConfirmText !== RESET_CONFIRMATION}
                 className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
               >
                 {loading ? "Resetting..." : "Reset All"}
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  type ScheduleAction,
+  createInitialScheduleState,
+  scheduleReducer,
+} from "./schedule-store";
+
+const reduce = (...actions: ScheduleAction[]) =>
+  actions.reduce(scheduleReducer, createInitialScheduleState());
+
+describe("scheduleReducer", () => {
+  // West of UTC, reading YYYY-MM-DD as UTC midnight lands on the day before
+  const timeZone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = "America/New_York";
+  });
+  afterAll(() => {
+    process.env.TZ = timeZone;
+  });
+
+  it("shows a date in its own month", () => {
+    const state = reduce({ type: "navigation/showDate", date: "2026-11-01" });
+    expect(state.navigation).toEqual({ month: 10, year: 2026, weekIndex: 0 });
+    expect(state.selection.calendarDate).toBe("2026-11-01");
+  });
+
+  it("shows a date in the week starting on the Sunday before it", () => {
+    // August 2026 begins on a Saturday, so Sunday the 2nd starts week 1
+    expect(
+      reduce({ type: "navigation/showDate", date: "2026-08-01" }).navigation
+    ).toEqual({ month: 7, year: 2026, weekIndex: 0 });
+    expect(
+      reduce({ type: "navigation/showDate", date: "2026-08-02" }).navigation
+    ).toEqual({ month: 7, year: 2026, weekIndex: 1 });
+    expect(
+      reduce({ type: "navigation/showDate", date: "2026-08-31" }).navigation
+    ).toEqual({ month: 7, year: 2026, weekIndex: 5 });
+  });
+
+  it("moves to the previous month's last week", () => {
+    const state = reduce(
+      { type: "navigation/goTo", month: 0, year: 2027, weekIndex: 0 },
+      { type: "navigation/previousWeek" }
+    );
+    expect(state.navigation).toEqual({ month: 11, year: 2026, weekIndex: 4 });
+  });
+
+  it("merges auth, overview and setup changes", () => {
+    const state = reduce(
+      { type: "auth/update", changes: { restoring: false } },
+      { type: "overview/update", changes: { open: true } },
+      { type: "setup/update", changes: { initialized: true } }
+    );
+    expect(state.auth).toEqual({
+      session: null,
+      restoring: false,
+      authenticated: false,
+      notice: null,
+    });
+    expect(state.overview).toEqual({ open: true, garages: {}, loading: false });
+    expect(state.setup).toEqual({
+      initialized: true,
+      isReset: false,
+      checkingReset: false,
+    });
+  });
+
+  it("keeps each kind of import result separately", () => {
+    const ics = { "event-1": { success: true, message: "Imported" } };
+    const state = reduce(
+      { type: "importResults/set", kind: "ics", results: ics },
+      { type: "importResults/set", kind: "config", results: null }
+    );
+    expect(state.importResults).toEqual({ ics, config: null });
+  });
+
+  it("sets garage-specific state aside on switching and restores it", () => {
+    const availability = { "2026-10-19": { type: "holiday" as const } };
+    const state = reduce(
+      { type: "garage/switch", garageId: "garage-1" },
+      { type: "availability/merge", availability },
+      { type: "garage/switch", garageId: "garage-2" }
+    );
+    expect(state.availability).toEqual({});
+
+    const back = scheduleReducer(state, {
+      type: "garage/switch",
+      garageId: "garage-1",
+    });
+    expect(back.availability).toEqual(availability);
+  });
+});
@@ -0,0 +1,540 @@
+"use client";
+
+/**
+ * Schedule Store
+ *
+ * Single reducer holding the garage setup page's session, navigation,
+ * selection, availability, slot and modal state, and the page-level panels
+ * (overview, import results, previews), shared through context so the views
+ * and modals read and update it directly. Updates are typed actions applied
+ * to the latest state, so async handlers never write back a stale copy of
+ * availability captured in a closure. Selectors derive what the week and
+ * month views show.
+ *
+ * With several garages, the garage-specific part of the state (bay filter,
+ * schedule, slots, bookings, bays, pattern versions) is set aside on switching and restored
+ * when the user comes back to that garage.
+ */
+
+import type React from "react";
+import { createContext, useContext, useMemo, useReducer } from "react";
+import type { WeeklyPatternVersion } from "@/lib/garage-api";
+import { parseDateStr } from "@/lib/date-utils";
+import type { ScheduleSnapshot } from "@/lib/schedule-snapshot";
+import type { SpecialDayRule } from "@/lib/special-day-rules";
+import type {
+  AuthState,
+  BankHolidayPreview,
+  BayOption,
+  Booking,
+  DayAvailability,
+  GarageOption,
+  GarageScheduleState,
+  ImportResultsState,
+  OverviewState,
+  ScheduleLocation,
+  ScheduleModal,
+  ScheduleState,
+  SetupState,
+  SlotEditorState,
+  TimeEditorState,
+  TimeSlot,
+} from "./types";
+import { ALL_BAYS } from "./types";
+import type { DraggedSlot } from "./SlotTimeline";
+import {
+  generateWeekData,
+  getTotalWeeksInMonth,
+  getWeekIndexForDate,
+  getWeekStartDate,
+} from "./utils";
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+export type ScheduleAction =
+  // Garages
+  | { type: "garages/set"; garages: GarageOption[] }
+  | { type: "garage/switch"; garageId: string | null }
+  // Navigation
+  | { type: "navigation/setWeek"; weekIndex: number }
+  | { type: "navigation/setMonth"; month: number }
+  | { type: "navigation/setYear"; year: number }
+  | { type: "navigation/goTo"; month: number; year: number; weekIndex: number }
+  | { type: "navigation/previousWeek" }
+  | { type: "navigation/nextWeek" }
+  | { type: "navigation/showDate"; date: string } // highlight and show its week
+  | { type: "navigation/restore"; location: ScheduleLocation } // from the URL
+  // Selection
+  | {
+      type: "selection/openDate";
+      date: string;
+      dayType: ScheduleState["selection"]["dayType"];
+    }
+  | { type: "selection/setDate"; date: string | null }
+  | { type: "selection/setCalendarDate"; date: string | null }
+  | { type: "selection/setBay"; bayId: string }
+  // Availability
+  | {
+      type: "availability/merge";
+      availability: { [date: string]: DayAvailability };
+    }
+  | { type: "availability/setDay"; date: string; availability: DayAvailability }
+  | { type: "availability/clearDates"; dates: string[] }
+  | { type: "availability/reset" }
+  // Slots and bookings
+  | { type: "slots/setWeek"; weekSlots: { [date: string]: TimeSlot[] } }
+  | { type: "slots/setWeekDate"; date: string; slots: TimeSlot[] }
+  | { type: "slots/setDay"; slots: TimeSlot[] }
+  | { type: "slots/updateDaySlot"; slotId: string; changes: Partial<TimeSlot> }
+  | { type: "slots/removeDaySlot"; slotId: string }
+  | { type: "slots/keepBookedDaySlots" }
+  | {
+      type: "slots/moveBooking";
+      source: DraggedSlot;
+      target: DraggedSlot;
+      orderId: string;
+    }
+  | { type: "bookings/merge"; bookings: { [orderId: string]: Booking } }
+  | { type: "bookings/setLoading"; loading: boolean }
+  | { type: "bays/set"; bays: BayOption[] }
+  | { type: "patternVersions/set"; versions: WeeklyPatternVersion[] }
+  // UI
+  | { type: "ui/setLoading"; loading: boolean }
+  | { type: "ui/setConflict"; slotId: string | null }
+  | { type: "modal/open"; modal: ScheduleModal }
+  | { type: "modal/close" }
+  | { type: "timeEditor/update"; changes: Partial<TimeEditorState> }
+  | { type: "slotEditor/update"; changes: Partial<SlotEditorState> }
+  // Session, setup and page-level panels
+  | { type: "auth/update"; changes: Partial<AuthState> }
+  | { type: "overview/update"; changes: Partial<OverviewState> }
+  | { type: "setup/update"; changes: Partial<SetupState> }
+  | { type: "specialDayRules/set"; rules: SpecialDayRule[] }
+  | { type: "snapshot/set"; snapshot: ScheduleSnapshot | null }
+  | { type: "bankHolidays/setPreview"; preview: BankHolidayPreview | null }
+  | {
+      type: "importResults/set";
+      kind: keyof ImportResultsState;
+      results: ImportResultsState[keyof ImportResultsState];
+    };
+
+export function createInitialScheduleState(): ScheduleState {
+  const today = new Date();
+  return {
+    garageId: null,
+    garages: [],
+    garageStates: {},
+    navigation: {
+      weekIndex: 0,
+      month: today.getMonth(),
+      year: today.getFullYear(),
+    },
+    selection: {
+      date: null,
+      dayType: "working",
+      calendarDate: null,
+      bayId: ALL_BAYS,
+    },
+    availability: {},
+    weekSlots: {},
+    daySlots: [],
+    bookings: {},
+    bookingsLoading: false,
+    bays: [],
+    patternVersions: [],
+    loading: false,
+    conflictSlotId: null,
+    activeModal: null,
+    timeEditor: {
+      timeSlots: [{ start: "10:00", end: "18:00" }],
+      slotDuration: 60,
+      bufferMinutes: 0,
+      startTime: "09:00",
+      endTime: "17:00",
+      breaks: [],
+      useCustomSlots: false,
+    },
+    slotEditor: {
+      manualSlots: [{ start: "10:00", end: "11:00" }],
+      manualSlotsBayId: "",
+      editingSlot: null,
+      replaceAllSlots: false,
+    },
+    auth: {
+      session: null,
+      restoring: true,
+      authenticated: false,
+      notice: null,
+    },
+    overview: { open: false, garages: {}, loading: false },
+    setup: { initialized: false, isReset: false, checkingReset: false },
+    specialDayRules: [],
+    scheduleSnapshot: null,
+    bankHolidayPreview: null,
+    importResults: { ics: null, config: null },
+  };
+}
+
+// ============================================================================
+// REDUCER
+// ============================================================================
+
+function emptyGarageState(): GarageScheduleState {
+  return {
+    bayId: ALL_BAYS,
+    availability: {},
+    weekSlots: {},
+    bookings: {},
+    bays: [],
+    patternVersions: [],
+  };
+}
+
+function navigate(
+  state: ScheduleState,
+  navigation: Partial<ScheduleState["navigation"]>
+): ScheduleState {
+  return { ...state, navigation: { ...state.navigation, ...navigation } };
+}
+
+export function scheduleReducer(
+  state: ScheduleState,
+  action: ScheduleAction
+): ScheduleState {
+  const { navigation, selection } = state;
+
+  switch (action.type) {
+    case "garages/set":
+      // A new garage list means a new session; earlier garages' state is stale
+      return { ...state, garages: action.garages, garageStates: {} };
+    case "garage/switch": {
+      if (action.garageId === state.garageId) return state;
+      const garageStates = { ...state.garageStates };
+      if (state.garageId) {
+        garageStates[state.garageId] = {
+          bayId: selection.bayId,
+          availability: state.availability,
+          weekSlots: state.weekSlots,
+          bookings: state.bookings,
+          bays: state.bays,
+          patternVersions: state.patternVersions,
+        };
+      }
+      const { bayId, ...restored } =
+        (action.garageId && garageStates[action.garageId]) ||
+        emptyGarageState();
+      return {
+        ...state,
+        ...restored,
+        garageId: action.garageId,
+        garageStates,
+        selection: { ...selection, date: null, bayId },
+        daySlots: [],
+        conflictSlotId: null,
+        activeModal: null,
+      };
+    }
+
+    case "navigation/setWeek":
+      return navigate(state, { weekIndex: action.weekIndex });
+    case "navigation/setMonth":
+      return navigate(state, { month: action.month, weekIndex: 0 });
+    case "navigation/setYear":
+      return navigate(state, { year: action.year, weekIndex: 0 });
+    case "navigation/goTo":
+      return navigate(state, {
+        month: action.month,
+        year: action.year,
+        weekIndex: action.weekIndex,
+      });
+    case "navigation/previousWeek": {
+      if (navigation.weekIndex > 0) {
+        return navigate(state, { weekIndex: navigation.weekIndex - 1 });
+      }
+      const month = navigation.month === 0 ? 11 : navigation.month - 1;
+      const year =
+        navigation.month === 0 ? navigation.year - 1 : navigation.year;
+      return navigate(state, {
+        month,
+        year,
+        weekIndex: getTotalWeeksInMonth(month, year, state.availability) - 1,
+      });
+    }
+    case "navigation/nextWeek": {
+      const totalWeeks = selectTotalWeeks(state);
+      if (navigation.weekIndex < totalWeeks - 1) {
+        return navigate(state, { weekIndex: navigation.weekIndex + 1 });
+      }
+      return navigate(state, {
+        month: navigation.month === 11 ? 0 : navigation.month + 1,
+        year: navigation.month === 11 ? navigation.year + 1 : navigation.year,
+        weekIndex: 0,
+      });
+    }
+    case "navigation/showDate": {
+      const target = parseDateStr(action.date);
+      const month = target.getMonth();
+      const year = target.getFullYear();
+      return {
+        ...navigate(state, {
+          month,
+          year,
+          weekIndex: getWeekIndexForDate(
+            action.date,
+            month,
+            year,
+            state.availability
+          ),
+        }),
+        selection: { ...selection, calendarDate: action.date },
+      };
+    }
+    case "navigation/restore": {
+      const { date, ...location } = action.location;
+      return {
+        ...navigate(state, location),
+        selection: { ...selection, calendarDate: date },
+      };
+    }
+
+    case "selection/openDate":
+      return {
+        ...state,
+        selection: {
+          ...selection,
+          date: action.date,
+          calendarDate: action.date,
+          dayType: action.dayType,
+        },
+      };
+    case "selection/setDate":
+      return { ...state, selection: { ...selection, date: action.date } };
+    case "selection/setCalendarDate":
+      return {
+        ...state,
+        selection: { ...selection, calendarDate: action.date },
+      };
+    case "selection/setBay":
+      // Drop the previous bay's schedule; the page reloads it for the new filter
+      return {
+        ...state,
+        selection: { ...selection, bayId: action.bayId, calendarDate: null },
+        availability: {},
+        weekSlots: {},
+      };
+
+    case "availability/merge":
+      return {
+        ...state,
+        availability: { ...state.availability, ...action.availability },
+      };
+    case "availability/setDay":
+      return {
+        ...state,
+        availability: {
+          ...state.availability,
+          [action.date]: action.availability,
+        },
+      };
+    case "availability/clearDates": {
+      const availability = { ...state.availability };
+      action.dates.forEach((date) => delete availability[date]);
+      return { ...state, availability };
+    }
+    case "availability/reset":
+      return { ...state, availability: {}, weekSlots: {} };
+
+    case "slots/setWeek":
+      return { ...state, weekSlots: action.weekSlots };
+    case "slots/setWeekDate":
+      // Only dates of the visible week are kept in weekSlots
+      return action.date in state.weekSlots
+        ? {
+            ...state,
+            weekSlots: { ...state.weekSlots, [action.date]: action.slots },
+          }
+        : state;
+    case "slots/setDay":
+      return { ...state, daySlots: action.slots };
+    case "slots/updateDaySlot":
+      return {
+        ...state,
+        daySlots: state.daySlots.map((slot) =>
+          slot.id === action.slotId ? { ...slot, ...action.changes } : slot
+        ),
+      };
+    case "slots/removeDaySlot":
+      return {
+        ...state,
+        daySlots: state.daySlots.filter((slot) => slot.id !== action.slotId),
+      };
+    case "slots/keepBookedDaySlots":
+      return {
+        ...state,
+        daySlots: state.daySlots.filter((slot) => slot.order_id),
+      };
+    case "slots/moveBooking": {
+      const { source, target, orderId } = action;
+      const weekSlots = { ...state.weekSlots };
+      weekSlots[source.date] = (weekSlots[source.date] || []).map((slot) =>
+        slot.id === source.slotId
+          ? { ...slot, order_id: null, is_available: true }
+          : slot
+      );
+      weekSlots[target.date] = (weekSlots[target.date] || []).map((slot) =>
+        slot.id === target.slotId
+          ? { ...slot, order_id: orderId, is_available: false }
+          : slot
+      );
+      return { ...state, weekSlots };
+    }
+    case "bookings/merge":
+      return { ...state, bookings: { ...state.bookings, ...action.bookings } };
+    case "bookings/setLoading":
+      return { ...state, bookingsLoading: action.loading };
+    case "bays/set":
+      return { ...state, bays: action.bays };
+    case "patternVersions/set":
+      return { ...state, patternVersions: action.versions };
+
+    case "ui/setLoading":
+      return { ...state, loading: action.loading };
+    case "ui/setConflict":
+      return { ...state, conflictSlotId: action.slotId };
+    case "modal/open":
+      return { ...state, activeModal: action.modal };
+    case "modal/close":
+      return { ...state, activeModal: null };
+    case "timeEditor/update":
+      return {
+        ...state,
+        timeEditor: { ...state.timeEditor, ...action.changes },
+      };
+    case "slotEditor/update":
+      return {
+        ...state,
+        slotEditor: { ...state.slotEditor, ...action.changes },
+      };
+
+    case "auth/update":
+      return { ...state, auth: { ...state.auth, ...action.changes } };
+    case "overview/update":
+      return { ...state, overview: { ...state.overview, ...action.changes } };
+    case "setup/update":
+      return { ...state, setup: { ...state.setup, ...action.changes } };
+    case "specialDayRules/set":
+      return { ...state, specialDayRules: action.rules };
+    case "snapshot/set":
+      return { ...state, scheduleSnapshot: action.snapshot };
+    case "bankHolidays/setPreview":
+      return { ...state, bankHolidayPreview: action.preview };
+    case "importResults/set":
+      return {
+        ...state,
+        importResults: {
+          ...state.importResults,
+          [action.kind]: action.results,
+        },
+      };
+  }
+}
+
+// ============================================================================
+// SELECTORS
+// ============================================================================
+
+// Bay filter passed to the API (undefined = every bay / garage-wide)
+export const selectBayParam = (state: ScheduleState): string | undefined =>
+  state.selection.bayId === ALL_BAYS ? undefined : state.selection.bayId;
+
+// "Applies to" label shown by the modals that write special days
+export const selectAppliesTo = (state: ScheduleState): string =>
+  state.bays.find((bay) => bay.id === state.selection.bayId)?.name ||
+  "Whole garage";
+
+export const selectWeekStartDate = (state: ScheduleState): string =>
+  getWeekStartDate(
+    state.navigation.weekIndex,
+    state.navigation.month,
+    state.navigation.year
+  );
+
+export const selectTotalWeeks = (state: ScheduleState): number =>
+  getTotalWeeksInMonth(
+    state.navigation.month,
+    state.navigation.year,
+    state.availability
+  );
+
+// Where the schedule is, as mirrored in the URL (see schedule-url)
+export const selectScheduleLocation = (
+  state: ScheduleState
+): ScheduleLocation => ({
+  ...state.navigation,
+  date: state.selection.calendarDate,
+});
+
+// Days of the visible week with their availability, for the week view
+export const selectCurrentWeekData = (state: ScheduleState) =>
+  generateWeekData(
+    state.navigation.weekIndex,
+    state.navigation.month,
+    state.navigation.year,
+    state.availability
+  );
+
+// First and last date of the visible month (YYYY-MM-DD)
+export const selectMonthRange = (
+  state: ScheduleState
+): { from: string; to: string } => {
+  const { month, year } = state.navigation;
+  const prefix = `${year}-${String(month + 1).padStart(2, "0")}`;
+  return {
+    from: `${prefix}-01`,
+    to: `${prefix}-${new Date(year, month + 1, 0).getDate()}`,
+  };
+};
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+interface ScheduleStore {
+  state: ScheduleState;
+  dispatch: React.Dispatch<ScheduleAction>;
+}
+
+const ScheduleStoreContext = createContext<ScheduleStore | null>(null);
+
+export const ScheduleStoreProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [state, dispatch] = useReducer(
+    scheduleReducer,
+    undefined,
+    createInitialScheduleState
+  );
+  const store = useMemo(() => ({ state, dispatch }), [state]);
+
+  return (
+    <ScheduleStoreContext.Provider value={store}>
+      {children}
+    </ScheduleStoreContext.Provider>
+  );
+};
+
+/**
+ * Read the schedule state and dispatch actions from any component below
+ * ScheduleStoreProvider
+ */
+export function useScheduleStore(): ScheduleStore {
+  const store = useContext(ScheduleStoreContext);
+  if (!store) {
+    throw new Error(
+      "useScheduleStore must be used inside ScheduleStoreProvider"
+    );
+  }
+  return store;
+}
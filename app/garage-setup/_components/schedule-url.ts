@@ -0,0 +1,92 @@
+/**
+ * Schedule URL
+ *
+ * The visible month, week and highlighted date are mirrored in the page's
+ * search params, e.g. /garage-setup?month=2026-03&week=2&date=2026-03-14, so
+ * a refresh keeps the user's place and a link opens the same week for a
+ * colleague. A link may also give just a date, which opens its week.
+ */
+
+import type { ScheduleLocation } from "./types";
+import { getTotalWeeksInMonth, getWeekIndexForDate } from "./utils";
+
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function parseDate(value: string | null): string | null {
+  const match = value?.match(DATE_PATTERN);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day
+    ? value!
+    : null;
+}
+
+/**
+ * Read a schedule location from search params, or null when they don't name
+ * one. Out-of-range weeks are clamped to the month.
+ */
+export function parseScheduleLocation(
+  params: URLSearchParams
+): ScheduleLocation | null {
+  const date = parseDate(params.get("date"));
+  const monthMatch = params.get("month")?.match(MONTH_PATTERN);
+
+  let month: number;
+  let year: number;
+  if (monthMatch && Number(monthMatch[2]) >= 1 && Number(monthMatch[2]) <= 12) {
+    year = Number(monthMatch[1]);
+    month = Number(monthMatch[2]) - 1;
+  } else if (date) {
+    year = Number(date.slice(0, 4));
+    month = Number(date.slice(5, 7)) - 1;
+  } else {
+    return null;
+  }
+
+  const totalWeeks = getTotalWeeksInMonth(month, year, {});
+  const week = Number.parseInt(params.get("week") || "", 10);
+  let weekIndex = 0;
+  if (!Number.isNaN(week)) {
+    weekIndex = Math.min(Math.max(week - 1, 0), totalWeeks - 1);
+  } else if (
+    date &&
+    date.startsWith(`${year}-${String(month + 1).padStart(2, "0")}`)
+  ) {
+    weekIndex = getWeekIndexForDate(date, month, year, {});
+  }
+
+  return { month, year, weekIndex, date };
+}
+
+/**
+ * Search string for a schedule location (week is 1-based in the URL). Other
+ * params already in `current` are kept.
+ */
+export function toScheduleSearch(
+  location: ScheduleLocation,
+  current?: URLSearchParams
+): string {
+  const params = new URLSearchParams(current);
+  params.set(
+    "month",
+    `${location.year}-${String(location.month + 1).padStart(2, "0")}`
+  );
+  params.set("week", String(location.weekIndex + 1));
+  if (location.date) {
+    params.set("date", location.date);
+  } else {
+    params.delete("date");
+  }
+  return params.toString();
+}
+
+/**
+ * Whether two locations show the same week (the highlighted date may differ)
+ */
+export function isSameWeek(a: ScheduleLocation, b: ScheduleLocation): boolean {
+  return (
+    a.month === b.month && a.year === b.year && a.weekIndex === b.weekIndex
+  );
+}
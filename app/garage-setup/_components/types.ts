@@ -6,12 +6,74 @@
  * Updated to include reset state, onboarding types, and daysToGenerate.
  */
 
+import type {
+  Slot,
+  SpecialDayResponse,
+  WeekScheduleDay,
+  WeeklyPatternDay,
+  WeeklyPatternRequest,
+  WeeklyPatternResponse,
+  WeeklyPatternVersion,
+} from "@/lib/garage-api"
+import type { Session } from "@/lib/garage-auth"
+import type { ScheduleSnapshot } from "@/lib/schedule-snapshot"
+import type { SpecialDayRule } from "@/lib/special-day-rules"
+
 export interface TimeSlot {
   id?: string
   start: string
   end: string
   is_available?: boolean
   is_blocked?: boolean
+  order_id?: string | null
+  bay_id?: string | null
+}
+
+// Break window inside a day's opening hours (e.g. lunch); no slots fall inside it
+export interface BreakWindow {
+  start_time: string
+  end_time: string
+}
+
+// Inspection bay (MOT lane) a pattern, special day or slot belongs to
+export interface BayOption {
+  id: string
+  name: string
+}
+
+// MOT centre the signed-in user can switch to
+export interface GarageOption {
+  id: string
+  name: string
+}
+
+// Garage-specific part of the schedule state, set aside while another garage
+// is shown (navigation and the highlighted date carry over between garages)
+export interface GarageScheduleState {
+  bayId: string
+  availability: { [date: string]: DayAvailability }
+  weekSlots: { [date: string]: TimeSlot[] }
+  bookings: { [orderId: string]: Booking }
+  bays: BayOption[]
+  patternVersions: WeeklyPatternVersion[]
+}
+
+// One garage's row in the all-sites overview: its week schedule and how many
+// slots each day has free, booked and blocked
+export interface GarageWeekOverview {
+  days: WeekScheduleDay[]
+  slotCounts: { [date: string]: { free: number; booked: number; blocked: number } }
+  error?: string
+}
+
+// Booking shown against a booked slot (order_id set)
+export interface Booking {
+  order_id: string
+  customer_name: string
+  customer_phone?: string | null
+  vehicle_registration: string
+  vehicle_description?: string | null
+  mot_test_type: string
 }
 
 export interface DayAvailability {
@@ -20,7 +82,10 @@ export interface DayAvailability {
   start_time?: string | null
   end_time?: string | null
   slot_duration?: number | null
+  buffer_minutes?: number | null
+  breaks?: BreakWindow[]
   description?: string
+  source?: WeekScheduleDay["source"] // special days override the weekly pattern
 }
 
 export interface WeekDay {
@@ -36,9 +101,33 @@ export interface EditingSlot {
   end: string
 }
 
+// Bank holiday in the "apply for year" preview; existing_type is set when the
+// date already has a special-day override and will be skipped
+export interface BankHolidayPreviewItem {
+  date: string
+  title: string
+  existing_type: string | null
+}
+
+export interface BankHolidayPreview {
+  region: string
+  year: number
+  items: BankHolidayPreviewItem[]
+}
+
+// Outcome of one item of a bulk .ics import, keyed by the import item's key
+export interface IcsImportResult {
+  success: boolean
+  message: string
+}
+
+// Outcome of one item of a configuration (.json) import, keyed the same way
+export type ConfigImportResult = IcsImportResult
+
 // Reset State Types
 export interface ResetState {
   is_reset: boolean
+  generated_through?: string | null
 }
 
 export interface ResetResult {
@@ -56,75 +145,128 @@ export interface WeeklyPatternSetup {
     start_time: string
     end_time: string
     slot_duration: number
+    buffer_minutes: number | null // null = use the pattern-wide buffer
+    breaks: BreakWindow[]
   }
 }
 
-// API-compatible types that match the new backend structure
-export interface ApiWeeklyPatternDay {
-  day_of_week: number
-  type: "OPEN" | "CLOSED"
-  start_time?: string
-  end_time?: string
-  slot_duration?: number
-}
-
-export interface ApiWeeklyPatternRequest {
-  pattern: ApiWeeklyPatternDay[]
-  daysToGenerate: number
-}
-
-export interface ApiWeeklyPatternResponse {
-  schedules: Array<{
-    id: string
-    garage_id: string
-    event_date: string
-    day_of_week: number
-    is_recurring: boolean
-    type: "OPEN" | "CLOSED"
-    start_time: string | null
-    end_time: string | null
-    slot_duration: number | null
-  }>
-  is_reset: boolean
+// One weekly pattern per bay, keyed by bay id (DEFAULT_BAY_KEY for single-lane garages)
+export interface WeeklyPatternsByBay {
+  [bayId: string]: WeeklyPatternSetup
 }
 
-export interface ApiWeekScheduleDay {
-  date: string
-  day_of_week: number
-  schedule: {
-    id: string
-    type: "OPEN" | "CLOSED" | "HOLIDAY"
-    start_time: string | null
-    end_time: string | null
-    slot_duration: number | null
-    is_recurring: boolean
-  } | null
-  source: "weekly_pattern" | "special_day" | "no_schedule"
-}
-
-export interface ApiSpecialDay {
-  id: string
-  garage_id: string
-  event_date: string
-  type: "HOLIDAY" | "OPEN"
-  start_time?: string | null
-  end_time?: string | null
-  slot_duration?: number | null
-  is_recurring: boolean
-  day_of_week: number
+// Name and effective dates (inclusive) of the weekly pattern being saved
+export interface PatternVersionDraft {
+  label: string
+  effective_from: string
+  effective_to: string | null // null = open-ended
+  version_id: string | null // the version being edited, if any
 }
 
-export interface ApiSlot {
-  id: string
-  garage_id: string
-  date: string
-  start_time: string
-  end_time: string
-  is_available: boolean
-  is_blocked: boolean
-  order_id: string | null
+// Schedule Store Types (see schedule-store.tsx)
+export type ScheduleModal =
+  "time" | "slots" | "rules" | "bankHolidays" | "export" | "import" | "config" | "weeklyPattern"
+
+// Place in the schedule a URL points at (see schedule-url.ts)
+export interface ScheduleLocation {
+  month: number // 0-based
+  year: number
+  weekIndex: number
+  date: string | null // highlighted calendar date
+}
+
+// Draft working hours edited in the time setting modal
+export interface TimeEditorState {
+  timeSlots: TimeSlot[]
+  slotDuration: number
+  bufferMinutes: number
+  startTime: string
+  endTime: string
+  breaks: BreakWindow[]
+  useCustomSlots: boolean
+}
+
+// Draft manual slots and the slot being edited in the slot management modal
+export interface SlotEditorState {
+  manualSlots: TimeSlot[]
+  manualSlotsBayId: string
+  editingSlot: EditingSlot | null
+  replaceAllSlots: boolean
+}
+
+// Signed-in session (see lib/garage-auth)
+export interface AuthState {
+  session: Session | null
+  restoring: boolean // reading the stored session on first load
+  authenticated: boolean
+  notice: string | null // why the user has to sign in (again)
+}
+
+// All-sites overview (group operators with several garages)
+export interface OverviewState {
+  open: boolean
+  garages: { [garageId: string]: GarageWeekOverview }
+  loading: boolean
+}
+
+// Whether the garage has a schedule yet, or must set up a weekly pattern
+export interface SetupState {
+  initialized: boolean
+  isReset: boolean
+  checkingReset: boolean
+}
+
+// Per-item outcomes of the latest .ics and configuration imports
+export interface ImportResultsState {
+  ics: { [key: string]: IcsImportResult } | null
+  config: { [key: string]: ConfigImportResult } | null
+}
+
+export interface ScheduleState {
+  garageId: string | null // null = the token's own garage (single-site backends)
+  garages: GarageOption[]
+  garageStates: { [garageId: string]: GarageScheduleState }
+  navigation: {
+    weekIndex: number // week of the month shown in the week view
+    month: number // 0-based
+    year: number
+  }
+  selection: {
+    date: string | null // date open in the time/slot modals
+    dayType: "working" | "weekend" | "holiday"
+    calendarDate: string | null // date highlighted in the calendar
+    bayId: string // ALL_BAYS or a bay id
+  }
+  availability: { [date: string]: DayAvailability }
+  weekSlots: { [date: string]: TimeSlot[] }
+  daySlots: TimeSlot[]
+  bookings: { [orderId: string]: Booking }
+  bookingsLoading: boolean
+  bays: BayOption[]
+  patternVersions: WeeklyPatternVersion[] // of every bay, by bay and date
+  loading: boolean
+  conflictSlotId: string | null // slot a rejected change clashed with
+  activeModal: ScheduleModal | null
+  timeEditor: TimeEditorState
+  slotEditor: SlotEditorState
+  auth: AuthState
+  overview: OverviewState
+  setup: SetupState
+  specialDayRules: SpecialDayRule[] // kept client-side, see lib/special-day-rules
+  scheduleSnapshot: ScheduleSnapshot | null // taken before the latest reset
+  bankHolidayPreview: BankHolidayPreview | null
+  importResults: ImportResultsState
 }
 
+// API-compatible types, derived from the API client's zod response schemas
+// (lib/garage-api-schemas.ts) so they cannot drift from the backend contract
+export type ApiWeeklyPatternDay = WeeklyPatternDay
+export type ApiWeeklyPatternRequest = WeeklyPatternRequest
+export type ApiWeeklyPatternResponse = WeeklyPatternResponse
+export type ApiWeekScheduleDay = WeekScheduleDay
+export type ApiSpecialDay = SpecialDayResponse
+export type ApiSlot = Slot
+
 // Constants used across components
 export const DAYS = [
   { value: 0, label: "Sunday" },
@@ -151,4 +293,29 @@ export const MONTHS = [
   "December",
 ]
 
+export const MOT_TEST_TYPE_LABELS: { [key: string]: string } = {
+  CLASS_1: "Class 1 (Motorcycle)",
+  CLASS_2: "Class 2 (Motorcycle with sidecar)",
+  CLASS_3: "Class 3 (3-wheeled vehicle)",
+  CLASS_4: "Class 4 (Car)",
+  CLASS_5: "Class 5 (Private passenger vehicle)",
+  CLASS_7: "Class 7 (Goods vehicle 3-3.5t)",
+  RETEST: "Retest",
+}
+
+// Turnaround time choices between appointments, in minutes
+export const BUFFER_OPTIONS = [0, 5, 10, 15, 20, 30]
+
+// Longest date range exported to .ics or .json in one go (one slot request per day)
+export const MAX_EXPORT_DAYS = 92
+
+// Bay filter value meaning "every bay"
+export const ALL_BAYS = "all"
+
+// Pattern key used when the garage has no bays configured
+export const DEFAULT_BAY_KEY = "default"
+
 export const BRAND_COLOR = "#19CA32"
+
+// Colours telling weekly pattern versions apart, assigned by label
+export const PATTERN_VERSION_COLORS = ["#6366f1", "#0ea5e9", "#d946ef", "#14b8a6", "#f97316", "#64748b"]
@@ -3,6 +3,17 @@
  * Updated to fix date alignment issues between calendar and week view
  */
 
+import type { WeeklyPatternDay, WeeklyPatternVersion } from "@/lib/garage-api";
+import type { BreakWindow, WeeklyPatternSetup } from "./types";
+import { PATTERN_VERSION_COLORS } from "./types";
+
+export {
+  timeToMinutes,
+  minutesToTime,
+  getOpenIntervals,
+  generateTimeSlots,
+} from "@/lib/slot-generation";
+
 /**
  * Get current date in YYYY-MM-DD format
  */
@@ -70,15 +81,15 @@ export function getWeekIndexForDate(
   year: number,
   availabilityData: any
 ): number {
-  const targetDate = new Date(dateStr);
-  const targetDay = targetDate.getDate();
+  // Read the day from the string (new Date(dateStr) would be UTC midnight)
+  const targetDay = Number(dateStr.slice(8, 10));
 
   // Get the first day of the month and its day of week
   const firstDay = new Date(year, month, 1);
   const firstDayOfWeek = firstDay.getDay(); // 0 = Sunday
 
-  // Calculate week index using the same logic as calendar generation
-  const weekIndex = Math.floor((firstDayOfWeek + targetDay - 2) / 7);
+  // Weeks start on the Sunday on or before the 1st, as in calendar generation
+  const weekIndex = Math.floor((firstDayOfWeek + targetDay - 1) / 7);
 
   return Math.max(0, weekIndex);
 }
@@ -241,44 +252,163 @@ export function findCurrentWeek(availabilityData: any) {
 }
 
 /**
- * Generate time slots based on start time, end time, and duration
+ * Check break windows against opening hours; returns an error message or null
  */
-export function generateTimeSlots(
+export function validateBreaks(
   startTime: string,
   endTime: string,
-  slotDuration: number
-): Array<{ start: string; end: string }> {
-  const slots = [];
-
-  // Parse start and end times
-  const [startHour, startMin] = startTime.split(":").map(Number);
-  const [endHour, endMin] = endTime.split(":").map(Number);
-
-  // Convert to minutes since midnight
-  const startMinutes = startHour * 60 + startMin;
-  const endMinutes = endHour * 60 + endMin;
-
-  // Generate slots
-  for (
-    let currentMinutes = startMinutes;
-    currentMinutes + slotDuration <= endMinutes;
-    currentMinutes += slotDuration
-  ) {
-    const slotStartHour = Math.floor(currentMinutes / 60);
-    const slotStartMin = currentMinutes % 60;
-    const slotEndMinutes = currentMinutes + slotDuration;
-    const slotEndHour = Math.floor(slotEndMinutes / 60);
-    const slotEndMin = slotEndMinutes % 60;
-
-    const slotStart = `${String(slotStartHour).padStart(2, "0")}:${String(
-      slotStartMin
-    ).padStart(2, "0")}`;
-    const slotEnd = `${String(slotEndHour).padStart(2, "0")}:${String(
-      slotEndMin
-    ).padStart(2, "0")}`;
-
-    slots.push({ start: slotStart, end: slotEnd });
+  breaks: BreakWindow[] = []
+): string | null {
+  const sorted = [...breaks].sort((a, b) =>
+    a.start_time.localeCompare(b.start_time)
+  );
+
+  for (let index = 0; index < sorted.length; index++) {
+    const window = sorted[index];
+    if (!window.start_time || !window.end_time) {
+      return "Each break needs a start and end time";
+    }
+    if (window.start_time >= window.end_time) {
+      return "Break end time must be after its start time";
+    }
+    if (window.start_time <= startTime || window.end_time >= endTime) {
+      return "Breaks must fall inside the working hours";
+    }
+    if (index > 0 && sorted[index - 1].end_time > window.start_time) {
+      return "Breaks must not overlap";
+    }
   }
 
-  return slots;
+  return null;
+}
+
+/**
+ * Format a YYYY-MM-DD date as e.g. "1 Jun 2026"
+ */
+export function formatShortDate(dateStr: string): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/**
+ * Effective dates of a weekly pattern version, e.g. "1 Jun 2026 - 31 Aug 2026"
+ * or "From 1 Jun 2026" when it is open-ended
+ */
+export function formatVersionRange(version: WeeklyPatternVersion): string {
+  return version.effective_to
+    ? `${formatShortDate(version.effective_from)} - ${formatShortDate(
+        version.effective_to
+      )}`
+    : `From ${formatShortDate(version.effective_from)}`;
+}
+
+/**
+ * Weekly pattern versions governing a date: the bay's own, or every bay's
+ * when no bay is given. Versions saved for all bays at once share a label
+ * and dates, so they are listed once.
+ */
+export function getPatternVersionsForDate(
+  versions: WeeklyPatternVersion[],
+  date: string,
+  bayId?: string
+): WeeklyPatternVersion[] {
+  const seen = new Set<string>();
+  return versions.filter((version) => {
+    if (bayId && version.bay_id !== bayId) return false;
+    if (
+      version.effective_from > date ||
+      (version.effective_to !== null && version.effective_to < date)
+    ) {
+      return false;
+    }
+    const key = `${version.label}|${version.effective_from}|${version.effective_to}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Colour of a pattern version; versions with the same label share one
+ */
+export function getPatternVersionColor(
+  versions: WeeklyPatternVersion[],
+  version: WeeklyPatternVersion
+): string {
+  const labels = Array.from(new Set(versions.map((item) => item.label)));
+  return PATTERN_VERSION_COLORS[
+    Math.max(labels.indexOf(version.label), 0) % PATTERN_VERSION_COLORS.length
+  ];
+}
+
+/**
+ * Editable weekly pattern from a saved version. Day buffers equal to the
+ * version's own buffer go back to following the pattern-wide setting.
+ */
+export function toPatternSetup(
+  version: WeeklyPatternVersion
+): WeeklyPatternSetup {
+  const setup: WeeklyPatternSetup = {};
+  for (let day = 0; day <= 6; day++) {
+    const row = version.schedules.find((item) => item.day_of_week === day);
+    const isOpen = row?.type === "OPEN" && !!row.start_time && !!row.end_time;
+    setup[day] = {
+      enabled: isOpen,
+      start_time: (isOpen && row.start_time) || "09:00",
+      end_time: (isOpen && row.end_time) || "17:00",
+      slot_duration: row?.slot_duration || 60,
+      buffer_minutes:
+        isOpen && (row.buffer_minutes ?? 0) !== (version.buffer_minutes ?? 0)
+          ? row.buffer_minutes ?? 0
+          : null,
+      breaks: isOpen ? row.breaks || [] : [],
+    };
+  }
+  return setup;
+}
+
+/**
+ * API form of an edited weekly pattern; days without their own buffer
+ * follow the pattern-wide one
+ */
+export function toWeeklyPatternDays(
+  setup: WeeklyPatternSetup
+): WeeklyPatternDay[] {
+  return Object.entries(setup).map(([dayIndex, dayConfig]) =>
+    dayConfig.enabled
+      ? {
+          day_of_week: Number.parseInt(dayIndex),
+          type: "OPEN",
+          start_time: dayConfig.start_time,
+          end_time: dayConfig.end_time,
+          slot_duration: dayConfig.slot_duration,
+          ...(dayConfig.buffer_minutes !== null && {
+            buffer_minutes: dayConfig.buffer_minutes,
+          }),
+          ...(dayConfig.breaks.length > 0 && { breaks: dayConfig.breaks }),
+        }
+      : { day_of_week: Number.parseInt(dayIndex), type: "CLOSED" }
+  );
+}
+
+/**
+ * Trigger a browser download of generated text content
+ */
+export function downloadTextFile(
+  filename: string,
+  content: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 }
@@ -3,25 +3,97 @@
 /**
  * Main Garage Setup Page - Updated with Reset State & Onboarding
  *
- * This is the main orchestrator component that manages the overall state
- * and coordinates between all child components. Now includes:
+ * This is the main orchestrator component that loads and saves the schedule
+ * and coordinates between all child components. Schedule state lives in the
+ * schedule store (_components/schedule-store.tsx). Now includes:
  * - Reset state detection and onboarding flow
  * - Weekly pattern setup modal with daysToGenerate
  * - Complete schedule reset functionality
  * - Fixed date alignment between calendar and week view
  * - Updated API integration with new response structures
+ * - Email/password sign-in with a per-tab session and re-auth on expiry/401
+ * - Role-based permissions: actions the user's role lacks are hidden
+ * - Multi-garage switching with per-garage cache, undo history and state,
+ *   and an all-sites overview of the visible week
+ * - Weekly pattern versions with effective dates, shown in both views
+ * - A snapshot of the schedule before every reset, and a restore flow
+ * - Export and import of the garage's configuration as versioned JSON
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { toast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import GarageApiService, {
+  ApiRequestError,
+  type ApiError,
+  type ApiResponse,
   type WeekScheduleDay,
   type MonthScheduleItem,
   type Slot,
-  type WeeklyPatternDay,
+  type Order,
+  type Bay,
   type WeeklyPatternResponse,
+  type WeeklyPatternVersion,
+  type WeeklyPatternVersionInput,
   type ResetStateResponse,
 } from "@/lib/garage-api";
+import GarageQueryCache from "@/lib/garage-api-cache";
+import {
+  type Session,
+  clearSession,
+  createSession,
+  isSessionExpired,
+  loadSession,
+  saveSession,
+} from "@/lib/garage-auth";
+import {
+  DEFAULT_ROLE,
+  ROLE_LABELS,
+  getPermissions,
+} from "@/lib/garage-permissions";
+import ScheduleHistory, {
+  type HistoryDirection,
+  type SlotPosition,
+  findSpecialDay,
+  restoreSlots,
+  slotBlockEntry,
+  slotMoveEntry,
+  slotsEntry,
+  specialDayEntry,
+} from "@/lib/schedule-history";
+import {
+  type SpecialDayRule,
+  createRuleId,
+  expandRule,
+  loadSpecialDayRules,
+  saveSpecialDayRules,
+} from "@/lib/special-day-rules";
+import { addDays, getToday } from "@/lib/date-utils";
+import { type UkRegion, getBankHolidays } from "@/lib/uk-bank-holidays";
+import { buildScheduleIcs } from "@/lib/ics-export";
+import { type IcsImportItem, toSpecialDayRequest } from "@/lib/ics-import";
+import { type PatternImpact, computePatternImpact } from "@/lib/pattern-impact";
+import {
+  type ScheduleConfigImportItem,
+  buildScheduleConfig,
+} from "@/lib/schedule-config";
+import {
+  monthItemToSpecialDay,
+  toPatternDays,
+} from "@/lib/schedule-conversions";
+import { fitAroundBookings } from "@/lib/slot-generation";
+import {
+  type ScheduleSnapshot,
+  SNAPSHOT_DAYS,
+  clearScheduleSnapshot,
+  createScheduleSnapshot,
+  getRestorableVersions,
+  getSlotLayoutRepairs,
+  getSlotsToBlock,
+  loadScheduleSnapshot,
+  saveScheduleSnapshot,
+  summarizeSnapshot,
+} from "@/lib/schedule-snapshot";
 
 // Import all modular components with correct paths
 import { AuthModal } from "./_components/AuthModal";
@@ -29,88 +101,176 @@ import { TimeSettingModal } from "./_components/TimeSettingModal";
 import { SlotManagementModal } from "./_components/SlotManagementModal";
 import { WeeklyPatternSetupModal } from "./_components/WeeklyPatternSetupModal";
 import { WeekView } from "./_components/WeekView";
+import { GarageSwitcher } from "./_components/GarageSwitcher";
+import { GarageOverview } from "./_components/GarageOverview";
 import { CalendarView } from "./_components/CalendarView";
+import { BankHolidaysModal } from "./_components/BankHolidaysModal";
+import { ExportCalendarModal } from "./_components/ExportCalendarModal";
+import { ImportCalendarModal } from "./_components/ImportCalendarModal";
+import { ScheduleConfigModal } from "./_components/ScheduleConfigModal";
+import {
+  SpecialDayRulesModal,
+  type SpecialDayRuleDraft,
+} from "./_components/SpecialDayRulesModal";
+import {
+  ScheduleStoreProvider,
+  selectBayParam,
+  selectCurrentWeekData,
+  selectScheduleLocation,
+  selectWeekStartDate,
+  useScheduleStore,
+} from "./_components/schedule-store";
+import {
+  isSameWeek,
+  parseScheduleLocation,
+  toScheduleSearch,
+} from "./_components/schedule-url";
 
 // Import types and utilities with correct paths
 import type {
   TimeSlot,
   DayAvailability,
-  WeekDay,
-  EditingSlot,
-  WeeklyPatternSetup,
+  WeeklyPatternsByBay,
+  PatternVersionDraft,
+  Booking,
+  BankHolidayPreview,
+  IcsImportResult,
+  ConfigImportResult,
+  ScheduleModal,
+  GarageWeekOverview,
 } from "./_components/types";
+import { DEFAULT_BAY_KEY } from "./_components/types";
 import {
-  generateWeekData,
-  getTotalWeeksInMonth,
   findCurrentWeek,
-  getWeekStartDate,
-  getWeekIndexForDate,
   generateTimeSlots,
+  getOpenIntervals,
+  downloadTextFile,
+  formatShortDate,
+  formatVersionRange,
+  toWeeklyPatternDays,
 } from "./_components/utils";
-import { Calendar } from "lucide-react";
+import type { DraggedSlot } from "./_components/SlotTimeline";
+import { Calendar, FileJson, LogOut } from "lucide-react";
 
 const BRAND_COLOR = "#19CA32";
 
+// How far ahead recurring special-day rules are expanded
+const RULE_HORIZON_DAYS = 365;
+
+// Longest delay setTimeout supports (about 24.8 days)
+const MAX_TIMER_MS = 2147483647;
+
+// Query cache and undo history of one garage
+interface GarageWorkspace {
+  cache: GarageQueryCache;
+  history: ScheduleHistory;
+}
+
+// Convert an API slot to the UI slot shape used by the views and modals
+const toTimeSlot = (slot: Slot): TimeSlot => ({
+  id: slot.id,
+  start: slot.start_time,
+  end: slot.end_time,
+  is_available: slot.is_available,
+  is_blocked: slot.is_blocked,
+  order_id: slot.order_id,
+  bay_id: slot.bay_id,
+});
+
+// Abort the load a ref is tracking and start tracking a new one, so a
+// superseded week/month load can never overwrite newer data
+const supersedeLoad = (ref: { current: AbortController | null }) => {
+  ref.current?.abort();
+  ref.current = new AbortController();
+  return ref.current;
+};
+
 export default function GarageSetupPage() {
+  return (
+    <ScheduleStoreProvider>
+      <GarageSetupDashboard />
+    </ScheduleStoreProvider>
+  );
+}
+
+function GarageSetupDashboard() {
   // ============================================================================
   // STATE MANAGEMENT
   // ============================================================================
 
   // API Service Instance
   const [apiService] = useState(() => new GarageApiService());
+  const workspacesRef = useRef(new Map<string, GarageWorkspace>());
+
+  // Schedule state shared with the views and modals (see schedule-store)
+  const { state, dispatch } = useScheduleStore();
+  const {
+    weekIndex: currentWeekIndex,
+    month: selectedMonth,
+    year: selectedYear,
+  } = state.navigation;
+  const {
+    date: selectedDate,
+    dayType: selectedDayType,
+    calendarDate: selectedCalendarDate,
+    bayId: selectedBayId,
+  } = state.selection;
+  const { availability: availabilityData, weekSlots, bookings, bays } = state;
+  const setLoading = (loading: boolean) =>
+    dispatch({ type: "ui/setLoading", loading });
+  const openModal = (modal: ScheduleModal) =>
+    dispatch({ type: "modal/open", modal });
+  const closeModal = () => dispatch({ type: "modal/close" });
+
+  // Each garage keeps its own cache and undo history, so switching garages
+  // neither shows another site's data nor undoes another site's changes
+  const getWorkspace = (garageId: string | null): GarageWorkspace => {
+    const key = garageId || "";
+    let workspace = workspacesRef.current.get(key);
+    if (!workspace) {
+      workspace = {
+        cache: new GarageQueryCache(apiService, {}, garageId || undefined),
+        history: new ScheduleHistory(),
+      };
+      workspacesRef.current.set(key, workspace);
+    }
+    return workspace;
+  };
+  const { cache: queryCache, history } = getWorkspace(state.garageId);
+
+  // Session, setup state and page-level panels (see schedule-store)
+  const {
+    session,
+    restoring: restoringSession,
+    authenticated: isAuthenticated,
+    notice: authNotice,
+  } = state.auth;
+  const {
+    open: showOverview,
+    garages: overview,
+    loading: overviewLoading,
+  } = state.overview;
+  const {
+    initialized: isInitialized,
+    isReset: isResetState,
+    checkingReset: checkingResetState,
+  } = state.setup;
+  const { specialDayRules, scheduleSnapshot, bankHolidayPreview } = state;
+  const { ics: icsImportResults, config: configImportResults } =
+    state.importResults;
+  const weekLoadRef = useRef<AbortController | null>(null);
+  const monthLoadRef = useRef<AbortController | null>(null);
+  const overviewLoadRef = useRef<AbortController | null>(null);
+  // Latest runHistoryStep, for the keyboard shortcuts and toast buttons
+  const historyStepRef = useRef<(direction: HistoryDirection) => void>(
+    () => {}
+  );
 
-  // Authentication State
-  const [token, setToken] = useState("");
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [loading, setLoading] = useState(false);
-
-  // Reset State & Onboarding
-  const [isResetState, setIsResetState] = useState(false);
-  const [showWeeklyPatternModal, setShowWeeklyPatternModal] = useState(false);
-  const [checkingResetState, setCheckingResetState] = useState(false);
-
-  // Navigation State
-  const [currentWeekIndex, setCurrentWeekIndex] = useState(0);
-  const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
-  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
-
-  // Modal States
-  const [showTimeModal, setShowTimeModal] = useState(false);
-  const [showSlotModal, setShowSlotModal] = useState(false);
-
-  // Selection States
-  const [selectedDate, setSelectedDate] = useState<string | null>(null);
-  const [selectedDayType, setSelectedDayType] = useState<
-    "working" | "weekend" | "holiday"
-  >("working");
-  const [selectedCalendarDate, setSelectedCalendarDate] = useState<
-    string | null
-  >(null);
-
-  // Data States
-  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([
-    { start: "10:00", end: "18:00" },
-  ]);
-  const [currentWeekData, setCurrentWeekData] = useState<WeekDay[]>([]);
-  const [availabilityData, setAvailabilityData] = useState<{
-    [key: string]: DayAvailability;
-  }>({});
-  const [daySlots, setDaySlots] = useState<TimeSlot[]>([]);
-  const [manualSlots, setManualSlots] = useState<TimeSlot[]>([
-    { start: "10:00", end: "11:00" },
-  ]);
-
-  // Configuration States
-  const [slotDuration, setSlotDuration] = useState(60);
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [editingSlot, setEditingSlot] = useState<EditingSlot | null>(null);
-  const [replaceAllSlots, setReplaceAllSlots] = useState(false);
-
-  const [startTime, setStartTime] = useState("09:00");
-  const [endTime, setEndTime] = useState("17:00");
-
-  // Add the missing useCustomSlots state (around line 110)
-  const [useCustomSlots, setUseCustomSlots] = useState(false);
+  // Days of the visible week (empty until the schedule is set up)
+  const currentWeekData = useMemo(
+    () => (isInitialized && !isResetState ? selectCurrentWeekData(state) : []),
+    [state.navigation, state.availability, isInitialized, isResetState]
+  );
 
   // Add the getErrorMessage helper function here
   const getErrorMessage = (error: any): string => {
@@ -126,31 +286,261 @@ export default function GarageSetupPage() {
     return "An unknown error occurred";
   };
 
-  // ============================================================================
-  // AUTHENTICATION FUNCTIONS
-  // ============================================================================
-
-  const handleProceed = async () => {
-    if (!token.trim()) {
+  // React to a failed request according to its error kind
+  const showApiError = (error: unknown, fallback: string) => {
+    if (!(error instanceof ApiRequestError)) {
       toast({
         title: "Error",
-        description: "Please enter your API token",
+        description: getErrorMessage(error) || fallback,
         variant: "destructive",
       });
       return;
     }
 
-    // Set the token in the API service and proceed
-    apiService.setToken(token);
-    setIsAuthenticated(true);
+    const apiError = error.apiError;
+    switch (apiError.kind) {
+      case "cancelled":
+        return;
+      case "unauthorized":
+        // Ask the user to sign in again; the dashboard keeps its place
+        endSession(
+          "Your session has expired or was rejected. Please sign in again."
+        );
+        return;
+      case "forbidden":
+        toast({
+          title: "Not allowed",
+          description: `${fallback} Your account does not have permission for this action.`,
+          variant: "destructive",
+        });
+        return;
+      case "validation": {
+        const fieldMessages = Object.entries(apiError.fields).map(
+          ([field, message]) => `${field.replace(/_/g, " ")} ${message}`
+        );
+        toast({
+          title: "Please check your input",
+          description:
+            fieldMessages.length > 0
+              ? fieldMessages.join("; ")
+              : apiError.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      case "conflict":
+        // Highlight the clashing slot in the week view and slot manager
+        dispatch({ type: "ui/setConflict", slotId: apiError.slot?.id || null });
+        toast({
+          title: "Slot conflict",
+          description: apiError.slot
+            ? `${apiError.message}. The clashing slot (${apiError.slot.start_time}-${apiError.slot.end_time}) is highlighted.`
+            : apiError.message,
+          variant: "destructive",
+        });
+        return;
+      case "contract":
+        // The backend answered, but not in the shape the dashboard expects
+        toast({
+          title: "Unexpected API response",
+          description: `${fallback} ${apiError.message}`,
+          variant: "destructive",
+        });
+        return;
+      case "network":
+      case "timeout":
+        toast({
+          title: "Connection problem",
+          description: `${fallback} ${apiError.message}`,
+          variant: "destructive",
+        });
+        return;
+      default:
+        toast({
+          title: "Error",
+          description: `${fallback} ${apiError.message}`,
+          variant: "destructive",
+        });
+    }
+  };
+
+  // What the signed-in role may change (the API client enforces the same)
+  const permissions = useMemo(
+    () => getPermissions(session?.role || DEFAULT_ROLE),
+    [session?.role]
+  );
+
+  // Bay filter passed to the API (undefined = every bay / garage-wide)
+  const bayParam = selectBayParam(state);
+
+  // ============================================================================
+  // AUTHENTICATION FUNCTIONS
+  // ============================================================================
+
+  // Apply a session's token and load the garage it belongs to
+  const startSession = async (next: Session) => {
+    apiService.setToken(next.token, next.expiresAt);
+    apiService.setRole(next.role);
+    // Data cached under a previous token may no longer be the user's to see
+    workspacesRef.current.forEach((workspace) =>
+      workspace.cache.invalidateAll()
+    );
+    // Signing in again as the same user keeps the undo history
+    if (session?.email !== next.email) workspacesRef.current.clear();
+    dispatch({
+      type: "auth/update",
+      changes: { session: next, notice: null, authenticated: true },
+    });
+
+    // Check reset state after authentication (of the garage picked first)
+    await loadGarages();
+    await Promise.all([checkResetState(), loadBays(), loadPatternVersions()]);
+  };
+
+  // Drop the token and show the sign-in screen (with the email filled in)
+  const endSession = (notice: string | null) => {
+    apiService.clearToken();
+    clearSession();
+    dispatch({
+      type: "auth/update",
+      changes: { notice, authenticated: false },
+    });
+  };
+
+  const handleLogin = async (email: string, password: string) => {
+    const response = await apiService.login(email, password);
+    if (!response.success || !response.data) {
+      if (response.error?.kind === "unauthorized") {
+        dispatch({
+          type: "auth/update",
+          changes: { notice: "Incorrect email or password." },
+        });
+      } else {
+        showApiError(new ApiRequestError(response.error), "Failed to sign in.");
+      }
+      return;
+    }
 
+    const next = createSession(response.data);
+    saveSession(next);
     toast({
-      title: "Success",
-      description: "API token configured successfully!",
+      title: "Signed in",
+      description: `Welcome, ${next.name || next.email}.`,
     });
+    await startSession(next);
+  };
+
+  const handleLogout = () => {
+    // The proxy drops its session cookie; nothing to do if that fails
+    apiService.logout();
+    endSession(null);
+    dispatch({ type: "auth/update", changes: { session: null } });
+    workspacesRef.current.clear();
+    dispatch({ type: "overview/update", changes: { open: false } });
+    dispatch({ type: "availability/reset" });
+    dispatch({ type: "setup/update", changes: { initialized: false } });
+    toast({ title: "Signed out" });
+  };
+
+  // ============================================================================
+  // GARAGE FUNCTIONS
+  // ============================================================================
+
+  // Garages this user can switch between; older backends have none to list,
+  // and requests then go to the token's own garage
+  const loadGarages = async () => {
+    const response = await apiService.getGarages();
+    const garages = response.success && response.data ? response.data : [];
+    if (!response.success) {
+      console.warn("Failed to load garages:", response.error);
+    }
+
+    // A shared link or refreshed page names its garage; otherwise keep the
+    // current one, else start with the first
+    const linked = new URLSearchParams(window.location.search).get("garage");
+    const garage =
+      garages.find((item) => item.id === linked) ||
+      garages.find((item) => item.id === state.garageId) ||
+      garages[0];
+    apiService.setGarage(garage?.id || null);
+    dispatch({ type: "garages/set", garages });
+    dispatch({ type: "garage/switch", garageId: garage?.id || null });
+  };
+
+  // Show another garage; its set-aside state and cached data come back at
+  // once, and its reset state and bays are checked again
+  const handleGarageChange = async (garageId: string) => {
+    dispatch({ type: "overview/update", changes: { open: false } });
+    if (garageId === state.garageId) return;
+
+    weekLoadRef.current?.abort();
+    monthLoadRef.current?.abort();
+    apiService.setGarage(garageId);
+    dispatch({ type: "garage/switch", garageId });
+
+    const url = new URL(window.location.href);
+    url.searchParams.set("garage", garageId);
+    window.history.replaceState(null, "", url);
+
+    await Promise.all([checkResetState(), loadBays(), loadPatternVersions()]);
+  };
+
+  // Every garage's visible week side by side, each from its own cache
+  const loadOverview = async () => {
+    const controller = supersedeLoad(overviewLoadRef);
+    const startDate = selectWeekStartDate(state);
+    const dates = Array.from({ length: 7 }, (_, index) =>
+      addDays(startDate, index)
+    );
+    dispatch({ type: "overview/update", changes: { loading: true } });
+    try {
+      const rows = await Promise.all(
+        state.garages.map(async (garage) => {
+          const { cache } = getWorkspace(garage.id);
+          const options = { signal: controller.signal };
+          const week = await cache.getWeekSchedule(
+            startDate,
+            undefined,
+            options
+          );
+          if (!week.success || !week.data) {
+            return [
+              garage.id,
+              {
+                days: [],
+                slotCounts: {},
+                error: week.error?.message || "Failed to load week schedule",
+              },
+            ] as const;
+          }
 
-    // Check reset state after authentication
-    await checkResetState();
+          const slots = await Promise.all(
+            dates.map((date) => cache.getSlotsForDate(date, undefined, options))
+          );
+          const slotCounts: GarageWeekOverview["slotCounts"] = {};
+          slots.forEach((response, index) => {
+            const list = response.data || [];
+            slotCounts[dates[index]] = {
+              free: list.filter((slot) => slot.is_available && !slot.is_blocked)
+                .length,
+              booked: list.filter((slot) => slot.order_id).length,
+              blocked: list.filter((slot) => slot.is_blocked).length,
+            };
+          });
+          return [garage.id, { days: week.data, slotCounts }] as const;
+        })
+      );
+      if (controller.signal.aborted) return;
+      dispatch({
+        type: "overview/update",
+        changes: { garages: Object.fromEntries(rows) },
+      });
+    } catch (error) {
+      console.error("Failed to load the all-sites overview:", error);
+    } finally {
+      if (overviewLoadRef.current === controller)
+        dispatch({ type: "overview/update", changes: { loading: false } });
+    }
   };
 
   // ============================================================================
@@ -159,15 +549,19 @@ export default function GarageSetupPage() {
 
   const checkResetState = async () => {
     try {
-      setCheckingResetState(true);
+      dispatch({ type: "setup/update", changes: { checkingReset: true } });
       const response = await apiService.getResetState();
 
       if (response.success && response.data) {
         const resetState = response.data as ResetStateResponse;
-        setIsResetState(resetState.is_reset);
+        dispatch({
+          type: "setup/update",
+          changes: { isReset: resetState.is_reset },
+        });
 
-        if (resetState.is_reset) {
-          setShowWeeklyPatternModal(true);
+        // Only roles that may set the pattern are walked through the setup
+        if (resetState.is_reset && apiService.can("weeklyPattern.edit")) {
+          openModal("weeklyPattern");
           toast({
             title: "Welcome!",
             description: "Let's set up your weekly schedule to get started.",
@@ -175,107 +569,393 @@ export default function GarageSetupPage() {
         }
       } else {
         console.warn("Failed to check reset state:", response.error);
+        if (response.error?.kind === "unauthorized") {
+          showApiError(
+            new ApiRequestError(response.error),
+            "Failed to check reset state."
+          );
+          return;
+        }
         // Continue anyway - user might have existing data
-        setIsResetState(false);
+        dispatch({ type: "setup/update", changes: { isReset: false } });
       }
     } catch (error) {
       console.error("Failed to check reset state:", error);
       // Continue anyway - user might have existing data
-      setIsResetState(false);
+      dispatch({ type: "setup/update", changes: { isReset: false } });
     } finally {
-      setCheckingResetState(false);
+      dispatch({ type: "setup/update", changes: { checkingReset: false } });
     }
   };
 
-  const handleWeeklyPatternSave = async (
-    pattern: WeeklyPatternSetup,
-    daysToGenerate: number
-  ) => {
+  // Dry run of a weekly pattern save: what it would do to each day's slots
+  // over the generation horizon, compared with the current schedule
+  const previewWeeklyPattern = async (
+    patterns: WeeklyPatternsByBay,
+    daysToGenerate: number,
+    patternBufferMinutes: number,
+    version: PatternVersionDraft
+  ): Promise<PatternImpact | null> => {
     setLoading(true);
     try {
-      // Convert UI pattern to API format
-      const apiPattern: WeeklyPatternDay[] = Object.entries(pattern).map(
-        ([dayIndex, dayConfig]) => {
-          if (dayConfig.enabled) {
-            return {
-              day_of_week: Number.parseInt(dayIndex),
-              type: "OPEN",
-              start_time: dayConfig.start_time,
-              end_time: dayConfig.end_time,
-              slot_duration: dayConfig.slot_duration,
-            };
-          } else {
-            return {
-              day_of_week: Number.parseInt(dayIndex),
-              type: "CLOSED",
-            };
+      const today = getToday();
+      const dates = Array.from({ length: daysToGenerate }, (_, offset) =>
+        addDays(today, offset)
+      );
+      const lastDate = dates[dates.length - 1];
+
+      // One ranged read per bay for the schedule and one for every slot
+      const impactBays = await Promise.all(
+        Object.entries(patterns).map(async ([bayKey, pattern]) => {
+          const bayId = bayKey === DEFAULT_BAY_KEY ? undefined : bayKey;
+          const response = await apiService.getScheduleRange(
+            today,
+            lastDate,
+            bayId
+          );
+          if (!response.success || !response.data) {
+            throw new ApiRequestError(response.error);
           }
-        }
+          return {
+            bayId: bayId ?? null,
+            pattern: toWeeklyPatternDays(pattern),
+            bufferMinutes: patternBufferMinutes,
+            schedule: response.data,
+          };
+        })
       );
 
-      const response = await apiService.setWeeklyPattern(
-        apiPattern,
-        daysToGenerate
-      );
+      const slotResponse = await apiService.getSlotsInRange(today, lastDate);
+      if (!slotResponse.success || !slotResponse.data) {
+        throw new ApiRequestError(slotResponse.error);
+      }
+      const slots = slotResponse.data;
+
+      return computePatternImpact({
+        dates,
+        effectiveFrom: version.effective_from,
+        effectiveTo: version.effective_to,
+        replaced:
+          state.patternVersions.find(
+            (item) => item.id === version.version_id
+          ) || null,
+        bays: impactBays,
+        slots,
+      });
+    } catch (error: any) {
+      showApiError(error, "Failed to preview the weekly pattern.");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if (response.success && response.data) {
+  const handleWeeklyPatternSave = async (
+    patterns: WeeklyPatternsByBay,
+    daysToGenerate: number,
+    patternBufferMinutes: number,
+    version: PatternVersionDraft
+  ) => {
+    setLoading(true);
+    try {
+      const versionInput: WeeklyPatternVersionInput = {
+        effective_from: version.effective_from,
+        ...(version.effective_to && { effective_to: version.effective_to }),
+        ...(version.label.trim() && { label: version.label.trim() }),
+        ...(version.version_id && { version_id: version.version_id }),
+      };
+
+      // Save each bay's pattern in turn; the last response carries the reset state
+      let response;
+      for (const [bayKey, pattern] of Object.entries(patterns)) {
+        response = await apiService.setWeeklyPattern(
+          toWeeklyPatternDays(pattern),
+          daysToGenerate,
+          bayKey === DEFAULT_BAY_KEY ? undefined : bayKey,
+          patternBufferMinutes,
+          versionInput
+        );
+        if (!response.success) break;
+      }
+
+      if (response?.success && response.data) {
         const patternResponse = response.data as WeeklyPatternResponse;
-        setIsResetState(patternResponse.is_reset);
-        setShowWeeklyPatternModal(false);
+        queryCache.invalidateAll();
+        // Regenerated slots no longer match the snapshots of earlier changes
+        history.clear();
+        dispatch({
+          type: "setup/update",
+          changes: { isReset: patternResponse.is_reset },
+        });
+        closeModal();
 
+        const effectiveDates = version.effective_to
+          ? `from ${formatShortDate(
+              version.effective_from
+            )} to ${formatShortDate(version.effective_to)}`
+          : `from ${formatShortDate(version.effective_from)}`;
         toast({
           title: "Success",
           description: isResetState
             ? `Weekly schedule set up successfully! Generated slots for ${daysToGenerate} days.`
-            : `Weekly pattern updated successfully! Generated slots for ${daysToGenerate} days.`,
+            : `Weekly pattern saved ${effectiveDates}! Generated slots for ${daysToGenerate} days.`,
         });
 
-        // Reload data after setting pattern
+        // Reload data after setting pattern; days outside every version
+        // no longer have a schedule, so start from a clean slate
+        dispatch({ type: "availability/reset" });
+        await loadPatternVersions();
         await loadWeekSchedule();
         await loadMonthSchedule();
       } else {
-        throw new Error(response.error || "Failed to save weekly pattern");
+        throw new ApiRequestError(response?.error);
       }
     } catch (error: any) {
-      toast({
-        title: "Error",
-        description:
-          getErrorMessage(error) ||
-          "Failed to save weekly pattern. Please check your API token.",
-        variant: "destructive",
-      });
+      showApiError(error, "Failed to save weekly pattern.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeletePatternVersion = async (version: WeeklyPatternVersion) => {
+    setLoading(true);
+    try {
+      const response = await apiService.deleteWeeklyPatternVersion(version.id);
+
+      if (response.success) {
+        queryCache.invalidateAll();
+        history.clear();
+
+        toast({
+          title: "Pattern Version Deleted",
+          description: `"${version.label}" (${formatVersionRange(
+            version
+          )}) was deleted. Its dates have no weekly pattern until another version covers them.`,
+        });
+
+        dispatch({ type: "availability/reset" });
+        await loadPatternVersions();
+        await loadWeekSchedule();
+        await loadMonthSchedule();
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      showApiError(error, "Failed to delete the pattern version.");
     } finally {
       setLoading(false);
     }
   };
 
+  // ============================================================================
+  // RESET & RESTORE
+  // ============================================================================
+
+  /**
+   * Read everything a reset deletes, straight from the API
+   */
+  const captureScheduleSnapshot = async (): Promise<ScheduleSnapshot> => {
+    const today = getToday();
+    const lastDate = addDays(today, SNAPSHOT_DAYS - 1);
+    const resetState = await apiService.getResetState();
+    if (!resetState.success || !resetState.data) {
+      throw new ApiRequestError(resetState.error);
+    }
+    // Slots reach no further than the horizon the API generated them for
+    const generatedThrough = resetState.data.generated_through ?? null;
+    const slotsThrough =
+      generatedThrough && generatedThrough < lastDate
+        ? generatedThrough
+        : lastDate;
+    // Special days of a bay are listed with the garage-wide ones
+    const bayIds = bays.length > 0 ? bays.map((bay) => bay.id) : [undefined];
+
+    const [versionResponse, specialDayResponses, slotResponse] =
+      await Promise.all([
+        apiService.getWeeklyPatternVersions(),
+        Promise.all(
+          bayIds.map((bayId) =>
+            apiService.getSpecialDaysInRange(today, lastDate, bayId)
+          )
+        ),
+        slotsThrough >= today
+          ? apiService.getSlotsInRange(today, slotsThrough)
+          : Promise.resolve<ApiResponse<Slot[]>>({ success: true, data: [] }),
+      ]);
+    if (!versionResponse.success || !versionResponse.data) {
+      throw new ApiRequestError(versionResponse.error);
+    }
+    if (!slotResponse.success || !slotResponse.data) {
+      throw new ApiRequestError(slotResponse.error);
+    }
+    const specialDays = specialDayResponses.flatMap((response) => {
+      if (!response.success || !response.data) {
+        throw new ApiRequestError(response.error);
+      }
+      return response.data;
+    });
+
+    return createScheduleSnapshot(
+      state.garageId,
+      today,
+      generatedThrough,
+      versionResponse.data,
+      specialDays,
+      slotResponse.data
+    );
+  };
+
   const handleScheduleReset = async () => {
     setLoading(true);
     try {
+      // Nothing is reset unless the snapshot is safely stored
+      let snapshot: ScheduleSnapshot;
+      try {
+        snapshot = await captureScheduleSnapshot();
+      } catch (error) {
+        showApiError(
+          error,
+          "Couldn't take a snapshot of the schedule, so nothing was reset."
+        );
+        return;
+      }
+      if (!saveScheduleSnapshot(snapshot)) {
+        throw new Error(
+          "The snapshot couldn't be stored in this browser, so nothing was reset."
+        );
+      }
+      dispatch({ type: "snapshot/set", snapshot });
+
       const response = await apiService.resetSchedule();
 
       if (response.success && response.data) {
-        setIsResetState(true);
-        setAvailabilityData({});
-        setCurrentWeekData([]);
+        queryCache.invalidateAll();
+        history.clear();
+        dispatch({ type: "setup/update", changes: { isReset: true } });
+        dispatch({ type: "availability/reset" });
+        dispatch({ type: "patternVersions/set", versions: [] });
 
         toast({
           title: "Schedule Reset Complete",
-          description: `Deleted ${response.data.total_deleted} items. You can now set up a new schedule.`,
+          description: `Deleted ${response.data.total_deleted} items. A snapshot was saved first; restore it from the setup window or set up a new schedule.`,
         });
 
-        setShowWeeklyPatternModal(true);
+        openModal("weeklyPattern");
       } else {
-        throw new Error(response.error || "Failed to reset schedule");
+        throw new ApiRequestError(response.error);
       }
     } catch (error: any) {
+      showApiError(error, "Failed to reset schedule.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Replay the latest snapshot: patterns, then special days, then any day
+   * whose slots came out different, then the blocks
+   */
+  const handleScheduleRestore = async () => {
+    const snapshot = scheduleSnapshot;
+    if (!snapshot) return;
+
+    setLoading(true);
+    try {
+      const today = getToday();
+
+      // One version at a time, as each save lays out the bay's versions
+      const versions = getRestorableVersions(snapshot, today);
+      for (const version of versions) {
+        const response = await apiService.setWeeklyPattern(
+          toPatternDays(version),
+          snapshot.days_to_generate,
+          version.bay_id || undefined,
+          version.buffer_minutes ?? 0,
+          {
+            effective_from: version.effective_from,
+            ...(version.effective_to && {
+              effective_to: version.effective_to,
+            }),
+            label: version.label,
+          }
+        );
+        if (!response.success) throw new ApiRequestError(response.error);
+      }
+
+      const specialDayResponses = await Promise.all(
+        snapshot.special_days.map((item) =>
+          apiService.setSpecialDay(monthItemToSpecialDay(item))
+        )
+      );
+      specialDayResponses.forEach((response) => {
+        if (!response.success) throw new ApiRequestError(response.error);
+      });
+
+      const lastSlotDate = snapshot.slots.reduce(
+        (latest, slot) => (slot.date > latest ? slot.date : latest),
+        ""
+      );
+      const loadSlots = async (): Promise<Slot[]> => {
+        if (lastSlotDate < today) return [];
+        const response = await apiService.getSlotsInRange(today, lastSlotDate);
+        if (!response.success || !response.data) {
+          throw new ApiRequestError(response.error);
+        }
+        return response.data;
+      };
+
+      const repairs = getSlotLayoutRepairs(snapshot, await loadSlots(), today);
+      const repairResponses = await Promise.all(
+        repairs.map((repair) =>
+          apiService.setManualSlots(
+            repair.date,
+            repair.slots,
+            true,
+            repair.bayId || undefined
+          )
+        )
+      );
+      repairResponses.forEach((response) => {
+        if (!response.success) throw new ApiRequestError(response.error);
+      });
+
+      const toBlock = getSlotsToBlock(snapshot, await loadSlots());
+      const blockResponses = await Promise.all(
+        toBlock.map((slot) => apiService.blockSlot(slot.id))
+      );
+      blockResponses.forEach((response) => {
+        if (!response.success) throw new ApiRequestError(response.error);
+      });
+
+      queryCache.invalidateAll();
+      history.clear();
+      clearScheduleSnapshot(snapshot.garage_id);
+      dispatch({ type: "snapshot/set", snapshot: null });
+      if (versions.length > 0)
+        dispatch({ type: "setup/update", changes: { isReset: false } });
+      closeModal();
+
+      const summary = summarizeSnapshot(snapshot);
       toast({
-        title: "Error",
-        description:
-          getErrorMessage(error) ||
-          "Failed to reset schedule. Please check your API token.",
-        variant: "destructive",
+        title: "Schedule Restored",
+        description: `Restored ${versions.length} pattern version(s), ${
+          snapshot.special_days.length
+        } special day(s) and ${toBlock.length} blocked slot(s).${
+          summary.bookings > 0
+            ? ` ${summary.bookings} booking(s) couldn't be restored; their times are free slots again.`
+            : ""
+        }`,
       });
+
+      dispatch({ type: "availability/reset" });
+      await loadPatternVersions();
+      await loadWeekSchedule();
+      await loadMonthSchedule();
+    } catch (error: any) {
+      showApiError(
+        error,
+        "Failed to restore the schedule. The snapshot is kept, so you can try again."
+      );
     } finally {
       setLoading(false);
     }
@@ -285,62 +965,116 @@ export default function GarageSetupPage() {
   // DATA LOADING FUNCTIONS
   // ============================================================================
 
-  const loadWeekSchedule = async () => {
+  const loadBays = async () => {
     try {
-      setLoading(true);
-      const startDate = getWeekStartDate(
-        currentWeekIndex,
-        selectedMonth,
-        selectedYear
-      );
-      const response = await apiService.getWeekSchedule(startDate);
+      const response = await apiService.getBays();
+      if (response.success && response.data) {
+        const activeBays = response.data
+          .filter((bay: Bay) => bay.is_active)
+          .map((bay: Bay) => ({ id: bay.id, name: bay.name }));
+        dispatch({ type: "bays/set", bays: activeBays });
+        dispatch({
+          type: "slotEditor/update",
+          changes: { manualSlotsBayId: activeBays[0]?.id || "" },
+        });
+      } else {
+        // Older backends have no bays: fall back to a single-lane garage
+        console.warn("Failed to load bays:", response.error);
+        dispatch({ type: "bays/set", bays: [] });
+      }
+    } catch (error) {
+      console.error("Failed to load bays:", error);
+      dispatch({ type: "bays/set", bays: [] });
+    }
+  };
 
+  const loadPatternVersions = async () => {
+    try {
+      const response = await apiService.getWeeklyPatternVersions();
       if (response.success && response.data) {
-        const newAvailabilityData: { [key: string]: DayAvailability } = {
-          ...availabilityData,
+        dispatch({ type: "patternVersions/set", versions: response.data });
+      } else {
+        // Older backends keep a single pattern without versions
+        console.warn("Failed to load pattern versions:", response.error);
+        dispatch({ type: "patternVersions/set", versions: [] });
+      }
+    } catch (error) {
+      console.error("Failed to load pattern versions:", error);
+      dispatch({ type: "patternVersions/set", versions: [] });
+    }
+  };
+
+  // Show a week schedule's opening hours in the calendar and week view
+  const applyWeekSchedule = (days: WeekScheduleDay[]) => {
+    const newAvailabilityData: { [key: string]: DayAvailability } = {};
+
+    days.forEach((daySchedule: WeekScheduleDay) => {
+      if (daySchedule.schedule) {
+        let type: "working" | "weekend" | "holiday" = "working";
+
+        if (daySchedule.schedule.type === "HOLIDAY") {
+          type = "holiday";
+        } else if (daySchedule.schedule.type === "CLOSED") {
+          type = "weekend";
+        } else {
+          type = "working";
+        }
+
+        const breaks = daySchedule.schedule.breaks || [];
+        newAvailabilityData[daySchedule.date] = {
+          type,
+          start_time: daySchedule.schedule.start_time,
+          end_time: daySchedule.schedule.end_time,
+          slot_duration: daySchedule.schedule.slot_duration,
+          buffer_minutes: daySchedule.schedule.buffer_minutes,
+          breaks,
+          source: daySchedule.source,
+          timeSlots:
+            daySchedule.schedule.start_time && daySchedule.schedule.end_time
+              ? getOpenIntervals(
+                  daySchedule.schedule.start_time,
+                  daySchedule.schedule.end_time,
+                  breaks
+                )
+              : [],
         };
+      }
+    });
 
-        response.data.forEach((daySchedule: WeekScheduleDay) => {
-          if (daySchedule.schedule) {
-            let type: "working" | "weekend" | "holiday" = "working";
-
-            if (daySchedule.schedule.type === "HOLIDAY") {
-              type = "holiday";
-            } else if (daySchedule.schedule.type === "CLOSED") {
-              type = "weekend";
-            } else {
-              type = "working";
-            }
-
-            newAvailabilityData[daySchedule.date] = {
-              type,
-              start_time: daySchedule.schedule.start_time,
-              end_time: daySchedule.schedule.end_time,
-              slot_duration: daySchedule.schedule.slot_duration,
-              timeSlots:
-                daySchedule.schedule.start_time && daySchedule.schedule.end_time
-                  ? [
-                      {
-                        start: daySchedule.schedule.start_time,
-                        end: daySchedule.schedule.end_time,
-                      },
-                    ]
-                  : [],
-            };
-          }
-        });
+    // Merge into the latest state so concurrent loads don't overwrite each other
+    dispatch({ type: "availability/merge", availability: newAvailabilityData });
+  };
+
+  const loadWeekSchedule = async () => {
+    const controller = supersedeLoad(weekLoadRef);
+    try {
+      const startDate = selectWeekStartDate(state);
+      // Weeks answered from the cache render without the loading overlay
+      if (!queryCache.hasWeekSchedule(startDate, bayParam)) setLoading(true);
+      const response = await queryCache.getWeekSchedule(startDate, bayParam, {
+        signal: controller.signal,
+        onRevalidate: applyWeekSchedule,
+      });
+      if (response.error?.kind === "cancelled") return;
+
+      if (response.success && response.data) {
+        applyWeekSchedule(response.data);
+        loadWeekSlots(
+          response.data.map((day: WeekScheduleDay) => day.date),
+          controller.signal
+        );
 
-        setAvailabilityData(newAvailabilityData);
+        // Make the previous and next week instant to navigate to
+        queryCache.prefetchWeek(addDays(startDate, -7), bayParam);
+        queryCache.prefetchWeek(addDays(startDate, 7), bayParam);
       } else {
         console.warn("Failed to load week schedule:", response.error);
-        if (!isResetState) {
-          toast({
-            title: "API Warning",
-            description:
-              response.error ||
-              "Failed to load week schedule. Please check your API token.",
-            variant: "destructive",
-          });
+        // A rejected token needs attention even during first-time setup
+        if (!isResetState || response.error?.kind === "unauthorized") {
+          showApiError(
+            new ApiRequestError(response.error),
+            "Failed to load week schedule."
+          );
         }
       }
     } catch (error) {
@@ -354,56 +1088,82 @@ export default function GarageSetupPage() {
         });
       }
     } finally {
-      setLoading(false);
+      // A newer load owns the loading state once this one is superseded
+      if (weekLoadRef.current === controller) setLoading(false);
     }
   };
 
-  const loadMonthSchedule = async () => {
-    try {
-      setLoading(true);
-      const response = await apiService.getMonthSchedule(
-        selectedMonth + 1,
-        selectedYear
-      ); // API expects 1-based month
-
-      if (response.success && response.data) {
-        const newAvailabilityData: { [key: string]: DayAvailability } = {
-          ...availabilityData,
-        };
-
-        response.data.forEach((monthItem: MonthScheduleItem) => {
-          const dateStr = monthItem.event_date.split("T")[0];
-          let type: "working" | "weekend" | "holiday" = "working";
-
-          if (monthItem.type === "HOLIDAY") {
-            type = "holiday";
-          } else {
-            type = "working";
-          }
+  // Show a month's special days in the calendar
+  const applyMonthSchedule = (items: MonthScheduleItem[]) => {
+    const newAvailabilityData: { [key: string]: DayAvailability } = {};
 
-          newAvailabilityData[dateStr] = {
-            type,
-            start_time: monthItem.start_time,
-            end_time: monthItem.end_time,
-            slot_duration: monthItem.slot_duration,
-            timeSlots:
-              monthItem.start_time && monthItem.end_time
-                ? [{ start: monthItem.start_time, end: monthItem.end_time }]
-                : [],
-          };
-        });
+    items.forEach((monthItem: MonthScheduleItem) => {
+      const dateStr = monthItem.event_date.split("T")[0];
+      let type: "working" | "weekend" | "holiday" = "working";
 
-        setAvailabilityData(newAvailabilityData);
+      if (monthItem.type === "HOLIDAY") {
+        type = "holiday";
+      } else {
+        type = "working";
+      }
+
+      const breaks = monthItem.breaks || [];
+      newAvailabilityData[dateStr] = {
+        type,
+        start_time: monthItem.start_time,
+        end_time: monthItem.end_time,
+        slot_duration: monthItem.slot_duration,
+        buffer_minutes: monthItem.buffer_minutes,
+        breaks,
+        source: "special_day",
+        timeSlots:
+          monthItem.start_time && monthItem.end_time
+            ? getOpenIntervals(monthItem.start_time, monthItem.end_time, breaks)
+            : [],
+      };
+    });
+
+    // Merge into the latest state so concurrent loads don't overwrite each other
+    dispatch({ type: "availability/merge", availability: newAvailabilityData });
+  };
+
+  const loadMonthSchedule = async () => {
+    const controller = supersedeLoad(monthLoadRef);
+    try {
+      const month = selectedMonth + 1; // API expects 1-based month
+      if (!queryCache.hasMonthSchedule(month, selectedYear, bayParam)) {
+        setLoading(true);
+      }
+      const response = await queryCache.getMonthSchedule(
+        month,
+        selectedYear,
+        bayParam,
+        { signal: controller.signal, onRevalidate: applyMonthSchedule }
+      );
+      if (response.error?.kind === "cancelled") return;
+
+      if (response.success && response.data) {
+        applyMonthSchedule(response.data);
+
+        // Make the previous and next month instant to navigate to
+        queryCache.prefetchMonth(
+          month === 1 ? 12 : month - 1,
+          month === 1 ? selectedYear - 1 : selectedYear,
+          bayParam
+        );
+        queryCache.prefetchMonth(
+          month === 12 ? 1 : month + 1,
+          month === 12 ? selectedYear + 1 : selectedYear,
+          bayParam
+        );
       } else {
         console.warn("Failed to load month schedule:", response.error);
-        if (!isResetState) {
-          toast({
-            title: "API Warning",
-            description:
-              response.error ||
-              "Failed to load month schedule. Please check your API token.",
-            variant: "destructive",
-          });
+        // A rejected token needs attention even during first-time setup
+        if (!isResetState || response.error?.kind === "unauthorized") {
+          showApiError(
+            new ApiRequestError(response.error),
+            "Failed to load month schedule."
+          );
         }
       }
     } catch (error) {
@@ -416,36 +1176,195 @@ export default function GarageSetupPage() {
         });
       }
     } finally {
-      setLoading(false);
+      // A newer load owns the loading state once this one is superseded
+      if (monthLoadRef.current === controller) setLoading(false);
     }
   };
 
   const loadSlotsForDate = async (date: string) => {
     try {
       setLoading(true);
-      const response = await apiService.getSlotsForDate(date);
+      const response = await queryCache.getSlotsForDate(date, bayParam, {
+        onRevalidate: updateWeekSlotsForDate(date),
+      });
       if (response.success && response.data) {
-        setDaySlots(
-          response.data.map((slot: Slot) => ({
-            id: slot.id,
-            start: slot.start_time,
-            end: slot.end_time,
-            is_available: slot.is_available,
-            is_blocked: slot.is_blocked,
-          }))
-        );
+        const slots = response.data.map(toTimeSlot);
+        dispatch({ type: "slots/setDay", slots });
+        // Keep the week timeline in sync when the date is in the visible week
+        dispatch({ type: "slots/setWeekDate", date, slots });
+        loadBookingsForSlots(response.data);
       } else {
         console.warn("Failed to load slots:", response.error);
-        setDaySlots([]);
+        dispatch({ type: "slots/setDay", slots: [] });
       }
     } catch (error) {
       console.error("Failed to load slots:", error);
-      setDaySlots([]);
+      dispatch({ type: "slots/setDay", slots: [] });
     } finally {
       setLoading(false);
     }
   };
 
+  // Refresh one date of the week timeline when revalidated slots arrive
+  const updateWeekSlotsForDate = (date: string) => (slots: Slot[]) =>
+    dispatch({ type: "slots/setWeekDate", date, slots: slots.map(toTimeSlot) });
+
+  const loadWeekSlots = async (dates: string[], signal?: AbortSignal) => {
+    try {
+      const responses = await Promise.all(
+        dates.map((date) =>
+          queryCache.getSlotsForDate(date, bayParam, {
+            signal,
+            onRevalidate: updateWeekSlotsForDate(date),
+          })
+        )
+      );
+      if (signal?.aborted) return;
+      const loaded: { [date: string]: TimeSlot[] } = {};
+      const allSlots: Slot[] = [];
+
+      responses.forEach((response, index) => {
+        if (response.success && response.data) {
+          loaded[dates[index]] = response.data.map(toTimeSlot);
+          allSlots.push(...response.data);
+        } else {
+          loaded[dates[index]] = [];
+          console.warn(
+            `Failed to load slots for ${dates[index]}:`,
+            response.error
+          );
+        }
+      });
+
+      dispatch({ type: "slots/setWeek", weekSlots: loaded });
+      loadBookingsForSlots(allSlots, signal);
+    } catch (error) {
+      console.error("Failed to load week slots:", error);
+    }
+  };
+
+  const loadBookingsForSlots = async (slots: Slot[], signal?: AbortSignal) => {
+    const orderIds = slots
+      .map((slot) => slot.order_id)
+      .filter((orderId): orderId is string => !!orderId);
+
+    if (orderIds.length === 0) return;
+
+    dispatch({ type: "bookings/setLoading", loading: true });
+    try {
+      const responses = await Promise.all(
+        orderIds.map((orderId) => apiService.getOrder(orderId, { signal }))
+      );
+      if (signal?.aborted) return;
+      const loaded: { [orderId: string]: Booking } = {};
+
+      responses.forEach((response, index) => {
+        if (response.success && response.data) {
+          const order = response.data as Order;
+          loaded[order.id] = {
+            order_id: order.id,
+            customer_name: order.customer_name,
+            customer_phone: order.customer_phone,
+            vehicle_registration: order.vehicle_registration,
+            vehicle_description:
+              [order.vehicle_make, order.vehicle_model]
+                .filter(Boolean)
+                .join(" ") || null,
+            mot_test_type: order.mot_test_type,
+          };
+        } else {
+          console.warn(
+            `Failed to load booking ${orderIds[index]}:`,
+            response.error
+          );
+        }
+      });
+
+      dispatch({ type: "bookings/merge", bookings: loaded });
+    } catch (error) {
+      console.error("Failed to load bookings:", error);
+    } finally {
+      dispatch({ type: "bookings/setLoading", loading: false });
+    }
+  };
+
+  // ============================================================================
+  // UNDO / REDO
+  // ============================================================================
+
+  // Where a dashboard slot sits, for history entries that outlive its id
+  const toSlotPosition = (slot: TimeSlot): SlotPosition => ({
+    bay_id: slot.bay_id ?? null,
+    start_time: slot.start,
+    end_time: slot.end,
+  });
+
+  // Slots of a date as the API has them, so a slot change can be undone
+  const snapshotSlots = async (date: string, bayId?: string) => {
+    const response = await apiService.getSlotsForDate(date, bayId);
+    return response.success && response.data ? response.data : null;
+  };
+
+  // Toast button for the latest change; it goes through historyStepRef so a
+  // click on an old toast still runs against the current schedule state
+  const historyAction = (direction: HistoryDirection) => (
+    <ToastAction
+      altText={direction === "undo" ? "Undo this change" : "Redo this change"}
+      onClick={() => historyStepRef.current(direction)}
+    >
+      {direction === "undo" ? "Undo" : "Redo"}
+    </ToastAction>
+  );
+
+  // Replay the inverse (undo) or original (redo) calls of the latest change,
+  // then reload the dates it touched
+  const runHistoryStep = async (direction: HistoryDirection) => {
+    const available =
+      direction === "undo" ? history.canUndo() : history.canRedo();
+    if (!available) {
+      toast({
+        title: direction === "undo" ? "Nothing to undo" : "Nothing to redo",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const step = await history[direction]();
+      if (!step) return;
+      const { entry, response, dropped } = step;
+
+      // Even a failed step may have applied some of its calls
+      queryCache.invalidateDates(entry.dates);
+      clearAvailabilityDates(entry.dates);
+      loadWeekSchedule();
+      loadMonthSchedule();
+      if (selectedDate && entry.dates.includes(selectedDate)) {
+        await loadSlotsForDate(selectedDate);
+      }
+
+      if (response.success) {
+        toast({
+          title: direction === "undo" ? "Undone" : "Redone",
+          description: entry.label,
+          action: historyAction(direction === "undo" ? "redo" : "undo"),
+        });
+      } else if (dropped) {
+        showApiError(
+          new ApiRequestError(response.error),
+          `Couldn't ${direction} "${entry.label}", so it was removed from the history.`
+        );
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      showApiError(error, `Failed to ${direction} the last change.`);
+    } finally {
+      setLoading(false);
+    }
+  };
+  historyStepRef.current = runHistoryStep;
+
   // ============================================================================
   // DATA SAVING FUNCTIONS
   // ============================================================================
@@ -457,48 +1376,40 @@ export default function GarageSetupPage() {
   ) => {
     setLoading(true);
     try {
-      let response;
-      if (availability.type === "holiday") {
-        response = await apiService.setHoliday(date);
-      } else if (availability.type === "weekend") {
-        response = await apiService.setWeekend(date);
-      } else {
+      // What the date had before, so the change can be undone
+      const previous = await findSpecialDay(apiService, date, bayParam);
+
+      const startTime =
+        availability.start_time ||
+        availability.timeSlots?.[0]?.start ||
+        "10:00";
+      const endTime =
+        availability.end_time || availability.timeSlots?.[0]?.end || "18:00";
+      const apply = () => {
+        if (availability.type === "holiday") {
+          return apiService.setHoliday(date, undefined, bayParam);
+        } else if (availability.type === "weekend") {
+          return apiService.setWeekend(date, bayParam);
+        }
         // Working day
-        const startTime =
-          availability.start_time ||
-          availability.timeSlots?.[0]?.start ||
-          "10:00";
-        const endTime =
-          availability.end_time || availability.timeSlots?.[0]?.end || "18:00";
-
-        response = await apiService.setSpecialOpening(
+        return apiService.setSpecialOpening(
           date,
           startTime,
           endTime,
-          availability.slot_duration || 60
+          availability.slot_duration || 60,
+          bayParam,
+          availability.breaks || [],
+          availability.buffer_minutes || 0
         );
-      }
+      };
+
+      const response = await apply();
 
       if (response.success) {
-        // Update local state immediately
-        setAvailabilityData((prev) => ({
-          ...prev,
-          [date]: availability,
-        }));
-
-        // Update week data immediately without triggering API calls
-        const updatedAvailabilityData = {
-          ...availabilityData,
-          [date]: availability,
-        };
+        queryCache.invalidateDates([date]);
 
-        const weekData = generateWeekData(
-          currentWeekIndex,
-          selectedMonth,
-          selectedYear,
-          updatedAvailabilityData
-        );
-        setCurrentWeekData(weekData);
+        // Update the store immediately; the week view is derived from it
+        dispatch({ type: "availability/setDay", date, availability });
 
         // Refresh data from API in background (optional)
         setTimeout(() => {
@@ -506,236 +1417,866 @@ export default function GarageSetupPage() {
           loadMonthSchedule();
         }, 100);
 
-        toast({
-          title: "Success",
-          description: "Availability updated successfully!",
+        if (previous.success) {
+          history.record(
+            specialDayEntry(apiService, {
+              label:
+                availability.type === "holiday"
+                  ? `Set ${date} as a holiday`
+                  : availability.type === "weekend"
+                  ? `Closed ${date}`
+                  : `Opened ${date} ${startTime}-${endTime}`,
+              date,
+              bayId: bayParam,
+              previous: previous.data || null,
+              apply,
+            })
+          );
+        }
+
+        toast({
+          title: "Success",
+          description: "Availability updated successfully!",
+          ...(previous.success && { action: historyAction("undo") }),
+        });
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      showApiError(error, "Failed to update availability.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveManualSlots = async (
+    date: string,
+    slots: TimeSlot[],
+    replace = false
+  ) => {
+    setLoading(true);
+    try {
+      const bayId = state.slotEditor.manualSlotsBayId || undefined;
+      const before = await snapshotSlots(date, bayId);
+      const apply = () =>
+        apiService.setManualSlots(
+          date,
+          slots.map((slot) => ({
+            start_time: slot.start,
+            end_time: slot.end,
+          })),
+          replace,
+          bayId
+        );
+
+      const response = await apply();
+
+      if (response.success) {
+        queryCache.invalidateSlots(date);
+        if (before) {
+          history.record(
+            slotsEntry(apiService, {
+              label: replace
+                ? `Replaced the slots on ${date}`
+                : `Added ${slots.length} slot(s) on ${date}`,
+              date,
+              bayId,
+              before,
+              apply,
+            })
+          );
+        }
+        toast({
+          title: "Success",
+          description: replace
+            ? "All slots replaced successfully!"
+            : "Manual slots added successfully!",
+          ...(before && { action: historyAction("undo") }),
+        });
+        await loadSlotsForDate(date);
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      showApiError(error, "Failed to save manual slots.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ============================================================================
+  // SLOT MANAGEMENT FUNCTIONS
+  // ============================================================================
+
+  const updateSlot = async (
+    slotId: string,
+    startTime: string,
+    endTime: string
+  ) => {
+    const previous = state.daySlots.find((slot) => slot.id === slotId);
+    setLoading(true);
+    try {
+      const response = await apiService.updateSlot(slotId, startTime, endTime);
+
+      if (response.success) {
+        queryCache.invalidateSlot(slotId);
+        if (previous && selectedDate) {
+          history.record(
+            slotMoveEntry(apiService, {
+              label: `Moved slot ${previous.start}-${previous.end} on ${selectedDate} to ${startTime}-${endTime}`,
+              date: selectedDate,
+              slot: toSlotPosition(previous),
+              to: { start_time: startTime, end_time: endTime },
+            })
+          );
+        }
+        toast({
+          title: "Success",
+          description: "Slot updated successfully!",
+          ...(previous && { action: historyAction("undo") }),
+        });
+        await loadSlotsForDate(selectedDate!);
+        dispatch({ type: "slotEditor/update", changes: { editingSlot: null } });
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      showApiError(error, "Failed to update slot.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSlotBlock = async (slotId: string, isBlocked: boolean) => {
+    const slot = state.daySlots.find((item) => item.id === slotId);
+    setLoading(true);
+    try {
+      const response = isBlocked
+        ? await apiService.unblockSlot(slotId)
+        : await apiService.blockSlot(slotId);
+
+      if (response.success) {
+        queryCache.invalidateSlot(slotId);
+        dispatch({
+          type: "slots/updateDaySlot",
+          slotId,
+          changes: { is_blocked: !isBlocked },
+        });
+        if (slot && selectedDate) {
+          history.record(
+            slotBlockEntry(apiService, {
+              label: `${isBlocked ? "Unblocked" : "Blocked"} slot ${
+                slot.start
+              }-${slot.end} on ${selectedDate}`,
+              date: selectedDate,
+              slot: toSlotPosition(slot),
+              blocked: !isBlocked,
+            })
+          );
+        }
+        toast({
+          title: "Success",
+          description: `Slot ${
+            isBlocked ? "unblocked" : "blocked"
+          } successfully!`,
+          ...(slot && { action: historyAction("undo") }),
+        });
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      showApiError(error, `Failed to ${isBlocked ? "unblock" : "block"} slot.`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteSlot = async (slotId: string) => {
+    const slot = state.daySlots.find((item) => item.id === slotId);
+    const date = selectedDate;
+    setLoading(true);
+    try {
+      // A deleted slot comes back with a new id, so undo restores the date's
+      // slots for the slot's bay as they were
+      const bayId = slot?.bay_id || undefined;
+      const before = slot && date ? await snapshotSlots(date, bayId) : null;
+
+      const response = await apiService.deleteSlot(slotId);
+
+      if (response.success) {
+        queryCache.invalidateSlot(slotId);
+        dispatch({ type: "slots/removeDaySlot", slotId });
+        if (before && slot && date) {
+          const after = before.filter((item) => item.id !== slotId);
+          history.record(
+            slotsEntry(apiService, {
+              label: `Deleted slot ${slot.start}-${slot.end} on ${date}`,
+              date,
+              bayId,
+              before,
+              apply: () => restoreSlots(apiService, date, bayId, after),
+            })
+          );
+        }
+        toast({
+          title: "Success",
+          description: "Slot deleted successfully!",
+          ...(before && { action: historyAction("undo") }),
+        });
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      showApiError(error, "Failed to delete slot.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reassignBooking = async (orderId: string, targetSlotId: string) => {
+    setLoading(true);
+    try {
+      const response = await apiService.reassignBooking(orderId, targetSlotId);
+
+      if (response.success) {
+        // The booking leaves a slot of the open date for the target slot
+        queryCache.invalidateSlots(selectedDate!);
+        queryCache.invalidateSlot(targetSlotId);
+        toast({
+          title: "Success",
+          description: "Booking reassigned successfully!",
+        });
+        await loadSlotsForDate(selectedDate!);
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      showApiError(error, "Failed to reassign booking.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Optimistically move the booking in the week timeline, rolling back on failure
+  const moveBooking = async (source: DraggedSlot, target: DraggedSlot) => {
+    const previousWeekSlots = weekSlots;
+    const sourceSlot = weekSlots[source.date]?.find(
+      (slot) => slot.id === source.slotId
+    );
+    if (!sourceSlot?.order_id) return;
+
+    const orderId = sourceSlot.order_id;
+    dispatch({ type: "slots/moveBooking", source, target, orderId });
+
+    try {
+      const response = await apiService.moveBooking(
+        source.slotId,
+        target.slotId
+      );
+
+      if (response.success) {
+        queryCache.invalidateSlots(source.date);
+        queryCache.invalidateSlots(target.date);
+        const booking = bookings[orderId];
+        toast({
+          title: "Booking Moved",
+          description: booking
+            ? `${booking.customer_name} (${booking.vehicle_registration}) rescheduled successfully.`
+            : "Booking rescheduled successfully!",
+        });
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      dispatch({ type: "slots/setWeek", weekSlots: previousWeekSlots });
+      showApiError(error, "Failed to move booking.");
+    }
+  };
+
+  const removeAllSlots = async (date: string) => {
+    setLoading(true);
+    try {
+      const before = await snapshotSlots(date, bayParam);
+      const apply = () => apiService.removeAllSlotsForDate(date, bayParam);
+
+      const response = await apply();
+
+      if (response.success) {
+        queryCache.invalidateSlots(date);
+        // Booked slots are kept by the API
+        dispatch({ type: "slots/keepBookedDaySlots" });
+        if (before) {
+          history.record(
+            slotsEntry(apiService, {
+              label: `Removed all slots on ${date}`,
+              date,
+              bayId: bayParam,
+              before,
+              apply,
+            })
+          );
+        }
+        toast({
+          title: "Success",
+          description: `All slots removed for ${date}. ${
+            response.count || 0
+          } slots deleted.`,
+          ...(before && { action: historyAction("undo") }),
+        });
+      } else {
+        throw new ApiRequestError(response.error);
+      }
+    } catch (error: any) {
+      showApiError(error, "Failed to remove all slots.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ============================================================================
+  // RECURRING SPECIAL DAY RULES
+  // ============================================================================
+
+  const updateSpecialDayRules = (rules: SpecialDayRule[]) => {
+    dispatch({ type: "specialDayRules/set", rules });
+    saveSpecialDayRules(state.garageId, rules);
+  };
+
+  // Forget local availability for dates whose special day was removed
+  const clearAvailabilityDates = (dates: string[]) => {
+    dispatch({ type: "availability/clearDates", dates });
+  };
+
+  const saveSpecialDayRule = async (draft: SpecialDayRuleDraft) => {
+    setLoading(true);
+    try {
+      const existing = specialDayRules.find((rule) => rule.id === draft.id);
+      const bayId = existing ? existing.bay_id : bayParam;
+      const rule: SpecialDayRule = {
+        id: existing?.id || createRuleId(),
+        name: draft.name.trim(),
+        pattern: draft.pattern,
+        day: draft.day,
+        ...(bayId && { bay_id: bayId }),
+        applied_dates: [],
+        created_at: existing?.created_at || new Date().toISOString(),
+      };
+
+      const today = getToday();
+      const requests = expandRule(
+        rule,
+        today,
+        addDays(today, RULE_HORIZON_DAYS)
+      );
+      const requestedDates = new Set(requests.map((request) => request.date));
+
+      // Editing a series: drop upcoming dates the rule no longer covers
+      const staleDates = (existing?.applied_dates || []).filter(
+        (date) => date >= today && !requestedDates.has(date)
+      );
+      for (const date of staleDates) {
+        await apiService.deleteSpecialDay(date, rule.bay_id);
+      }
+
+      const appliedDates: string[] = [];
+      let lastError: ApiError | undefined;
+      for (const request of requests) {
+        const response = await apiService.setSpecialDay(request);
+        if (response.success) {
+          appliedDates.push(request.date);
+        } else {
+          lastError = response.error;
+        }
+      }
+
+      if (requests.length > 0 && appliedDates.length === 0) {
+        throw new ApiRequestError(lastError);
+      }
+
+      // Past occurrences stay part of the series history
+      rule.applied_dates = [
+        ...(existing?.applied_dates || []).filter((date) => date < today),
+        ...appliedDates,
+      ];
+      updateSpecialDayRules(
+        existing
+          ? specialDayRules.map((item) => (item.id === rule.id ? rule : item))
+          : [...specialDayRules, rule]
+      );
+
+      const failedCount = requests.length - appliedDates.length;
+      toast({
+        title: "Success",
+        description: `${rule.name}: applied to ${appliedDates.length} date(s)${
+          failedCount > 0 ? `, ${failedCount} failed` : ""
+        }.`,
+      });
+
+      queryCache.invalidateDates([...staleDates, ...appliedDates]);
+      clearAvailabilityDates(staleDates);
+      loadWeekSchedule();
+      loadMonthSchedule();
+    } catch (error: any) {
+      showApiError(error, "Failed to apply recurring rule.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteSpecialDayRule = async (ruleId: string) => {
+    const rule = specialDayRules.find((item) => item.id === ruleId);
+    if (!rule) return;
+
+    setLoading(true);
+    try {
+      const today = getToday();
+      const upcomingDates = rule.applied_dates.filter((date) => date >= today);
+      let removedCount = 0;
+      for (const date of upcomingDates) {
+        const response = await apiService.deleteSpecialDay(date, rule.bay_id);
+        if (response.success) removedCount++;
+      }
+
+      updateSpecialDayRules(
+        specialDayRules.filter((item) => item.id !== ruleId)
+      );
+      toast({
+        title: "Success",
+        description: `${rule.name}: removed ${removedCount} upcoming special day(s).`,
+      });
+
+      queryCache.invalidateDates(upcomingDates);
+      clearAvailabilityDates(upcomingDates);
+      loadWeekSchedule();
+      loadMonthSchedule();
+    } catch (error: any) {
+      showApiError(error, "Failed to remove recurring rule.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ============================================================================
+  // UK BANK HOLIDAYS
+  // ============================================================================
+
+  const previewBankHolidays = async (region: UkRegion, year: number) => {
+    setLoading(true);
+    try {
+      const holidays = getBankHolidays(region, year);
+      const months = Array.from(
+        new Set(holidays.map((holiday) => Number(holiday.date.slice(5, 7))))
+      );
+
+      // Existing special days in the months that have bank holidays
+      const responses = await Promise.all(
+        months.map((month) =>
+          apiService.getMonthSchedule(month, year, bayParam)
+        )
+      );
+      const existingTypes: { [date: string]: string } = {};
+      responses.forEach((response) => {
+        if (!response.success || !response.data) {
+          throw new ApiRequestError(response.error);
+        }
+        response.data.forEach((item: MonthScheduleItem) => {
+          existingTypes[item.event_date.split("T")[0]] = item.type;
         });
-      } else {
-        throw new Error(response.error || "API request failed");
-      }
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description:
-          getErrorMessage(error) ||
-          "Failed to update availability. Please check your API token.",
-        variant: "destructive",
       });
+
+      dispatch({
+        type: "bankHolidays/setPreview",
+        preview: {
+          region,
+          year,
+          items: holidays.map((holiday) => ({
+            ...holiday,
+            existing_type: existingTypes[holiday.date] || null,
+          })),
+        },
+      });
+    } catch (error: any) {
+      showApiError(error, "Failed to check existing special days.");
     } finally {
       setLoading(false);
     }
   };
 
-  const saveManualSlots = async (
-    date: string,
-    slots: TimeSlot[],
-    replace = false
-  ) => {
+  const applyBankHolidays = async () => {
+    if (!bankHolidayPreview) return;
+
     setLoading(true);
     try {
-      const response = await apiService.setManualSlots(
-        date,
-        slots.map((slot) => ({
-          start_time: slot.start,
-          end_time: slot.end,
-        })),
-        replace
+      const toApply = bankHolidayPreview.items.filter(
+        (item) => !item.existing_type
       );
+      let appliedCount = 0;
+      let lastError: ApiError | undefined;
+      for (const item of toApply) {
+        const response = await apiService.setHoliday(
+          item.date,
+          undefined,
+          bayParam
+        );
+        if (response.success) {
+          appliedCount++;
+        } else {
+          lastError = response.error;
+        }
+      }
 
-      if (response.success) {
-        toast({
-          title: "Success",
-          description: replace
-            ? "All slots replaced successfully!"
-            : "Manual slots added successfully!",
-        });
-        await loadSlotsForDate(date);
-      } else {
-        throw new Error(response.error || "API request failed");
+      if (toApply.length > 0 && appliedCount === 0) {
+        throw new ApiRequestError(lastError);
       }
-    } catch (error: any) {
+
+      const skippedCount = bankHolidayPreview.items.length - toApply.length;
+      const failedCount = toApply.length - appliedCount;
       toast({
-        title: "Error",
-        description:
-          getErrorMessage(error) ||
-          "Failed to save manual slots. Please check your API token.",
-        variant: "destructive",
+        title: "Success",
+        description: `Applied ${appliedCount} bank holiday(s) for ${
+          bankHolidayPreview.year
+        }${skippedCount > 0 ? `, skipped ${skippedCount} existing` : ""}${
+          failedCount > 0 ? `, ${failedCount} failed` : ""
+        }.`,
       });
+
+      queryCache.invalidateDates(toApply.map((item) => item.date));
+      dispatch({ type: "bankHolidays/setPreview", preview: null });
+      closeModal();
+      loadWeekSchedule();
+      loadMonthSchedule();
+    } catch (error: any) {
+      showApiError(error, "Failed to apply bank holidays.");
     } finally {
       setLoading(false);
     }
   };
 
   // ============================================================================
-  // SLOT MANAGEMENT FUNCTIONS
+  // CALENDAR EXPORT
   // ============================================================================
 
-  const updateSlot = async (
-    slotId: string,
-    startTime: string,
-    endTime: string
-  ) => {
+  const exportCalendar = async (from: string, to: string) => {
     setLoading(true);
     try {
-      const response = await apiService.updateSlot(slotId, startTime, endTime);
-
-      if (response.success) {
-        toast({
-          title: "Success",
-          description: "Slot updated successfully!",
-        });
-        await loadSlotsForDate(selectedDate!);
-        setEditingSlot(null);
-      } else {
-        throw new Error(response.error || "API request failed");
+      const [dayResponse, slotResponse] = await Promise.all([
+        apiService.getScheduleRange(from, to, bayParam),
+        apiService.getSlotsInRange(from, to, bayParam),
+      ]);
+      if (!dayResponse.success || !dayResponse.data) {
+        throw new ApiRequestError(dayResponse.error);
       }
-    } catch (error: any) {
+      if (!slotResponse.success || !slotResponse.data) {
+        throw new ApiRequestError(slotResponse.error);
+      }
+      const days = dayResponse.data;
+
+      // Only the bookings of open days are exported
+      const openDates = new Set(
+        days
+          .filter((day) => day.schedule?.type === "OPEN")
+          .map((day) => day.date)
+      );
+      const slots = slotResponse.data.filter((slot) =>
+        openDates.has(slot.date)
+      );
+
+      const bayName = bays.find((bay) => bay.id === selectedBayId)?.name;
+      const content = buildScheduleIcs(days, slots, {
+        calendarName: bayName
+          ? `Garage schedule - ${bayName}`
+          : "Garage schedule",
+        bayNames: Object.fromEntries(bays.map((bay) => [bay.id, bay.name])),
+      });
+      downloadTextFile(
+        `garage-schedule-${from}-to-${to}.ics`,
+        content,
+        "text/calendar;charset=utf-8"
+      );
+
       toast({
-        title: "Error",
-        description:
-          getErrorMessage(error) ||
-          "Failed to update slot. Please check your API token.",
-        variant: "destructive",
+        title: "Success",
+        description: `Exported ${days.length} day(s) to .ics.`,
       });
+      closeModal();
+    } catch (error: any) {
+      showApiError(error, "Failed to export calendar.");
     } finally {
       setLoading(false);
     }
   };
 
-  const toggleSlotBlock = async (slotId: string, isBlocked: boolean) => {
+  // ============================================================================
+  // CALENDAR IMPORT
+  // ============================================================================
+
+  // Block every free slot on the item's date that overlaps its time range
+  const blockSlotsForImport = async (
+    item: IcsImportItem
+  ): Promise<IcsImportResult> => {
+    const response = await apiService.getSlotsForDate(item.date, bayParam);
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        message: response.error?.message || "API request failed",
+      };
+    }
+
+    const overlapping = response.data.filter(
+      (slot) =>
+        slot.start_time < item.end_time! && slot.end_time > item.start_time!
+    );
+    const free = overlapping.filter(
+      (slot) => !slot.is_blocked && !slot.order_id
+    );
+    const booked = overlapping.filter((slot) => slot.order_id).length;
+
+    let blocked = 0;
+    for (const slot of free) {
+      const blockResponse = await apiService.blockSlot(slot.id);
+      if (blockResponse.success) blocked++;
+    }
+
+    if (blocked < free.length) {
+      return {
+        success: false,
+        message: `Blocked ${blocked} of ${free.length} slot(s)`,
+      };
+    }
+    return {
+      success: true,
+      message:
+        free.length === 0
+          ? "No free slots to block"
+          : `Blocked ${blocked} slot(s)${
+              booked > 0 ? `, ${booked} booked left as is` : ""
+            }`,
+    };
+  };
+
+  const applyIcsImport = async (items: IcsImportItem[]) => {
     setLoading(true);
     try {
-      const response = isBlocked
-        ? await apiService.unblockSlot(slotId)
-        : await apiService.blockSlot(slotId);
+      const results: { [key: string]: IcsImportResult } = {};
 
-      if (response.success) {
-        setDaySlots((prev) =>
-          prev.map((slot) =>
-            slot.id === slotId ? { ...slot, is_blocked: !isBlocked } : slot
-          )
-        );
-        toast({
-          title: "Success",
-          description: `Slot ${
-            isBlocked ? "unblocked" : "blocked"
-          } successfully!`,
-        });
-      } else {
-        throw new Error(response.error || "API request failed");
+      for (const item of items) {
+        try {
+          if (item.action === "BLOCK") {
+            results[item.key] = await blockSlotsForImport(item);
+          } else {
+            const response = await apiService.setSpecialDay(
+              toSpecialDayRequest(item, bayParam)
+            );
+            results[item.key] = response.success
+              ? {
+                  success: true,
+                  message: `Set as ${item.action.toLowerCase()}`,
+                }
+              : {
+                  success: false,
+                  message: response.error?.message || "API request failed",
+                };
+          }
+        } catch (error: any) {
+          results[item.key] = {
+            success: false,
+            message: getErrorMessage(error) || "Network error",
+          };
+        }
       }
-    } catch (error: any) {
+
+      queryCache.invalidateDates(items.map((item) => item.date));
+      dispatch({ type: "importResults/set", kind: "ics", results });
+      const failedCount = Object.values(results).filter(
+        (result) => !result.success
+      ).length;
       toast({
-        title: "Error",
-        description:
-          getErrorMessage(error) ||
-          `Failed to ${
-            isBlocked ? "unblock" : "block"
-          } slot. Please check your API token.`,
-        variant: "destructive",
+        title: failedCount > 0 ? "Import finished with errors" : "Success",
+        description: `Imported ${items.length - failedCount} of ${
+          items.length
+        } item(s).`,
+        ...(failedCount > 0 && { variant: "destructive" as const }),
       });
+
+      loadWeekSchedule();
+      loadMonthSchedule();
     } finally {
       setLoading(false);
     }
   };
 
-  const deleteSlot = async (slotId: string) => {
+  // ============================================================================
+  // CONFIGURATION EXPORT & IMPORT
+  // ============================================================================
+
+  const exportScheduleConfig = async (from: string, to: string) => {
     setLoading(true);
     try {
-      const response = await apiService.deleteSlot(slotId);
+      const bayIds = bays.length > 0 ? bays.map((bay) => bay.id) : [undefined];
+
+      const unwrap = <T,>(response: {
+        success: boolean;
+        data?: T;
+        error?: ApiError;
+      }): T => {
+        if (!response.success || !response.data) {
+          throw new ApiRequestError(response.error);
+        }
+        return response.data;
+      };
+
+      // One ranged read per bay for special days and schedules, one for slots
+      const [
+        versionResponse,
+        specialDayResponses,
+        scheduleResponses,
+        slotResponse,
+      ] = await Promise.all([
+        apiService.getWeeklyPatternVersions(),
+        Promise.all(
+          bayIds.map((bayId) =>
+            apiService.getSpecialDaysInRange(from, to, bayId)
+          )
+        ),
+        Promise.all(
+          bayIds.map((bayId) => apiService.getScheduleRange(from, to, bayId))
+        ),
+        apiService.getSlotsInRange(from, to),
+      ]);
+
+      const garage = state.garages.find((item) => item.id === state.garageId);
+      const config = buildScheduleConfig({
+        garage: { id: state.garageId, name: garage?.name ?? null },
+        from,
+        to,
+        bays,
+        versions: unwrap(versionResponse),
+        specialDays: specialDayResponses.flatMap(unwrap),
+        schedules: scheduleResponses.map((response, index) => ({
+          bayId: bayIds[index] ?? null,
+          days: unwrap(response),
+        })),
+        slots: unwrap(slotResponse),
+      });
+      downloadTextFile(
+        `garage-schedule-config-${from}-to-${to}.json`,
+        JSON.stringify(config, null, 2),
+        "application/json;charset=utf-8"
+      );
 
-      if (response.success) {
-        setDaySlots((prev) => prev.filter((slot) => slot.id !== slotId));
-        toast({
-          title: "Success",
-          description: "Slot deleted successfully!",
-        });
-      } else {
-        throw new Error(response.error || "API request failed");
-      }
-    } catch (error: any) {
       toast({
-        title: "Error",
-        description:
-          getErrorMessage(error) ||
-          "Failed to delete slot. Please check your API token.",
-        variant: "destructive",
+        title: "Success",
+        description: `Exported ${config.weekly_patterns.length} pattern version(s), ${config.special_days.length} special day(s) and ${config.manual_slots.length} day(s) of manual slots.`,
       });
+    } catch (error: any) {
+      showApiError(error, "Failed to export the configuration.");
     } finally {
       setLoading(false);
     }
   };
 
-  const removeAllSlots = async (date: string) => {
+  // Bookings here stay put, so the file's slots that overlap one are left out
+  const replaceSlotsForImport = async (
+    item: Extract<ScheduleConfigImportItem, { kind: "manual_slots" }>
+  ) => {
+    const response = await apiService.getSlotsForDate(item.date, item.bayId);
+    if (!response.success || !response.data) return response;
+    return apiService.setManualSlots(
+      item.date,
+      fitAroundBookings(item.slots, response.data),
+      true,
+      item.bayId
+    );
+  };
+
+  // Patterns go first, so special days and manual slots land on top of them
+  const applyScheduleConfig = async (
+    items: ScheduleConfigImportItem[],
+    daysToGenerate: number
+  ) => {
     setLoading(true);
     try {
-      const response = await apiService.removeAllSlotsForDate(date);
+      const results: { [key: string]: ConfigImportResult } = {};
+      const order = { pattern: 0, special_day: 1, manual_slots: 2 };
+      const sorted = [...items].sort((a, b) => order[a.kind] - order[b.kind]);
+
+      for (const item of sorted) {
+        try {
+          const response =
+            item.kind === "pattern"
+              ? await apiService.setWeeklyPattern(
+                  item.pattern,
+                  daysToGenerate,
+                  item.bayId,
+                  item.bufferMinutes,
+                  {
+                    effective_from: item.effectiveFrom,
+                    ...(item.effectiveTo && { effective_to: item.effectiveTo }),
+                    label: item.label,
+                  }
+                )
+              : item.kind === "special_day"
+              ? await apiService.setSpecialDay(item.request)
+              : await replaceSlotsForImport(item);
+          results[item.key] = response.success
+            ? { success: true, message: "Applied" }
+            : {
+                success: false,
+                message: response.error?.message || "API request failed",
+              };
+        } catch (error: any) {
+          results[item.key] = {
+            success: false,
+            message: getErrorMessage(error) || "Network error",
+          };
+        }
+      }
 
-      if (response.success) {
-        setDaySlots([]);
-        toast({
-          title: "Success",
-          description: `All slots removed for ${date}. ${
-            response.count || 0
-          } slots deleted.`,
-        });
-      } else {
-        throw new Error(response.error || "API request failed");
+      queryCache.invalidateAll();
+      history.clear();
+      dispatch({ type: "importResults/set", kind: "config", results });
+      const failedCount = Object.values(results).filter(
+        (result) => !result.success
+      ).length;
+      if (
+        sorted.some(
+          (item) => item.kind === "pattern" && results[item.key].success
+        )
+      ) {
+        dispatch({ type: "setup/update", changes: { isReset: false } });
       }
-    } catch (error: any) {
       toast({
-        title: "Error",
-        description:
-          getErrorMessage(error) ||
-          "Failed to remove all slots. Please check your API token.",
-        variant: "destructive",
+        title: failedCount > 0 ? "Import finished with errors" : "Success",
+        description: `Imported ${items.length - failedCount} of ${
+          items.length
+        } item(s).`,
+        ...(failedCount > 0 && { variant: "destructive" as const }),
       });
+
+      dispatch({ type: "availability/reset" });
+      await loadPatternVersions();
+      await loadWeekSchedule();
+      await loadMonthSchedule();
     } finally {
       setLoading(false);
     }
   };
 
+  const handleOpenConfigModal = () => {
+    dispatch({ type: "importResults/set", kind: "config", results: null });
+    openModal("config");
+  };
+
   // ============================================================================
   // NAVIGATION FUNCTIONS
   // ============================================================================
 
   const navigateToPreviousWeek = () => {
-    if (currentWeekIndex > 0) {
-      setCurrentWeekIndex((prev) => prev - 1);
-    } else {
-      let newMonth = selectedMonth - 1;
-      let newYear = selectedYear;
-      if (newMonth < 0) {
-        newMonth = 11;
-        newYear = selectedYear - 1;
-      }
-      setSelectedMonth(newMonth);
-      setSelectedYear(newYear);
-      setCurrentWeekIndex(
-        getTotalWeeksInMonth(newMonth, newYear, availabilityData) - 1
-      );
-    }
+    dispatch({ type: "navigation/previousWeek" });
   };
 
   const navigateToNextWeek = () => {
-    const totalWeeks = getTotalWeeksInMonth(
-      selectedMonth,
-      selectedYear,
-      availabilityData
-    );
-    if (currentWeekIndex < totalWeeks - 1) {
-      setCurrentWeekIndex((prev) => prev + 1);
-    } else {
-      let newMonth = selectedMonth + 1;
-      let newYear = selectedYear;
-      if (newMonth > 11) {
-        newMonth = 0;
-        newYear = selectedYear + 1;
-      }
-      setSelectedMonth(newMonth);
-      setSelectedYear(newYear);
-      setCurrentWeekIndex(0);
-    }
+    dispatch({ type: "navigation/nextWeek" });
   };
 
   // ============================================================================
@@ -746,19 +2287,23 @@ export default function GarageSetupPage() {
     date: string,
     type: "working" | "weekend" | "holiday"
   ) => {
-    setSelectedDate(date);
-    setSelectedCalendarDate(date);
-    setSelectedDayType(type);
+    dispatch({ type: "selection/openDate", date, dayType: type });
     const existingData = availabilityData[date];
 
-    if (existingData && existingData.timeSlots) {
-      setTimeSlots(existingData.timeSlots);
-    } else {
-      setTimeSlots([{ start: "10:00", end: "18:00" }]);
-    }
+    dispatch({
+      type: "timeEditor/update",
+      changes: {
+        timeSlots:
+          existingData && existingData.timeSlots
+            ? existingData.timeSlots
+            : [{ start: "10:00", end: "18:00" }],
+        breaks: existingData?.breaks || [],
+        bufferMinutes: existingData?.buffer_minutes || 0,
+      },
+    });
 
     if (type === "working") {
-      setShowTimeModal(true);
+      openModal("time");
       loadSlotsForDate(date);
     } else {
       const defaultStart = type === "weekend" ? "10:00" : undefined;
@@ -776,23 +2321,27 @@ export default function GarageSetupPage() {
         description: type === "holiday" ? "Holiday" : "Weekend hours",
       };
 
-      setAvailabilityData((prev) => ({
-        ...prev,
-        [date]: newAvailability,
-      }));
+      dispatch({
+        type: "availability/setDay",
+        date,
+        availability: newAvailability,
+      });
 
       saveAvailabilityToAPI(date, newAvailability);
-      setSelectedCalendarDate(null);
+      dispatch({ type: "selection/setCalendarDate", date: null });
     }
   };
 
   const handleSaveTime = () => {
+    const { startTime, endTime, slotDuration, bufferMinutes, breaks } =
+      state.timeEditor;
     if (selectedDate) {
       // Generate slots from the time range and duration
       const generatedSlots = generateTimeSlots(
         startTime,
         endTime,
-        slotDuration
+        slotDuration,
+        { bayId: bayParam, breaks, bufferMinutes }
       );
 
       const newAvailability: DayAvailability = {
@@ -801,36 +2350,49 @@ export default function GarageSetupPage() {
         start_time: startTime,
         end_time: endTime,
         slot_duration: slotDuration,
+        buffer_minutes: bufferMinutes,
+        breaks,
       };
 
-      setAvailabilityData((prev) => ({
-        ...prev,
-        [selectedDate]: newAvailability,
-      }));
+      dispatch({
+        type: "availability/setDay",
+        date: selectedDate,
+        availability: newAvailability,
+      });
 
       saveAvailabilityToAPI(selectedDate, newAvailability);
     }
-    setShowTimeModal(false);
-    setSelectedDate(null);
-    setSelectedCalendarDate(null);
+    closeModal();
+    dispatch({ type: "selection/setDate", date: null });
+    dispatch({ type: "selection/setCalendarDate", date: null });
   };
 
   const handleManageSlots = (date: string) => {
-    setSelectedDate(date);
+    dispatch({ type: "selection/setDate", date });
+    if (bayParam) {
+      dispatch({
+        type: "slotEditor/update",
+        changes: { manualSlotsBayId: bayParam },
+      });
+    }
     loadSlotsForDate(date);
-    setShowSlotModal(true);
+    openModal("slots");
   };
 
   const handleSaveManualSlots = () => {
+    const { manualSlots, replaceAllSlots } = state.slotEditor;
     if (selectedDate) {
       saveManualSlots(selectedDate, manualSlots, replaceAllSlots);
-      setShowSlotModal(false);
-      setReplaceAllSlots(false);
+      closeModal();
+      dispatch({
+        type: "slotEditor/update",
+        changes: { replaceAllSlots: false },
+      });
     }
   };
 
   const handleOpenWeeklyPatternModal = () => {
-    setShowWeeklyPatternModal(true);
+    openModal("weeklyPattern");
   };
 
   // ============================================================================
@@ -838,63 +2400,132 @@ export default function GarageSetupPage() {
   // ============================================================================
 
   const handleDateSelect = (dateStr: string) => {
-    setSelectedCalendarDate(dateStr);
-
-    // Find which week this date belongs to and switch to that week
-    const targetDate = new Date(dateStr);
-    const targetMonth = targetDate.getMonth();
-    const targetYear = targetDate.getFullYear();
-
-    // If the selected date is in a different month, switch to that month
-    if (targetMonth !== selectedMonth || targetYear !== selectedYear) {
-      setSelectedMonth(targetMonth);
-      setSelectedYear(targetYear);
-
-      // Calculate the week index for this date in the new month
-      const weekIndex = getWeekIndexForDate(
-        dateStr,
-        targetMonth,
-        targetYear,
-        availabilityData
-      );
-      setCurrentWeekIndex(weekIndex);
-    } else {
-      // Same month, just switch to the correct week
-      const weekIndex = getWeekIndexForDate(
-        dateStr,
-        selectedMonth,
-        selectedYear,
-        availabilityData
-      );
-      setCurrentWeekIndex(weekIndex);
-    }
+    // Highlight the date and switch to the week (and month) it belongs to
+    dispatch({ type: "navigation/showDate", date: dateStr });
   };
 
   const handleMonthChange = (month: number) => {
-    setSelectedMonth(month);
-    setCurrentWeekIndex(0);
+    dispatch({ type: "navigation/setMonth", month });
   };
 
   const handleYearChange = (year: number) => {
-    setSelectedYear(year);
-    setCurrentWeekIndex(0);
+    dispatch({ type: "navigation/setYear", year });
   };
 
   const handleWeekSelect = (weekIndex: number) => {
-    setCurrentWeekIndex(weekIndex);
+    dispatch({ type: "navigation/setWeek", weekIndex });
+  };
+
+  const handleBayChange = (bayId: string) => {
+    // Drops the previous bay's schedule; the effects reload it for the new filter
+    dispatch({ type: "selection/setBay", bayId });
   };
 
   // ============================================================================
   // EFFECTS
   // ============================================================================
 
+  // Resume this tab's saved session, unless it has expired
+  useEffect(() => {
+    const stored = loadSession();
+    if (stored && isSessionExpired(stored)) {
+      clearSession();
+      dispatch({
+        type: "auth/update",
+        changes: {
+          session: stored,
+          notice: "Your session has expired. Please sign in again.",
+        },
+      });
+    } else if (stored) {
+      startSession(stored);
+    }
+    dispatch({ type: "auth/update", changes: { restoring: false } });
+  }, []);
+
+  // Ask the user to sign in again once the token's exp claim passes
+  useEffect(() => {
+    if (!isAuthenticated || !session || session.expiresAt === null) return;
+    const delay = session.expiresAt - Date.now();
+    // Requests still check expiry for tokens outliving the longest timer
+    if (delay > MAX_TIMER_MS) return;
+    const timer = setTimeout(
+      () => endSession("Your session has expired. Please sign in again."),
+      Math.max(0, delay)
+    );
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, session]);
+
+  // Rules live in localStorage per garage, so read them after mount and
+  // again for each garage switched to
+  useEffect(() => {
+    dispatch({
+      type: "specialDayRules/set",
+      rules: loadSpecialDayRules(state.garageId),
+    });
+  }, [state.garageId]);
+
+  // Each garage keeps its own snapshot
+  useEffect(() => {
+    dispatch({
+      type: "snapshot/set",
+      snapshot: loadScheduleSnapshot(state.garageId),
+    });
+  }, [state.garageId]);
+
+  // Conflict highlights fade after a few seconds
+  useEffect(() => {
+    if (!state.conflictSlotId) return;
+    const timer = setTimeout(
+      () => dispatch({ type: "ui/setConflict", slotId: null }),
+      6000
+    );
+    return () => clearTimeout(timer);
+  }, [state.conflictSlotId]);
+
+  // Ctrl+Z (Cmd+Z) undoes the latest schedule change, Ctrl+Shift+Z redoes it;
+  // text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.key.toLowerCase() !== "z"
+      ) {
+        return;
+      }
+      const target = event.target as HTMLElement | null;
+      if (
+        target?.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target?.tagName || "")
+      ) {
+        return;
+      }
+      event.preventDefault();
+      historyStepRef.current(event.shiftKey ? "redo" : "undo");
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   useEffect(() => {
     if (!isInitialized && isAuthenticated && !checkingResetState) {
-      const currentWeek = findCurrentWeek(availabilityData);
-      setSelectedMonth(currentWeek.month);
-      setSelectedYear(currentWeek.year);
-      setCurrentWeekIndex(currentWeek.weekIndex);
-      setIsInitialized(true);
+      // Open the week a shared link or refreshed page points at, else today's
+      const linked = parseScheduleLocation(
+        new URLSearchParams(window.location.search)
+      );
+      if (linked) {
+        dispatch({ type: "navigation/restore", location: linked });
+      } else {
+        const currentWeek = findCurrentWeek(availabilityData);
+        dispatch({
+          type: "navigation/goTo",
+          month: currentWeek.month,
+          year: currentWeek.year,
+          weekIndex: currentWeek.weekIndex,
+        });
+      }
+      dispatch({ type: "setup/update", changes: { initialized: true } });
 
       // Only load initial data if not in reset state
       if (!isResetState) {
@@ -904,31 +2535,50 @@ export default function GarageSetupPage() {
     }
   }, [isInitialized, isAuthenticated, checkingResetState, isResetState]);
 
-  // Remove availabilityData from the dependency array and use a different approach
+  // Mirror the visible week and highlighted date in the URL. Moving to another
+  // week adds a history entry, so back/forward step between weeks; a new
+  // highlight in the same week only replaces the current entry.
   useEffect(() => {
-    if (isInitialized && isAuthenticated && !isResetState) {
-      const weekData = generateWeekData(
-        currentWeekIndex,
-        selectedMonth,
-        selectedYear,
-        availabilityData
+    if (!isInitialized) return;
+    const current = new URLSearchParams(window.location.search);
+    const location = selectScheduleLocation(state);
+    const search = toScheduleSearch(location, current);
+    if (search === current.toString()) return;
+
+    const previous = parseScheduleLocation(current);
+    const url = `${window.location.pathname}?${search}`;
+    if (previous && !isSameWeek(previous, location)) {
+      window.history.pushState(null, "", url);
+    } else {
+      window.history.replaceState(null, "", url);
+    }
+  }, [state.navigation, selectedCalendarDate, isInitialized]);
+
+  // Back/forward: show the week the URL now points at
+  useEffect(() => {
+    const handlePopState = () => {
+      const location = parseScheduleLocation(
+        new URLSearchParams(window.location.search)
       );
-      setCurrentWeekData(weekData);
+      if (location) dispatch({ type: "navigation/restore", location });
+    };
 
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  // The week data itself is derived from the store (selectCurrentWeekData)
+  useEffect(() => {
+    if (isInitialized && isAuthenticated && !isResetState) {
       // Load week schedule when week changes
       loadWeekSchedule();
-
-      // Debug logging to verify date alignment
-      console.log(
-        "Current Week Data:",
-        weekData.map((day) => ({ date: day.date, day: day.day }))
-      );
     }
   }, [
     currentWeekIndex,
     selectedMonth,
     selectedYear,
-    // Remove availabilityData from here - this was causing the infinite loop
+    selectedBayId,
+    state.garageId,
     isInitialized,
     isAuthenticated,
     isResetState,
@@ -942,24 +2592,42 @@ export default function GarageSetupPage() {
   }, [
     selectedMonth,
     selectedYear,
+    selectedBayId,
+    state.garageId,
     isInitialized,
     isAuthenticated,
     isResetState,
   ]);
 
+  // The overview follows the week shown and any change of garages
+  useEffect(() => {
+    if (showOverview && isAuthenticated) loadOverview();
+  }, [
+    showOverview,
+    isAuthenticated,
+    currentWeekIndex,
+    selectedMonth,
+    selectedYear,
+    state.garages,
+  ]);
+
   // ============================================================================
   // RENDER
   // ============================================================================
 
   // Show authentication modal if not authenticated
-  if (!isAuthenticated) {
+  if (!isAuthenticated && !restoringSession) {
     return (
-      <AuthModal token={token} setToken={setToken} onProceed={handleProceed} />
+      <AuthModal
+        onLogin={handleLogin}
+        defaultEmail={session?.email}
+        notice={authNotice}
+      />
     );
   }
 
-  // Show loading while checking reset state
-  if (checkingResetState) {
+  // Show loading while resuming the session or checking reset state
+  if (restoringSession || checkingResetState) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -987,97 +2655,227 @@ export default function GarageSetupPage() {
                 Manage your weekly schedule and time slots
               </p>
             </div>
-            <button
-              onClick={handleOpenWeeklyPatternModal}
-              className="flex items-center gap-2 px-4 py-2 text-white rounded-lg hover:opacity-90 transition-colors"
-              style={{ backgroundColor: BRAND_COLOR }}
-            >
-              <Calendar className="w-4 h-4" />
-              Weekly Pattern
-            </button>
+            <div className="flex flex-wrap items-center gap-3">
+              <GarageSwitcher
+                garages={state.garages}
+                garageId={state.garageId}
+                showOverview={showOverview}
+                onGarageChange={handleGarageChange}
+                onToggleOverview={() =>
+                  dispatch({
+                    type: "overview/update",
+                    changes: { open: !showOverview },
+                  })
+                }
+              />
+              {session && (
+                <span className="text-sm text-gray-600">
+                  {session.name || session.email}
+                  <span className="ml-2 text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600">
+                    {ROLE_LABELS[session.role]}
+                  </span>
+                </span>
+              )}
+              {permissions["weeklyPattern.edit"] && (
+                <button
+                  onClick={handleOpenWeeklyPatternModal}
+                  className="flex items-center gap-2 px-4 py-2 text-white rounded-lg hover:opacity-90 transition-colors"
+                  style={{ backgroundColor: BRAND_COLOR }}
+                >
+                  <Calendar className="w-4 h-4" />
+                  Weekly Pattern
+                </button>
+              )}
+              <button
+                onClick={handleOpenConfigModal}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                title="Export or import this garage's configuration (.json)"
+              >
+                <FileJson className="w-4 h-4" />
+                Configuration
+              </button>
+              <button
+                onClick={handleLogout}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                Sign Out
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Reset garage, but this role can't set it up */}
+        {isResetState && !permissions["weeklyPattern.edit"] && (
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <div>
+              <h4 className="font-medium text-blue-800">
+                The schedule hasn't been set up yet
+              </h4>
+              <p className="text-sm text-blue-700">
+                Ask an owner or manager to set up the weekly pattern. Slots will
+                appear here once they have.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <GarageSwitcher
+                garages={state.garages}
+                garageId={state.garageId}
+                showOverview={showOverview}
+                onGarageChange={handleGarageChange}
+                onToggleOverview={() =>
+                  dispatch({
+                    type: "overview/update",
+                    changes: { open: !showOverview },
+                  })
+                }
+              />
+              <button
+                onClick={handleLogout}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                Sign Out
+              </button>
+            </div>
           </div>
         )}
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Left Section - Week View */}
-          <WeekView
-            currentWeekIndex={currentWeekIndex}
-            currentWeekData={currentWeekData}
-            selectedCalendarDate={selectedCalendarDate}
-            loading={loading}
+        {showOverview ? (
+          <GarageOverview
+            garages={state.garages}
+            garageId={state.garageId}
+            dates={Array.from({ length: 7 }, (_, index) =>
+              addDays(selectWeekStartDate(state), index)
+            )}
+            overview={overview}
+            loading={overviewLoading}
+            onOpenGarage={handleGarageChange}
             onPreviousWeek={navigateToPreviousWeek}
             onNextWeek={navigateToNextWeek}
-            onManageSlots={handleManageSlots}
           />
-
-          {/* Right Section - Calendar */}
-          <CalendarView
-            selectedMonth={selectedMonth}
-            selectedYear={selectedYear}
-            selectedCalendarDate={selectedCalendarDate}
-            currentWeekData={currentWeekData}
-            currentWeekIndex={currentWeekIndex}
-            availabilityData={availabilityData}
-            onMonthChange={handleMonthChange}
-            onYearChange={handleYearChange}
-            onDateSelect={handleDateSelect}
-            onWeekSelect={handleWeekSelect}
-            onSetWorking={() =>
-              selectedCalendarDate &&
-              handleDateClick(selectedCalendarDate, "working")
-            }
-            onSetWeekend={() =>
-              selectedCalendarDate &&
-              handleDateClick(selectedCalendarDate, "weekend")
-            }
-            onSetHoliday={() =>
-              selectedCalendarDate &&
-              handleDateClick(selectedCalendarDate, "holiday")
-            }
-            onClearSelection={() => setSelectedCalendarDate(null)}
-          />
-        </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Left Section - Week View */}
+            <WeekView
+              currentWeekIndex={currentWeekIndex}
+              currentWeekData={currentWeekData}
+              weekSlots={weekSlots}
+              bookings={bookings}
+              bays={bays}
+              selectedBayId={selectedBayId}
+              patternVersions={state.patternVersions}
+              selectedCalendarDate={selectedCalendarDate}
+              loading={state.loading}
+              conflictSlotId={state.conflictSlotId}
+              onPreviousWeek={navigateToPreviousWeek}
+              onNextWeek={navigateToNextWeek}
+              onManageSlots={handleManageSlots}
+              onMoveBooking={moveBooking}
+            />
+
+            {/* Right Section - Calendar */}
+            <CalendarView
+              selectedMonth={selectedMonth}
+              selectedYear={selectedYear}
+              selectedCalendarDate={selectedCalendarDate}
+              currentWeekData={currentWeekData}
+              currentWeekIndex={currentWeekIndex}
+              availabilityData={availabilityData}
+              bays={bays}
+              selectedBayId={selectedBayId}
+              patternVersions={state.patternVersions}
+              permissions={permissions}
+              onBayChange={handleBayChange}
+              onMonthChange={handleMonthChange}
+              onYearChange={handleYearChange}
+              onDateSelect={handleDateSelect}
+              onWeekSelect={handleWeekSelect}
+              onSetWorking={() =>
+                selectedCalendarDate &&
+                handleDateClick(selectedCalendarDate, "working")
+              }
+              onSetWeekend={() =>
+                selectedCalendarDate &&
+                handleDateClick(selectedCalendarDate, "weekend")
+              }
+              onSetHoliday={() =>
+                selectedCalendarDate &&
+                handleDateClick(selectedCalendarDate, "holiday")
+              }
+              onClearSelection={() =>
+                dispatch({ type: "selection/setCalendarDate", date: null })
+              }
+              onManageRules={() => openModal("rules")}
+              onBankHolidays={() => {
+                dispatch({ type: "bankHolidays/setPreview", preview: null });
+                openModal("bankHolidays");
+              }}
+              onExport={() => openModal("export")}
+              onImport={() => {
+                dispatch({
+                  type: "importResults/set",
+                  kind: "ics",
+                  results: null,
+                });
+                openModal("import");
+              }}
+            />
+          </div>
+        )}
       </div>
 
-      {/* Modals */}
-      <TimeSettingModal
-        isOpen={showTimeModal}
-        onClose={() => setShowTimeModal(false)}
-        timeSlots={timeSlots}
-        setTimeSlots={setTimeSlots}
-        slotDuration={slotDuration}
-        setSlotDuration={setSlotDuration}
-        loading={loading}
-        onSave={handleSaveTime}
-        useCustomSlots={useCustomSlots} // Add this line
-      />
+      {/* Modals (open/close, loading and drafts come from the schedule store) */}
+      <TimeSettingModal onSave={handleSaveTime} />
 
       <SlotManagementModal
-        isOpen={showSlotModal}
-        onClose={() => setShowSlotModal(false)}
-        selectedDate={selectedDate}
-        daySlots={daySlots}
-        manualSlots={manualSlots}
-        setManualSlots={setManualSlots}
-        editingSlot={editingSlot}
-        setEditingSlot={setEditingSlot}
-        replaceAllSlots={replaceAllSlots}
-        setReplaceAllSlots={setReplaceAllSlots}
-        loading={loading}
+        permissions={permissions}
         onUpdateSlot={updateSlot}
         onToggleSlotBlock={toggleSlotBlock}
         onDeleteSlot={deleteSlot}
+        onReassignBooking={reassignBooking}
         onSaveManualSlots={handleSaveManualSlots}
         onRemoveAllSlots={removeAllSlots}
       />
 
+      <SpecialDayRulesModal
+        rules={specialDayRules}
+        horizonEnd={addDays(getToday(), RULE_HORIZON_DAYS)}
+        onSaveRule={saveSpecialDayRule}
+        onDeleteRule={deleteSpecialDayRule}
+      />
+
+      <BankHolidaysModal
+        preview={bankHolidayPreview}
+        onPreview={previewBankHolidays}
+        onApply={applyBankHolidays}
+      />
+
+      <ExportCalendarModal onExport={exportCalendar} />
+
+      <ImportCalendarModal
+        results={icsImportResults}
+        onApply={applyIcsImport}
+      />
+
+      <ScheduleConfigModal
+        results={configImportResults}
+        isResetState={isResetState}
+        permissions={permissions}
+        onExport={exportScheduleConfig}
+        onApply={applyScheduleConfig}
+      />
+
       <WeeklyPatternSetupModal
-        isOpen={showWeeklyPatternModal}
-        onClose={() => setShowWeeklyPatternModal(false)}
+        onPreview={previewWeeklyPattern}
         onSave={handleWeeklyPatternSave}
+        onDeleteVersion={handleDeletePatternVersion}
         onReset={handleScheduleReset}
-        loading={loading}
+        snapshot={scheduleSnapshot}
+        onRestore={handleScheduleRestore}
+        onImportConfig={handleOpenConfigModal}
         isResetState={isResetState}
+        permissions={permissions}
       />
     </>
   );
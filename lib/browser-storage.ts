@@ -0,0 +1,15 @@
+/**
+ * Browser Storage
+ *
+ * Web Storage when running in a browser; null during server rendering, so
+ * callers skip persistence rather than fail.
+ */
+
+export type StorageKind = "local" | "session";
+
+export function getBrowserStorage(kind: StorageKind): Storage | null {
+  if (typeof window === "undefined") return null;
+  return (
+    (kind === "local" ? window.localStorage : window.sessionStorage) ?? null
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Date Helpers
+ *
+ * YYYY-MM-DD date strings as the API sends and takes them. Arithmetic runs
+ * in UTC so daylight-saving changes never shift a day; "today" and
+ * conversions from a Date use the local calendar.
+ */
+
+export function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * A local Date as YYYY-MM-DD
+ */
+export function toDateStr(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * A YYYY-MM-DD string as local midnight (new Date(dateStr) would be UTC)
+ */
+export function parseDateStr(dateStr: string): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function toUtcDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function fromUtcDate(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(
+    date.getUTCDate()
+  )}`;
+}
+
+export function addDays(dateStr: string, days: number): string {
+  const date = toUtcDate(dateStr);
+  date.setUTCDate(date.getUTCDate() + days);
+  return fromUtcDate(date);
+}
+
+/**
+ * Whole days from one date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (toUtcDate(to).getTime() - toUtcDate(from).getTime()) / 86400000
+  );
+}
+
+export function getToday(): string {
+  return toDateStr(new Date());
+}
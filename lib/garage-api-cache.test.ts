@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type GarageApiService from "./garage-api";
+import {
+  CANCELLED_ERROR,
+  type ApiResponse,
+  type RequestOptions,
+  type Slot,
+} from "./garage-api";
+import GarageQueryCache from "./garage-api-cache";
+
+const slot = (id: string): Slot => ({
+  id,
+  garage_id: "garage-1",
+  bay_id: "bay-1",
+  date: "2026-10-19",
+  start_time: "09:00",
+  end_time: "10:00",
+  is_available: true,
+  is_blocked: false,
+  order_id: null,
+});
+
+// An api whose slot reads are answered by hand, recording each request
+function fakeApi() {
+  const requests: {
+    date: string;
+    options: RequestOptions;
+    resolve: (response: ApiResponse<Slot[]>) => void;
+  }[] = [];
+  const api = {
+    getSlotsForDate: (
+      date: string,
+      _bayId: string | undefined,
+      options: RequestOptions
+    ) =>
+      new Promise<ApiResponse<Slot[]>>((resolve) =>
+        requests.push({ date, options, resolve })
+      ),
+  };
+  return { api: api as unknown as GarageApiService, requests };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("GarageQueryCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T08:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one request and answers from the cache within the TTL", async () => {
+    const { api, requests } = fakeApi();
+    const cache = new GarageQueryCache(api, { slotsTtlMs: 1000 }, "garage-1");
+
+    const first = cache.getSlotsForDate("2026-10-19");
+    const second = cache.getSlotsForDate("2026-10-19");
+    expect(requests).toHaveLength(1);
+    expect(requests[0].options.garageId).toBe("garage-1");
+
+    requests[0].resolve({ success: true, data: [slot("slot-1")] });
+    expect(await first).toEqual(await second);
+
+    vi.advanceTimersByTime(500);
+    const cached = await cache.getSlotsForDate("2026-10-19");
+    expect(cached).toEqual({ success: true, data: [slot("slot-1")] });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("serves stale data while revalidating in the background", async () => {
+    const { api, requests } = fakeApi();
+    const cache = new GarageQueryCache(api, { slotsTtlMs: 1000 });
+    const load = cache.getSlotsForDate("2026-10-19");
+    requests[0].resolve({ success: true, data: [slot("slot-1")] });
+    await load;
+
+    vi.advanceTimersByTime(2000);
+    const onRevalidate = vi.fn();
+    const stale = await cache.getSlotsForDate("2026-10-19", undefined, {
+      onRevalidate,
+    });
+    expect(stale).toEqual({ success: true, data: [slot("slot-1")] });
+    expect(requests).toHaveLength(2);
+
+    requests[1].resolve({ success: true, data: [slot("slot-2")] });
+    await flush();
+    expect(onRevalidate).toHaveBeenCalledWith([slot("slot-2")]);
+  });
+
+  it("refetches after an entry is too stale to answer from", async () => {
+    const { api, requests } = fakeApi();
+    const cache = new GarageQueryCache(api, { maxStaleMs: 5000 });
+    const load = cache.getSlotsForDate("2026-10-19");
+    requests[0].resolve({ success: true, data: [] });
+    await load;
+
+    vi.advanceTimersByTime(5000);
+    const refetch = cache.getSlotsForDate("2026-10-19");
+    expect(requests).toHaveLength(2);
+    requests[1].resolve({ success: true, data: [slot("slot-2")] });
+    expect(await refetch).toEqual({ success: true, data: [slot("slot-2")] });
+  });
+
+  it("aborts a request in flight when its entry is invalidated", async () => {
+    const { api, requests } = fakeApi();
+    const cache = new GarageQueryCache(api);
+
+    const load = cache.getSlotsForDate("2026-10-19");
+    cache.getSlotsForDate("2026-10-20");
+    cache.invalidateDates(["2026-10-19"]);
+
+    expect(requests[0].options.signal?.aborted).toBe(true);
+    expect(requests[1].options.signal?.aborted).toBe(false);
+
+    // The late answer is not stored
+    requests[0].resolve({ success: true, data: [slot("slot-1")] });
+    await load;
+    cache.getSlotsForDate("2026-10-19");
+    expect(requests).toHaveLength(3);
+  });
+
+  it("invalidates the entries holding a slot", async () => {
+    const { api, requests } = fakeApi();
+    const cache = new GarageQueryCache(api);
+    const load = cache.getSlotsForDate("2026-10-19");
+    requests[0].resolve({ success: true, data: [slot("slot-1")] });
+    await load;
+
+    cache.invalidateSlot("slot-9");
+    await cache.getSlotsForDate("2026-10-19");
+    expect(requests).toHaveLength(1);
+
+    cache.invalidateSlot("slot-1");
+    cache.getSlotsForDate("2026-10-19");
+    expect(requests).toHaveLength(2);
+  });
+
+  it("answers a caller that aborts as cancelled", async () => {
+    const { api } = fakeApi();
+    const cache = new GarageQueryCache(api);
+    const controller = new AbortController();
+
+    const load = cache.getSlotsForDate("2026-10-19", undefined, {
+      signal: controller.signal,
+    });
+    controller.abort();
+    expect(await load).toEqual({ success: false, error: CANCELLED_ERROR });
+  });
+});
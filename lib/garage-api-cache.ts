@@ -0,0 +1,330 @@
+/**
+ * Garage API Query Cache
+ *
+ * Keyed cache in front of GarageApiService for the reads the dashboard repeats
+ * while navigating: week schedules (per start date), month schedules (per
+ * month/year) and slots (per date), each per bay filter. An entry is fresh for
+ * its TTL; after that it is still answered at once while a background request
+ * revalidates it (stale-while-revalidate). Each entry records the dates it
+ * covers so mutations can invalidate exactly the entries they affect.
+ *
+ * A cache holds one garage's data: give it the garageId and its requests
+ * (background revalidation included) stay with that garage whichever one the
+ * client is switched to. Invalidating an entry aborts its request in flight,
+ * whose answer would be out of date.
+ */
+
+import type GarageApiService from "./garage-api";
+import {
+  CANCELLED_ERROR,
+  type ApiResponse,
+  type MonthScheduleItem,
+  type RequestOptions,
+  type Slot,
+  type WeekScheduleDay,
+} from "./garage-api";
+
+// Cache Types
+export interface QueryCacheConfig {
+  weekTtlMs: number;
+  monthTtlMs: number;
+  slotsTtlMs: number;
+  maxStaleMs: number; // older entries are refetched before answering
+}
+
+const DEFAULT_CACHE_CONFIG: QueryCacheConfig = {
+  weekTtlMs: 60000,
+  monthTtlMs: 120000,
+  slotsTtlMs: 30000,
+  maxStaleMs: 600000,
+};
+
+/**
+ * Options for a cached read. onRevalidate receives fresh data when a stale
+ * answer was served and the background request returned something different.
+ */
+export interface QueryOptions<T> {
+  signal?: AbortSignal;
+  onRevalidate?: (data: T) => void;
+}
+
+type QueryKind = "week" | "month" | "slots";
+
+interface CacheEntry {
+  kind: QueryKind;
+  from: string; // first date the entry covers (YYYY-MM-DD)
+  to: string; // last date the entry covers
+  data?: unknown;
+  fetchedAt: number;
+  pending?: Promise<ApiResponse<unknown>>;
+  controller?: AbortController; // aborts the pending request
+}
+
+function offsetDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .split("T")[0];
+}
+
+function monthRange(month: number, year: number): { from: string; to: string } {
+  const prefix = `${year}-${String(month).padStart(2, "0")}`;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { from: `${prefix}-01`, to: `${prefix}-${lastDay}` };
+}
+
+/**
+ * Resolve with the shared request's result, or as cancelled if the caller's
+ * signal aborts first (the request itself keeps filling the cache)
+ */
+function settle<T>(
+  promise: Promise<ApiResponse<T>>,
+  signal?: AbortSignal
+): Promise<ApiResponse<T>> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    return Promise.resolve({ success: false, error: CANCELLED_ERROR });
+  }
+  return new Promise((resolve) => {
+    const onAbort = () => resolve({ success: false, error: CANCELLED_ERROR });
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then((response) => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(response);
+    });
+  });
+}
+
+export default class GarageQueryCache {
+  private api: GarageApiService;
+  private config: QueryCacheConfig;
+  private garageId?: string;
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(
+    api: GarageApiService,
+    config: Partial<QueryCacheConfig> = {},
+    garageId?: string
+  ) {
+    this.api = api;
+    this.config = { ...DEFAULT_CACHE_CONFIG, ...config };
+    this.garageId = garageId;
+  }
+
+  // ============================================================================
+  // CACHED READS
+  // ============================================================================
+
+  /**
+   * Week schedule starting at startDate
+   */
+  getWeekSchedule(
+    startDate: string,
+    bayId?: string,
+    options: QueryOptions<WeekScheduleDay[]> = {}
+  ): Promise<ApiResponse<WeekScheduleDay[]>> {
+    return this.query(
+      `week:${startDate}:${bayId || ""}`,
+      { kind: "week", from: startDate, to: offsetDate(startDate, 6) },
+      this.config.weekTtlMs,
+      (requestOptions) =>
+        this.api.getWeekSchedule(startDate, bayId, requestOptions),
+      options
+    );
+  }
+
+  /**
+   * Special days of a month (1-based month, as the API expects)
+   */
+  getMonthSchedule(
+    month: number,
+    year: number,
+    bayId?: string,
+    options: QueryOptions<MonthScheduleItem[]> = {}
+  ): Promise<ApiResponse<MonthScheduleItem[]>> {
+    return this.query(
+      `month:${year}-${month}:${bayId || ""}`,
+      { kind: "month", ...monthRange(month, year) },
+      this.config.monthTtlMs,
+      (requestOptions) =>
+        this.api.getMonthSchedule(month, year, bayId, requestOptions),
+      options
+    );
+  }
+
+  /**
+   * Slots of a date
+   */
+  getSlotsForDate(
+    date: string,
+    bayId?: string,
+    options: QueryOptions<Slot[]> = {}
+  ): Promise<ApiResponse<Slot[]>> {
+    return this.query(
+      `slots:${date}:${bayId || ""}`,
+      { kind: "slots", from: date, to: date },
+      this.config.slotsTtlMs,
+      (requestOptions) => this.api.getSlotsForDate(date, bayId, requestOptions),
+      options
+    );
+  }
+
+  /**
+   * Whether a week can be answered from the cache without waiting
+   */
+  hasWeekSchedule(startDate: string, bayId?: string): boolean {
+    return this.isUsable(`week:${startDate}:${bayId || ""}`);
+  }
+
+  /**
+   * Whether a month can be answered from the cache without waiting
+   */
+  hasMonthSchedule(month: number, year: number, bayId?: string): boolean {
+    return this.isUsable(`month:${year}-${month}:${bayId || ""}`);
+  }
+
+  // ============================================================================
+  // PREFETCHING
+  // ============================================================================
+
+  /**
+   * Warm the cache for a week the user is likely to open next
+   */
+  prefetchWeek(startDate: string, bayId?: string): void {
+    this.getWeekSchedule(startDate, bayId);
+  }
+
+  /**
+   * Warm the cache for a month the user is likely to open next
+   */
+  prefetchMonth(month: number, year: number, bayId?: string): void {
+    this.getMonthSchedule(month, year, bayId);
+  }
+
+  // ============================================================================
+  // INVALIDATION
+  // ============================================================================
+
+  /**
+   * Drop every schedule and slot entry covering one of the dates, for every
+   * bay filter (a garage-wide change shows up in per-bay views and vice versa)
+   */
+  invalidateDates(dates: string[]): void {
+    this.invalidateWhere((entry) =>
+      dates.some((date) => date >= entry.from && date <= entry.to)
+    );
+  }
+
+  /**
+   * Drop the slot entries of a date, leaving its schedule cached
+   */
+  invalidateSlots(date: string): void {
+    this.invalidateWhere(
+      (entry) => entry.kind === "slots" && entry.from === date
+    );
+  }
+
+  /**
+   * Drop the slot entries that contain a slot, for mutations that only know
+   * the slot id (block, delete, update)
+   */
+  invalidateSlot(slotId: string): void {
+    this.invalidateWhere(
+      (entry) =>
+        entry.kind === "slots" &&
+        Array.isArray(entry.data) &&
+        (entry.data as Slot[]).some((slot) => slot.id === slotId)
+    );
+  }
+
+  /**
+   * Drop everything, e.g. after a new weekly pattern, a reset or a new token
+   */
+  invalidateAll(): void {
+    this.invalidateWhere(() => true);
+  }
+
+  // ============================================================================
+  // INTERNALS
+  // ============================================================================
+
+  private isUsable(key: string): boolean {
+    const entry = this.entries.get(key);
+    return (
+      entry?.data !== undefined &&
+      Date.now() - entry.fetchedAt < this.config.maxStaleMs
+    );
+  }
+
+  private invalidateWhere(predicate: (entry: CacheEntry) => boolean): void {
+    this.entries.forEach((entry, key) => {
+      if (!predicate(entry)) return;
+      this.entries.delete(key);
+      entry.controller?.abort();
+    });
+  }
+
+  private query<T>(
+    key: string,
+    scope: Pick<CacheEntry, "kind" | "from" | "to">,
+    ttlMs: number,
+    fetcher: (options: RequestOptions) => Promise<ApiResponse<T>>,
+    options: QueryOptions<T>
+  ): Promise<ApiResponse<T>> {
+    const entry = this.entries.get(key);
+
+    if (entry && this.isUsable(key)) {
+      if (Date.now() - entry.fetchedAt >= ttlMs && !entry.pending) {
+        const previous = JSON.stringify(entry.data);
+        this.fetch(key, scope, fetcher).then((response) => {
+          if (response.success && JSON.stringify(response.data) !== previous) {
+            options.onRevalidate?.(response.data as T);
+          }
+        });
+      }
+      return Promise.resolve({ success: true, data: entry.data as T });
+    }
+
+    return settle(this.fetch(key, scope, fetcher), options.signal);
+  }
+
+  /**
+   * Start (or join) the request for a key. The result is only stored if the
+   * entry was not invalidated while the request was in flight.
+   */
+  private fetch<T>(
+    key: string,
+    scope: Pick<CacheEntry, "kind" | "from" | "to">,
+    fetcher: (options: RequestOptions) => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const existing = this.entries.get(key);
+    if (existing?.pending) {
+      return existing.pending as Promise<ApiResponse<T>>;
+    }
+
+    const entry: CacheEntry = existing || { ...scope, fetchedAt: 0 };
+    const controller = new AbortController();
+    const pending = fetcher({
+      garageId: this.garageId,
+      signal: controller.signal,
+    }).then((response) => {
+      entry.pending = undefined;
+      entry.controller = undefined;
+      if (this.entries.get(key) !== entry) return response;
+
+      if (response.success) {
+        entry.data = response.data;
+        entry.fetchedAt = Date.now();
+      } else if (entry.data === undefined) {
+        // Don't keep a placeholder for a request that never succeeded
+        this.entries.delete(key);
+      }
+      return response;
+    });
+
+    entry.pending = pending;
+    entry.controller = controller;
+    this.entries.set(key, entry);
+    return pending;
+  }
+}
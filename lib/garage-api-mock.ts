@@ -0,0 +1,1818 @@
+/**
+ * Garage API Mock Backend
+ *
+ * In-process implementation of the garage-dashboard API used when the real
+ * backend is unreachable (offline development, demos). It mirrors the routes
+ * consumed by GarageApiService, including reset state, slot generation from
+ * the weekly pattern, manual slots and block/unblock semantics. The first
+ * slot generation after a reset seeds a few sample bookings so the booking
+ * views have something to show.
+ *
+ * The mock group runs three MOT centres (MOCK_GARAGES) with their own bays
+ * and schedules; requests pick one with the garageId query param, and
+ * default to the token's own garage. GET /garages lists the centres the
+ * signed-in account may access. Weekly patterns and slots belong to a bay;
+ * special days are either bay-specific or garage-wide (bay_id null), and
+ * a bay-specific special day takes precedence over a garage-wide one.
+ * A bay's weekly pattern is kept as versions with effective dates that never
+ * overlap: saving a version cuts back (or splits) the ones it overlaps, and
+ * dates no version covers have no pattern.
+ * Opening hours may contain break windows (split shifts); no slots are
+ * generated inside a break. A buffer (turnaround time) can separate slots.
+ *
+ * Logging in (POST /auth/login) works for the accounts in MOCK_USERS, one
+ * per role, and returns an unsigned JWT with a one-hour expiry and a role
+ * claim. Other routes accept any bearer token that has not expired, and
+ * refuse changes its role has no permission for (403). The same mock can
+ * back the proxy server-side (API_TRANSPORT=mock, see lib/garage-bff.ts).
+ *
+ * State lives in memory and is mirrored to localStorage when available so a
+ * page refresh keeps the data. Enable with NEXT_PUBLIC_API_TRANSPORT=mock.
+ */
+
+import { addDays, daysBetween, getToday, parseDateStr } from "./date-utils";
+import { type JwtClaims, decodeJwtClaims } from "./garage-auth";
+import {
+  type Role,
+  describeDenial,
+  getRequiredPermission,
+  hasPermission,
+  toRole,
+} from "./garage-permissions";
+import type {
+  ApiTransport,
+  Bay,
+  BreakWindow,
+  Garage,
+  ManualSlotInput,
+  ManualSlotsRequest,
+  MonthScheduleItem,
+  MoveBookingRequest,
+  Order,
+  ReassignBookingRequest,
+  Slot,
+  SlotUpdateRequest,
+  SpecialDayRequest,
+  SpecialDayResponse,
+  WeekScheduleDay,
+  WeeklyPatternDay,
+  WeeklyPatternRequest,
+  WeeklyPatternSchedule,
+  WeeklyPatternVersion,
+} from "./garage-api";
+import { generateTimeSlots } from "./slot-generation";
+import { getBrowserStorage } from "./browser-storage";
+
+const STORAGE_KEY = "garage-api-mock-state";
+const MOCK_GARAGE_ID = "mock-garage";
+const API_PREFIX = "/api/garage-dashboard";
+const MOCK_SESSION_SECONDS = 60 * 60;
+const DEFAULT_VERSION_LABEL = "Weekly pattern";
+const MAX_RANGE_DAYS = 366; // longest span a ranged read answers
+
+const DEFAULT_BAYS: Bay[] = [
+  { id: "bay-1", garage_id: MOCK_GARAGE_ID, name: "Bay 1", is_active: true },
+  { id: "bay-2", garage_id: MOCK_GARAGE_ID, name: "Bay 2", is_active: true },
+];
+
+function createBays(garageId: string, prefix: string, count: number): Bay[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `${prefix}-bay-${index + 1}`,
+    garage_id: garageId,
+    name: `Bay ${index + 1}`,
+    is_active: true,
+  }));
+}
+
+/** MOT centres of the mock group, each with its own bays and schedule */
+const MOCK_GARAGES: Array<Garage & { bays: Bay[] }> = [
+  { id: MOCK_GARAGE_ID, name: "Central MOT Centre", bays: DEFAULT_BAYS },
+  {
+    id: "mock-garage-north",
+    name: "North MOT Centre",
+    bays: createBays("mock-garage-north", "north", 1),
+  },
+  {
+    id: "mock-garage-east",
+    name: "Eastside MOT",
+    bays: createBays("mock-garage-east", "east", 3),
+  },
+];
+
+/** Accounts the mock login accepts, one per role */
+const MOCK_USERS: Array<{
+  id: string;
+  email: string;
+  password: string;
+  name: string;
+  role: Role;
+  garage_ids: string[]; // the first is the account's own garage
+}> = [
+  {
+    id: "user-1",
+    email: "owner@garage.test",
+    password: "garage123",
+    name: "Garage Owner",
+    role: "owner",
+    garage_ids: MOCK_GARAGES.map((garage) => garage.id),
+  },
+  {
+    id: "user-2",
+    email: "manager@garage.test",
+    password: "garage123",
+    name: "Workshop Manager",
+    role: "manager",
+    garage_ids: [MOCK_GARAGE_ID, "mock-garage-north"],
+  },
+  {
+    id: "user-3",
+    email: "tester@garage.test",
+    password: "garage123",
+    name: "MOT Tester",
+    role: "tester",
+    garage_ids: [MOCK_GARAGE_ID],
+  },
+  {
+    id: "user-4",
+    email: "frontdesk@garage.test",
+    password: "garage123",
+    name: "Front Desk",
+    role: "receptionist",
+    garage_ids: [MOCK_GARAGE_ID],
+  },
+];
+
+/** Every Nth slot generated from a weekly pattern receives a sample booking */
+const SAMPLE_BOOKING_INTERVAL = 4;
+
+const SAMPLE_CUSTOMERS: Array<
+  Pick<
+    Order,
+    | "customer_name"
+    | "customer_phone"
+    | "vehicle_registration"
+    | "vehicle_make"
+    | "vehicle_model"
+    | "mot_test_type"
+  >
+> = [
+  {
+    customer_name: "Sarah Mitchell",
+    customer_phone: "07700 900123",
+    vehicle_registration: "AB12 CDE",
+    vehicle_make: "Ford",
+    vehicle_model: "Focus",
+    mot_test_type: "CLASS_4",
+  },
+  {
+    customer_name: "James Patel",
+    customer_phone: "07700 900456",
+    vehicle_registration: "KX68 LMN",
+    vehicle_make: "Volkswagen",
+    vehicle_model: "Transporter",
+    mot_test_type: "CLASS_7",
+  },
+  {
+    customer_name: "Emma Hughes",
+    customer_phone: null,
+    vehicle_registration: "YR19 PQS",
+    vehicle_make: "Vauxhall",
+    vehicle_model: "Corsa",
+    mot_test_type: "RETEST",
+  },
+  {
+    customer_name: "Daniel Okafor",
+    customer_phone: "07700 900789",
+    vehicle_registration: "LD21 TUV",
+    vehicle_make: "Toyota",
+    vehicle_model: "Prius",
+    mot_test_type: "CLASS_4",
+  },
+];
+
+// Pattern version without its rows, which live in weekly_patterns
+type PatternVersionRecord = Omit<WeeklyPatternVersion, "schedules">;
+
+interface MockState {
+  is_reset: boolean;
+  bays: Bay[];
+  pattern_versions: PatternVersionRecord[];
+  weekly_patterns: WeeklyPatternSchedule[];
+  special_days: SpecialDayResponse[];
+  slots: Slot[];
+  orders: Order[];
+  generation_start: string | null;
+  days_generated: number;
+  next_id: number;
+}
+
+interface MockResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+interface DaySchedule {
+  type: "OPEN" | "CLOSED" | "HOLIDAY";
+  start_time: string | null;
+  end_time: string | null;
+  slot_duration: number | null;
+  buffer_minutes?: number | null;
+  breaks?: BreakWindow[] | null;
+}
+
+export interface MockTransportOptions {
+  /** Storage used to persist state; pass null to keep state in memory only */
+  storage?: Storage | null;
+  /** Artificial latency added to every response, in milliseconds */
+  latencyMs?: number;
+}
+
+// ============================================================================
+// DATE & TIME HELPERS
+// ============================================================================
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/**
+ * Why a from/to pair can't be answered, or null when it can
+ */
+function validateRange(from: unknown, to: unknown): string | null {
+  if (!isValidDate(from) || !isValidDate(to)) {
+    return "from and to must be in YYYY-MM-DD format";
+  }
+  if (to < from) return "to must not be before from";
+  if (daysBetween(from, to) >= MAX_RANGE_DAYS) {
+    return `A range can span at most ${MAX_RANGE_DAYS} days`;
+  }
+  return null;
+}
+
+function isValidTime(value: unknown): value is string {
+  return typeof value === "string" && /^\d{2}:\d{2}$/.test(value);
+}
+
+function overlaps(
+  a: { start_time: string; end_time: string },
+  b: { start_time: string; end_time: string }
+): boolean {
+  return a.start_time < b.end_time && b.start_time < a.end_time;
+}
+
+/**
+ * Validate break windows against opening hours; returns an error message or null
+ */
+function validateBreaks(
+  startTime: string,
+  endTime: string,
+  breaks: unknown
+): string | null {
+  if (breaks === undefined || breaks === null) return null;
+  if (!Array.isArray(breaks)) return "breaks must be an array";
+
+  const sorted = [...breaks].sort((a, b) =>
+    String(a?.start_time).localeCompare(String(b?.start_time))
+  );
+  for (let index = 0; index < sorted.length; index++) {
+    const window = sorted[index];
+    if (
+      !isValidTime(window?.start_time) ||
+      !isValidTime(window?.end_time) ||
+      window.start_time >= window.end_time
+    ) {
+      return "Each break needs a valid start_time before its end_time";
+    }
+    if (window.start_time <= startTime || window.end_time >= endTime) {
+      return `Break ${window.start_time}-${window.end_time} must fall inside opening hours ${startTime}-${endTime}`;
+    }
+    if (index > 0 && overlaps(sorted[index - 1], window)) {
+      return `Break ${window.start_time}-${window.end_time} overlaps another break`;
+    }
+  }
+  return null;
+}
+
+function isValidBuffer(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "number" &&
+      Number.isInteger(value) &&
+      value >= 0 &&
+      value <= 120)
+  );
+}
+
+/**
+ * Breaks shared by every given schedule, i.e. when all of them are closed
+ */
+function sharedBreaks(schedules: DaySchedule[]): BreakWindow[] {
+  const [first, ...rest] = schedules;
+  if (!first) return [];
+
+  return (first.breaks || []).filter((window) =>
+    rest.every((schedule) =>
+      (schedule.breaks || []).some(
+        (other) =>
+          other.start_time === window.start_time &&
+          other.end_time === window.end_time
+      )
+    )
+  );
+}
+
+// ============================================================================
+// RESPONSE HELPERS
+// ============================================================================
+
+function ok(data: unknown, message?: string, count?: number): MockResult {
+  return {
+    status: 200,
+    body: { success: true, message, data, count },
+  };
+}
+
+/**
+ * Error response; details carry per-field validation messages (errors) or
+ * the slot a 409 clashed with (conflict)
+ */
+function fail(
+  status: number,
+  message: string,
+  details: {
+    errors?: { [field: string]: string };
+    conflict?: { id?: string; start_time: string; end_time: string };
+  } = {}
+): MockResult {
+  return {
+    status,
+    body: { success: false, message, statusCode: status, ...details },
+  };
+}
+
+function conflictWith(slot: Slot) {
+  return { id: slot.id, start_time: slot.start_time, end_time: slot.end_time };
+}
+
+function emptyState(bays: Bay[]): MockState {
+  return {
+    is_reset: true,
+    bays: bays.map((bay) => ({ ...bay })),
+    pattern_versions: [],
+    weekly_patterns: [],
+    special_days: [],
+    slots: [],
+    orders: [],
+    generation_start: null,
+    days_generated: 0,
+    next_id: 1,
+  };
+}
+
+// ============================================================================
+// MOCK BACKEND
+// ============================================================================
+
+export class MockGarageBackend {
+  private garageId: string;
+  private bays: Bay[];
+  private state: MockState;
+  private storage: Storage | null;
+
+  constructor(storage: Storage | null = null, garageId = MOCK_GARAGE_ID) {
+    this.garageId = garageId;
+    this.bays =
+      MOCK_GARAGES.find((garage) => garage.id === garageId)?.bays ||
+      DEFAULT_BAYS;
+    this.storage = storage;
+    this.state = this.load();
+  }
+
+  /**
+   * Dispatch a request to the matching route handler
+   */
+  handle(
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    body: any
+  ): MockResult {
+    const segments = path.split("/").filter(Boolean);
+    const route = `${method} /${segments[0] || ""}`;
+
+    switch (route) {
+      case "GET /schedule":
+        if (segments[1] === "reset-state") {
+          return ok({
+            is_reset: this.state.is_reset,
+            generated_through: this.generatedThrough(),
+          });
+        }
+        if (segments[1] === "week") {
+          return this.getWeekSchedule(
+            query.get("startDate"),
+            query.get("bayId")
+          );
+        }
+        if (segments[1] === "range") {
+          return this.getScheduleRange(
+            query.get("from"),
+            query.get("to"),
+            query.get("bayId")
+          );
+        }
+        if (segments[1] === "special-days") {
+          return this.getSpecialDaysInRange(
+            query.get("from"),
+            query.get("to"),
+            query.get("bayId")
+          );
+        }
+        if (segments[1] === "weekly" && segments[2] === "versions") {
+          return this.getPatternVersions(query.get("bayId"));
+        }
+        if (segments[1] === "month") {
+          return this.getMonthSchedule(
+            query.get("month"),
+            query.get("year"),
+            query.get("bayId")
+          );
+        }
+        break;
+      case "POST /schedule":
+        if (segments[1] === "weekly") {
+          return this.setWeeklyPattern(body);
+        }
+        if (segments.length === 1) {
+          return this.setSpecialDay(body);
+        }
+        break;
+      case "DELETE /schedule":
+        if (segments[1] === "reset") {
+          return this.reset();
+        }
+        if (segments[2] === "versions" && segments.length === 4) {
+          return this.deletePatternVersion(segments[3]);
+        }
+        if (segments.length === 1) {
+          return this.deleteSpecialDay(query.get("date"), query.get("bayId"));
+        }
+        break;
+      case "GET /slots":
+        if (segments.length === 1 && query.has("from")) {
+          return this.getSlotsInRange(
+            query.get("from"),
+            query.get("to"),
+            query.get("bayId")
+          );
+        }
+        if (segments.length === 1) {
+          return this.getSlots(query.get("date"), query.get("bayId"));
+        }
+        break;
+      case "POST /slots":
+        if (segments[1] === "manual") {
+          return this.addManualSlots(body);
+        }
+        break;
+      case "PATCH /slots":
+        if (segments.length === 2) {
+          return this.updateSlot(segments[1], body);
+        }
+        if (segments[2] === "block" || segments[2] === "unblock") {
+          return this.setSlotBlocked(segments[1], segments[2] === "block");
+        }
+        if (segments[2] === "move") {
+          return this.moveBooking(segments[1], body);
+        }
+        break;
+      case "DELETE /slots":
+        if (segments[1] === "manual") {
+          return this.removeAllSlots(query.get("date"), query.get("bayId"));
+        }
+        if (segments.length === 2) {
+          return this.deleteSlot(segments[1]);
+        }
+        break;
+      case "GET /bays":
+        if (segments.length === 1) {
+          return ok(this.state.bays, undefined, this.state.bays.length);
+        }
+        break;
+      case "GET /orders":
+        if (segments.length === 2) {
+          return this.getOrder(segments[1]);
+        }
+        break;
+      case "PATCH /orders":
+        if (segments[2] === "reassign") {
+          return this.reassignBooking(segments[1], body);
+        }
+        break;
+    }
+
+    return fail(404, `Cannot ${method} ${path}`);
+  }
+
+  // --------------------------------------------------------------------------
+  // Persistence
+  // --------------------------------------------------------------------------
+
+  // The first garage keeps the key it had before there were several
+  private get storageKey(): string {
+    return this.garageId === MOCK_GARAGE_ID
+      ? STORAGE_KEY
+      : `${STORAGE_KEY}:${this.garageId}`;
+  }
+
+  private load(): MockState {
+    if (!this.storage) return emptyState(this.bays);
+
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      if (!raw) return emptyState(this.bays);
+
+      const state: MockState = {
+        ...emptyState(this.bays),
+        ...JSON.parse(raw),
+      };
+      // State saved before bays existed belongs to the first bay
+      const firstBayId = state.bays[0].id;
+      state.weekly_patterns.forEach((pattern) => {
+        pattern.bay_id ??= firstBayId;
+      });
+      state.slots.forEach((slot) => {
+        slot.bay_id ??= firstBayId;
+      });
+      state.special_days.forEach((day) => {
+        day.bay_id ??= null;
+      });
+      // Patterns saved before versions existed apply from their first generation
+      const unversioned = state.weekly_patterns.filter(
+        (pattern) => !pattern.version_id
+      );
+      new Set(unversioned.map((pattern) => pattern.bay_id as string)).forEach(
+        (bayId) => {
+          const versionId = `pattern-version-${bayId}`;
+          state.pattern_versions.push({
+            id: versionId,
+            garage_id: this.garageId,
+            bay_id: bayId,
+            label: DEFAULT_VERSION_LABEL,
+            effective_from: state.generation_start || getToday(),
+            effective_to: null,
+            buffer_minutes: null,
+          });
+          unversioned
+            .filter((pattern) => pattern.bay_id === bayId)
+            .forEach((pattern) => {
+              pattern.version_id = versionId;
+            });
+        }
+      );
+      return state;
+    } catch (error) {
+      console.warn("Mock backend state could not be restored:", error);
+      return emptyState(this.bays);
+    }
+  }
+
+  private save(): void {
+    if (!this.storage) return;
+
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn("Mock backend state could not be persisted:", error);
+    }
+  }
+
+  private nextId(prefix: string): string {
+    const id = `${prefix}-${this.state.next_id}`;
+    this.state.next_id += 1;
+    return id;
+  }
+
+  // --------------------------------------------------------------------------
+  // Schedule resolution & slot generation
+  // --------------------------------------------------------------------------
+
+  private hasBay(bayId: string): boolean {
+    return this.state.bays.some((bay) => bay.id === bayId);
+  }
+
+  /**
+   * Find the special day stored for a date and bay (null = garage-wide)
+   */
+  private findSpecialDay(
+    date: string,
+    bayId: string | null
+  ): SpecialDayResponse | undefined {
+    return this.state.special_days.find(
+      (day) => day.event_date.split("T")[0] === date && day.bay_id === bayId
+    );
+  }
+
+  /**
+   * Find the special day that applies to a bay: its own, else the garage-wide one
+   */
+  private findEffectiveSpecialDay(
+    date: string,
+    bayId: string
+  ): SpecialDayResponse | undefined {
+    return this.findSpecialDay(date, bayId) || this.findSpecialDay(date, null);
+  }
+
+  /**
+   * Find the pattern version of a bay that covers a date
+   */
+  private findVersion(
+    date: string,
+    bayId: string
+  ): PatternVersionRecord | undefined {
+    return this.state.pattern_versions.find(
+      (version) =>
+        version.bay_id === bayId &&
+        version.effective_from <= date &&
+        (version.effective_to === null || date <= version.effective_to)
+    );
+  }
+
+  /**
+   * Find the weekly pattern row that applies to a bay on a date
+   */
+  private findPattern(
+    date: string,
+    bayId: string
+  ): WeeklyPatternSchedule | undefined {
+    const version = this.findVersion(date, bayId);
+    if (!version) return undefined;
+
+    const dayOfWeek = parseDateStr(date).getDay();
+    return this.state.weekly_patterns.find(
+      (pattern) =>
+        pattern.version_id === version.id && pattern.day_of_week === dayOfWeek
+    );
+  }
+
+  private resolveSchedule(date: string, bayId: string): DaySchedule | null {
+    const specialDay = this.findEffectiveSpecialDay(date, bayId);
+    if (specialDay) return specialDay;
+
+    return this.findPattern(date, bayId) || null;
+  }
+
+  /**
+   * Bays whose schedule follows a special day stored for bayId (null = garage-wide)
+   */
+  private baysAffectedBy(date: string, bayId: string | null): string[] {
+    if (bayId) return [bayId];
+
+    return this.state.bays
+      .map((bay) => bay.id)
+      .filter((id) => !this.findSpecialDay(date, id));
+  }
+
+  private generatedThrough(): string | null {
+    const { generation_start, days_generated } = this.state;
+    return generation_start && days_generated > 0
+      ? addDays(generation_start, days_generated - 1)
+      : null;
+  }
+
+  private isWithinGeneratedHorizon(date: string): boolean {
+    const { generation_start } = this.state;
+    const generatedThrough = this.generatedThrough();
+    if (!generation_start || !generatedThrough) return false;
+
+    return date >= generation_start && date <= generatedThrough;
+  }
+
+  /**
+   * Rebuild the unbooked slots of a bay on a date from its schedule.
+   * Booked slots are kept and generated slots that would overlap them are skipped.
+   */
+  private regenerateSlots(
+    date: string,
+    bayId: string,
+    schedule: DaySchedule | null
+  ): void {
+    const isBayDate = (slot: Slot) =>
+      slot.date === date && slot.bay_id === bayId;
+    const booked = this.state.slots.filter(
+      (slot) => isBayDate(slot) && slot.order_id !== null
+    );
+    this.state.slots = this.state.slots.filter(
+      (slot) => !isBayDate(slot) || slot.order_id !== null
+    );
+
+    if (
+      !schedule ||
+      schedule.type !== "OPEN" ||
+      !schedule.start_time ||
+      !schedule.end_time
+    ) {
+      return;
+    }
+
+    generateTimeSlots(
+      schedule.start_time,
+      schedule.end_time,
+      schedule.slot_duration || 60,
+      {
+        breaks: schedule.breaks || [],
+        bufferMinutes: schedule.buffer_minutes || 0,
+      }
+    ).forEach((slot) => {
+      const candidate = { start_time: slot.start, end_time: slot.end };
+      if (booked.some((other) => overlaps(other, candidate))) return;
+
+      this.state.slots.push(this.createSlot(date, bayId, candidate));
+    });
+  }
+
+  private createSlot(
+    date: string,
+    bayId: string,
+    times: ManualSlotInput
+  ): Slot {
+    return {
+      id: this.nextId("slot"),
+      garage_id: this.garageId,
+      bay_id: bayId,
+      date,
+      start_time: times.start_time,
+      end_time: times.end_time,
+      is_available: true,
+      is_blocked: false,
+      order_id: null,
+    };
+  }
+
+  private sortSlots(): void {
+    this.state.slots.sort((a, b) =>
+      a.date === b.date
+        ? a.start_time.localeCompare(b.start_time)
+        : a.date.localeCompare(b.date)
+    );
+  }
+
+  // --------------------------------------------------------------------------
+  // Reset state
+  // --------------------------------------------------------------------------
+
+  private reset(): MockResult {
+    const result = {
+      weekly_patterns_deleted: this.state.weekly_patterns.length,
+      calendar_events_deleted: this.state.special_days.length,
+      time_slots_deleted: this.state.slots.length,
+      total_deleted: 0,
+      is_reset: true,
+    };
+    result.total_deleted =
+      result.weekly_patterns_deleted +
+      result.calendar_events_deleted +
+      result.time_slots_deleted;
+
+    // Bays are garage resources, not schedule data, so they survive a reset
+    this.state = {
+      ...emptyState(this.state.bays),
+      next_id: this.state.next_id,
+    };
+    this.save();
+
+    return ok(result, "All schedules have been reset");
+  }
+
+  // --------------------------------------------------------------------------
+  // Weekly pattern
+  // --------------------------------------------------------------------------
+
+  private setWeeklyPattern(body: WeeklyPatternRequest): MockResult {
+    if (!body || !Array.isArray(body.pattern) || body.pattern.length !== 7) {
+      return fail(400, "Must provide exactly 7 days of pattern data");
+    }
+    if (
+      typeof body.daysToGenerate !== "number" ||
+      body.daysToGenerate < 1 ||
+      body.daysToGenerate > 365
+    ) {
+      return fail(400, "daysToGenerate must be between 1 and 365", {
+        errors: { daysToGenerate: "must be between 1 and 365" },
+      });
+    }
+
+    const invalidDay = body.pattern.find(
+      (day: WeeklyPatternDay) =>
+        day.type === "OPEN" &&
+        (!isValidTime(day.start_time) ||
+          !isValidTime(day.end_time) ||
+          day.start_time >= day.end_time)
+    );
+    if (invalidDay) {
+      return fail(
+        400,
+        `Invalid opening hours for day_of_week ${invalidDay.day_of_week}`
+      );
+    }
+    if (
+      !isValidBuffer(body.buffer_minutes) ||
+      body.pattern.some((day) => !isValidBuffer(day.buffer_minutes))
+    ) {
+      return fail(400, "buffer_minutes must be a whole number from 0 to 120", {
+        errors: { buffer_minutes: "must be a whole number from 0 to 120" },
+      });
+    }
+    for (const day of body.pattern) {
+      const breakError =
+        day.type === "OPEN"
+          ? validateBreaks(day.start_time!, day.end_time!, day.breaks)
+          : null;
+      if (breakError) {
+        return fail(400, `day_of_week ${day.day_of_week}: ${breakError}`, {
+          errors: { breaks: breakError },
+        });
+      }
+    }
+    if (body.bay_id && !this.hasBay(body.bay_id)) {
+      return fail(404, `Bay ${body.bay_id} not found`);
+    }
+
+    const today = getToday();
+    const effectiveFrom = body.effective_from ?? today;
+    const effectiveTo = body.effective_to ?? null;
+    if (
+      !isValidDate(effectiveFrom) ||
+      (effectiveTo !== null && !isValidDate(effectiveTo))
+    ) {
+      return fail(400, "Effective dates must be in YYYY-MM-DD format", {
+        errors: { effective_from: "must be in YYYY-MM-DD format" },
+      });
+    }
+    if (effectiveTo !== null && effectiveTo < effectiveFrom) {
+      return fail(400, "effective_to must not be before effective_from", {
+        errors: { effective_to: "must not be before effective_from" },
+      });
+    }
+    if (effectiveTo !== null && effectiveTo < today) {
+      return fail(400, "effective_to must not be in the past", {
+        errors: { effective_to: "must not be in the past" },
+      });
+    }
+
+    const replaced = body.version_id
+      ? this.state.pattern_versions.find(
+          (version) => version.id === body.version_id
+        )
+      : undefined;
+    if (body.version_id && !replaced) {
+      return fail(404, `Pattern version ${body.version_id} not found`);
+    }
+    if (replaced && body.bay_id && replaced.bay_id !== body.bay_id) {
+      return fail(400, `Pattern version ${replaced.id} belongs to another bay`);
+    }
+
+    const bayIds = replaced
+      ? [replaced.bay_id as string]
+      : body.bay_id
+      ? [body.bay_id]
+      : this.state.bays.map((bay) => bay.id);
+    if (replaced) this.removeVersion(replaced.id);
+
+    const schedules: WeeklyPatternSchedule[] = bayIds.flatMap((bayId) => {
+      this.clearVersionRange(bayId, effectiveFrom, effectiveTo);
+      const version: PatternVersionRecord = {
+        id: this.nextId("pattern-version"),
+        garage_id: this.garageId,
+        bay_id: bayId,
+        label: body.label?.trim() || DEFAULT_VERSION_LABEL,
+        effective_from: effectiveFrom,
+        effective_to: effectiveTo,
+        buffer_minutes: body.buffer_minutes ?? 0,
+      };
+      this.state.pattern_versions.push(version);
+      return body.pattern.map((day) =>
+        this.createPatternRow(version, day, body.buffer_minutes ?? 0)
+      );
+    });
+    this.state.weekly_patterns = this.state.weekly_patterns.concat(schedules);
+
+    this.state.generation_start = today;
+    this.state.days_generated = body.daysToGenerate;
+    this.state.is_reset = false;
+
+    for (let offset = 0; offset < body.daysToGenerate; offset++) {
+      const date = addDays(today, offset);
+      bayIds.forEach((bayId) =>
+        this.regenerateSlots(date, bayId, this.resolveSchedule(date, bayId))
+      );
+    }
+    this.sortSlots();
+    this.seedSampleBookings();
+    this.save();
+
+    return ok({ schedules, is_reset: false }, "Weekly pattern saved");
+  }
+
+  private createPatternRow(
+    version: PatternVersionRecord,
+    day: WeeklyPatternDay,
+    defaultBuffer: number
+  ): WeeklyPatternSchedule {
+    const from = version.effective_from;
+    const offset = (day.day_of_week - parseDateStr(from).getDay() + 7) % 7;
+    return {
+      id: this.nextId("pattern"),
+      garage_id: this.garageId,
+      bay_id: version.bay_id,
+      version_id: version.id,
+      event_date: `${addDays(from, offset)}T00:00:00.000Z`,
+      day_of_week: day.day_of_week,
+      is_recurring: true,
+      type: day.type,
+      start_time: day.type === "OPEN" ? day.start_time ?? null : null,
+      end_time: day.type === "OPEN" ? day.end_time ?? null : null,
+      slot_duration: day.type === "OPEN" ? day.slot_duration ?? 60 : null,
+      buffer_minutes:
+        day.type === "OPEN" ? day.buffer_minutes ?? defaultBuffer : null,
+      breaks: day.type === "OPEN" ? day.breaks ?? [] : [],
+    };
+  }
+
+  /**
+   * Make room for a bay's new version from `from` to `to` (null = open-ended):
+   * versions inside the range are dropped, overlapping ones are cut back, and
+   * one spanning the whole range is split around it
+   */
+  private clearVersionRange(
+    bayId: string,
+    from: string,
+    to: string | null
+  ): void {
+    this.state.pattern_versions
+      .filter((version) => version.bay_id === bayId)
+      .forEach((version) => {
+        const endsBefore =
+          version.effective_to !== null && version.effective_to < from;
+        const startsAfter = to !== null && version.effective_from > to;
+        if (endsBefore || startsAfter) return;
+
+        const keepsHead = version.effective_from < from;
+        const tailFrom =
+          to !== null &&
+          (version.effective_to === null || version.effective_to > to)
+            ? addDays(to, 1)
+            : null;
+
+        if (keepsHead && tailFrom) this.copyVersion(version, tailFrom);
+        if (keepsHead) {
+          version.effective_to = addDays(from, -1);
+        } else if (tailFrom) {
+          version.effective_from = tailFrom;
+        } else {
+          this.removeVersion(version.id);
+        }
+      });
+  }
+
+  /**
+   * Copy a version and its pattern rows, starting on another date
+   */
+  private copyVersion(version: PatternVersionRecord, from: string): void {
+    const copy: PatternVersionRecord = {
+      ...version,
+      id: this.nextId("pattern-version"),
+      effective_from: from,
+    };
+    this.state.pattern_versions.push(copy);
+    this.state.weekly_patterns
+      .filter((pattern) => pattern.version_id === version.id)
+      .forEach((pattern) =>
+        this.state.weekly_patterns.push({
+          ...pattern,
+          id: this.nextId("pattern"),
+          version_id: copy.id,
+        })
+      );
+  }
+
+  private removeVersion(versionId: string): void {
+    this.state.pattern_versions = this.state.pattern_versions.filter(
+      (version) => version.id !== versionId
+    );
+    this.state.weekly_patterns = this.state.weekly_patterns.filter(
+      (pattern) => pattern.version_id !== versionId
+    );
+  }
+
+  /**
+   * Pattern versions of one bay (or all bays) with their rows, by bay and date
+   */
+  private getPatternVersions(bayId: string | null): MockResult {
+    if (bayId && !this.hasBay(bayId)) {
+      return fail(404, `Bay ${bayId} not found`);
+    }
+
+    const bayOrder = this.state.bays.map((bay) => bay.id);
+    const versions: WeeklyPatternVersion[] = this.state.pattern_versions
+      .filter((version) => !bayId || version.bay_id === bayId)
+      .sort((a, b) =>
+        a.bay_id === b.bay_id
+          ? a.effective_from.localeCompare(b.effective_from)
+          : bayOrder.indexOf(a.bay_id as string) -
+            bayOrder.indexOf(b.bay_id as string)
+      )
+      .map((version) => ({
+        ...version,
+        schedules: this.state.weekly_patterns
+          .filter((pattern) => pattern.version_id === version.id)
+          .sort((a, b) => a.day_of_week - b.day_of_week),
+      }));
+
+    return ok(versions, undefined, versions.length);
+  }
+
+  /**
+   * Delete a version; its generated dates are left without a pattern
+   */
+  private deletePatternVersion(versionId: string): MockResult {
+    const version = this.state.pattern_versions.find(
+      (item) => item.id === versionId
+    );
+    if (!version) {
+      return fail(404, `Pattern version ${versionId} not found`);
+    }
+
+    this.removeVersion(version.id);
+    const bayId = version.bay_id as string;
+    const { generation_start, days_generated } = this.state;
+    for (
+      let offset = 0;
+      generation_start && offset < days_generated;
+      offset++
+    ) {
+      const date = addDays(generation_start, offset);
+      if (
+        date < version.effective_from ||
+        (version.effective_to !== null && date > version.effective_to)
+      ) {
+        continue;
+      }
+      this.regenerateSlots(date, bayId, this.resolveSchedule(date, bayId));
+    }
+    this.sortSlots();
+    this.save();
+
+    return ok(null, "Pattern version removed");
+  }
+
+  /**
+   * Week schedule of one bay, or the combined opening hours of all bays
+   * (earliest start to latest end of the open bays, with the breaks they
+   * all share) when no bay is given
+   */
+  private getWeekSchedule(
+    startDate: string | null,
+    bayId: string | null
+  ): MockResult {
+    if (!isValidDate(startDate)) {
+      return fail(400, "startDate must be in YYYY-MM-DD format");
+    }
+    if (bayId && !this.hasBay(bayId)) {
+      return fail(404, `Bay ${bayId} not found`);
+    }
+
+    return ok(this.resolveDays(startDate, 7, bayId));
+  }
+
+  /**
+   * The week schedule's days for any span of dates
+   */
+  private getScheduleRange(
+    from: string | null,
+    to: string | null,
+    bayId: string | null
+  ): MockResult {
+    const rangeError = validateRange(from, to);
+    if (rangeError) return fail(400, rangeError);
+    if (bayId && !this.hasBay(bayId)) {
+      return fail(404, `Bay ${bayId} not found`);
+    }
+
+    return ok(this.resolveDays(from!, daysBetween(from!, to!) + 1, bayId));
+  }
+
+  private resolveDays(
+    startDate: string,
+    count: number,
+    bayId: string | null
+  ): WeekScheduleDay[] {
+    const bayIds = bayId ? [bayId] : this.state.bays.map((bay) => bay.id);
+    const days: WeekScheduleDay[] = [];
+
+    for (let offset = 0; offset < count; offset++) {
+      const date = addDays(startDate, offset);
+      const resolved = bayIds
+        .map((id) => {
+          const specialDay = this.findEffectiveSpecialDay(date, id);
+          return {
+            entry: specialDay || this.findPattern(date, id),
+            isSpecialDay: !!specialDay,
+          };
+        })
+        .filter(
+          (
+            item
+          ): item is {
+            entry: SpecialDayResponse | WeeklyPatternSchedule;
+            isSpecialDay: boolean;
+          } => !!item.entry
+        );
+      const open = resolved.filter(
+        ({ entry }) =>
+          entry.type === "OPEN" && entry.start_time && entry.end_time
+      );
+      const representative = open[0] || resolved[0];
+      const entry = representative?.entry;
+
+      days.push({
+        date,
+        day_of_week: parseDateStr(date).getDay(),
+        schedule: entry
+          ? {
+              id: entry.id,
+              type: entry.type,
+              start_time: open.length
+                ? open.map(({ entry }) => entry.start_time!).sort()[0]
+                : entry.start_time,
+              end_time: open.length
+                ? open
+                    .map(({ entry }) => entry.end_time!)
+                    .sort()
+                    .reverse()[0]
+                : entry.end_time,
+              slot_duration: entry.slot_duration,
+              buffer_minutes: entry.buffer_minutes ?? null,
+              breaks: sharedBreaks(open.map(({ entry }) => entry)),
+              is_recurring: entry.is_recurring,
+            }
+          : null,
+        source: !representative
+          ? "no_schedule"
+          : representative.isSpecialDay
+          ? "special_day"
+          : "weekly_pattern",
+      });
+    }
+
+    return days;
+  }
+
+  // --------------------------------------------------------------------------
+  // Special days
+  // --------------------------------------------------------------------------
+
+  private setSpecialDay(body: SpecialDayRequest): MockResult {
+    if (!body || !isValidDate(body.date)) {
+      return fail(400, "date must be in YYYY-MM-DD format", {
+        errors: { date: "must be in YYYY-MM-DD format" },
+      });
+    }
+    if (!["HOLIDAY", "OPEN", "CLOSED"].includes(body.type)) {
+      return fail(400, "type must be one of HOLIDAY, OPEN, CLOSED", {
+        errors: { type: "must be one of HOLIDAY, OPEN, CLOSED" },
+      });
+    }
+    if (
+      body.type === "OPEN" &&
+      (!isValidTime(body.start_time) ||
+        !isValidTime(body.end_time) ||
+        body.start_time >= body.end_time)
+    ) {
+      return fail(400, "OPEN days require a valid start_time and end_time", {
+        errors: { end_time: "must be a valid time after start_time" },
+      });
+    }
+    const breakError =
+      body.type === "OPEN"
+        ? validateBreaks(body.start_time!, body.end_time!, body.breaks)
+        : null;
+    if (breakError)
+      return fail(400, breakError, { errors: { breaks: breakError } });
+    if (!isValidBuffer(body.buffer_minutes)) {
+      return fail(400, "buffer_minutes must be a whole number from 0 to 120", {
+        errors: { buffer_minutes: "must be a whole number from 0 to 120" },
+      });
+    }
+    if (body.bay_id && !this.hasBay(body.bay_id)) {
+      return fail(404, `Bay ${body.bay_id} not found`);
+    }
+
+    const bayId = body.bay_id || null;
+    const existing = this.findSpecialDay(body.date, bayId);
+    const specialDay: SpecialDayResponse = {
+      id: existing?.id || this.nextId("event"),
+      garage_id: this.garageId,
+      bay_id: bayId,
+      event_date: `${body.date}T00:00:00.000Z`,
+      type: body.type,
+      start_time: body.type === "OPEN" ? body.start_time ?? null : null,
+      end_time: body.type === "OPEN" ? body.end_time ?? null : null,
+      slot_duration: body.type === "OPEN" ? body.slot_duration ?? 60 : null,
+      buffer_minutes: body.type === "OPEN" ? body.buffer_minutes ?? 0 : null,
+      breaks: body.type === "OPEN" ? body.breaks ?? [] : [],
+      is_recurring: false,
+      day_of_week: parseDateStr(body.date).getDay(),
+    };
+
+    this.state.special_days = this.state.special_days
+      .filter((day) => day.id !== specialDay.id)
+      .concat(specialDay);
+    this.baysAffectedBy(body.date, bayId).forEach((id) =>
+      this.regenerateSlots(body.date, id, specialDay)
+    );
+    this.sortSlots();
+    this.save();
+
+    return ok(specialDay, "Special day saved");
+  }
+
+  /**
+   * Special days of a month: garage-wide ones, plus the bay's own when a bay is given
+   */
+  private getMonthSchedule(
+    month: string | null,
+    year: string | null,
+    bayId: string | null
+  ): MockResult {
+    const monthNumber = Number(month);
+    const yearNumber = Number(year);
+    if (!monthNumber || monthNumber < 1 || monthNumber > 12 || !yearNumber) {
+      return fail(400, "month (1-12) and year are required");
+    }
+
+    const prefix = `${yearNumber}-${String(monthNumber).padStart(2, "0")}-`;
+    const items: MonthScheduleItem[] = this.state.special_days
+      .filter(
+        (day) =>
+          day.event_date.startsWith(prefix) &&
+          (day.bay_id === null || day.bay_id === bayId)
+      )
+      .sort((a, b) => a.event_date.localeCompare(b.event_date));
+
+    return ok(items, undefined, items.length);
+  }
+
+  /**
+   * Special days of a span of dates, chosen as for a month
+   */
+  private getSpecialDaysInRange(
+    from: string | null,
+    to: string | null,
+    bayId: string | null
+  ): MockResult {
+    const rangeError = validateRange(from, to);
+    if (rangeError) return fail(400, rangeError);
+
+    const items: MonthScheduleItem[] = this.state.special_days
+      .filter((day) => {
+        const date = day.event_date.slice(0, 10);
+        return (
+          date >= from! &&
+          date <= to! &&
+          (day.bay_id === null || day.bay_id === bayId)
+        );
+      })
+      .sort((a, b) => a.event_date.localeCompare(b.event_date));
+
+    return ok(items, undefined, items.length);
+  }
+
+  private deleteSpecialDay(
+    date: string | null,
+    bayId: string | null
+  ): MockResult {
+    if (!isValidDate(date)) {
+      return fail(400, "date must be in YYYY-MM-DD format");
+    }
+
+    const existing = this.findSpecialDay(date, bayId);
+    if (!existing) {
+      return fail(404, `No special day found for ${date}`);
+    }
+
+    this.state.special_days = this.state.special_days.filter(
+      (day) => day.id !== existing.id
+    );
+    this.baysAffectedBy(date, bayId).forEach((id) =>
+      this.regenerateSlots(
+        date,
+        id,
+        this.isWithinGeneratedHorizon(date)
+          ? this.resolveSchedule(date, id)
+          : null
+      )
+    );
+    this.sortSlots();
+    this.save();
+
+    return ok(null, "Special day removed");
+  }
+
+  // --------------------------------------------------------------------------
+  // Slots
+  // --------------------------------------------------------------------------
+
+  private getSlots(date: string | null, bayId: string | null): MockResult {
+    if (!isValidDate(date)) {
+      return fail(400, "date must be in YYYY-MM-DD format");
+    }
+
+    const slots = this.state.slots.filter(
+      (slot) => slot.date === date && (!bayId || slot.bay_id === bayId)
+    );
+    return ok(slots, undefined, slots.length);
+  }
+
+  private getSlotsInRange(
+    from: string | null,
+    to: string | null,
+    bayId: string | null
+  ): MockResult {
+    const rangeError = validateRange(from, to);
+    if (rangeError) return fail(400, rangeError);
+
+    const slots = this.state.slots.filter(
+      (slot) =>
+        slot.date >= from! &&
+        slot.date <= to! &&
+        (!bayId || slot.bay_id === bayId)
+    );
+    return ok(slots, undefined, slots.length);
+  }
+
+  private addManualSlots(body: ManualSlotsRequest): MockResult {
+    if (!body || !isValidDate(body.date) || !Array.isArray(body.slots)) {
+      return fail(400, "date and slots are required");
+    }
+
+    const invalid = body.slots.find(
+      (slot) =>
+        !isValidTime(slot.start_time) ||
+        !isValidTime(slot.end_time) ||
+        slot.start_time >= slot.end_time
+    );
+    if (invalid) {
+      return fail(
+        400,
+        `Invalid slot ${invalid.start_time}-${invalid.end_time}: end time must be after start time`,
+        { errors: { end_time: "must be after start_time" } }
+      );
+    }
+    if (body.bay_id && !this.hasBay(body.bay_id)) {
+      return fail(404, `Bay ${body.bay_id} not found`);
+    }
+
+    // Manual slots without a bay go to the first bay
+    const bayId = body.bay_id || this.state.bays[0].id;
+    const isBayDate = (slot: Slot) =>
+      slot.date === body.date && slot.bay_id === bayId;
+    const kept = this.state.slots.filter(
+      (slot) => isBayDate(slot) && (!body.replace || slot.order_id !== null)
+    );
+    const accepted: ManualSlotInput[] = [];
+
+    for (const slot of body.slots) {
+      const existing = kept.find((other) => overlaps(other, slot));
+      const conflict =
+        existing || accepted.find((other) => overlaps(other, slot));
+      if (conflict) {
+        return fail(
+          409,
+          `Slot ${slot.start_time}-${slot.end_time} overlaps existing slot ${conflict.start_time}-${conflict.end_time}`,
+          {
+            conflict: existing
+              ? conflictWith(existing)
+              : {
+                  start_time: conflict.start_time,
+                  end_time: conflict.end_time,
+                },
+          }
+        );
+      }
+      accepted.push(slot);
+    }
+
+    if (body.replace) {
+      this.state.slots = this.state.slots.filter(
+        (slot) => !isBayDate(slot) || slot.order_id !== null
+      );
+    }
+
+    const created = accepted.map((slot) =>
+      this.createSlot(body.date, bayId, slot)
+    );
+    this.state.slots.push(...created);
+    this.sortSlots();
+    this.save();
+
+    return ok(created, `${created.length} slots created`, created.length);
+  }
+
+  private updateSlot(slotId: string, body: SlotUpdateRequest): MockResult {
+    const slot = this.state.slots.find((item) => item.id === slotId);
+    if (!slot) {
+      return fail(404, `Slot ${slotId} not found`);
+    }
+    if (slot.order_id !== null) {
+      return fail(409, "Cannot change the times of a booked slot", {
+        conflict: conflictWith(slot),
+      });
+    }
+    if (
+      !body ||
+      !isValidTime(body.start_time) ||
+      !isValidTime(body.end_time) ||
+      body.start_time >= body.end_time
+    ) {
+      return fail(400, "end_time must be after start_time", {
+        errors: { end_time: "must be after start_time" },
+      });
+    }
+
+    const conflict = this.state.slots.find(
+      (other) =>
+        other.id !== slot.id &&
+        other.date === slot.date &&
+        other.bay_id === slot.bay_id &&
+        overlaps(other, body)
+    );
+    if (conflict) {
+      return fail(
+        409,
+        `Slot overlaps existing slot ${conflict.start_time}-${conflict.end_time}`,
+        { conflict: conflictWith(conflict) }
+      );
+    }
+
+    slot.start_time = body.start_time;
+    slot.end_time = body.end_time;
+    this.sortSlots();
+    this.save();
+
+    return ok(slot, "Slot updated");
+  }
+
+  private setSlotBlocked(slotId: string, blocked: boolean): MockResult {
+    const slot = this.state.slots.find((item) => item.id === slotId);
+    if (!slot) {
+      return fail(404, `Slot ${slotId} not found`);
+    }
+    if (blocked && slot.order_id !== null) {
+      return fail(409, "Cannot block a booked slot", {
+        conflict: conflictWith(slot),
+      });
+    }
+
+    slot.is_blocked = blocked;
+    this.save();
+
+    return ok(slot, blocked ? "Slot blocked" : "Slot unblocked");
+  }
+
+  private deleteSlot(slotId: string): MockResult {
+    const slot = this.state.slots.find((item) => item.id === slotId);
+    if (!slot) {
+      return fail(404, `Slot ${slotId} not found`);
+    }
+    if (slot.order_id !== null) {
+      return fail(409, "Cannot delete a booked slot", {
+        conflict: conflictWith(slot),
+      });
+    }
+
+    this.state.slots = this.state.slots.filter((item) => item.id !== slotId);
+    this.save();
+
+    return ok(null, "Slot deleted");
+  }
+
+  private removeAllSlots(
+    date: string | null,
+    bayId: string | null
+  ): MockResult {
+    if (!isValidDate(date)) {
+      return fail(400, "date must be in YYYY-MM-DD format");
+    }
+
+    const before = this.state.slots.length;
+    this.state.slots = this.state.slots.filter(
+      (slot) =>
+        slot.date !== date ||
+        (bayId !== null && slot.bay_id !== bayId) ||
+        slot.order_id !== null
+    );
+    const removed = before - this.state.slots.length;
+    this.save();
+
+    return ok(null, `${removed} slots removed`, removed);
+  }
+
+  // --------------------------------------------------------------------------
+  // Bookings
+  // --------------------------------------------------------------------------
+
+  /**
+   * Book every Nth free slot with a sample customer, once per schedule setup
+   */
+  private seedSampleBookings(): void {
+    if (this.state.orders.length > 0) return;
+
+    const freeSlots = this.state.slots.filter(
+      (slot) => slot.order_id === null && !slot.is_blocked
+    );
+
+    freeSlots.forEach((slot, index) => {
+      if (index % SAMPLE_BOOKING_INTERVAL !== SAMPLE_BOOKING_INTERVAL - 1) {
+        return;
+      }
+
+      const customer =
+        SAMPLE_CUSTOMERS[this.state.orders.length % SAMPLE_CUSTOMERS.length];
+      const order: Order = {
+        ...customer,
+        id: this.nextId("order"),
+        garage_id: this.garageId,
+        slot_id: slot.id,
+        customer_email: null,
+        status: "CONFIRMED",
+        created_at: new Date().toISOString(),
+      };
+
+      this.state.orders.push(order);
+      slot.order_id = order.id;
+      slot.is_available = false;
+    });
+  }
+
+  private getOrder(orderId: string): MockResult {
+    const order = this.state.orders.find((item) => item.id === orderId);
+    if (!order) {
+      return fail(404, `Order ${orderId} not found`);
+    }
+
+    return ok(order);
+  }
+
+  private reassignBooking(
+    orderId: string,
+    body: ReassignBookingRequest
+  ): MockResult {
+    const order = this.state.orders.find((item) => item.id === orderId);
+    if (!order) {
+      return fail(404, `Order ${orderId} not found`);
+    }
+
+    const target = this.state.slots.find((slot) => slot.id === body?.slot_id);
+    if (!target) {
+      return fail(404, `Slot ${body?.slot_id} not found`);
+    }
+    if (target.order_id !== null || target.is_blocked) {
+      return fail(409, "Target slot is not free", {
+        conflict: conflictWith(target),
+      });
+    }
+
+    this.transferOrder(order, target);
+    this.save();
+
+    return ok(order, "Booking reassigned");
+  }
+
+  private moveBooking(
+    sourceSlotId: string,
+    body: MoveBookingRequest
+  ): MockResult {
+    const source = this.state.slots.find((slot) => slot.id === sourceSlotId);
+    if (!source) {
+      return fail(404, `Slot ${sourceSlotId} not found`);
+    }
+
+    const order = this.state.orders.find((item) => item.id === source.order_id);
+    if (!order) {
+      return fail(409, "Source slot has no booking to move");
+    }
+
+    const target = this.state.slots.find(
+      (slot) => slot.id === body?.target_slot_id
+    );
+    if (!target) {
+      return fail(404, `Slot ${body?.target_slot_id} not found`);
+    }
+    if (target.order_id !== null || target.is_blocked) {
+      return fail(409, "Target slot is not free", {
+        conflict: conflictWith(target),
+      });
+    }
+
+    this.transferOrder(order, target);
+    this.save();
+
+    return ok({ source, target }, "Booking moved");
+  }
+
+  /**
+   * Release the order's current slot and attach the order to the target slot
+   */
+  private transferOrder(order: Order, target: Slot): void {
+    const source = this.state.slots.find((slot) => slot.id === order.slot_id);
+    if (source) {
+      source.order_id = null;
+      source.is_available = true;
+    }
+
+    target.order_id = order.id;
+    target.is_available = false;
+    order.slot_id = target.id;
+  }
+}
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+function encodeBase64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join(
+    ""
+  );
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * POST /auth/login: an unsigned JWT for a MOCK_USERS account
+ */
+function login(body: any): MockResult {
+  const email = String(body?.email || "")
+    .trim()
+    .toLowerCase();
+  const password = String(body?.password || "");
+  const errors: { [field: string]: string } = {};
+  if (!email) errors.email = "is required";
+  if (!password) errors.password = "is required";
+  if (Object.keys(errors).length > 0) {
+    return fail(400, "Email and password are required", { errors });
+  }
+
+  const user = MOCK_USERS.find(
+    (candidate) => candidate.email === email && candidate.password === password
+  );
+  if (!user) {
+    return fail(401, "Incorrect email or password");
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const claims = {
+    sub: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    garage_id: user.garage_ids[0],
+    garage_ids: user.garage_ids,
+    iat: issuedAt,
+    exp: issuedAt + MOCK_SESSION_SECONDS,
+  };
+  const token = [
+    encodeBase64Url(JSON.stringify({ alg: "none", typ: "JWT" })),
+    encodeBase64Url(JSON.stringify(claims)),
+    "mock",
+  ].join(".");
+
+  return ok({
+    token,
+    user: { id: user.id, email: user.email, name: user.name, role: user.role },
+  });
+}
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+/**
+ * Garages a token may access: its garage_ids claim, else its own garage
+ */
+function accessibleGarages(claims: JwtClaims | null): Garage[] {
+  const ids = Array.isArray(claims?.garage_ids)
+    ? (claims.garage_ids as string[])
+    : [
+        typeof claims?.garage_id === "string"
+          ? claims.garage_id
+          : MOCK_GARAGE_ID,
+      ];
+  return MOCK_GARAGES.filter((garage) => ids.includes(garage.id)).map(
+    ({ id, name }) => ({ id, name })
+  );
+}
+
+function handleRequest(
+  backends: (garageId: string) => MockGarageBackend,
+  method: string,
+  path: string,
+  url: URL,
+  headers: Headers,
+  init: RequestInit
+): MockResult {
+  let body: any = undefined;
+  try {
+    body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+  } catch {
+    return fail(400, "Request body must be valid JSON");
+  }
+
+  // The auth routes are the only ones that need no token
+  if (method === "POST" && path === "/auth/login") {
+    return login(body);
+  }
+  if (method === "POST" && path === "/auth/logout") {
+    return ok(null, "Signed out");
+  }
+
+  const token = headers.get("Authorization")?.replace(/^Bearer\s*/, "");
+  if (!token) {
+    return fail(401, "Missing or invalid API token");
+  }
+  const claims = decodeJwtClaims(token);
+  if (typeof claims?.exp === "number" && Date.now() >= claims.exp * 1000) {
+    return fail(401, "Session has expired");
+  }
+
+  const role = toRole(claims?.role);
+  const permission = getRequiredPermission(method, path, body);
+  if (permission && !hasPermission(role, permission)) {
+    return fail(403, describeDenial(role, permission));
+  }
+
+  const garages = accessibleGarages(claims);
+  if (method === "GET" && path === "/garages") {
+    return ok(garages, undefined, garages.length);
+  }
+  const garageId = url.searchParams.get("garageId") || garages[0]?.id;
+  if (!garageId || !garages.some((garage) => garage.id === garageId)) {
+    return fail(403, "You don't have access to this garage");
+  }
+
+  return backends(garageId).handle(method, path, url.searchParams, body);
+}
+
+/**
+ * Create a fetch-compatible transport backed by a MockGarageBackend
+ */
+export function createMockTransport(
+  options: MockTransportOptions = {}
+): ApiTransport {
+  const storage =
+    options.storage !== undefined
+      ? options.storage
+      : getBrowserStorage("local");
+  const latencyMs = options.latencyMs ?? 150;
+  const backends = new Map<string, MockGarageBackend>();
+  const getBackend = (garageId: string) => {
+    let backend = backends.get(garageId);
+    if (!backend) {
+      backend = new MockGarageBackend(storage, garageId);
+      backends.set(garageId, backend);
+    }
+    return backend;
+  };
+
+  return async (url, init) => {
+    const parsed = new URL(url, "http://localhost");
+    const path = parsed.pathname.startsWith(API_PREFIX)
+      ? parsed.pathname.slice(API_PREFIX.length)
+      : parsed.pathname;
+    const method = (init.method || "GET").toUpperCase();
+    const headers = new Headers(init.headers);
+
+    if (latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    }
+
+    const result = handleRequest(
+      getBackend,
+      method,
+      path,
+      parsed,
+      headers,
+      init
+    );
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Garage API Response Schemas
+ *
+ * zod schemas for every response body the garage dashboard API returns.
+ * The response types in garage-api.ts are inferred from these, and each
+ * response is checked against its schema on receipt so a backend that drifts
+ * from the contract fails loudly at the boundary instead of deep in the UI.
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// SHARED
+// ============================================================================
+
+export const breakWindowSchema = z.object({
+  start_time: z.string(),
+  end_time: z.string(),
+});
+
+const nullableNumber = z.number().nullable();
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+// The API returns the token; the proxy keeps it and returns expires_at instead
+export const loginResponseSchema = z.object({
+  token: z.string().min(1).optional(),
+  expires_at: z.string().nullable().optional(),
+  user: z.object({
+    id: z.string(),
+    email: z.string(),
+    name: z.string().nullable(),
+    role: z.string().nullable().optional(), // see lib/garage-permissions.ts
+  }),
+});
+
+// ============================================================================
+// RESET STATE
+// ============================================================================
+
+export const resetStateResponseSchema = z.object({
+  is_reset: z.boolean(),
+  // Last date slots are generated up to (null = none generated)
+  generated_through: z.string().nullable().optional(),
+});
+
+export const resetResponseSchema = z.object({
+  weekly_patterns_deleted: z.number(),
+  calendar_events_deleted: z.number(),
+  time_slots_deleted: z.number(),
+  total_deleted: z.number(),
+  is_reset: z.boolean(),
+});
+
+// ============================================================================
+// GARAGES
+// ============================================================================
+
+export const garageSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+// ============================================================================
+// BAYS
+// ============================================================================
+
+export const baySchema = z.object({
+  id: z.string(),
+  garage_id: z.string(),
+  name: z.string(),
+  is_active: z.boolean(),
+});
+
+// ============================================================================
+// SCHEDULES
+// ============================================================================
+
+export const weeklyPatternScheduleSchema = z.object({
+  id: z.string(),
+  garage_id: z.string(),
+  bay_id: z.string().nullable(),
+  event_date: z.string(),
+  day_of_week: z.number(),
+  is_recurring: z.boolean(),
+  type: z.enum(["OPEN", "CLOSED"]),
+  start_time: z.string().nullable(),
+  end_time: z.string().nullable(),
+  slot_duration: nullableNumber,
+  buffer_minutes: nullableNumber.optional(),
+  breaks: z.array(breakWindowSchema).optional(),
+  version_id: z.string().optional(), // absent from backends without versions
+});
+
+// A bay's weekly pattern between two dates; effective_to null = open-ended
+export const weeklyPatternVersionSchema = z.object({
+  id: z.string(),
+  garage_id: z.string(),
+  bay_id: z.string().nullable(),
+  label: z.string(),
+  effective_from: z.string(),
+  effective_to: z.string().nullable(),
+  buffer_minutes: nullableNumber.optional(),
+  schedules: z.array(weeklyPatternScheduleSchema),
+});
+
+export const weeklyPatternResponseSchema = z.object({
+  schedules: z.array(weeklyPatternScheduleSchema),
+  is_reset: z.boolean(),
+});
+
+export const weekScheduleDaySchema = z.object({
+  date: z.string(),
+  day_of_week: z.number(),
+  schedule: z
+    .object({
+      id: z.string(),
+      type: z.enum(["OPEN", "CLOSED", "HOLIDAY"]),
+      start_time: z.string().nullable(),
+      end_time: z.string().nullable(),
+      slot_duration: nullableNumber,
+      buffer_minutes: nullableNumber.optional(),
+      breaks: z.array(breakWindowSchema).optional(),
+      is_recurring: z.boolean(),
+    })
+    .nullable(),
+  source: z.enum(["weekly_pattern", "special_day", "no_schedule"]),
+});
+
+export const specialDayResponseSchema = z.object({
+  id: z.string(),
+  garage_id: z.string(),
+  bay_id: z.string().nullable(),
+  event_date: z.string(),
+  type: z.enum(["HOLIDAY", "OPEN", "CLOSED"]),
+  start_time: z.string().nullable(),
+  end_time: z.string().nullable(),
+  slot_duration: nullableNumber,
+  buffer_minutes: nullableNumber.optional(),
+  breaks: z.array(breakWindowSchema).optional(),
+  is_recurring: z.boolean(),
+  day_of_week: z.number(),
+});
+
+export const monthScheduleItemSchema = z.object({
+  id: z.string(),
+  garage_id: z.string(),
+  bay_id: z.string().nullable(),
+  event_date: z.string(),
+  type: z.enum(["HOLIDAY", "OPEN", "CLOSED"]),
+  start_time: z.string().nullable().optional(),
+  end_time: z.string().nullable().optional(),
+  slot_duration: nullableNumber.optional(),
+  buffer_minutes: nullableNumber.optional(),
+  breaks: z.array(breakWindowSchema).nullable().optional(),
+  is_recurring: z.boolean(),
+  day_of_week: z.number(),
+});
+
+// ============================================================================
+// SLOTS AND BOOKINGS
+// ============================================================================
+
+export const slotSchema = z.object({
+  id: z.string(),
+  garage_id: z.string(),
+  bay_id: z.string().nullable(),
+  date: z.string(),
+  start_time: z.string(),
+  end_time: z.string(),
+  is_available: z.boolean(),
+  is_blocked: z.boolean(),
+  order_id: z.string().nullable(),
+});
+
+export const orderSchema = z.object({
+  id: z.string(),
+  garage_id: z.string(),
+  slot_id: z.string(),
+  customer_name: z.string(),
+  customer_email: z.string().nullable(),
+  customer_phone: z.string().nullable(),
+  vehicle_registration: z.string(),
+  vehicle_make: z.string().nullable(),
+  vehicle_model: z.string().nullable(),
+  mot_test_type: z.string(),
+  status: z.enum(["CONFIRMED", "CANCELLED", "COMPLETED"]),
+  created_at: z.string(),
+});
+
+export const moveBookingResponseSchema = z.object({
+  source: slotSchema,
+  target: slotSchema,
+});
+
+// Endpoints whose body the dashboard does not read (deletes, slot edits)
+export const untypedResponseSchema = z.unknown();
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Human-readable list of where a response broke its schema, e.g.
+ * "0.start_time: Expected string, received null"
+ */
+export function describeIssues(error: z.ZodError, limit = 5): string[] {
+  const issues = error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+    return `${path}: ${issue.message}`;
+  });
+  return issues.length > limit
+    ? [...issues.slice(0, limit), `...and ${issues.length - limit} more`]
+    : issues;
+}
@@ -3,31 +3,184 @@
  *
  * This service handles all API communications with the garage scheduling backend.
  * Updated to include reset state management, daysToGenerate field, and all missing endpoints.
+ * Requests go through a pluggable transport so the dashboard can run against the
+ * in-memory mock backend (NEXT_PUBLIC_API_TRANSPORT=mock) when the API is unreachable.
+ * Every request has a timeout, GETs are retried with exponential backoff (or
+ * after the Retry-After a 429 names), at most a few requests are in flight at
+ * once so bulk loads don't trip the proxy's rate limit, and every public
+ * method accepts RequestOptions with an AbortSignal. Failures carry a typed
+ * ApiError (network, timeout, unauthorized, validation, ...).
+ * Response bodies are validated against the zod schemas in
+ * garage-api-schemas.ts, which the response types below are inferred from.
+ * By default requests go to the same-origin proxy (app/api/garage-dashboard),
+ * which keeps the session token in an httpOnly cookie; the client then only
+ * knows when the session expires. With an explicit base URL or the mock
+ * transport the client holds the JWT itself and sends it as a bearer token.
+ * Once the session has expired, requests fail as unauthorized without
+ * reaching the backend. Likewise, once the signed-in role is known
+ * (setRole), changes it lacks the permission for fail as forbidden (see
+ * garage-permissions.ts).
+ * A token may give access to several garages (GET /garages). Requests go to
+ * the garage chosen with setGarage, or to RequestOptions.garageId, as the
+ * garageId query param; without either the backend uses the token's own.
+ * Weekly patterns are versioned: each save applies from an effective date
+ * (today by default) until an optional end date, and replaces the bay's
+ * pattern over that range only (GET /schedule/weekly/versions lists them).
  */
 
+import { z } from "zod";
+import { createMockTransport } from "./garage-api-mock";
+import { getTokenExpiry } from "./garage-auth";
+import {
+  type Permission,
+  type Role,
+  describeDenial,
+  getRequiredPermission,
+  hasPermission,
+} from "./garage-permissions";
+import {
+  baySchema,
+  breakWindowSchema,
+  describeIssues,
+  garageSchema,
+  loginResponseSchema,
+  monthScheduleItemSchema,
+  moveBookingResponseSchema,
+  orderSchema,
+  resetResponseSchema,
+  resetStateResponseSchema,
+  slotSchema,
+  specialDayResponseSchema,
+  untypedResponseSchema,
+  weekScheduleDaySchema,
+  weeklyPatternResponseSchema,
+  weeklyPatternScheduleSchema,
+  weeklyPatternVersionSchema,
+} from "./garage-api-schemas";
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   message?: string;
-  error?: string;
+  error?: ApiError;
   statusCode?: number;
   count?: number;
 }
 
-// Reset State Types
-export interface ResetStateResponse {
-  is_reset: boolean;
+// API Error Types
+/**
+ * Why a request failed. Every kind carries a human-readable message; the
+ * kind tells the UI how to react (re-authenticate, highlight a field, ...).
+ */
+export type ApiError =
+  | { kind: "network"; message: string }
+  | { kind: "timeout"; message: string; timeoutMs: number }
+  | { kind: "cancelled"; message: string } // aborted through the caller's signal
+  | { kind: "unauthorized"; message: string; status: 401 }
+  | { kind: "forbidden"; message: string; status: 403 }
+  | { kind: "not_found"; message: string; status: 404 }
+  | {
+      kind: "validation";
+      message: string;
+      status: number;
+      fields: { [field: string]: string };
+    }
+  | {
+      kind: "conflict";
+      message: string;
+      status: 409;
+      slot?: ConflictingSlot;
+    }
+  | { kind: "server"; message: string; status: number; retryAfterMs?: number }
+  | { kind: "contract"; message: string; issues: string[] }; // 2xx body broke its schema
+
+export type ApiErrorKind = ApiError["kind"];
+
+/**
+ * The existing slot a 409 response clashed with (id is missing when the
+ * clash is between two slots of the same request)
+ */
+export interface ConflictingSlot {
+  id?: string;
+  start_time: string;
+  end_time: string;
+}
+
+/**
+ * Error thrown by callers that turn a failed ApiResponse into an exception,
+ * keeping the typed error for the catch block
+ */
+export class ApiRequestError extends Error {
+  readonly apiError: ApiError;
+
+  constructor(apiError?: ApiError) {
+    const error = apiError || {
+      kind: "server" as const,
+      message: "API request failed",
+      status: 500,
+    };
+    super(error.message);
+    this.name = "ApiRequestError";
+    this.apiError = error;
+  }
+}
+
+// Request Options Types
+/**
+ * Per-call options accepted by every public API method
+ */
+export interface RequestOptions {
+  signal?: AbortSignal; // cancels the request (and any pending retries)
+  timeoutMs?: number; // overrides the client's timeout for this call
+  retries?: number; // overrides the client's GET retry count for this call
+  garageId?: string; // overrides the client's garage for this call
+}
+
+/**
+ * Client-wide request behaviour. Only idempotent GETs are retried, on
+ * network errors, timeouts, 429 and 5xx responses, with exponential backoff.
+ * Requests beyond maxConcurrent wait for one in flight to finish.
+ */
+export interface ApiClientConfig {
+  timeoutMs: number;
+  retries: number;
+  retryBaseDelayMs: number;
+  maxConcurrent: number;
 }
 
-export interface ResetResponse {
-  weekly_patterns_deleted: number;
-  calendar_events_deleted: number;
-  time_slots_deleted: number;
-  total_deleted: number;
-  is_reset: boolean;
+const DEFAULT_CLIENT_CONFIG: ApiClientConfig = {
+  timeoutMs: 15000,
+  retries: 2,
+  retryBaseDelayMs: 300,
+  maxConcurrent: 6,
+};
+
+// Longest Retry-After the client waits out before giving up on a GET
+const MAX_RETRY_AFTER_MS = 10000;
+
+// Authentication Types
+export interface LoginRequest {
+  email: string;
+  password: string;
 }
 
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+// Reset State Types
+export type ResetStateResponse = z.infer<typeof resetStateResponseSchema>;
+
+export type ResetResponse = z.infer<typeof resetResponseSchema>;
+
+// Garage Types
+export type Garage = z.infer<typeof garageSchema>;
+
+// Bay Types
+export type Bay = z.infer<typeof baySchema>;
+
+// Break window inside opening hours (e.g. lunch); no slots are generated in it
+export type BreakWindow = z.infer<typeof breakWindowSchema>;
+
 // Weekly Pattern Types
 export interface WeeklyPatternDay {
   day_of_week: number; // 0 = Sunday, 1 = Monday, etc.
@@ -35,90 +188,53 @@ export interface WeeklyPatternDay {
   start_time?: string;
   end_time?: string;
   slot_duration?: number;
+  buffer_minutes?: number; // overrides the pattern-wide buffer
+  breaks?: BreakWindow[];
 }
 
-export interface WeeklyPatternRequest {
+// When a weekly pattern applies; dates are YYYY-MM-DD and inclusive
+export interface WeeklyPatternVersionInput {
+  effective_from?: string; // omitted = today
+  effective_to?: string | null; // omitted or null = open-ended
+  label?: string; // e.g. "Summer hours"
+  version_id?: string; // replace this version instead of adding one
+}
+
+export interface WeeklyPatternRequest extends WeeklyPatternVersionInput {
   pattern: WeeklyPatternDay[];
   daysToGenerate: number;
+  buffer_minutes?: number; // turnaround between slots for every open day
+  bay_id?: string; // omitted = apply to every bay
 }
 
-export interface WeeklyPatternSchedule {
-  id: string;
-  garage_id: string;
-  event_date: string;
-  day_of_week: number;
-  is_recurring: boolean;
-  type: "OPEN" | "CLOSED";
-  start_time: string | null;
-  end_time: string | null;
-  slot_duration: number | null;
-}
+export type WeeklyPatternSchedule = z.infer<typeof weeklyPatternScheduleSchema>;
 
-export interface WeeklyPatternResponse {
-  schedules: WeeklyPatternSchedule[];
-  is_reset: boolean;
-}
+export type WeeklyPatternResponse = z.infer<typeof weeklyPatternResponseSchema>;
+
+export type WeeklyPatternVersion = z.infer<typeof weeklyPatternVersionSchema>;
 
 // Week Schedule Types
-export interface WeekScheduleDay {
-  date: string;
-  day_of_week: number;
-  schedule: {
-    id: string;
-    type: "OPEN" | "CLOSED" | "HOLIDAY";
-    start_time: string | null;
-    end_time: string | null;
-    slot_duration: number | null;
-    is_recurring: boolean;
-  } | null;
-  source: "weekly_pattern" | "special_day" | "no_schedule";
-}
+export type WeekScheduleDay = z.infer<typeof weekScheduleDaySchema>;
 
 // Special Day Types
 export interface SpecialDayRequest {
   date: string;
+  bay_id?: string; // omitted = garage-wide (all bays)
   type: "HOLIDAY" | "OPEN" | "CLOSED";
   start_time?: string;
   end_time?: string;
   slot_duration?: number;
+  buffer_minutes?: number;
+  breaks?: BreakWindow[];
 }
 
-export interface SpecialDayResponse {
-  id: string;
-  garage_id: string;
-  event_date: string;
-  type: "HOLIDAY" | "OPEN" | "CLOSED";
-  start_time: string | null;
-  end_time: string | null;
-  slot_duration: number | null;
-  is_recurring: boolean;
-  day_of_week: number;
-}
+export type SpecialDayResponse = z.infer<typeof specialDayResponseSchema>;
 
 // Month Schedule Types
-export interface MonthScheduleItem {
-  id: string;
-  garage_id: string;
-  event_date: string;
-  type: "HOLIDAY" | "OPEN" | "CLOSED";
-  start_time?: string | null;
-  end_time?: string | null;
-  slot_duration?: number | null;
-  is_recurring: boolean;
-  day_of_week: number;
-}
+export type MonthScheduleItem = z.infer<typeof monthScheduleItemSchema>;
 
 // Slot Types
-export interface Slot {
-  id: string;
-  garage_id: string;
-  date: string;
-  start_time: string;
-  end_time: string;
-  is_available: boolean;
-  is_blocked: boolean;
-  order_id: string | null;
-}
+export type Slot = z.infer<typeof slotSchema>;
 
 export interface ManualSlotInput {
   start_time: string;
@@ -127,6 +243,7 @@ export interface ManualSlotInput {
 
 export interface ManualSlotsRequest {
   date: string;
+  bay_id?: string;
   slots: ManualSlotInput[];
   replace: boolean;
 }
@@ -136,61 +253,399 @@ export interface SlotUpdateRequest {
   end_time: string;
 }
 
+// Booking Types
+export type Order = z.infer<typeof orderSchema>;
+
+export interface ReassignBookingRequest {
+  slot_id: string;
+}
+
+export interface MoveBookingRequest {
+  target_slot_id: string;
+}
+
+export type MoveBookingResponse = z.infer<typeof moveBookingResponseSchema>;
+
+// Transport Types
+/**
+ * A fetch-compatible function that performs the actual HTTP exchange.
+ * The default transport is `fetch`; the mock transport answers in-process.
+ */
+export type ApiTransport = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+/**
+ * Resolve the transport selected by NEXT_PUBLIC_API_TRANSPORT ("http" | "mock")
+ */
+export function resolveTransport(
+  mode: string | undefined = process.env.NEXT_PUBLIC_API_TRANSPORT
+): ApiTransport {
+  if (mode === "mock") {
+    return createMockTransport();
+  }
+  return (url, init) => fetch(url, init);
+}
+
+export const CANCELLED_ERROR: ApiError = {
+  kind: "cancelled",
+  message: "Request was cancelled",
+};
+
+/**
+ * Typed error for a non-2xx response, from the status and the JSON body
+ * ({ message, errors?: { field: message } | [{ field, message }], conflict? })
+ */
+function toApiError(
+  status: number,
+  body: any,
+  retryAfter: string | null = null
+): ApiError {
+  const message: string = body?.message || body?.error || `HTTP ${status}`;
+
+  switch (status) {
+    case 401:
+      return { kind: "unauthorized", message, status };
+    case 403:
+      return { kind: "forbidden", message, status };
+    case 404:
+      return { kind: "not_found", message, status };
+    case 409:
+      return {
+        kind: "conflict",
+        message,
+        status,
+        ...(body?.conflict && { slot: body.conflict as ConflictingSlot }),
+      };
+  }
+
+  if (status >= 400 && status < 500 && status !== 429) {
+    const fields: { [field: string]: string } = {};
+    if (Array.isArray(body?.errors)) {
+      body.errors.forEach((item: { field?: string; message?: string }) => {
+        if (item.field) fields[item.field] = item.message || "is invalid";
+      });
+    } else if (body?.errors && typeof body.errors === "object") {
+      Object.assign(fields, body.errors);
+    }
+    return { kind: "validation", message, status, fields };
+  }
+
+  const retryAfterSeconds = Number(retryAfter);
+  return {
+    kind: "server",
+    message,
+    status,
+    ...(status === 429 &&
+      retryAfter &&
+      Number.isFinite(retryAfterSeconds) && {
+        retryAfterMs: retryAfterSeconds * 1000,
+      }),
+  };
+}
+
+/**
+ * Check a successful response's data against its schema; a mismatch becomes
+ * a contract error naming the endpoint and the offending fields
+ */
+function validateResponse<T>(
+  label: string,
+  schema: z.ZodType<T>,
+  response: ApiResponse<unknown>
+): ApiResponse<T> {
+  const result = schema.safeParse(response.data);
+  if (result.success) {
+    return { ...response, data: result.data };
+  }
+
+  const issues = describeIssues(result.error);
+  console.error(`API contract violation from ${label}:`, issues);
+  return {
+    success: false,
+    error: {
+      kind: "contract",
+      message: `Unexpected response from ${label}: ${issues[0]}`,
+      issues,
+    },
+  };
+}
+
+/**
+ * Wait for a retry delay; resolves false if the signal aborts first
+ */
+function waitUnlessAborted(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve(false);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 export default class GarageApiService {
   private baseUrl: string;
   private token = "";
+  private tokenExpiresAt: number | null = null;
+  private role: Role | null = null;
+  private garageId: string | null = null;
+  private transport: ApiTransport;
+  private config: ApiClientConfig;
+  private inFlight = 0;
+  private queue: Array<() => void> = [];
 
-  constructor(baseUrl?: string) {
-    // Use environment variable first, then fallback to parameter, then default
-    const rawBaseUrl =
-      baseUrl ||
-      process.env.NEXT_PUBLIC_API_BASE_URL ||
-      process.env.API_BASE_URL ||
-      "https://instructional-newsletters-counseling-ri.trycloudflare.com";
-
-    // Remove trailing slash if present
-    const cleanBaseUrl = rawBaseUrl.replace(/\/$/, "");
+  constructor(
+    baseUrl?: string,
+    transport?: ApiTransport,
+    config: Partial<ApiClientConfig> = {}
+  ) {
+    // Without a base URL requests stay on this origin and go through the proxy,
+    // which forwards them to API_BASE_URL server-side
+    const cleanBaseUrl = (baseUrl || "").replace(/\/$/, "");
 
     // Add /api/garage-dashboard suffix for all API calls
     this.baseUrl = `${cleanBaseUrl}/api/garage-dashboard`;
+    this.transport = transport || resolveTransport();
+    this.config = { ...DEFAULT_CLIENT_CONFIG, ...config };
 
     console.log("API Base URL:", this.baseUrl);
   }
 
   /**
-   * Set the authentication token
+   * Set the authentication token and when it expires (read from the JWT by
+   * default). Behind the proxy the token is "" and only the expiry is known.
    */
-  setToken(token: string): void {
+  setToken(
+    token: string,
+    expiresAt: number | null = getTokenExpiry(token.trim())
+  ): void {
     this.token = token.trim();
+    this.tokenExpiresAt = expiresAt;
+  }
+
+  /**
+   * Set the signed-in user's role; requests it has no permission for are
+   * refused locally from then on
+   */
+  setRole(role: Role | null): void {
+    this.role = role;
+  }
+
+  /**
+   * Scope requests to one of the token's garages (null = the token's own)
+   */
+  setGarage(garageId: string | null): void {
+    this.garageId = garageId;
+  }
+
+  getGarage(): string | null {
+    return this.garageId;
   }
 
   /**
-   * Make HTTP request with proper error handling
+   * Whether the signed-in role may make the changes guarded by a permission
+   * (true while no role is known; the backend decides then)
+   */
+  can(permission: Permission): boolean {
+    return this.role === null || hasPermission(this.role, permission);
+  }
+
+  /**
+   * Append the optional bayId filter to an endpoint
+   */
+  private withBay(endpoint: string, bayId?: string): string {
+    if (!bayId) return endpoint;
+    const separator = endpoint.includes("?") ? "&" : "?";
+    return `${endpoint}${separator}bayId=${encodeURIComponent(bayId)}`;
+  }
+
+  /**
+   * Append the garageId a request is scoped to
+   */
+  private withGarage(endpoint: string, garageId: string | null): string {
+    if (!garageId) return endpoint;
+    const separator = endpoint.includes("?") ? "&" : "?";
+    return `${endpoint}${separator}garageId=${encodeURIComponent(garageId)}`;
+  }
+
+  /**
+   * Make HTTP request with proper error handling, a timeout per attempt and
+   * retries with exponential backoff for GETs
    */
   private async makeRequest<T>(
     endpoint: string,
-    options: RequestInit = {}
+    schema: z.ZodType<T>,
+    init: RequestInit = {},
+    options: RequestOptions = {}
   ): Promise<ApiResponse<T>> {
-    const url = `${this.baseUrl}${endpoint}`;
+    const garageId = options.garageId ?? this.garageId;
+    const url = `${this.baseUrl}${this.withGarage(endpoint, garageId)}`;
+    const method = (init.method || "GET").toUpperCase();
+
+    // Don't send a token the backend is bound to reject
+    if (this.tokenExpiresAt !== null && Date.now() >= this.tokenExpiresAt) {
+      return {
+        success: false,
+        error: {
+          kind: "unauthorized",
+          message: "Your session has expired",
+          status: 401,
+        },
+      };
+    }
+
+    // Don't make a change the backend would refuse for this role
+    const permission = getRequiredPermission(
+      method,
+      endpoint,
+      typeof init.body === "string" ? JSON.parse(init.body) : undefined
+    );
+    if (permission && this.role && !this.can(permission)) {
+      return {
+        success: false,
+        error: {
+          kind: "forbidden",
+          message: describeDenial(this.role, permission),
+          status: 403,
+        },
+      };
+    }
+
+    const retries =
+      method === "GET" ? options.retries ?? this.config.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.withConcurrencyLimit(() =>
+        this.attemptRequest(url, init, options)
+      );
+      const retryable =
+        response.error?.kind === "network" ||
+        response.error?.kind === "timeout" ||
+        response.error?.kind === "server";
+
+      const retryAfterMs =
+        response.error?.kind === "server"
+          ? response.error.retryAfterMs
+          : undefined;
+
+      if (
+        !retryable ||
+        attempt >= retries ||
+        (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS)
+      ) {
+        return response.success
+          ? validateResponse(`${method} ${endpoint}`, schema, response)
+          : (response as ApiResponse<T>);
+      }
+
+      // 300ms, 600ms, 1200ms... with jitter so clients don't retry in lockstep
+      const delay =
+        retryAfterMs ??
+        this.config.retryBaseDelayMs *
+          2 ** attempt *
+          (0.75 + Math.random() / 2);
+      console.warn(
+        `Retrying ${url} in ${Math.round(delay)}ms (attempt ${attempt + 2} of ${
+          retries + 1
+        })`
+      );
+      if (!(await waitUnlessAborted(delay, options.signal))) {
+        return { success: false, error: CANCELLED_ERROR };
+      }
+    }
+  }
+
+  /**
+   * Run a request once one of the maxConcurrent places is free
+   */
+  private async withConcurrencyLimit<T>(run: () => Promise<T>): Promise<T> {
+    // A finished request hands its place straight to the next one waiting
+    if (this.inFlight >= this.config.maxConcurrent) {
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.inFlight++;
+    }
+    try {
+      return await run();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.inFlight--;
+      }
+    }
+  }
+
+  /**
+   * Single request attempt, aborted when the caller's signal fires or the
+   * timeout elapses
+   */
+  private async attemptRequest(
+    url: string,
+    init: RequestInit,
+    options: RequestOptions
+  ): Promise<ApiResponse<unknown>> {
+    if (options.signal?.aborted) {
+      return { success: false, error: CANCELLED_ERROR };
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort);
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    // Transports that ignore the signal are still abandoned on abort
+    const aborted = new Promise<never>((_, reject) =>
+      controller.signal.addEventListener("abort", () =>
+        reject(new DOMException("Aborted", "AbortError"))
+      )
+    );
 
     console.log("Making API request to:", url);
 
     try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.token}`,
-          ...options.headers,
-        },
-      });
+      const response = await Promise.race([
+        this.transport(url, {
+          ...init,
+          signal: controller.signal,
+          headers: {
+            "Content-Type": "application/json",
+            ...(this.token && { Authorization: `Bearer ${this.token}` }),
+            ...init.headers,
+          },
+        }),
+        aborted,
+      ]);
 
-      const data = await response.json();
+      // Error pages (e.g. a proxy's 502) may not be JSON
+      const data = await Promise.race([
+        response.json().catch(() => (response.ok ? null : {})),
+        aborted,
+      ]);
+      if (data === null) {
+        throw new Error("Response was not valid JSON");
+      }
 
       if (!response.ok) {
         return {
           success: false,
-          error: data.message || data.error || `HTTP ${response.status}`,
+          error: toApiError(
+            response.status,
+            data,
+            response.headers.get("Retry-After")
+          ),
           statusCode: response.status,
         };
       }
@@ -202,6 +657,19 @@ export default class GarageApiService {
         count: data.count,
       };
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        return {
+          success: false,
+          error: timedOut
+            ? {
+                kind: "timeout",
+                message: `Request timed out after ${timeoutMs / 1000}s`,
+                timeoutMs,
+              }
+            : CANCELLED_ERROR,
+        };
+      }
+
       let errorMessage = "Network error";
 
       if (error instanceof Error) {
@@ -220,11 +688,57 @@ export default class GarageApiService {
 
       return {
         success: false,
-        error: errorMessage,
+        error: { kind: "network", message: errorMessage },
       };
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      // Nobody awaits the abort promise once the request has settled
+      aborted.catch(() => undefined);
     }
   }
 
+  // ============================================================================
+  // AUTHENTICATION
+  // ============================================================================
+
+  /**
+   * Exchange email and password for a session. The API answers with a JWT;
+   * the proxy keeps that in its cookie and answers with the expiry instead.
+   * Any previous token is dropped first, so an expired one can't block the
+   * login; the new one is not applied until setToken() is called with it.
+   * POST /auth/login
+   */
+  async login(
+    email: string,
+    password: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<LoginResponse>> {
+    this.clearToken();
+    const request: LoginRequest = { email: email.trim(), password };
+    return this.makeRequest(
+      "/auth/login",
+      loginResponseSchema,
+      { method: "POST", body: JSON.stringify(request) },
+      options
+    );
+  }
+
+  /**
+   * End the session (the proxy drops its cookie)
+   * POST /auth/logout
+   */
+  async logout(options: RequestOptions = {}): Promise<ApiResponse> {
+    // Cleared first so an expired session can still sign out
+    this.clearToken();
+    return this.makeRequest(
+      "/auth/logout",
+      untypedResponseSchema,
+      { method: "POST" },
+      options
+    );
+  }
+
   // ============================================================================
   // RESET STATE MANAGEMENT
   // ============================================================================
@@ -233,18 +747,56 @@ export default class GarageApiService {
    * Check if the user is in a reset state (needs to set up weekly pattern)
    * GET /schedule/reset-state
    */
-  async getResetState(): Promise<ApiResponse<ResetStateResponse>> {
-    return this.makeRequest<ResetStateResponse>("/schedule/reset-state");
+  async getResetState(
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<ResetStateResponse>> {
+    return this.makeRequest(
+      "/schedule/reset-state",
+      resetStateResponseSchema,
+      {},
+      options
+    );
   }
 
   /**
    * Reset all schedules permanently
    * DELETE /schedule/reset
    */
-  async resetSchedule(): Promise<ApiResponse<ResetResponse>> {
-    return this.makeRequest<ResetResponse>("/schedule/reset", {
-      method: "DELETE",
-    });
+  async resetSchedule(
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<ResetResponse>> {
+    return this.makeRequest(
+      "/schedule/reset",
+      resetResponseSchema,
+      { method: "DELETE" },
+      options
+    );
+  }
+
+  // ============================================================================
+  // GARAGE MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Get the garages the signed-in user can manage
+   * GET /garages
+   */
+  async getGarages(
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Garage[]>> {
+    return this.makeRequest("/garages", z.array(garageSchema), {}, options);
+  }
+
+  // ============================================================================
+  // BAY MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Get the inspection bays of the garage
+   * GET /bays
+   */
+  async getBays(options: RequestOptions = {}): Promise<ApiResponse<Bay[]>> {
+    return this.makeRequest("/bays", z.array(baySchema), {}, options);
   }
 
   // ============================================================================
@@ -253,46 +805,144 @@ export default class GarageApiService {
 
   /**
    * Set weekly working pattern for all 7 days with daysToGenerate
+   * (for a single bay when bayId is given, otherwise for every bay).
+   * bufferMinutes is the turnaround between slots unless a day overrides it.
+   * The pattern applies from version.effective_from (today when omitted)
+   * until version.effective_to (open-ended when omitted); other versions
+   * are cut back where they overlap that range.
    * POST /schedule/weekly
    */
   async setWeeklyPattern(
     pattern: WeeklyPatternDay[],
-    daysToGenerate = 30
+    daysToGenerate = 30,
+    bayId?: string,
+    bufferMinutes = 0,
+    version: WeeklyPatternVersionInput = {},
+    options: RequestOptions = {}
   ): Promise<ApiResponse<WeeklyPatternResponse>> {
     if (pattern.length !== 7) {
       return {
         success: false,
-        error: "Must provide exactly 7 days of pattern data",
+        error: {
+          kind: "validation",
+          message: "Must provide exactly 7 days of pattern data",
+          status: 400,
+          fields: { pattern: "must contain exactly 7 days" },
+        },
       };
     }
 
     if (daysToGenerate < 1 || daysToGenerate > 365) {
       return {
         success: false,
-        error: "daysToGenerate must be between 1 and 365",
+        error: {
+          kind: "validation",
+          message: "daysToGenerate must be between 1 and 365",
+          status: 400,
+          fields: { daysToGenerate: "must be between 1 and 365" },
+        },
+      };
+    }
+
+    if (
+      version.effective_from &&
+      version.effective_to &&
+      version.effective_to < version.effective_from
+    ) {
+      return {
+        success: false,
+        error: {
+          kind: "validation",
+          message: "effective_to must not be before effective_from",
+          status: 400,
+          fields: { effective_to: "must not be before effective_from" },
+        },
       };
     }
 
     const request: WeeklyPatternRequest = {
       pattern,
       daysToGenerate,
+      ...(bufferMinutes > 0 && { buffer_minutes: bufferMinutes }),
+      ...(bayId && { bay_id: bayId }),
+      ...version,
     };
 
-    return this.makeRequest<WeeklyPatternResponse>("/schedule/weekly", {
-      method: "POST",
-      body: JSON.stringify(request),
-    });
+    return this.makeRequest(
+      "/schedule/weekly",
+      weeklyPatternResponseSchema,
+      { method: "POST", body: JSON.stringify(request) },
+      options
+    );
+  }
+
+  /**
+   * Get the weekly pattern versions of a bay (of every bay unless bayId is
+   * given), ordered by bay and effective date
+   * GET /schedule/weekly/versions?bayId=
+   */
+  async getWeeklyPatternVersions(
+    bayId?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<WeeklyPatternVersion[]>> {
+    return this.makeRequest(
+      this.withBay("/schedule/weekly/versions", bayId),
+      z.array(weeklyPatternVersionSchema),
+      {},
+      options
+    );
+  }
+
+  /**
+   * Delete a weekly pattern version; its dates are left without a pattern
+   * DELETE /schedule/weekly/versions/:versionId
+   */
+  async deleteWeeklyPatternVersion(
+    versionId: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    return this.makeRequest(
+      `/schedule/weekly/versions/${versionId}`,
+      untypedResponseSchema,
+      { method: "DELETE" },
+      options
+    );
   }
 
   /**
    * Get week schedule starting from a specific date
-   * GET /schedule/week?startDate=YYYY-MM-DD
+   * (combined opening hours of all bays unless bayId is given)
+   * GET /schedule/week?startDate=YYYY-MM-DD&bayId=
    */
   async getWeekSchedule(
-    startDate: string
+    startDate: string,
+    bayId?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<WeekScheduleDay[]>> {
+    return this.makeRequest(
+      this.withBay(`/schedule/week?startDate=${startDate}`, bayId),
+      z.array(weekScheduleDaySchema),
+      {},
+      options
+    );
+  }
+
+  /**
+   * Resolved schedule of every date from one date to another (inclusive,
+   * at most 366 days), combined over all bays unless bayId is given
+   * GET /schedule/range?from=YYYY-MM-DD&to=YYYY-MM-DD&bayId=
+   */
+  async getScheduleRange(
+    from: string,
+    to: string,
+    bayId?: string,
+    options: RequestOptions = {}
   ): Promise<ApiResponse<WeekScheduleDay[]>> {
-    return this.makeRequest<WeekScheduleDay[]>(
-      `/schedule/week?startDate=${startDate}`
+    return this.makeRequest(
+      this.withBay(`/schedule/range?from=${from}&to=${to}`, bayId),
+      z.array(weekScheduleDaySchema),
+      {},
+      options
     );
   }
 
@@ -301,7 +951,12 @@ export default class GarageApiService {
    */
   createWeeklyPattern(
     workingDays: {
-      [key: number]: { start: string; end: string; duration: number };
+      [key: number]: {
+        start: string;
+        end: string;
+        duration: number;
+        breaks?: BreakWindow[];
+      };
     } = {}
   ): WeeklyPatternDay[] {
     const pattern: WeeklyPatternDay[] = [];
@@ -314,6 +969,7 @@ export default class GarageApiService {
           start_time: workingDays[day].start,
           end_time: workingDays[day].end,
           slot_duration: workingDays[day].duration,
+          ...(workingDays[day].breaks && { breaks: workingDays[day].breaks }),
         });
       } else {
         pattern.push({
@@ -335,12 +991,15 @@ export default class GarageApiService {
    * POST /schedule
    */
   async setSpecialDay(
-    request: SpecialDayRequest
+    request: SpecialDayRequest,
+    options: RequestOptions = {}
   ): Promise<ApiResponse<SpecialDayResponse>> {
-    return this.makeRequest<SpecialDayResponse>("/schedule", {
-      method: "POST",
-      body: JSON.stringify(request),
-    });
+    return this.makeRequest(
+      "/schedule",
+      specialDayResponseSchema,
+      { method: "POST", body: JSON.stringify(request) },
+      options
+    );
   }
 
   /**
@@ -348,67 +1007,125 @@ export default class GarageApiService {
    */
   async setHoliday(
     date: string,
-    description?: string
+    description?: string,
+    bayId?: string,
+    options: RequestOptions = {}
   ): Promise<ApiResponse<SpecialDayResponse>> {
-    return this.setSpecialDay({
-      date,
-      type: "HOLIDAY",
-    });
+    return this.setSpecialDay(
+      {
+        date,
+        type: "HOLIDAY",
+        ...(bayId && { bay_id: bayId }),
+      },
+      options
+    );
   }
 
   /**
-   * Set special opening hours
+   * Set special opening hours (optionally split by break windows and with a
+   * turnaround buffer between slots)
    */
   async setSpecialOpening(
     date: string,
     startTime: string,
     endTime: string,
-    slotDuration = 60
+    slotDuration = 60,
+    bayId?: string,
+    breaks: BreakWindow[] = [],
+    bufferMinutes = 0,
+    options: RequestOptions = {}
   ): Promise<ApiResponse<SpecialDayResponse>> {
-    return this.setSpecialDay({
-      date,
-      type: "OPEN",
-      start_time: startTime,
-      end_time: endTime,
-      slot_duration: slotDuration,
-    });
+    return this.setSpecialDay(
+      {
+        date,
+        type: "OPEN",
+        start_time: startTime,
+        end_time: endTime,
+        slot_duration: slotDuration,
+        ...(bufferMinutes > 0 && { buffer_minutes: bufferMinutes }),
+        ...(breaks.length > 0 && { breaks }),
+        ...(bayId && { bay_id: bayId }),
+      },
+      options
+    );
   }
 
   /**
    * Set weekend (closed day)
    */
-  async setWeekend(date: string): Promise<ApiResponse<SpecialDayResponse>> {
+  async setWeekend(
+    date: string,
+    bayId?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<SpecialDayResponse>> {
     // Use the base setSpecialDay method with CLOSED type
-    return this.makeRequest<SpecialDayResponse>("/schedule", {
-      method: "POST",
-      body: JSON.stringify({
-        date,
-        type: "CLOSED",
-      }),
-    });
+    return this.makeRequest(
+      "/schedule",
+      specialDayResponseSchema,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          date,
+          type: "CLOSED",
+          ...(bayId && { bay_id: bayId }),
+        }),
+      },
+      options
+    );
   }
 
   /**
-   * Get month schedule (special days only)
-   * GET /schedule/month?month=7&year=2025
+   * Get month schedule (special days only; garage-wide ones unless bayId is given)
+   * GET /schedule/month?month=7&year=2025&bayId=
    */
   async getMonthSchedule(
     month: number,
-    year: number
+    year: number,
+    bayId?: string,
+    options: RequestOptions = {}
   ): Promise<ApiResponse<MonthScheduleItem[]>> {
-    return this.makeRequest<MonthScheduleItem[]>(
-      `/schedule/month?month=${month}&year=${year}`
+    return this.makeRequest(
+      this.withBay(`/schedule/month?month=${month}&year=${year}`, bayId),
+      z.array(monthScheduleItemSchema),
+      {},
+      options
+    );
+  }
+
+  /**
+   * Special days from one date to another (inclusive, at most 366 days);
+   * garage-wide ones, plus the bay's own when bayId is given
+   * GET /schedule/special-days?from=YYYY-MM-DD&to=YYYY-MM-DD&bayId=
+   */
+  async getSpecialDaysInRange(
+    from: string,
+    to: string,
+    bayId?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<MonthScheduleItem[]>> {
+    return this.makeRequest(
+      this.withBay(`/schedule/special-days?from=${from}&to=${to}`, bayId),
+      z.array(monthScheduleItemSchema),
+      {},
+      options
     );
   }
 
   /**
    * Delete special day schedule
-   * DELETE /schedule?date=YYYY-MM-DD
+   * DELETE /schedule?date=YYYY-MM-DD&bayId=
    */
-  async deleteSpecialDay(date: string): Promise<ApiResponse> {
-    return this.makeRequest(`/schedule?date=${date}`, {
-      method: "DELETE",
-    });
+  async deleteSpecialDay(
+    date: string,
+    bayId?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    return this.makeRequest(
+      this.withBay(`/schedule?date=${date}`, bayId),
+      untypedResponseSchema,
+      { method: "DELETE" },
+      options
+    );
   }
 
   // ============================================================================
@@ -416,11 +1133,39 @@ export default class GarageApiService {
   // ============================================================================
 
   /**
-   * Get slots for a specific date
-   * GET /slots?date=YYYY-MM-DD
+   * Get slots for a specific date (all bays unless bayId is given)
+   * GET /slots?date=YYYY-MM-DD&bayId=
    */
-  async getSlotsForDate(date: string): Promise<ApiResponse<Slot[]>> {
-    return this.makeRequest<Slot[]>(`/slots?date=${date}`);
+  async getSlotsForDate(
+    date: string,
+    bayId?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Slot[]>> {
+    return this.makeRequest(
+      this.withBay(`/slots?date=${date}`, bayId),
+      z.array(slotSchema),
+      {},
+      options
+    );
+  }
+
+  /**
+   * Slots from one date to another (inclusive, at most 366 days), all bays
+   * unless bayId is given
+   * GET /slots?from=YYYY-MM-DD&to=YYYY-MM-DD&bayId=
+   */
+  async getSlotsInRange(
+    from: string,
+    to: string,
+    bayId?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Slot[]>> {
+    return this.makeRequest(
+      this.withBay(`/slots?from=${from}&to=${to}`, bayId),
+      z.array(slotSchema),
+      {},
+      options
+    );
   }
 
   /**
@@ -430,18 +1175,23 @@ export default class GarageApiService {
   async setManualSlots(
     date: string,
     slots: ManualSlotInput[],
-    replace = false
+    replace = false,
+    bayId?: string,
+    options: RequestOptions = {}
   ): Promise<ApiResponse> {
     const request: ManualSlotsRequest = {
       date,
       slots,
       replace,
+      ...(bayId && { bay_id: bayId }),
     };
 
-    return this.makeRequest("/slots/manual", {
-      method: "POST",
-      body: JSON.stringify(request),
-    });
+    return this.makeRequest(
+      "/slots/manual",
+      untypedResponseSchema,
+      { method: "POST", body: JSON.stringify(request) },
+      options
+    );
   }
 
   /**
@@ -451,57 +1201,142 @@ export default class GarageApiService {
   async updateSlot(
     slotId: string,
     startTime: string,
-    endTime: string
+    endTime: string,
+    options: RequestOptions = {}
   ): Promise<ApiResponse> {
     const request: SlotUpdateRequest = {
       start_time: startTime,
       end_time: endTime,
     };
 
-    return this.makeRequest(`/slots/${slotId}`, {
-      method: "PATCH",
-      body: JSON.stringify(request),
-    });
+    return this.makeRequest(
+      `/slots/${slotId}`,
+      untypedResponseSchema,
+      { method: "PATCH", body: JSON.stringify(request) },
+      options
+    );
   }
 
   /**
    * Block a slot
    * PATCH /slots/:id/block
    */
-  async blockSlot(slotId: string): Promise<ApiResponse> {
-    return this.makeRequest(`/slots/${slotId}/block`, {
-      method: "PATCH",
-    });
+  async blockSlot(
+    slotId: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    return this.makeRequest(
+      `/slots/${slotId}/block`,
+      untypedResponseSchema,
+      { method: "PATCH" },
+      options
+    );
   }
 
   /**
    * Unblock a slot
    * PATCH /slots/:id/unblock
    */
-  async unblockSlot(slotId: string): Promise<ApiResponse> {
-    return this.makeRequest(`/slots/${slotId}/unblock`, {
-      method: "PATCH",
-    });
+  async unblockSlot(
+    slotId: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    return this.makeRequest(
+      `/slots/${slotId}/unblock`,
+      untypedResponseSchema,
+      { method: "PATCH" },
+      options
+    );
   }
 
   /**
    * Delete a specific slot
    * DELETE /slots/:id
    */
-  async deleteSlot(slotId: string): Promise<ApiResponse> {
-    return this.makeRequest(`/slots/${slotId}`, {
-      method: "DELETE",
-    });
+  async deleteSlot(
+    slotId: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    return this.makeRequest(
+      `/slots/${slotId}`,
+      untypedResponseSchema,
+      { method: "DELETE" },
+      options
+    );
   }
 
   /**
-   * Remove all slots for a date
-   * DELETE /slots/manual?date=YYYY-MM-DD
+   * Remove all slots for a date (all bays unless bayId is given)
+   * DELETE /slots/manual?date=YYYY-MM-DD&bayId=
    */
-  async removeAllSlotsForDate(date: string): Promise<ApiResponse> {
-    return this.makeRequest(`/slots/manual?date=${date}`, {
-      method: "DELETE",
-    });
+  async removeAllSlotsForDate(
+    date: string,
+    bayId?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    return this.makeRequest(
+      this.withBay(`/slots/manual?date=${date}`, bayId),
+      untypedResponseSchema,
+      { method: "DELETE" },
+      options
+    );
+  }
+
+  // ============================================================================
+  // BOOKING MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Get the order (booking) behind a booked slot
+   * GET /orders/:id
+   */
+  async getOrder(
+    orderId: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Order>> {
+    return this.makeRequest(`/orders/${orderId}`, orderSchema, {}, options);
+  }
+
+  /**
+   * Move a booking to another free slot, releasing its current slot
+   * PATCH /orders/:id/reassign
+   */
+  async reassignBooking(
+    orderId: string,
+    targetSlotId: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Order>> {
+    const request: ReassignBookingRequest = {
+      slot_id: targetSlotId,
+    };
+
+    return this.makeRequest(
+      `/orders/${orderId}/reassign`,
+      orderSchema,
+      { method: "PATCH", body: JSON.stringify(request) },
+      options
+    );
+  }
+
+  /**
+   * Move the booking held by a slot onto another free slot (any date)
+   * PATCH /slots/:id/move
+   */
+  async moveBooking(
+    sourceSlotId: string,
+    targetSlotId: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<MoveBookingResponse>> {
+    const request: MoveBookingRequest = {
+      target_slot_id: targetSlotId,
+    };
+
+    return this.makeRequest(
+      `/slots/${sourceSlotId}/move`,
+      moveBookingResponseSchema,
+      { method: "PATCH", body: JSON.stringify(request) },
+      options
+    );
   }
 
   // ============================================================================
@@ -523,9 +1358,12 @@ export default class GarageApiService {
   }
 
   /**
-   * Clear the authentication token
+   * Clear the authentication token and the role and garage that came with it
    */
   clearToken(): void {
     this.token = "";
+    this.tokenExpiresAt = null;
+    this.role = null;
+    this.garageId = null;
   }
 }
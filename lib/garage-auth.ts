@@ -0,0 +1,147 @@
+/**
+ * Garage Dashboard Sessions
+ *
+ * A signed-in user is represented by the JWT the login route returns. Its
+ * claims are read (not verified; that is the backend's job) to notice expiry
+ * before the backend has to reject a request. Behind the proxy the JWT stays
+ * in an httpOnly cookie and the login response carries its expiry instead.
+ *
+ * The session also carries the user's role (see garage-permissions.ts), taken
+ * from the login response or, failing that, the token's role claim.
+ *
+ * The session is kept in sessionStorage: it survives a refresh but not the
+ * closing of the tab, and is dropped as soon as it expires or the user logs
+ * out. Behind the proxy it holds no token, only who is signed in and until
+ * when.
+ */
+
+import type { LoginResponse } from "./garage-api";
+import { type Role, toRole } from "./garage-permissions";
+import { getBrowserStorage } from "./browser-storage";
+
+const STORAGE_KEY = "garage-dashboard-session";
+
+// Expire sessions slightly early so a request never leaves with a token that
+// lapses in flight
+const EXPIRY_SKEW_MS = 30000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface JwtClaims {
+  sub?: string;
+  email?: string;
+  name?: string;
+  role?: string;
+  exp?: number; // seconds since the epoch
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export interface Session {
+  token: string; // "" when the proxy holds the token
+  email: string;
+  name: string | null;
+  role: Role;
+  expiresAt: number | null; // ms since the epoch; null = the token has no exp
+}
+
+// ============================================================================
+// JWT CLAIMS
+// ============================================================================
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Claims of a JWT, or null when the token isn't one (e.g. an opaque API key)
+ */
+export function decodeJwtClaims(token: string): JwtClaims | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    const claims = JSON.parse(decodeBase64Url(parts[1]));
+    return claims && typeof claims === "object" ? (claims as JwtClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When a token stops being accepted (ms since the epoch), or null if it
+ * carries no expiry
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtClaims(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 - EXPIRY_SKEW_MS : null;
+}
+
+export function isSessionExpired(session: Session, now = Date.now()): boolean {
+  return session.expiresAt !== null && now >= session.expiresAt;
+}
+
+/**
+ * Session for a successful login response
+ */
+export function createSession(login: LoginResponse): Session {
+  let expiresAt: number | null = null;
+  if (login.token) {
+    expiresAt = getTokenExpiry(login.token);
+  } else if (login.expires_at) {
+    expiresAt = Date.parse(login.expires_at) - EXPIRY_SKEW_MS;
+  }
+
+  return {
+    token: login.token || "",
+    email: login.user.email,
+    name: login.user.name,
+    role: toRole(
+      login.user.role ??
+        (login.token ? decodeJwtClaims(login.token)?.role : undefined)
+    ),
+    expiresAt,
+  };
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+const getStorage = () => getBrowserStorage("session");
+
+/**
+ * The stored session, which may have expired since it was saved
+ */
+export function loadSession(): Session | null {
+  try {
+    const raw = getStorage()?.getItem(STORAGE_KEY);
+    const session = raw ? (JSON.parse(raw) as Session) : null;
+    // Sessions saved before roles existed get the default role
+    return session?.email ? { ...session, role: toRole(session.role) } : null;
+  } catch (error) {
+    console.warn("Failed to load session:", error);
+    return null;
+  }
+}
+
+export function saveSession(session: Session): void {
+  try {
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.warn("Failed to save session:", error);
+  }
+}
+
+export function clearSession(): void {
+  try {
+    getStorage()?.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn("Failed to clear session:", error);
+  }
+}
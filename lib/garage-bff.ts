@@ -0,0 +1,339 @@
+/**
+ * Garage Dashboard Backend-for-Frontend
+ *
+ * Server-side half of the same-origin proxy under /api/garage-dashboard (see
+ * app/api/garage-dashboard). The browser never sees the API token: login
+ * stores it in an httpOnly cookie scoped to the proxy, and every proxied
+ * request adds it as the bearer token before forwarding to the garage API.
+ * Requests are logged and rate limited here, in one place.
+ *
+ * Server-only: reads API_BASE_URL, API_TRANSPORT=mock to answer from an
+ * in-memory mock backend instead of the real API, and TRUST_PROXY=1 when a
+ * reverse proxy in front sets X-Forwarded-For / X-Real-IP.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { type ApiTransport, resolveTransport } from "./garage-api";
+import { createMockTransport } from "./garage-api-mock";
+import { decodeJwtClaims } from "./garage-auth";
+
+export const BFF_PREFIX = "/api/garage-dashboard";
+const SESSION_COOKIE = "garage_session";
+
+const UPSTREAM_URL = `${(
+  process.env.API_BASE_URL ||
+  process.env.NEXT_PUBLIC_API_BASE_URL ||
+  "https://instructional-newsletters-counseling-ri.trycloudflare.com"
+).replace(/\/$/, "")}${BFF_PREFIX}`;
+
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+
+/**
+ * Token bucket per key: a burst of up to `capacity` requests, refilled at
+ * `refillPerSecond`. The dashboard's bulk loads read whole date ranges in a
+ * few requests, so a burst covers a busy page load; a runaway tab or a
+ * password-guessing loop still runs dry. State is per server process.
+ */
+class RateLimiter {
+  private capacity: number;
+  private refillPerMs: number;
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(capacity: number, refillPerSecond: number) {
+    this.capacity = capacity;
+    this.refillPerMs = refillPerSecond / 1000;
+  }
+
+  /**
+   * Take a token; returns the seconds to wait when none is left
+   */
+  hit(key: string, now = Date.now()): number | null {
+    const bucket = this.buckets.get(key) || {
+      tokens: this.capacity,
+      updatedAt: now,
+    };
+    bucket.tokens = Math.min(
+      this.capacity,
+      bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs
+    );
+    bucket.updatedAt = now;
+    if (!this.buckets.has(key)) {
+      this.prune(now);
+      this.buckets.set(key, bucket);
+    }
+
+    if (bucket.tokens < 1) {
+      return Math.ceil((1 - bucket.tokens) / this.refillPerMs / 1000);
+    }
+    bucket.tokens--;
+    return null;
+  }
+
+  // Buckets that have refilled completely are the same as new ones
+  private prune(now: number): void {
+    this.buckets.forEach((bucket, key) => {
+      if (
+        bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs >=
+        this.capacity
+      ) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+const apiLimiter = new RateLimiter(120, 10);
+const loginLimiter = new RateLimiter(10, 10 / 60);
+
+/**
+ * The client's address as the trusted proxy appended it (earlier
+ * X-Forwarded-For entries are the client's own to set). Route handlers don't
+ * see the socket's address, so without TRUST_PROXY there is none.
+ */
+function clientAddress(request: NextRequest): string | null {
+  if (process.env.TRUST_PROXY !== "1") return null;
+  return (
+    request.headers.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+    request.headers.get("x-real-ip") ||
+    null
+  );
+}
+
+/**
+ * Buckets a proxied request counts against: its session's (the token's
+ * subject, or the token itself) and, behind a trusted proxy, its address's
+ */
+function apiKeys(request: NextRequest, token?: string): string[] {
+  const subject = token ? decodeJwtClaims(token)?.sub || token : null;
+  const address = clientAddress(request);
+  return [
+    ...(subject ? [`session:${subject}`] : []),
+    ...(address ? [`address:${address}`] : []),
+  ];
+}
+
+/**
+ * Buckets a login counts against: the account it tries (so guessing one
+ * account's password is slow from anywhere) and, behind a trusted proxy,
+ * its address's (so trying many accounts from one place is too)
+ */
+async function loginKeys(request: NextRequest): Promise<string[]> {
+  const body = await request
+    .clone()
+    .json()
+    .catch(() => null);
+  const email =
+    typeof body?.email === "string" ? body.email.trim().toLowerCase() : "";
+  const address = clientAddress(request);
+  return [`account:${email}`, ...(address ? [`address:${address}`] : [])];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+let upstreamTransport: ApiTransport | null = null;
+
+// One transport per server process, so the mock backend keeps its state
+function getUpstreamTransport(): ApiTransport {
+  if (!upstreamTransport) {
+    upstreamTransport =
+      process.env.API_TRANSPORT === "mock"
+        ? createMockTransport({ storage: null, latencyMs: 0 })
+        : resolveTransport("http");
+  }
+  return upstreamTransport;
+}
+
+// Error body in the garage API's own shape, so the client parses it as usual
+function errorResponse(
+  status: number,
+  message: string,
+  headers?: HeadersInit
+): NextResponse {
+  return NextResponse.json(
+    { success: false, message, statusCode: status },
+    { status, headers }
+  );
+}
+
+function logRequest(
+  request: NextRequest,
+  status: number,
+  startedAt: number
+): void {
+  console.info(
+    `[garage-bff] ${request.method} ${request.nextUrl.pathname} ${status} ${
+      Date.now() - startedAt
+    }ms`
+  );
+}
+
+// Browsers send Origin on cross-origin requests and on same-origin writes
+function isSameOrigin(request: NextRequest): boolean {
+  const origin = request.headers.get("origin");
+  if (!origin) return true;
+  const host =
+    request.headers.get("x-forwarded-host") || request.headers.get("host");
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Refuse cross-site requests and requests over one of their limits before
+ * anything is forwarded. The cookie is SameSite=Strict as well; this also
+ * covers browsers that ignore it.
+ */
+function guard(
+  request: NextRequest,
+  limiter: RateLimiter,
+  keys: string[]
+): NextResponse | null {
+  if (!isSameOrigin(request)) {
+    return errorResponse(403, "Cross-origin requests are not allowed");
+  }
+
+  const waits = keys
+    .map((key) => limiter.hit(key))
+    .filter((wait): wait is number => wait !== null);
+  const retryAfter = waits.length > 0 ? Math.max(...waits) : null;
+  if (retryAfter !== null) {
+    return errorResponse(429, "Too many requests, please slow down", {
+      "Retry-After": String(retryAfter),
+    });
+  }
+  return null;
+}
+
+async function forward(
+  request: NextRequest,
+  path: string,
+  token?: string
+): Promise<Response> {
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+  return getUpstreamTransport()(
+    `${UPSTREAM_URL}${path}${request.nextUrl.search}`,
+    {
+      method: request.method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: hasBody ? await request.text() : undefined,
+      signal: request.signal,
+    }
+  );
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * Forward any garage API request with the session cookie's token
+ */
+export async function proxyRequest(
+  request: NextRequest
+): Promise<NextResponse> {
+  const startedAt = Date.now();
+  const respond = (response: NextResponse) => {
+    logRequest(request, response.status, startedAt);
+    return response;
+  };
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const refused = guard(request, apiLimiter, apiKeys(request, token));
+  if (refused) return respond(refused);
+
+  if (!token) return respond(errorResponse(401, "Not signed in"));
+
+  try {
+    const path = request.nextUrl.pathname.slice(BFF_PREFIX.length);
+    const upstream = await forward(request, path, token);
+    const response = new NextResponse(await upstream.text(), {
+      status: upstream.status,
+      headers: {
+        "Content-Type":
+          upstream.headers.get("Content-Type") || "application/json",
+      },
+    });
+    // The API no longer accepts the token; don't keep sending it
+    if (upstream.status === 401) {
+      response.cookies.delete({ name: SESSION_COOKIE, path: BFF_PREFIX });
+    }
+    return respond(response);
+  } catch (error) {
+    console.error("[garage-bff] Upstream request failed:", error);
+    return respond(errorResponse(502, "The garage API could not be reached"));
+  }
+}
+
+/**
+ * POST /auth/login: sign in upstream and keep the token in an httpOnly
+ * cookie. The browser only gets the user and the session's expiry.
+ */
+export async function loginRequest(
+  request: NextRequest
+): Promise<NextResponse> {
+  const startedAt = Date.now();
+  const respond = (response: NextResponse) => {
+    logRequest(request, response.status, startedAt);
+    return response;
+  };
+
+  const refused = guard(request, loginLimiter, await loginKeys(request));
+  if (refused) return respond(refused);
+
+  try {
+    const upstream = await forward(request, "/auth/login");
+    const body = await upstream.json().catch(() => null);
+    if (!upstream.ok) {
+      return respond(
+        NextResponse.json(body || { success: false }, {
+          status: upstream.status,
+        })
+      );
+    }
+
+    const data = body?.data || body;
+    if (typeof data?.token !== "string" || !data.token) {
+      return respond(errorResponse(502, "Login response had no token"));
+    }
+
+    const exp = decodeJwtClaims(data.token)?.exp;
+    const expires = typeof exp === "number" ? new Date(exp * 1000) : undefined;
+    const response = NextResponse.json({
+      success: true,
+      data: { user: data.user, expires_at: expires?.toISOString() || null },
+    });
+    response.cookies.set(SESSION_COOKIE, data.token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      path: BFF_PREFIX,
+      ...(expires && { expires }),
+    });
+    return respond(response);
+  } catch (error) {
+    console.error("[garage-bff] Login request failed:", error);
+    return respond(errorResponse(502, "The garage API could not be reached"));
+  }
+}
+
+/**
+ * POST /auth/logout: forget the session cookie
+ */
+export async function logoutRequest(
+  request: NextRequest
+): Promise<NextResponse> {
+  const startedAt = Date.now();
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete({ name: SESSION_COOKIE, path: BFF_PREFIX });
+  logRequest(request, response.status, startedAt);
+  return response;
+}
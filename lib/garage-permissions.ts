@@ -0,0 +1,176 @@
+/**
+ * Garage Dashboard Roles & Permissions
+ *
+ * Every account has one role. The matrix below says which schedule changes a
+ * role may make; viewing the schedule needs no permission. The dashboard
+ * hides or disables actions the signed-in role lacks, and GarageApiService
+ * refuses the matching requests before they are sent (the mock backend
+ * enforces the same matrix, as the real backend does).
+ *
+ * Accounts without a known role get the tester's permissions, the smallest
+ * set, rather than anything they might not be entitled to.
+ */
+
+export type Role = "owner" | "manager" | "tester" | "receptionist";
+
+export type Permission =
+  | "schedule.reset" // wipe every pattern, special day and slot
+  | "weeklyPattern.edit"
+  | "specialDays.edit" // holidays, closures, special openings (incl. rules, bank holidays, .ics import)
+  | "slots.edit" // add manual slots, change slot times
+  | "slots.block"
+  | "slots.delete";
+
+export type RolePermissions = { [P in Permission]: boolean };
+
+export const ROLES: Role[] = ["owner", "manager", "tester", "receptionist"];
+
+export const DEFAULT_ROLE: Role = "tester";
+
+export const ROLE_LABELS: { [R in Role]: string } = {
+  owner: "Owner",
+  manager: "Manager",
+  tester: "Tester",
+  receptionist: "Receptionist",
+};
+
+const PERMISSION_LABELS: { [P in Permission]: string } = {
+  "schedule.reset": "reset the schedule",
+  "weeklyPattern.edit": "change the weekly pattern",
+  "specialDays.edit": "change special days",
+  "slots.edit": "add or edit slots",
+  "slots.block": "block or unblock slots",
+  "slots.delete": "delete slots",
+};
+
+const PERMISSION_MATRIX: { [R in Role]: Permission[] } = {
+  owner: [
+    "schedule.reset",
+    "weeklyPattern.edit",
+    "specialDays.edit",
+    "slots.edit",
+    "slots.block",
+    "slots.delete",
+  ],
+  manager: [
+    "weeklyPattern.edit",
+    "specialDays.edit",
+    "slots.edit",
+    "slots.block",
+    "slots.delete",
+  ],
+  // Front desk fits extra appointments in and holds slots, but leaves
+  // opening hours to the managers
+  receptionist: ["slots.edit", "slots.block"],
+  // Testers can take their own slots out of service while busy
+  tester: ["slots.block"],
+};
+
+// ============================================================================
+// ROLE CHECKS
+// ============================================================================
+
+/**
+ * The role named by an API response or token claim
+ */
+export function toRole(value: unknown): Role {
+  return ROLES.includes(value as Role) ? (value as Role) : DEFAULT_ROLE;
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return PERMISSION_MATRIX[role].includes(permission);
+}
+
+export function getPermissions(role: Role): RolePermissions {
+  return Object.fromEntries(
+    (Object.keys(PERMISSION_LABELS) as Permission[]).map((permission) => [
+      permission,
+      hasPermission(role, permission),
+    ])
+  ) as RolePermissions;
+}
+
+/**
+ * Message for a request the role is not allowed to make
+ */
+export function describeDenial(role: Role, permission: Permission): string {
+  return `${ROLE_LABELS[role]}s can't ${PERMISSION_LABELS[permission]}`;
+}
+
+// ============================================================================
+// API ROUTES
+// ============================================================================
+
+/**
+ * A manual slots request that asks to replace the day's slots
+ */
+function isReplaceRequest(body: unknown): boolean {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    "replace" in body &&
+    body.replace === true
+  );
+}
+
+const ROUTE_PERMISSIONS: Array<{
+  method: string;
+  path: RegExp;
+  body?: (body: unknown) => boolean; // only matches requests with such a body
+  permission: Permission;
+}> = [
+  {
+    method: "DELETE",
+    path: /^\/schedule\/reset$/,
+    permission: "schedule.reset",
+  },
+  {
+    method: "POST",
+    path: /^\/schedule\/weekly$/,
+    permission: "weeklyPattern.edit",
+  },
+  {
+    method: "DELETE",
+    path: /^\/schedule\/weekly\/versions\/[^/]+$/,
+    permission: "weeklyPattern.edit",
+  },
+  { method: "POST", path: /^\/schedule$/, permission: "specialDays.edit" },
+  { method: "DELETE", path: /^\/schedule$/, permission: "specialDays.edit" },
+  // Replacing wipes the day's existing slots first
+  {
+    method: "POST",
+    path: /^\/slots\/manual$/,
+    body: isReplaceRequest,
+    permission: "slots.delete",
+  },
+  { method: "POST", path: /^\/slots\/manual$/, permission: "slots.edit" },
+  { method: "DELETE", path: /^\/slots\/manual$/, permission: "slots.delete" },
+  {
+    method: "PATCH",
+    path: /^\/slots\/[^/]+\/(block|unblock)$/,
+    permission: "slots.block",
+  },
+  { method: "DELETE", path: /^\/slots\/[^/]+$/, permission: "slots.delete" },
+  // Checked after /manual, /block and /unblock above; /move is a booking change
+  { method: "PATCH", path: /^\/slots\/[^/]+$/, permission: "slots.edit" },
+];
+
+/**
+ * Permission a garage API request needs, or null when any signed-in role may
+ * make it (reads, booking moves). `path` is relative to /api/garage-dashboard;
+ * a query string is ignored. `body` is the parsed JSON body, if any.
+ */
+export function getRequiredPermission(
+  method: string,
+  path: string,
+  body?: unknown
+): Permission | null {
+  const pathname = path.split("?")[0];
+  const route = ROUTE_PERMISSIONS.find(
+    (candidate) =>
+      candidate.method === method.toUpperCase() &&
+      candidate.path.test(pathname) &&
+      (!candidate.body || candidate.body(body))
+  );
+  return route ? route.permission : null;
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { Slot, WeekScheduleDay } from "./garage-api";
+import { buildScheduleIcs } from "./ics-export";
+
+const now = new Date("2026-10-19T08:30:00Z");
+
+const day = (
+  date: string,
+  schedule: Partial<NonNullable<WeekScheduleDay["schedule"]>> | null
+): WeekScheduleDay => ({
+  date,
+  day_of_week: 1,
+  schedule: schedule && {
+    id: "sched-1",
+    type: "OPEN",
+    start_time: null,
+    end_time: null,
+    slot_duration: null,
+    buffer_minutes: null,
+    breaks: [],
+    is_recurring: true,
+    ...schedule,
+  },
+  source: schedule ? "weekly_pattern" : "no_schedule",
+});
+
+const slot = (overrides: Partial<Slot> = {}): Slot => ({
+  id: "slot-1",
+  garage_id: "garage-1",
+  bay_id: "bay-1",
+  date: "2026-10-19",
+  start_time: "09:00",
+  end_time: "10:00",
+  is_available: false,
+  is_blocked: false,
+  order_id: "order-1",
+  ...overrides,
+});
+
+// Content lines with folding undone (RFC 5545 section 3.1)
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("buildScheduleIcs", () => {
+  it("ends every line with CRLF", () => {
+    const ics = buildScheduleIcs([], [], { calendarName: "Garage", now });
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  it("escapes TEXT values", () => {
+    const lines = unfold(
+      buildScheduleIcs([], [], {
+        calendarName: "Smith, Sons; Co\\Ltd\nNorth",
+        now,
+      })
+    );
+    expect(lines).toContain("X-WR-CALNAME:Smith\\, Sons\\; Co\\\\Ltd\\nNorth");
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const name = "Garage schedule – Ærøskøbing ".repeat(6);
+    const ics = buildScheduleIcs([], [], { calendarName: name, now });
+    const encoder = new TextEncoder();
+
+    ics
+      .split("\r\n")
+      .forEach((line) =>
+        expect(encoder.encode(line).length).toBeLessThanOrEqual(75)
+      );
+    expect(ics).not.toContain("�");
+    expect(unfold(ics)).toContain(`X-WR-CALNAME:${name}`);
+  });
+
+  it("writes one event per open interval, leaving breaks as gaps", () => {
+    const lines = unfold(
+      buildScheduleIcs(
+        [
+          day("2026-10-19", {
+            start_time: "08:00",
+            end_time: "17:00",
+            slot_duration: 60,
+            breaks: [{ start_time: "12:00", end_time: "13:00" }],
+          }),
+        ],
+        [],
+        { calendarName: "Garage", now }
+      )
+    );
+    expect(lines.filter((line) => line.startsWith("DTSTART"))).toEqual([
+      "DTSTART:20261019T080000",
+      "DTSTART:20261019T130000",
+    ]);
+    expect(lines.filter((line) => line.startsWith("DTEND"))).toEqual([
+      "DTEND:20261019T120000",
+      "DTEND:20261019T170000",
+    ]);
+    expect(lines).toContain("DTSTAMP:20261019T083000Z");
+  });
+
+  it("writes holidays as all-day events ending the next day", () => {
+    const lines = unfold(
+      buildScheduleIcs([day("2026-12-31", { type: "HOLIDAY" })], [], {
+        calendarName: "Garage",
+        now,
+      })
+    );
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261231");
+    expect(lines).toContain("DTEND;VALUE=DATE:20270101");
+  });
+
+  it("exports booked slots only, labelled by bay", () => {
+    const lines = unfold(
+      buildScheduleIcs(
+        [day("2026-10-19", null)],
+        [slot(), slot({ id: "slot-2", order_id: null })],
+        { calendarName: "Garage", bayNames: { "bay-1": "Lane 1" }, now }
+      )
+    );
+    expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(1);
+    expect(lines).toContain("UID:slot-slot-1@garage-dashboard");
+    expect(lines).toContain("SUMMARY:Booked (Lane 1)");
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * iCalendar (.ics) Export
+ *
+ * Turns week schedule results and per-date slot lists into an RFC 5545
+ * calendar: opening hours become events (one per open interval, so breaks
+ * show as gaps), booked slots become busy blocks and holidays become all-day
+ * events. Times are written as floating local times, i.e. the garage's wall
+ * clock, which is how the API stores them.
+ */
+
+import type { Slot, WeekScheduleDay } from "./garage-api";
+import { getOpenIntervals } from "./slot-generation";
+import { addDays } from "./date-utils";
+
+const PRODID = "-//Garage Dashboard//Schedule Export//EN";
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+
+export interface IcsExportOptions {
+  calendarName: string;
+  bayNames?: { [bayId: string]: string }; // labels booked slots by bay
+  now?: Date; // DTSTAMP, defaults to the current time
+}
+
+// ============================================================================
+// FORMATTING HELPERS
+// ============================================================================
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to at most 75 octets per physical line
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function formatLocalDateTime(date: string, time: string): string {
+  return `${formatDate(date)}T${time.replace(":", "").slice(0, 4)}00`;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Build the .ics content for a set of schedule days and their slots
+ */
+export function buildScheduleIcs(
+  days: WeekScheduleDay[],
+  slots: Slot[],
+  options: IcsExportOptions
+): string {
+  const dtstamp = formatUtcDateTime(options.now || new Date());
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+  ];
+
+  const addEvent = (properties: string[]) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `DTSTAMP:${dtstamp}`,
+      ...properties,
+      "END:VEVENT"
+    );
+  };
+
+  days.forEach((day) => {
+    const schedule = day.schedule;
+    if (!schedule) return;
+
+    if (schedule.type === "HOLIDAY") {
+      addEvent([
+        `UID:holiday-${day.date}-${schedule.id}@garage-dashboard`,
+        `DTSTART;VALUE=DATE:${formatDate(day.date)}`,
+        `DTEND;VALUE=DATE:${formatDate(addDays(day.date, 1))}`,
+        `SUMMARY:${escapeText("Holiday - closed")}`,
+        "TRANSP:TRANSPARENT",
+      ]);
+      return;
+    }
+
+    if (
+      schedule.type !== "OPEN" ||
+      !schedule.start_time ||
+      !schedule.end_time
+    ) {
+      return;
+    }
+
+    const description = schedule.slot_duration
+      ? `${schedule.slot_duration} min slots${
+          schedule.buffer_minutes
+            ? ` + ${schedule.buffer_minutes} min buffer`
+            : ""
+        }`
+      : null;
+
+    getOpenIntervals(
+      schedule.start_time,
+      schedule.end_time,
+      schedule.breaks || []
+    ).forEach((interval) => {
+      addEvent([
+        `UID:open-${day.date}-${interval.start.replace(":", "")}-${
+          schedule.id
+        }@garage-dashboard`,
+        `DTSTART:${formatLocalDateTime(day.date, interval.start)}`,
+        `DTEND:${formatLocalDateTime(day.date, interval.end)}`,
+        `SUMMARY:${escapeText("Open")}`,
+        ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+        "TRANSP:TRANSPARENT",
+      ]);
+    });
+  });
+
+  slots
+    .filter((slot) => slot.order_id)
+    .forEach((slot) => {
+      const date = slot.date.split("T")[0];
+      const bayName = slot.bay_id && options.bayNames?.[slot.bay_id];
+      addEvent([
+        `UID:slot-${slot.id}@garage-dashboard`,
+        `DTSTART:${formatLocalDateTime(date, slot.start_time)}`,
+        `DTEND:${formatLocalDateTime(date, slot.end_time)}`,
+        `SUMMARY:${escapeText(bayName ? `Booked (${bayName})` : "Booked")}`,
+        `DESCRIPTION:${escapeText(`Order ${slot.order_id}`)}`,
+        "CLASS:PRIVATE",
+        "TRANSP:OPAQUE",
+      ]);
+    });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import {
+  type IcsEvent,
+  MAX_OCCURRENCES,
+  expandEventDates,
+  parseIcs,
+  planIcsImport,
+} from "./ics-import";
+
+// A calendar of VEVENTs, each given as its property lines
+const calendar = (...events: string[][]) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+const event = (...lines: string[]): IcsEvent => {
+  const { events } = parseIcs(calendar(["UID:event-1", ...lines]));
+  return events[0];
+};
+
+describe("parseIcs", () => {
+  it("reads folded lines, escaped text and nested components", () => {
+    const { events, warnings } = parseIcs(
+      calendar([
+        "UID:mot-1",
+        "SUMMARY:MOT bay\\, closed for\r\n  servicing",
+        "DTSTART:20261019T090000",
+        "DURATION:PT1H30M",
+        "BEGIN:VALARM",
+        "DTSTART:20261019T080000",
+        "END:VALARM",
+      ])
+    );
+    expect(warnings).toEqual([]);
+    expect(events).toEqual([
+      {
+        uid: "mot-1",
+        summary: "MOT bay, closed for servicing",
+        start: { date: "2026-10-19", time: "09:00" },
+        end: { date: "2026-10-19", time: "10:30" },
+        rrule: null,
+        exdates: [],
+      },
+    ]);
+  });
+
+  it("warns about events it cannot read and rules it cannot follow", () => {
+    const { events, warnings } = parseIcs(
+      calendar(
+        ["SUMMARY:No start"],
+        [
+          "SUMMARY:Hourly",
+          "DTSTART:20261019T090000",
+          "RRULE:FREQ=HOURLY;COUNT=3",
+        ]
+      )
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0].rrule).toBeNull();
+    expect(warnings).toEqual([
+      '"No start": missing or invalid start date',
+      '"Hourly": unsupported repeat frequency HOURLY',
+    ]);
+  });
+});
+
+describe("expandEventDates", () => {
+  it("returns a single event's date when it is in range", () => {
+    const single = event("DTSTART;VALUE=DATE:20261225");
+    expect(expandEventDates(single, "2026-12-01", "2026-12-31")).toEqual({
+      dates: ["2026-12-25"],
+      truncated: false,
+    });
+    expect(expandEventDates(single, "2027-01-01", "2027-12-31").dates).toEqual(
+      []
+    );
+  });
+
+  it("expands weekly BYDAY rules with a COUNT", () => {
+    const weekly = event(
+      "DTSTART;VALUE=DATE:20261019",
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4"
+    );
+    expect(expandEventDates(weekly, "2026-10-01", "2026-12-31").dates).toEqual([
+      "2026-10-19",
+      "2026-10-21",
+      "2026-10-26",
+      "2026-10-28",
+    ]);
+  });
+
+  it("stops at UNTIL and leaves out EXDATEs", () => {
+    const weekly = event(
+      "DTSTART;VALUE=DATE:20261019",
+      "RRULE:FREQ=WEEKLY;UNTIL=20261109",
+      "EXDATE;VALUE=DATE:20261026"
+    );
+    expect(expandEventDates(weekly, "2026-10-01", "2026-12-31").dates).toEqual([
+      "2026-10-19",
+      "2026-11-02",
+      "2026-11-09",
+    ]);
+  });
+
+  it("finds the last weekday of each month", () => {
+    const monthly = event(
+      "DTSTART;VALUE=DATE:20261030",
+      "RRULE:FREQ=MONTHLY;BYDAY=-1FR"
+    );
+    expect(expandEventDates(monthly, "2026-10-01", "2026-12-31").dates).toEqual(
+      ["2026-10-30", "2026-11-27", "2026-12-25"]
+    );
+  });
+
+  it("skips months without the start's day", () => {
+    const monthly = event("DTSTART;VALUE=DATE:20260131", "RRULE:FREQ=MONTHLY");
+    expect(expandEventDates(monthly, "2026-01-01", "2026-06-30").dates).toEqual(
+      ["2026-01-31", "2026-03-31", "2026-05-31"]
+    );
+  });
+
+  it("keeps intervals in step when starting inside the series", () => {
+    const daily = event(
+      "DTSTART;VALUE=DATE:20260101",
+      "RRULE:FREQ=DAILY;INTERVAL=3"
+    );
+    expect(expandEventDates(daily, "2026-01-05", "2026-01-12").dates).toEqual([
+      "2026-01-07",
+      "2026-01-10",
+    ]);
+  });
+
+  it("counts a COUNT from the first occurrence, not from the range", () => {
+    const daily = event(
+      "DTSTART;VALUE=DATE:20260105",
+      "RRULE:FREQ=DAILY;COUNT=5"
+    );
+    expect(expandEventDates(daily, "2026-01-08", "2026-12-31").dates).toEqual([
+      "2026-01-08",
+      "2026-01-09",
+    ]);
+  });
+
+  it("caps occurrences in the range, not since the series began", () => {
+    const daily = event("DTSTART;VALUE=DATE:20220101", "RRULE:FREQ=DAILY");
+
+    const year = expandEventDates(daily, "2026-01-01", "2026-12-31");
+    expect(year.dates).toHaveLength(365);
+    expect(year.dates[0]).toBe("2026-01-01");
+    expect(year.truncated).toBe(false);
+
+    const years = expandEventDates(daily, "2026-01-01", "2030-12-31");
+    expect(years.dates).toHaveLength(MAX_OCCURRENCES);
+    expect(years.dates[0]).toBe("2026-01-01");
+    expect(years.truncated).toBe(true);
+  });
+});
+
+describe("planIcsImport", () => {
+  it("turns all-day events into holidays, including days reaching into the range", () => {
+    const { events } = parseIcs(
+      calendar([
+        "UID:shutdown",
+        "SUMMARY:Christmas shutdown",
+        "DTSTART;VALUE=DATE:20261230",
+        "DTEND;VALUE=DATE:20270102",
+      ])
+    );
+    const plan = planIcsImport(events, "2027-01-01", "2027-01-31");
+    expect(plan.items).toEqual([
+      {
+        key: "shutdown-2027-01-01",
+        uid: "shutdown",
+        summary: "Christmas shutdown",
+        date: "2027-01-01",
+        start_time: null,
+        end_time: null,
+        action: "HOLIDAY",
+      },
+    ]);
+  });
+
+  it("blocks the time of timed events", () => {
+    const { events } = parseIcs(
+      calendar([
+        "UID:training",
+        "SUMMARY:Training",
+        "DTSTART:20261020T140000",
+        "DTEND:20261020T160000",
+      ])
+    );
+    const [item] = planIcsImport(events, "2026-10-01", "2026-10-31").items;
+    expect(item).toMatchObject({
+      date: "2026-10-20",
+      start_time: "14:00",
+      end_time: "16:00",
+      action: "BLOCK",
+    });
+  });
+
+  it("warns when an event has too many occurrences in the range", () => {
+    const { events } = parseIcs(
+      calendar([
+        "UID:daily",
+        "SUMMARY:Daily check",
+        "DTSTART;VALUE=DATE:20220101",
+        "RRULE:FREQ=DAILY",
+      ])
+    );
+    const plan = planIcsImport(events, "2026-01-01", "2030-12-31");
+    expect(plan.items).toHaveLength(MAX_OCCURRENCES);
+    expect(plan.warnings).toEqual([
+      `"Daily check": only its first ${MAX_OCCURRENCES} occurrences in the range are imported`,
+    ]);
+  });
+});
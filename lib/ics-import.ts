@@ -0,0 +1,594 @@
+/**
+ * iCalendar (.ics) Import
+ *
+ * Parses VEVENTs (including RRULE recurrences and EXDATE exceptions) from an
+ * .ics file exported by Google Calendar, Outlook or Apple Calendar, and maps
+ * each occurrence onto a schedule change: all-day events default to a
+ * HOLIDAY special day, timed events to blocking the slots they overlap.
+ *
+ * Times with a TZID are read as the garage's wall-clock time; UTC times
+ * ("Z" suffix) are converted to the browser's local time.
+ */
+
+import { addDays, daysBetween, pad, toUtcDate } from "./date-utils";
+import type { SpecialDayRequest } from "./garage-api";
+
+// Upper bound on an event's occurrences inside the import window
+export const MAX_OCCURRENCES = 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IcsDateValue {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM, null for all-day values
+}
+
+export interface IcsRecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+  byDay?: Array<{ weekday: number; nth: number | null }>; // 0 = Sunday
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: IcsDateValue;
+  end: IcsDateValue | null;
+  rrule: IcsRecurrenceRule | null;
+  exdates: string[];
+}
+
+export type IcsImportAction = SpecialDayRequest["type"] | "BLOCK";
+
+export interface IcsImportItem {
+  key: string;
+  uid: string;
+  summary: string;
+  date: string;
+  start_time: string | null; // null = all day
+  end_time: string | null;
+  action: IcsImportAction;
+}
+
+export interface IcsEventDates {
+  dates: string[];
+  truncated: boolean; // MAX_OCCURRENCES cut the window's occurrences short
+}
+
+export interface IcsImportPlan {
+  items: IcsImportItem[];
+  warnings: string[];
+}
+
+export interface IcsParseResult {
+  events: IcsEvent[];
+  warnings: string[];
+}
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function addMinutes(value: IcsDateValue, minutes: number): IcsDateValue {
+  const [hours, mins] = (value.time || "00:00").split(":").map(Number);
+  const total = hours * 60 + mins + minutes;
+  const dayOffset = Math.floor(total / 1440);
+  const dayMinutes = total - dayOffset * 1440;
+  return {
+    date: addDays(value.date, dayOffset),
+    time: `${pad(Math.floor(dayMinutes / 60))}:${pad(dayMinutes % 60)}`,
+  };
+}
+
+/**
+ * Parse a DATE or DATE-TIME value such as 20261225 or 20261225T090000Z
+ */
+function parseDateValue(
+  value: string,
+  params: { [name: string]: string }
+): IcsDateValue | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (!hours || params.VALUE === "DATE") {
+    return { date: `${year}-${month}-${day}`, time: null };
+  }
+
+  if (utc) {
+    const local = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes));
+    return {
+      date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(
+        local.getDate()
+      )}`,
+      time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+    };
+  }
+
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+}
+
+/**
+ * Length of an ISO 8601 DURATION value (e.g. PT1H30M, P2D) in minutes
+ */
+function parseDuration(value: string): number | null {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total =
+    Number(weeks || 0) * 7 * 1440 +
+    Number(days || 0) * 1440 +
+    Number(hours || 0) * 60 +
+    Number(minutes || 0);
+  return sign === "-" ? -total : total;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+interface ContentLine {
+  name: string;
+  params: { [name: string]: string };
+  value: string;
+}
+
+/**
+ * Split an .ics file into unfolded content lines
+ */
+function readContentLines(content: string): ContentLine[] {
+  const unfolded = content.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "");
+
+  return unfolded
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      // The value starts at the first colon outside a quoted parameter
+      let inQuotes = false;
+      let colon = -1;
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ":" && !inQuotes) {
+          colon = i;
+          break;
+        }
+      }
+      const head = colon === -1 ? line : line.slice(0, colon);
+      const [name, ...rawParams] = head.split(";");
+      const params: { [name: string]: string } = {};
+      rawParams.forEach((param) => {
+        const [key, ...rest] = param.split("=");
+        params[key.toUpperCase()] = rest.join("=").replace(/"/g, "");
+      });
+
+      return {
+        name: name.toUpperCase(),
+        params,
+        value: colon === -1 ? "" : line.slice(colon + 1),
+      };
+    });
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+function parseRecurrenceRule(
+  value: string,
+  warnings: string[],
+  summary: string
+): IcsRecurrenceRule | null {
+  const parts: { [name: string]: string } = {};
+  value.split(";").forEach((part) => {
+    const [key, ...rest] = part.split("=");
+    parts[key.toUpperCase()] = rest.join("=");
+  });
+
+  const freq = parts.FREQ as IcsRecurrenceRule["freq"];
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) {
+    warnings.push(`"${summary}": unsupported repeat frequency ${parts.FREQ}`);
+    return null;
+  }
+
+  const ignored = Object.keys(parts).filter(
+    (key) =>
+      ![
+        "FREQ",
+        "INTERVAL",
+        "COUNT",
+        "UNTIL",
+        "BYDAY",
+        "BYMONTHDAY",
+        "BYMONTH",
+        "WKST",
+      ].includes(key)
+  );
+  if (ignored.length > 0) {
+    warnings.push(`"${summary}": ignored repeat options ${ignored.join(", ")}`);
+  }
+
+  const until = parts.UNTIL ? parseDateValue(parts.UNTIL, {}) : null;
+  const byDay = parts.BYDAY
+    ? parts.BYDAY.split(",")
+        .map((code) => code.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .map((match) => ({
+          weekday: WEEKDAY_CODES.indexOf(match[2]),
+          nth: match[1] ? Number(match[1]) : null,
+        }))
+    : undefined;
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    ...(parts.COUNT && { count: Number(parts.COUNT) }),
+    ...(until && { until: until.date }),
+    ...(byDay && { byDay }),
+    ...(parts.BYMONTHDAY && {
+      byMonthDay: parts.BYMONTHDAY.split(",").map(Number),
+    }),
+    ...(parts.BYMONTH && { byMonth: parts.BYMONTH.split(",").map(Number) }),
+  };
+}
+
+/**
+ * Parse the VEVENTs of an .ics file; events that cannot be read are reported
+ * as warnings rather than failing the whole file
+ */
+export function parseIcs(content: string): IcsParseResult {
+  const events: IcsEvent[] = [];
+  const warnings: string[] = [];
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0;
+
+  readContentLines(content).forEach((line) => {
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VEVENT") {
+      current = [];
+      return;
+    }
+    if (!current) return;
+
+    // Skip nested components such as VALARM
+    if (line.name === "BEGIN") {
+      nestedDepth++;
+      return;
+    }
+    if (line.name === "END" && nestedDepth > 0) {
+      nestedDepth--;
+      return;
+    }
+    if (nestedDepth > 0) return;
+
+    if (line.name === "END" && line.value.toUpperCase() === "VEVENT") {
+      const lines: ContentLine[] = current;
+      current = null;
+
+      const get = (name: string) => lines.find((item) => item.name === name);
+      const summary = unescapeText(get("SUMMARY")?.value || "Untitled event");
+      const dtstart = get("DTSTART");
+      const start = dtstart
+        ? parseDateValue(dtstart.value, dtstart.params)
+        : null;
+      if (!start) {
+        warnings.push(`"${summary}": missing or invalid start date`);
+        return;
+      }
+
+      const dtend = get("DTEND");
+      const duration = get("DURATION");
+      let end = dtend ? parseDateValue(dtend.value, dtend.params) : null;
+      if (!end && duration) {
+        const minutes = parseDuration(duration.value);
+        if (minutes !== null) end = addMinutes(start, minutes);
+      }
+      if (end && !start.time) end = { date: end.date, time: null };
+
+      const rrule = get("RRULE");
+      events.push({
+        uid: get("UID")?.value || `event-${events.length + 1}`,
+        summary,
+        start,
+        end,
+        rrule: rrule
+          ? parseRecurrenceRule(rrule.value, warnings, summary)
+          : null,
+        exdates: lines
+          .filter((item) => item.name === "EXDATE")
+          .flatMap((item) =>
+            item.value
+              .split(",")
+              .map((value) => parseDateValue(value, item.params)?.date)
+          )
+          .filter((date): date is string => !!date),
+      });
+      return;
+    }
+
+    current.push(line);
+  });
+
+  return { events, warnings };
+}
+
+// ============================================================================
+// RECURRENCE EXPANSION
+// ============================================================================
+
+/**
+ * Days of a month matched by BYMONTHDAY / BYDAY, or the start's day of month
+ */
+function monthDays(
+  year: number,
+  month: number,
+  rule: IcsRecurrenceRule,
+  startDay: number
+): number[] {
+  const lastDay = daysInMonth(year, month);
+
+  if (rule.byMonthDay) {
+    return rule.byMonthDay
+      .map((day) => (day < 0 ? lastDay + day + 1 : day))
+      .filter((day) => day >= 1 && day <= lastDay);
+  }
+
+  if (rule.byDay) {
+    const days: number[] = [];
+    rule.byDay.forEach(({ weekday, nth }) => {
+      const matching: number[] = [];
+      for (let day = 1; day <= lastDay; day++) {
+        if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) {
+          matching.push(day);
+        }
+      }
+      if (nth === null) {
+        days.push(...matching);
+      } else {
+        const day =
+          nth > 0 ? matching[nth - 1] : matching[matching.length + nth];
+        if (day) days.push(day);
+      }
+    });
+    return days;
+  }
+
+  return startDay <= lastDay ? [startDay] : [];
+}
+
+/**
+ * First period (in the rule's own unit) that can reach `from`. Rules with a
+ * COUNT start from the beginning, as every occurrence counts towards it.
+ */
+function firstPeriod(
+  event: IcsEvent,
+  rule: IcsRecurrenceRule,
+  from: string
+): number {
+  if (rule.count !== undefined || from <= event.start.date) return 0;
+
+  const start = toUtcDate(event.start.date);
+  const target = toUtcDate(from);
+  const elapsed =
+    rule.freq === "DAILY"
+      ? daysBetween(event.start.date, from)
+      : rule.freq === "WEEKLY"
+      ? Math.floor(daysBetween(event.start.date, from) / 7)
+      : rule.freq === "MONTHLY"
+      ? (target.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        target.getUTCMonth() -
+        start.getUTCMonth()
+      : target.getUTCFullYear() - start.getUTCFullYear();
+  // One interval back, so a period straddling `from` is never skipped
+  return Math.max(0, (Math.floor(elapsed / rule.interval) - 1) * rule.interval);
+}
+
+/**
+ * Start dates of an event's occurrences from `from` to `to` (inclusive), in
+ * order. Periods wholly before `from` are skipped unless the rule has a
+ * COUNT; at most MAX_OCCURRENCES dates are returned.
+ */
+export function expandEventDates(
+  event: IcsEvent,
+  from: string,
+  to: string
+): IcsEventDates {
+  const rule = event.rrule;
+  if (!rule) {
+    const inRange = event.start.date >= from && event.start.date <= to;
+    return { dates: inRange ? [event.start.date] : [], truncated: false };
+  }
+
+  const start = toUtcDate(event.start.date);
+  const startDay = start.getUTCDate();
+  const limit = rule.until && rule.until < to ? rule.until : to;
+  const dates: string[] = [];
+  let occurrences = 0;
+  let truncated = false;
+
+  const accept = (date: string): boolean => {
+    if (date < event.start.date) return true;
+    if (date > limit) return false;
+    if (rule.count !== undefined && occurrences >= rule.count) return false;
+    occurrences++;
+    if (date < from || event.exdates.includes(date)) return true;
+    if (dates.length >= MAX_OCCURRENCES) {
+      truncated = true;
+      return false;
+    }
+    dates.push(date);
+    return true;
+  };
+
+  for (let period = firstPeriod(event, rule, from); ; period += rule.interval) {
+    let candidates: string[] = [];
+    let periodStart: string;
+
+    if (rule.freq === "DAILY") {
+      periodStart = addDays(event.start.date, period);
+      candidates = [periodStart];
+    } else if (rule.freq === "WEEKLY") {
+      // Weeks run Monday to Sunday (WKST=MO, the default)
+      const weekStart = addDays(
+        event.start.date,
+        period * 7 - ((start.getUTCDay() + 6) % 7)
+      );
+      periodStart = weekStart;
+      const weekdays = rule.byDay
+        ? rule.byDay.map((day) => day.weekday)
+        : [start.getUTCDay()];
+      candidates = weekdays
+        .map((weekday) => addDays(weekStart, (weekday + 6) % 7))
+        .sort();
+    } else {
+      const firstMonth =
+        start.getUTCMonth() + 1 + period * (rule.freq === "YEARLY" ? 12 : 1);
+      periodStart = `${
+        start.getUTCFullYear() + Math.floor((firstMonth - 1) / 12)
+      }-${pad(rule.freq === "YEARLY" ? 1 : ((firstMonth - 1) % 12) + 1)}-01`;
+      const months =
+        rule.freq === "MONTHLY"
+          ? [start.getUTCMonth() + 1 + period]
+          : (rule.byMonth || [start.getUTCMonth() + 1]).map(
+              (month) => month + period * 12
+            );
+      months.forEach((absoluteMonth) => {
+        const year =
+          start.getUTCFullYear() + Math.floor((absoluteMonth - 1) / 12);
+        const month = ((absoluteMonth - 1) % 12) + 1;
+        if (
+          rule.freq === "MONTHLY" &&
+          rule.byMonth &&
+          !rule.byMonth.includes(month)
+        ) {
+          return;
+        }
+        monthDays(year, month, rule, startDay).forEach((day) =>
+          candidates.push(`${year}-${pad(month)}-${pad(day)}`)
+        );
+      });
+      candidates.sort();
+    }
+
+    if (periodStart > limit || !candidates.every(accept)) break;
+  }
+
+  return { dates, truncated };
+}
+
+// ============================================================================
+// IMPORT PLAN
+// ============================================================================
+
+/**
+ * Occurrences of the parsed events between from and to (inclusive), each
+ * with a default action: all-day events become holidays, timed events block
+ * the slots they overlap. An event with more than MAX_OCCURRENCES occurrences
+ * in the range is cut short with a warning.
+ */
+export function planIcsImport(
+  events: IcsEvent[],
+  from: string,
+  to: string
+): IcsImportPlan {
+  const items: IcsImportItem[] = [];
+  const warnings: string[] = [];
+
+  events.forEach((event) => {
+    // All-day events cover every day up to (excluding) DTEND, so one that
+    // starts before the range can still reach into it
+    const span =
+      !event.start.time && event.end
+        ? Math.max(1, daysBetween(event.start.date, event.end.date))
+        : 1;
+    const { dates, truncated } = expandEventDates(
+      event,
+      addDays(from, 1 - span),
+      to
+    );
+    if (truncated) {
+      warnings.push(
+        `"${event.summary}": only its first ${MAX_OCCURRENCES} occurrences in the range are imported`
+      );
+    }
+
+    dates.forEach((startDate) => {
+      if (!event.start.time) {
+        for (let offset = 0; offset < span; offset++) {
+          const date = addDays(startDate, offset);
+          if (date < from || date > to) continue;
+          items.push({
+            key: `${event.uid}-${date}`,
+            uid: event.uid,
+            summary: event.summary,
+            date,
+            start_time: null,
+            end_time: null,
+            action: "HOLIDAY",
+          });
+        }
+        return;
+      }
+
+      if (startDate < from || startDate > to) return;
+      // Timed events are clipped to the day they start on
+      const endTime =
+        event.end && event.end.date === event.start.date && event.end.time
+          ? event.end.time
+          : "23:59";
+      items.push({
+        key: `${event.uid}-${startDate}`,
+        uid: event.uid,
+        summary: event.summary,
+        date: startDate,
+        start_time: event.start.time,
+        end_time: endTime,
+        action: "BLOCK",
+      });
+    });
+  });
+
+  items.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      (a.start_time || "").localeCompare(b.start_time || "")
+  );
+  return { items, warnings };
+}
+
+/**
+ * Special-day request for an import item whose action is HOLIDAY, CLOSED or
+ * OPEN (OPEN uses the event's times as the day's opening hours)
+ */
+export function toSpecialDayRequest(
+  item: IcsImportItem,
+  bayId?: string
+): SpecialDayRequest {
+  const type = item.action as SpecialDayRequest["type"];
+  return {
+    date: item.date,
+    type,
+    ...(type === "OPEN" && {
+      start_time: item.start_time || undefined,
+      end_time: item.end_time || undefined,
+    }),
+    ...(bayId && { bay_id: bayId }),
+  };
+}
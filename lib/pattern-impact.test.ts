@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import type { Slot, WeekScheduleDay, WeeklyPatternDay } from "./garage-api";
+import {
+  type PatternImpactRequest,
+  computePatternImpact,
+} from "./pattern-impact";
+
+// Monday 19 to Wednesday 21 October 2026
+const dates = ["2026-10-19", "2026-10-20", "2026-10-21"];
+
+const openDay = (date: string): WeekScheduleDay => ({
+  date,
+  day_of_week: new Date(`${date}T12:00:00`).getDay(),
+  schedule: {
+    id: "sched-1",
+    type: "OPEN",
+    start_time: "09:00",
+    end_time: "11:00",
+    slot_duration: 60,
+    buffer_minutes: 0,
+    breaks: [],
+    is_recurring: true,
+  },
+  source: "weekly_pattern",
+});
+
+const closedSpecialDay = (date: string): WeekScheduleDay => ({
+  ...openDay(date),
+  schedule: {
+    id: "special-1",
+    type: "CLOSED",
+    start_time: null,
+    end_time: null,
+    slot_duration: null,
+    buffer_minutes: null,
+    breaks: [],
+    is_recurring: false,
+  },
+  source: "special_day",
+});
+
+const slot = (
+  date: string,
+  start_time: string,
+  overrides: Partial<Slot> = {}
+): Slot => ({
+  id: `${date}-${start_time}`,
+  garage_id: "garage-1",
+  bay_id: "bay-1",
+  date,
+  start_time,
+  end_time: `${String(Number(start_time.slice(0, 2)) + 1).padStart(2, "0")}:00`,
+  is_available: true,
+  is_blocked: false,
+  order_id: null,
+  ...overrides,
+});
+
+// Mondays 09:00-12:00, other days closed
+const pattern: WeeklyPatternDay[] = [0, 1, 2, 3, 4, 5, 6].map((day_of_week) =>
+  day_of_week === 1
+    ? {
+        day_of_week,
+        type: "OPEN",
+        start_time: "09:00",
+        end_time: "12:00",
+        slot_duration: 60,
+      }
+    : { day_of_week, type: "CLOSED" }
+);
+
+const request = (
+  overrides: Partial<PatternImpactRequest> = {}
+): PatternImpactRequest => ({
+  dates,
+  effectiveFrom: "2026-10-19",
+  effectiveTo: null,
+  replaced: null,
+  bays: [
+    {
+      bayId: "bay-1",
+      pattern,
+      bufferMinutes: 0,
+      schedule: [
+        openDay("2026-10-19"),
+        closedSpecialDay("2026-10-20"),
+        openDay("2026-10-21"),
+      ],
+    },
+  ],
+  slots: [
+    slot("2026-10-19", "09:00", { is_blocked: true }),
+    slot("2026-10-19", "10:00", { order_id: "order-1", is_available: false }),
+    slot("2026-10-21", "09:00", { order_id: "order-2", is_available: false }),
+    slot("2026-10-21", "10:00"),
+  ],
+  ...overrides,
+});
+
+describe("computePatternImpact", () => {
+  it("works out the slots each day gains, loses and frees", () => {
+    const impact = computePatternImpact(request());
+
+    expect(impact).toMatchObject({
+      added: 1,
+      removed: 1,
+      unblocked: 1,
+      conflicts: 1,
+      specialDays: 1,
+    });
+    const [monday, tuesday, wednesday] = impact.days;
+    expect(monday.added).toEqual([{ start_time: "11:00", end_time: "12:00" }]);
+    expect(monday.unblocked.map((item) => item.id)).toEqual([
+      "2026-10-19-09:00",
+    ]);
+    expect(tuesday).toMatchObject({ specialDay: true, added: [], removed: [] });
+    expect(wednesday.removed.map((item) => item.id)).toEqual([
+      "2026-10-21-10:00",
+    ]);
+    expect(wednesday.conflicts.map((item) => item.id)).toEqual([
+      "2026-10-21-09:00",
+    ]);
+  });
+
+  it("keeps the current hours before the new pattern starts", () => {
+    const impact = computePatternImpact(
+      request({ effectiveFrom: "2026-10-21" })
+    );
+    const [monday] = impact.days;
+    // Regenerating the same hours still lifts the block
+    expect(monday).toMatchObject({
+      date: "2026-10-19",
+      added: [],
+      removed: [],
+    });
+    expect(monday.unblocked).toHaveLength(1);
+    expect(impact.days.map((day) => day.date)).toEqual([
+      "2026-10-19",
+      "2026-10-21",
+    ]);
+    expect(impact.specialDays).toBe(0);
+  });
+
+  it("leaves the replaced version's other dates without a pattern", () => {
+    const impact = computePatternImpact(
+      request({
+        effectiveFrom: "2026-10-21",
+        replaced: {
+          id: "version-1",
+          garage_id: "garage-1",
+          bay_id: "bay-1",
+          label: "Autumn",
+          effective_from: "2026-10-01",
+          effective_to: "2026-10-31",
+          schedules: [],
+        },
+      })
+    );
+    const [monday] = impact.days;
+    expect(monday.date).toBe("2026-10-19");
+    expect(monday.removed.map((item) => item.id)).toEqual(["2026-10-19-09:00"]);
+    expect(monday.conflicts.map((item) => item.id)).toEqual([
+      "2026-10-19-10:00",
+    ]);
+  });
+});
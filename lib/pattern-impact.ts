@@ -0,0 +1,190 @@
+/**
+ * Weekly Pattern Impact Preview
+ *
+ * Saving a weekly pattern makes the backend regenerate every unbooked slot
+ * over the generation horizon, which also drops manual slots and lifts
+ * blocks. This works out what a save would do before it is sent: the slots
+ * each day would gain and lose, the blocks that would be lifted, and the
+ * bookings that would no longer fit the day's slots (bookings are never
+ * moved or cancelled by a save, so they stay put as conflicts). Days with a
+ * special day keep its hours over the pattern.
+ *
+ * The comparison is a dry run on the client, against the current week
+ * schedules and slots; nothing is written.
+ */
+
+import type {
+  ManualSlotInput,
+  Slot,
+  WeekScheduleDay,
+  WeeklyPatternDay,
+  WeeklyPatternVersion,
+} from "./garage-api";
+import {
+  type DayHours,
+  fitAroundBookings,
+  generateSlots,
+} from "./slot-generation";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PatternImpactBay {
+  bayId: string | null; // null = a garage without bays
+  pattern: WeeklyPatternDay[];
+  bufferMinutes: number; // pattern-wide buffer
+  schedule: WeekScheduleDay[]; // the bay's current schedule over the horizon
+}
+
+export interface PatternImpactRequest {
+  dates: string[]; // generation horizon, from today
+  effectiveFrom: string;
+  effectiveTo: string | null; // null = open-ended
+  replaced: WeeklyPatternVersion | null; // version being edited, if any
+  bays: PatternImpactBay[];
+  slots: Slot[]; // current slots over the horizon, of every bay
+}
+
+export interface PatternImpactDay {
+  date: string;
+  bayId: string | null;
+  added: ManualSlotInput[];
+  removed: Slot[]; // unbooked slots (generated or manual) that go away
+  unblocked: Slot[]; // blocked slots that come back free
+  conflicts: Slot[]; // bookings off the day's new slots
+  specialDay: boolean; // a special day keeps its own hours
+}
+
+export interface PatternImpact {
+  days: PatternImpactDay[]; // only days with a change or a special day
+  added: number;
+  removed: number;
+  unblocked: number;
+  conflicts: number;
+  specialDays: number; // dates in the new range a special day overrides
+}
+
+// ============================================================================
+// IMPACT
+// ============================================================================
+
+const sameTimes = (a: ManualSlotInput, b: ManualSlotInput) =>
+  a.start_time === b.start_time && a.end_time === b.end_time;
+
+const covers = (from: string, to: string | null, date: string) =>
+  from <= date && (to === null || date <= to);
+
+/**
+ * Hours a bay would have on a date after the save: a special day wins, the
+ * new pattern applies inside its range, the version being replaced leaves
+ * its other dates without a pattern, and other dates keep their hours
+ */
+function getNewHours(
+  request: PatternImpactRequest,
+  bay: PatternImpactBay,
+  date: string,
+  current: WeekScheduleDay | undefined
+): DayHours | null {
+  if (current?.source === "special_day") return current.schedule;
+
+  if (covers(request.effectiveFrom, request.effectiveTo, date)) {
+    const [year, month, day] = date.split("-").map(Number);
+    const dayOfWeek = new Date(year, month - 1, day).getDay();
+    const patternDay = bay.pattern.find(
+      (item) => item.day_of_week === dayOfWeek
+    );
+    return patternDay
+      ? {
+          ...patternDay,
+          buffer_minutes: patternDay.buffer_minutes ?? bay.bufferMinutes,
+        }
+      : null;
+  }
+
+  const { replaced } = request;
+  if (
+    replaced &&
+    replaced.bay_id === bay.bayId &&
+    covers(replaced.effective_from, replaced.effective_to, date)
+  ) {
+    return null;
+  }
+
+  return current?.schedule ?? null;
+}
+
+/**
+ * Compare a weekly pattern save against the current slots, day by day
+ */
+export function computePatternImpact(
+  request: PatternImpactRequest
+): PatternImpact {
+  const impact: PatternImpact = {
+    days: [],
+    added: 0,
+    removed: 0,
+    unblocked: 0,
+    conflicts: 0,
+    specialDays: 0,
+  };
+  const specialDates = new Set<string>();
+
+  request.bays.forEach((bay) => {
+    request.dates.forEach((date) => {
+      const current = bay.schedule.find((day) => day.date === date);
+      const slots = request.slots.filter(
+        (slot) =>
+          slot.date === date &&
+          (bay.bayId === null || slot.bay_id === bay.bayId)
+      );
+      const booked = slots.filter((slot) => slot.order_id !== null);
+      const unbooked = slots.filter((slot) => slot.order_id === null);
+
+      const generated = generateSlots(getNewHours(request, bay, date, current));
+      // Generated slots that would clash with a booking are skipped
+      const expected = fitAroundBookings(generated, slots);
+
+      const day: PatternImpactDay = {
+        date,
+        bayId: bay.bayId,
+        added: expected.filter(
+          (candidate) => !unbooked.some((slot) => sameTimes(slot, candidate))
+        ),
+        removed: unbooked.filter(
+          (slot) => !expected.some((candidate) => sameTimes(slot, candidate))
+        ),
+        unblocked: unbooked.filter(
+          (slot) =>
+            slot.is_blocked &&
+            expected.some((candidate) => sameTimes(slot, candidate))
+        ),
+        conflicts: booked.filter(
+          (slot) => !generated.some((candidate) => sameTimes(slot, candidate))
+        ),
+        specialDay:
+          current?.source === "special_day" &&
+          covers(request.effectiveFrom, request.effectiveTo, date),
+      };
+
+      if (day.specialDay) specialDates.add(date);
+      if (
+        day.added.length ||
+        day.removed.length ||
+        day.unblocked.length ||
+        day.conflicts.length ||
+        day.specialDay
+      ) {
+        impact.days.push(day);
+        impact.added += day.added.length;
+        impact.removed += day.removed.length;
+        impact.unblocked += day.unblocked.length;
+        impact.conflicts += day.conflicts.length;
+      }
+    });
+  });
+
+  impact.days.sort((a, b) => a.date.localeCompare(b.date));
+  impact.specialDays = specialDates.size;
+  return impact;
+}
@@ -0,0 +1,286 @@
+import { describe, expect, it } from "vitest";
+import type { MonthScheduleItem, Slot, WeekScheduleDay } from "./garage-api";
+import {
+  type ScheduleConfig,
+  SCHEDULE_CONFIG_FORMAT,
+  type ScheduleConfigSource,
+  buildScheduleConfig,
+  parseScheduleConfig,
+  planScheduleConfigImport,
+} from "./schedule-config";
+
+const today = "2026-10-19";
+
+const openDay = (date: string): WeekScheduleDay => ({
+  date,
+  day_of_week: 1,
+  schedule: {
+    id: "sched-1",
+    type: "OPEN",
+    start_time: "09:00",
+    end_time: "11:00",
+    slot_duration: 60,
+    buffer_minutes: 0,
+    breaks: [],
+    is_recurring: true,
+  },
+  source: "weekly_pattern",
+});
+
+const slot = (
+  date: string,
+  start_time: string,
+  end_time: string,
+  order_id: string | null = null
+): Slot => ({
+  id: `${date}-${start_time}`,
+  garage_id: "garage-1",
+  bay_id: "bay-1",
+  date,
+  start_time,
+  end_time,
+  is_available: order_id === null,
+  is_blocked: false,
+  order_id,
+});
+
+const holiday = (id: string, event_date: string): MonthScheduleItem => ({
+  id,
+  garage_id: "garage-1",
+  bay_id: null,
+  event_date,
+  type: "HOLIDAY",
+  is_recurring: false,
+  day_of_week: 5,
+});
+
+const source = (
+  overrides: Partial<ScheduleConfigSource> = {}
+): ScheduleConfigSource => ({
+  garage: { id: "garage-1", name: "High Street" },
+  from: "2026-10-19",
+  to: "2026-12-31",
+  bays: [{ id: "bay-1", name: "Lane 1" }],
+  versions: [
+    {
+      id: "version-1",
+      garage_id: "garage-1",
+      bay_id: "bay-1",
+      label: "Standard hours",
+      effective_from: "2026-01-01",
+      effective_to: null,
+      buffer_minutes: 5,
+      schedules: [],
+    },
+  ],
+  specialDays: [
+    holiday("special-0", "2026-10-01"),
+    holiday("special-1", "2026-12-25"),
+    holiday("special-1", "2026-12-25"),
+  ],
+  schedules: [
+    { bayId: "bay-1", days: [openDay("2026-10-19"), openDay("2026-10-26")] },
+  ],
+  slots: [
+    slot("2026-10-19", "09:00", "10:00"),
+    slot("2026-10-19", "10:00", "11:00"),
+    slot("2026-10-26", "09:00", "09:30", "order-1"),
+    slot("2026-10-26", "09:30", "11:00"),
+  ],
+  ...overrides,
+});
+
+// A document with one pattern, special day and override for each bay key
+const config = (
+  bays: ScheduleConfig["bays"],
+  overrides: Partial<ScheduleConfig> = {}
+): ScheduleConfig => ({
+  ...buildScheduleConfig(source({ versions: [], specialDays: [], slots: [] })),
+  bays,
+  weekly_patterns: bays.map((bay) => ({
+    bay: bay.key,
+    label: bay.name,
+    effective_from: "2026-01-01",
+    effective_to: null,
+    buffer_minutes: 0,
+    days: [0, 1, 2, 3, 4, 5, 6].map((day_of_week) => ({
+      day_of_week,
+      type: "CLOSED" as const,
+    })),
+  })),
+  special_days: bays.map((bay) => ({
+    bay: bay.key,
+    date: "2026-12-25",
+    type: "HOLIDAY" as const,
+  })),
+  manual_slots: [],
+  ...overrides,
+});
+
+describe("buildScheduleConfig", () => {
+  it("keeps the range's special days once each", () => {
+    expect(buildScheduleConfig(source()).special_days).toEqual([
+      { bay: null, date: "2026-12-25", type: "HOLIDAY" },
+    ]);
+  });
+
+  it("writes versions as seven pattern days", () => {
+    const [pattern] = buildScheduleConfig(source()).weekly_patterns;
+    expect(pattern).toMatchObject({
+      bay: "bay-1",
+      label: "Standard hours",
+      buffer_minutes: 5,
+    });
+    expect(pattern.days).toHaveLength(7);
+  });
+
+  it("overrides only days whose slots differ from their hours", () => {
+    expect(buildScheduleConfig(source()).manual_slots).toEqual([
+      {
+        bay: "bay-1",
+        date: "2026-10-26",
+        slots: [
+          { start_time: "09:00", end_time: "09:30" },
+          { start_time: "09:30", end_time: "11:00" },
+        ],
+      },
+    ]);
+  });
+
+  it("reads back what it writes", () => {
+    const built = buildScheduleConfig(source());
+    expect(parseScheduleConfig(JSON.stringify(built))).toEqual({
+      success: true,
+      config: built,
+    });
+  });
+});
+
+describe("parseScheduleConfig", () => {
+  const errorsFor = (value: unknown) => {
+    const result = parseScheduleConfig(
+      typeof value === "string" ? value : JSON.stringify(value)
+    );
+    return result.success ? [] : result.errors;
+  };
+
+  it("refuses files that aren't a configuration", () => {
+    expect(errorsFor("{")).toEqual(["This file isn't valid JSON"]);
+    expect(errorsFor({ format: "other" })).toEqual([
+      "This file isn't a garage schedule configuration",
+    ]);
+  });
+
+  it("refuses later format versions", () => {
+    expect(errorsFor({ format: SCHEDULE_CONFIG_FORMAT, version: 2 })).toEqual([
+      "This configuration uses format version 2; this dashboard reads up to version 1",
+    ]);
+  });
+
+  it("names the invalid fields", () => {
+    const built = config([]);
+    expect(
+      errorsFor({
+        ...built,
+        special_days: [{ bay: null, date: "25/12/2026", type: "HOLIDAY" }],
+      })
+    ).toEqual(["special_days.0.date: must be a YYYY-MM-DD date"]);
+  });
+
+  it("refuses bays that aren't listed", () => {
+    const built = config([{ key: "bay-1", name: "Lane 1" }]);
+    expect(errorsFor({ ...built, bays: [] })).toEqual([
+      'Bay "bay-1" is used but not listed under bays',
+    ]);
+  });
+});
+
+describe("planScheduleConfigImport", () => {
+  it("matches bays by name, then by position", () => {
+    const plan = planScheduleConfigImport(
+      config([
+        { key: "a", name: "MOT bay" },
+        { key: "b", name: "Lane 1" },
+        { key: "c", name: "Lane 9" },
+      ]),
+      [
+        { id: "bay-1", name: "lane 1" },
+        { id: "bay-2", name: "Lane 2" },
+      ],
+      today
+    );
+
+    expect(plan.bayMatches).toEqual([
+      { from: "MOT bay", to: "Lane 2" },
+      { from: "Lane 1", to: "lane 1" },
+      { from: "Lane 9", to: null },
+    ]);
+    expect(plan.warnings).toEqual([
+      "Lane 9 has no matching bay here; its setup is skipped",
+    ]);
+    expect(
+      plan.items.map((item) => (item.kind === "pattern" ? item.bayId : null))
+    ).toEqual(["bay-2", "bay-1", null, null]);
+  });
+
+  it("gives a garage without bays the first bay's setup", () => {
+    const plan = planScheduleConfigImport(
+      config([
+        { key: "a", name: "Lane 1" },
+        { key: "b", name: "Lane 2" },
+      ]),
+      [],
+      today
+    );
+    expect(plan.items).toHaveLength(2);
+    expect(plan.items[0]).toMatchObject({ kind: "pattern", bayId: undefined });
+    expect(plan.items[1]).toMatchObject({
+      kind: "special_day",
+      request: { date: "2026-12-25", type: "HOLIDAY" },
+    });
+    expect(plan.warnings).toEqual([
+      "Lane 2 has no matching bay here; its setup is skipped",
+      "This garage has no bays, so Lane 1's setup is used",
+    ]);
+  });
+
+  it("skips what ended before today", () => {
+    const built = config([]);
+    const plan = planScheduleConfigImport(
+      {
+        ...built,
+        weekly_patterns: [
+          {
+            bay: null,
+            label: "Summer",
+            effective_from: "2026-06-01",
+            effective_to: "2026-08-31",
+            buffer_minutes: 0,
+            days: [],
+          },
+        ],
+        special_days: [{ bay: null, date: "2026-10-18", type: "HOLIDAY" }],
+        manual_slots: [{ bay: null, date: "2026-10-01", slots: [] }],
+      },
+      [],
+      today
+    );
+    expect(plan.items).toEqual([]);
+    expect(plan.warnings).toEqual([
+      "1 pattern version(s) ended before today and are skipped",
+      "2 special day(s) or slot override(s) before today are skipped",
+    ]);
+  });
+
+  it("generates slots through the document's range, within limits", () => {
+    const plan = (to: string) =>
+      planScheduleConfigImport(
+        config([], { range: { from: today, to } }),
+        [],
+        today
+      ).daysToGenerate;
+    expect(plan("2026-12-31")).toBe(74);
+    expect(plan("2026-10-25")).toBe(30);
+    expect(plan("2028-01-01")).toBe(365);
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Schedule Configuration Export & Import
+ *
+ * A garage's setup as a versioned JSON document, to back it up or copy it to
+ * another site: the weekly pattern versions, the special days in a date
+ * range and the manual slot overrides (days whose slots differ from what
+ * their opening hours generate). Slots, blocks and bookings themselves are
+ * not part of a configuration.
+ *
+ * Bays are referred to by their key in the document's bay list, and matched
+ * to the importing garage's bays by name, then by position. Importing
+ * replays the document through setWeeklyPattern, setSpecialDay and
+ * setManualSlots, in that order.
+ */
+
+import { z } from "zod";
+import type {
+  ManualSlotInput,
+  MonthScheduleItem,
+  Slot,
+  SpecialDayRequest,
+  WeekScheduleDay,
+  WeeklyPatternDay,
+  WeeklyPatternVersion,
+} from "./garage-api";
+import { breakWindowSchema, describeIssues } from "./garage-api-schemas";
+import { monthItemToSpecialDay, toPatternDays } from "./schedule-conversions";
+import { fitAroundBookings, generateSlots } from "./slot-generation";
+
+export const SCHEDULE_CONFIG_FORMAT = "garage-schedule-config";
+export const SCHEDULE_CONFIG_VERSION = 1;
+
+const DEFAULT_DAYS_TO_GENERATE = 30;
+
+// ============================================================================
+// DOCUMENT SCHEMA
+// ============================================================================
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "must be a YYYY-MM-DD date");
+const timeString = z.string().regex(/^\d{2}:\d{2}$/, "must be an HH:MM time");
+const bayKey = z.string().nullable(); // null = every bay / no bays
+
+const patternDaySchema = z.object({
+  day_of_week: z.number().int().min(0).max(6),
+  type: z.enum(["OPEN", "CLOSED"]),
+  start_time: timeString.optional(),
+  end_time: timeString.optional(),
+  slot_duration: z.number().int().positive().optional(),
+  buffer_minutes: z.number().int().min(0).optional(),
+  breaks: z.array(breakWindowSchema).optional(),
+});
+
+const configPatternSchema = z.object({
+  bay: bayKey,
+  label: z.string(),
+  effective_from: dateString,
+  effective_to: dateString.nullable(),
+  buffer_minutes: z.number().int().min(0),
+  days: z.array(patternDaySchema).length(7),
+});
+
+const configSpecialDaySchema = z.object({
+  bay: bayKey,
+  date: dateString,
+  type: z.enum(["HOLIDAY", "OPEN", "CLOSED"]),
+  start_time: timeString.optional(),
+  end_time: timeString.optional(),
+  slot_duration: z.number().int().positive().optional(),
+  buffer_minutes: z.number().int().min(0).optional(),
+  breaks: z.array(breakWindowSchema).optional(),
+});
+
+const configManualSlotsSchema = z.object({
+  bay: bayKey,
+  date: dateString,
+  slots: z.array(z.object({ start_time: timeString, end_time: timeString })),
+});
+
+export const scheduleConfigSchema = z.object({
+  format: z.literal(SCHEDULE_CONFIG_FORMAT),
+  version: z.number().int().positive(),
+  exported_at: z.string(),
+  garage: z.object({ id: z.string().nullable(), name: z.string().nullable() }),
+  range: z.object({ from: dateString, to: dateString }),
+  bays: z.array(z.object({ key: z.string(), name: z.string() })),
+  weekly_patterns: z.array(configPatternSchema),
+  special_days: z.array(configSpecialDaySchema),
+  manual_slots: z.array(configManualSlotsSchema),
+});
+
+export type ScheduleConfig = z.infer<typeof scheduleConfigSchema>;
+export type ScheduleConfigPattern = z.infer<typeof configPatternSchema>;
+export type ScheduleConfigSpecialDay = z.infer<typeof configSpecialDaySchema>;
+export type ScheduleConfigManualSlots = z.infer<typeof configManualSlotsSchema>;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScheduleConfigSource {
+  garage: { id: string | null; name: string | null };
+  from: string;
+  to: string;
+  bays: Array<{ id: string; name: string }>;
+  versions: WeeklyPatternVersion[];
+  specialDays: MonthScheduleItem[]; // may repeat garage-wide days per bay
+  schedules: Array<{ bayId: string | null; days: WeekScheduleDay[] }>; // effective hours per bay
+  slots: Slot[];
+}
+
+export type ScheduleConfigParseResult =
+  | { success: true; config: ScheduleConfig }
+  | { success: false; errors: string[] };
+
+export type ScheduleConfigImportItem =
+  | {
+      key: string;
+      kind: "pattern";
+      bayId: string | undefined; // undefined = every bay / no bays
+      bayName: string | null;
+      label: string;
+      pattern: WeeklyPatternDay[];
+      bufferMinutes: number;
+      effectiveFrom: string;
+      effectiveTo: string | null;
+    }
+  | {
+      key: string;
+      kind: "special_day";
+      bayName: string | null;
+      request: SpecialDayRequest;
+    }
+  | {
+      key: string;
+      kind: "manual_slots";
+      bayId: string | undefined;
+      bayName: string | null;
+      date: string;
+      slots: ManualSlotInput[];
+    };
+
+export interface ScheduleConfigImportPlan {
+  items: ScheduleConfigImportItem[];
+  daysToGenerate: number; // slot horizon for the patterns
+  bayMatches: Array<{ from: string; to: string | null }>; // by bay name
+  warnings: string[];
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const toDayNumber = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / 86400000;
+};
+
+const sameLayout = (a: ManualSlotInput[], b: ManualSlotInput[]) =>
+  a.length === b.length &&
+  a.every((slot) =>
+    b.some(
+      (other) =>
+        other.start_time === slot.start_time && other.end_time === slot.end_time
+    )
+  );
+
+/**
+ * Build the document for a garage. Days whose free slots differ from what
+ * their hours generate around the bookings become manual slot overrides,
+ * holding the day's whole layout (booked times included).
+ */
+export function buildScheduleConfig(
+  source: ScheduleConfigSource
+): ScheduleConfig {
+  const specialDays = source.specialDays
+    .filter(
+      (item, index) =>
+        source.specialDays.findIndex((other) => other.id === item.id) ===
+          index &&
+        item.event_date.slice(0, 10) >= source.from &&
+        item.event_date.slice(0, 10) <= source.to
+    )
+    .map((item): ScheduleConfigSpecialDay => {
+      const { bay_id, ...request } = monthItemToSpecialDay(item);
+      return { bay: bay_id ?? null, ...request };
+    });
+
+  const manualSlots: ScheduleConfigManualSlots[] = [];
+  source.schedules.forEach(({ bayId, days }) =>
+    days.forEach((day) => {
+      if (day.date < source.from || day.date > source.to) return;
+      const daySlots = source.slots.filter(
+        (slot) =>
+          slot.date === day.date && (bayId === null || slot.bay_id === bayId)
+      );
+      const free = daySlots.filter((slot) => slot.order_id === null);
+      const expected = fitAroundBookings(generateSlots(day.schedule), daySlots);
+      if (sameLayout(free, expected)) return;
+
+      manualSlots.push({
+        bay: bayId,
+        date: day.date,
+        slots: daySlots
+          .map((slot) => ({
+            start_time: slot.start_time,
+            end_time: slot.end_time,
+          }))
+          .sort((a, b) => a.start_time.localeCompare(b.start_time)),
+      });
+    })
+  );
+
+  return {
+    format: SCHEDULE_CONFIG_FORMAT,
+    version: SCHEDULE_CONFIG_VERSION,
+    exported_at: new Date().toISOString(),
+    garage: source.garage,
+    range: { from: source.from, to: source.to },
+    bays: source.bays.map((bay) => ({ key: bay.id, name: bay.name })),
+    weekly_patterns: source.versions.map((version) => ({
+      bay: version.bay_id,
+      label: version.label,
+      effective_from: version.effective_from,
+      effective_to: version.effective_to,
+      buffer_minutes: version.buffer_minutes ?? 0,
+      days: toPatternDays(version),
+    })),
+    special_days: specialDays,
+    manual_slots: manualSlots.sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Parse and validate a document; later format versions are refused rather
+ * than half-understood
+ */
+export function parseScheduleConfig(text: string): ScheduleConfigParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { success: false, errors: ["This file isn't valid JSON"] };
+  }
+
+  const header = data as { format?: unknown; version?: unknown } | null;
+  if (header?.format !== SCHEDULE_CONFIG_FORMAT) {
+    return {
+      success: false,
+      errors: ["This file isn't a garage schedule configuration"],
+    };
+  }
+  if (
+    typeof header.version === "number" &&
+    header.version > SCHEDULE_CONFIG_VERSION
+  ) {
+    return {
+      success: false,
+      errors: [
+        `This configuration uses format version ${header.version}; this dashboard reads up to version ${SCHEDULE_CONFIG_VERSION}`,
+      ],
+    };
+  }
+
+  const result = scheduleConfigSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, errors: describeIssues(result.error) };
+  }
+
+  const bayKeys = new Set(result.data.bays.map((bay) => bay.key));
+  const unknownBay = [
+    ...result.data.weekly_patterns,
+    ...result.data.special_days,
+    ...result.data.manual_slots,
+  ].find((item) => item.bay !== null && !bayKeys.has(item.bay));
+  if (unknownBay) {
+    return {
+      success: false,
+      errors: [`Bay "${unknownBay.bay}" is used but not listed under bays`],
+    };
+  }
+
+  return { success: true, config: result.data };
+}
+
+/**
+ * Match the document's bays to the garage's: same name first (ignoring
+ * case), then the remaining bays in order. A garage without bays takes the
+ * first bay's setup.
+ */
+function matchBays(
+  config: ScheduleConfig,
+  bays: Array<{ id: string; name: string }>
+): Map<string, { id: string; name: string } | null> {
+  const matches = new Map<string, { id: string; name: string } | null>();
+  if (bays.length === 0) {
+    config.bays.forEach((bay, index) =>
+      matches.set(bay.key, index === 0 ? { id: "", name: bay.name } : null)
+    );
+    return matches;
+  }
+
+  const free = [...bays];
+  const take = (bay: { id: string; name: string }) => {
+    free.splice(free.indexOf(bay), 1);
+    return bay;
+  };
+  config.bays.forEach((bay) => {
+    const sameName = free.find(
+      (target) => target.name.toLowerCase() === bay.name.toLowerCase()
+    );
+    if (sameName) matches.set(bay.key, take(sameName));
+  });
+  config.bays.forEach((bay) => {
+    if (!matches.has(bay.key)) {
+      matches.set(bay.key, free.length > 0 ? take(free[0]) : null);
+    }
+  });
+  return matches;
+}
+
+/**
+ * Work out the calls an import makes for this garage. Patterns that have
+ * ended, and special days and overrides before today, are skipped.
+ */
+export function planScheduleConfigImport(
+  config: ScheduleConfig,
+  bays: Array<{ id: string; name: string }>,
+  today: string
+): ScheduleConfigImportPlan {
+  const matches = matchBays(config, bays);
+  const warnings: string[] = [];
+  const items: ScheduleConfigImportItem[] = [];
+
+  // undefined = the item is skipped (bay has no match)
+  const resolveBay = (key: string | null) => {
+    if (key === null) return { bayId: undefined, bayName: null };
+    const match = matches.get(key);
+    if (!match) return undefined;
+    return { bayId: match.id || undefined, bayName: match.name };
+  };
+
+  config.bays.forEach((bay) => {
+    if (!matches.get(bay.key)) {
+      warnings.push(
+        `${bay.name} has no matching bay here; its setup is skipped`
+      );
+    }
+  });
+
+  let endedPatterns = 0;
+  config.weekly_patterns.forEach((pattern, index) => {
+    const bay = resolveBay(pattern.bay);
+    if (!bay) return;
+    if (pattern.effective_to !== null && pattern.effective_to < today) {
+      endedPatterns++;
+      return;
+    }
+    items.push({
+      key: `pattern-${index}`,
+      kind: "pattern",
+      ...bay,
+      label: pattern.label,
+      pattern: pattern.days,
+      bufferMinutes: pattern.buffer_minutes,
+      effectiveFrom: pattern.effective_from,
+      effectiveTo: pattern.effective_to,
+    });
+  });
+  if (endedPatterns > 0) {
+    warnings.push(
+      `${endedPatterns} pattern version(s) ended before today and are skipped`
+    );
+  }
+
+  let pastDays = 0;
+  config.special_days.forEach((day, index) => {
+    const bay = resolveBay(day.bay);
+    if (!bay) return;
+    if (day.date < today) {
+      pastDays++;
+      return;
+    }
+    const { bay: _bay, ...request } = day;
+    items.push({
+      key: `special-${index}`,
+      kind: "special_day",
+      bayName: bay.bayName,
+      request: { ...request, ...(bay.bayId && { bay_id: bay.bayId }) },
+    });
+  });
+  config.manual_slots.forEach((override, index) => {
+    const bay = resolveBay(override.bay);
+    if (!bay) return;
+    if (override.date < today) {
+      pastDays++;
+      return;
+    }
+    items.push({
+      key: `slots-${index}`,
+      kind: "manual_slots",
+      ...bay,
+      date: override.date,
+      slots: override.slots,
+    });
+  });
+  if (pastDays > 0) {
+    warnings.push(
+      `${pastDays} special day(s) or slot override(s) before today are skipped`
+    );
+  }
+
+  const horizon = toDayNumber(config.range.to) - toDayNumber(today) + 1;
+  return {
+    items,
+    daysToGenerate: Math.min(365, Math.max(DEFAULT_DAYS_TO_GENERATE, horizon)),
+    bayMatches: config.bays.map((bay) => ({
+      from: bay.name,
+      to: matches.get(bay.key)?.name ?? null,
+    })),
+    warnings: [
+      ...warnings,
+      ...(config.bays.length > 0 && bays.length === 0
+        ? [`This garage has no bays, so ${config.bays[0].name}'s setup is used`]
+        : []),
+    ],
+  };
+}
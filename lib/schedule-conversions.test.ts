@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { MonthScheduleItem, WeeklyPatternVersion } from "./garage-api";
+import { monthItemToSpecialDay, toPatternDays } from "./schedule-conversions";
+
+const row = (
+  overrides: Partial<WeeklyPatternVersion["schedules"][number]>
+): WeeklyPatternVersion["schedules"][number] => ({
+  id: "row-1",
+  garage_id: "garage-1",
+  bay_id: null,
+  event_date: "2026-01-05",
+  day_of_week: 1,
+  is_recurring: true,
+  type: "OPEN",
+  start_time: "08:00",
+  end_time: "17:00",
+  slot_duration: null,
+  ...overrides,
+});
+
+const item = (overrides: Partial<MonthScheduleItem>): MonthScheduleItem => ({
+  id: "special-1",
+  garage_id: "garage-1",
+  bay_id: null,
+  event_date: "2026-12-24T00:00:00Z",
+  type: "OPEN",
+  start_time: "09:00",
+  end_time: "13:00",
+  slot_duration: 30,
+  buffer_minutes: 0,
+  breaks: [],
+  is_recurring: false,
+  day_of_week: 4,
+  ...overrides,
+});
+
+describe("toPatternDays", () => {
+  it("gives seven days, closing those without an open row", () => {
+    const days = toPatternDays({
+      id: "version-1",
+      garage_id: "garage-1",
+      bay_id: null,
+      label: "Standard hours",
+      effective_from: "2026-01-01",
+      effective_to: null,
+      schedules: [
+        row({ buffer_minutes: 10 }),
+        row({ day_of_week: 2, type: "CLOSED" }),
+        row({ day_of_week: 3, start_time: null }),
+      ],
+    });
+
+    expect(days).toHaveLength(7);
+    expect(days[1]).toEqual({
+      day_of_week: 1,
+      type: "OPEN",
+      start_time: "08:00",
+      end_time: "17:00",
+      slot_duration: 60,
+      buffer_minutes: 10,
+      breaks: [],
+    });
+    expect(days.filter((day) => day.type === "CLOSED")).toHaveLength(6);
+  });
+});
+
+describe("monthItemToSpecialDay", () => {
+  it("keeps an open day's hours and drops empty extras", () => {
+    expect(monthItemToSpecialDay(item({ bay_id: "bay-1" }))).toEqual({
+      date: "2026-12-24",
+      type: "OPEN",
+      bay_id: "bay-1",
+      start_time: "09:00",
+      end_time: "13:00",
+      slot_duration: 30,
+    });
+  });
+
+  it("sends only the date and type of a closed day", () => {
+    expect(monthItemToSpecialDay(item({ type: "HOLIDAY" }))).toEqual({
+      date: "2026-12-24",
+      type: "HOLIDAY",
+    });
+  });
+});
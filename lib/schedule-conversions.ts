@@ -0,0 +1,61 @@
+/**
+ * Schedule Conversions
+ *
+ * What the schedule API returns, turned back into what it takes: a weekly
+ * pattern version into the seven days setWeeklyPattern saves, a special day
+ * into its SpecialDayRequest. Restoring a snapshot and importing a
+ * configuration both replay a schedule this way.
+ */
+
+import type {
+  MonthScheduleItem,
+  SpecialDayRequest,
+  WeeklyPatternDay,
+  WeeklyPatternVersion,
+} from "./garage-api";
+
+/**
+ * A version's schedule rows as the seven days setWeeklyPattern takes; days
+ * without a row are closed
+ */
+export function toPatternDays(
+  version: WeeklyPatternVersion
+): WeeklyPatternDay[] {
+  return Array.from({ length: 7 }, (_, dayOfWeek) => {
+    const row = version.schedules.find(
+      (item) => item.day_of_week === dayOfWeek
+    );
+    if (!row || row.type !== "OPEN" || !row.start_time || !row.end_time) {
+      return { day_of_week: dayOfWeek, type: "CLOSED" };
+    }
+    return {
+      day_of_week: dayOfWeek,
+      type: "OPEN",
+      start_time: row.start_time,
+      end_time: row.end_time,
+      slot_duration: row.slot_duration ?? 60,
+      ...(row.buffer_minutes != null && { buffer_minutes: row.buffer_minutes }),
+      breaks: row.breaks ?? [],
+    };
+  });
+}
+
+/**
+ * A special day as the request that saves it again
+ */
+export function monthItemToSpecialDay(
+  item: MonthScheduleItem
+): SpecialDayRequest {
+  return {
+    date: item.event_date.slice(0, 10),
+    type: item.type,
+    ...(item.bay_id && { bay_id: item.bay_id }),
+    ...(item.type === "OPEN" && {
+      start_time: item.start_time ?? undefined,
+      end_time: item.end_time ?? undefined,
+      slot_duration: item.slot_duration ?? undefined,
+      ...(item.buffer_minutes && { buffer_minutes: item.buffer_minutes }),
+      ...(item.breaks?.length && { breaks: item.breaks }),
+    }),
+  };
+}
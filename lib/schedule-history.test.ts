@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from "vitest";
+import type GarageApiService from "./garage-api";
+import type { ApiResponse, Slot } from "./garage-api";
+import ScheduleHistory, {
+  type HistoryEntry,
+  slotBlockEntry,
+  slotMoveEntry,
+} from "./schedule-history";
+
+const entry = (
+  label: string,
+  undo: () => Promise<ApiResponse> = async () => ({ success: true })
+): HistoryEntry => ({
+  label,
+  dates: ["2026-10-19"],
+  undo,
+  redo: async () => ({ success: true }),
+});
+
+const OFFLINE: ApiResponse = {
+  success: false,
+  error: { kind: "network", message: "Network error" },
+};
+
+const GONE: ApiResponse = {
+  success: false,
+  error: { kind: "not_found", message: "Not found", status: 404 },
+};
+
+const slot = (overrides: Partial<Slot> = {}): Slot => ({
+  id: "slot-1",
+  garage_id: "garage-1",
+  bay_id: "bay-1",
+  date: "2026-10-19",
+  start_time: "09:00",
+  end_time: "10:00",
+  is_available: true,
+  is_blocked: false,
+  order_id: null,
+  ...overrides,
+});
+
+// An api holding one date's slots, recording the writes made to them
+function fakeApi(slots: Slot[]) {
+  const api = {
+    getSlotsForDate: vi.fn(
+      async (): Promise<ApiResponse<Slot[]>> => ({ success: true, data: slots })
+    ),
+    updateSlot: vi.fn(async (): Promise<ApiResponse> => ({ success: true })),
+    blockSlot: vi.fn(async (): Promise<ApiResponse> => ({ success: true })),
+    unblockSlot: vi.fn(async (): Promise<ApiResponse> => ({ success: true })),
+  };
+  return { api, service: api as unknown as GarageApiService };
+}
+
+describe("ScheduleHistory", () => {
+  it("moves entries between the undo and redo stacks", async () => {
+    const history = new ScheduleHistory();
+    history.record(entry("first"));
+    history.record(entry("second"));
+
+    expect((await history.undo())?.entry.label).toBe("second");
+    expect((await history.redo())?.entry.label).toBe("second");
+    expect(history.canRedo()).toBe(false);
+
+    await history.undo();
+    history.record(entry("third"));
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it("keeps a step that failed for a passing reason", async () => {
+    const history = new ScheduleHistory();
+    history.record(entry("offline", async () => OFFLINE));
+
+    const step = await history.undo();
+    expect(step?.dropped).toBe(false);
+    expect(history.canUndo()).toBe(true);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it("drops a step the API rejects so the ones behind it can run", async () => {
+    const history = new ScheduleHistory();
+    history.record(entry("earlier"));
+    history.record(entry("gone", async () => GONE));
+
+    const step = await history.undo();
+    expect(step?.dropped).toBe(true);
+    expect((await history.undo())?.entry.label).toBe("earlier");
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it("keeps no more than its limit", async () => {
+    const history = new ScheduleHistory(2);
+    ["first", "second", "third"].forEach((label) =>
+      history.record(entry(label))
+    );
+
+    await history.undo();
+    await history.undo();
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it("runs one step at a time", async () => {
+    const history = new ScheduleHistory();
+    history.record(entry("first"));
+    history.record(entry("second"));
+
+    const [first, second] = await Promise.all([history.undo(), history.undo()]);
+    expect(first?.entry.label).toBe("second");
+    expect(second).toBeNull();
+  });
+});
+
+describe("slotMoveEntry", () => {
+  it("finds the slot by its position, not its id", async () => {
+    // The slot was recreated at its new times under another id
+    const { api, service } = fakeApi([
+      slot({ id: "slot-2", start_time: "11:00", end_time: "12:00" }),
+    ]);
+    const move = slotMoveEntry(service, {
+      label: "Move slot",
+      date: "2026-10-19",
+      slot: slot(),
+      to: { start_time: "11:00", end_time: "12:00" },
+    });
+
+    expect(await move.undo()).toEqual({ success: true });
+    expect(api.getSlotsForDate).toHaveBeenCalledWith("2026-10-19", "bay-1");
+    expect(api.updateSlot).toHaveBeenCalledWith("slot-2", "09:00", "10:00");
+  });
+
+  it("fails as not found when no slot is at the position", async () => {
+    const { api, service } = fakeApi([slot()]);
+    const move = slotMoveEntry(service, {
+      label: "Move slot",
+      date: "2026-10-19",
+      slot: slot(),
+      to: { start_time: "11:00", end_time: "12:00" },
+    });
+
+    const response = await move.undo();
+    expect(response.success).toBe(false);
+    expect(response.error?.kind).toBe("not_found");
+    expect(api.updateSlot).not.toHaveBeenCalled();
+  });
+});
+
+describe("slotBlockEntry", () => {
+  it("sets the blocked state of the slot at the position", async () => {
+    const { api, service } = fakeApi([
+      slot({ id: "slot-3", is_blocked: true }),
+    ]);
+    const block = slotBlockEntry(service, {
+      label: "Block slot",
+      date: "2026-10-19",
+      slot: slot(),
+      blocked: true,
+    });
+
+    await block.undo();
+    expect(api.unblockSlot).toHaveBeenCalledWith("slot-3");
+
+    // Already blocked, so redoing has nothing to do
+    expect(await block.redo()).toEqual({ success: true });
+    expect(api.blockSlot).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Schedule Edit History
+ *
+ * Undo/redo stacks for the schedule changes made from the dashboard (special
+ * days, slot edits, blocks, deletions and manual slot additions). The API has
+ * no undo of its own, so every entry carries the calls that reverse the change
+ * and the calls that apply it again, and undoing replays them against the API.
+ *
+ * Slot ids don't survive a deletion, a restore or a regeneration, so slot
+ * entries find their slots by date, bay and start/end time when they run,
+ * never by id. Booked slots are never deleted or recreated.
+ */
+
+import type GarageApiService from "./garage-api";
+import type {
+  ApiErrorKind,
+  ApiResponse,
+  ManualSlotInput,
+  MonthScheduleItem,
+  Slot,
+  SpecialDayRequest,
+} from "./garage-api";
+
+const HISTORY_LIMIT = 50;
+
+// Failures worth trying the same step again for; any other failure means the
+// schedule moved on and the step no longer applies
+const RETRYABLE_ERRORS: ApiErrorKind[] = [
+  "network",
+  "timeout",
+  "cancelled",
+  "unauthorized",
+  "forbidden",
+  "server",
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HistoryEntry {
+  label: string; // e.g. "Set 2025-12-25 as a holiday"
+  dates: string[]; // dates the change touches, to invalidate and reload them
+  undo: () => Promise<ApiResponse>;
+  redo: () => Promise<ApiResponse>;
+}
+
+export type HistoryDirection = "undo" | "redo";
+
+export interface HistoryStep {
+  direction: HistoryDirection;
+  entry: HistoryEntry;
+  response: ApiResponse;
+  dropped: boolean; // the step failed for good and left the history
+}
+
+// Where a slot sits, which outlives its id
+export type SlotPosition = Pick<Slot, "bay_id" | "start_time" | "end_time">;
+
+// What restoring a slot needs to know about it
+export type SlotSnapshot = SlotPosition & Pick<Slot, "is_blocked" | "order_id">;
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+export default class ScheduleHistory {
+  private past: HistoryEntry[] = [];
+  private future: HistoryEntry[] = [];
+  private running = false;
+  private limit: number;
+
+  constructor(limit = HISTORY_LIMIT) {
+    this.limit = limit;
+  }
+
+  /**
+   * Remember a change that has just been applied. A new change discards the
+   * redo stack, as its entries were undone from a different starting point.
+   */
+  record(entry: HistoryEntry): void {
+    this.past.push(entry);
+    if (this.past.length > this.limit) this.past.shift();
+    this.future = [];
+  }
+
+  canUndo(): boolean {
+    return !this.running && this.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return !this.running && this.future.length > 0;
+  }
+
+  /**
+   * Reverse the latest change. Resolves to null when there is nothing to undo
+   * or another step is still running. A step that fails for a passing reason
+   * (network, timeout, ...) stays on its stack to be tried again; one the API
+   * rejects is dropped so it doesn't block the steps behind it.
+   */
+  undo(): Promise<HistoryStep | null> {
+    return this.step("undo");
+  }
+
+  /**
+   * Apply the latest undone change again
+   */
+  redo(): Promise<HistoryStep | null> {
+    return this.step("redo");
+  }
+
+  /**
+   * Forget every change, e.g. after a reset or a new token
+   */
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+
+  private async step(direction: HistoryDirection): Promise<HistoryStep | null> {
+    const from = direction === "undo" ? this.past : this.future;
+    const to = direction === "undo" ? this.future : this.past;
+    const entry = from[from.length - 1];
+    if (this.running || !entry) return null;
+
+    this.running = true;
+    try {
+      const response = await entry[direction]();
+      const dropped =
+        !response.success &&
+        !RETRYABLE_ERRORS.includes(response.error?.kind ?? "server");
+      // Leave the stacks alone if they changed while the calls were running
+      if (from[from.length - 1] === entry) {
+        if (response.success) {
+          from.pop();
+          to.push(entry);
+        } else if (dropped) {
+          from.pop();
+        }
+      }
+      return { direction, entry, response, dropped };
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// ============================================================================
+// SPECIAL DAYS
+// ============================================================================
+
+/**
+ * The special day stored for a date and bay (undefined = garage-wide), or
+ * null when the date follows the weekly pattern
+ */
+export async function findSpecialDay(
+  api: GarageApiService,
+  date: string,
+  bayId?: string
+): Promise<ApiResponse<MonthScheduleItem | null>> {
+  const [year, month] = date.split("-").map(Number);
+  const response = await api.getMonthSchedule(month, year, bayId);
+  if (!response.success || !response.data) {
+    return { success: false, error: response.error };
+  }
+
+  const item = response.data.find(
+    (candidate) =>
+      candidate.event_date.split("T")[0] === date &&
+      (candidate.bay_id || undefined) === bayId
+  );
+  return { success: true, data: item || null };
+}
+
+/**
+ * Request that stores a special day again exactly as it was
+ */
+export function specialDayRequestFrom(
+  item: MonthScheduleItem
+): SpecialDayRequest {
+  return {
+    date: item.event_date.split("T")[0],
+    type: item.type,
+    ...(item.bay_id && { bay_id: item.bay_id }),
+    ...(item.start_time && { start_time: item.start_time }),
+    ...(item.end_time && { end_time: item.end_time }),
+    ...(item.slot_duration != null && { slot_duration: item.slot_duration }),
+    ...(item.buffer_minutes != null && {
+      buffer_minutes: item.buffer_minutes,
+    }),
+    ...(item.breaks && item.breaks.length > 0 && { breaks: item.breaks }),
+  };
+}
+
+/**
+ * Entry for a special day written over `previous` (null = none): undoing
+ * stores the previous special day again or deletes the new one
+ */
+export function specialDayEntry(
+  api: GarageApiService,
+  change: {
+    label: string;
+    date: string;
+    bayId?: string;
+    previous: MonthScheduleItem | null;
+    apply: () => Promise<ApiResponse>;
+  }
+): HistoryEntry {
+  const { label, date, bayId, previous, apply } = change;
+  return {
+    label,
+    dates: [date],
+    undo: () =>
+      previous
+        ? api.setSpecialDay(specialDayRequestFrom(previous))
+        : api.deleteSpecialDay(date, bayId),
+    redo: apply,
+  };
+}
+
+// ============================================================================
+// SLOTS
+// ============================================================================
+
+const slotKey = (slot: SlotPosition) =>
+  `${slot.bay_id || ""}|${slot.start_time}|${slot.end_time}`;
+
+/**
+ * Bring a date's slots (for a bay, or every bay) back to a snapshot: delete
+ * unbooked slots the snapshot doesn't have, recreate missing ones and restore
+ * their blocked state
+ */
+export async function restoreSlots(
+  api: GarageApiService,
+  date: string,
+  bayId: string | undefined,
+  snapshot: SlotSnapshot[]
+): Promise<ApiResponse> {
+  const current = await api.getSlotsForDate(date, bayId);
+  if (!current.success || !current.data) return current;
+
+  // Pair current slots with the snapshot's; unpaired ones are surplus
+  const missing = [...snapshot];
+  const surplus: Slot[] = [];
+  const toggled: Slot[] = [];
+  current.data.forEach((slot) => {
+    const index = missing.findIndex(
+      (wanted) => slotKey(wanted) === slotKey(slot)
+    );
+    if (index >= 0) {
+      const [wanted] = missing.splice(index, 1);
+      if (wanted.is_blocked !== slot.is_blocked) toggled.push(slot);
+    } else if (!slot.order_id) {
+      surplus.push(slot);
+    }
+  });
+
+  for (const slot of surplus) {
+    const response = await api.deleteSlot(slot.id);
+    if (!response.success) return response;
+  }
+  for (const slot of toggled) {
+    const response = slot.is_blocked
+      ? await api.unblockSlot(slot.id)
+      : await api.blockSlot(slot.id);
+    if (!response.success) return response;
+  }
+
+  // A booking cannot be recreated, only the free slot it was in
+  const recreated = missing.filter((slot) => !slot.order_id);
+  const byBay = new Map<string, ManualSlotInput[]>();
+  recreated.forEach((slot) => {
+    const inputs = byBay.get(slot.bay_id || "") || [];
+    inputs.push({ start_time: slot.start_time, end_time: slot.end_time });
+    byBay.set(slot.bay_id || "", inputs);
+  });
+  for (const [slotBayId, inputs] of byBay) {
+    const response = await api.setManualSlots(
+      date,
+      inputs,
+      false,
+      slotBayId || undefined
+    );
+    if (!response.success) return response;
+  }
+
+  // Recreated slots come back unblocked
+  const reblocked = recreated.filter((slot) => slot.is_blocked);
+  if (reblocked.length === 0) return { success: true };
+
+  const updated = await api.getSlotsForDate(date, bayId);
+  if (!updated.success || !updated.data) return updated;
+  const candidates = updated.data.filter(
+    (slot) => !slot.is_blocked && !slot.order_id
+  );
+  for (const wanted of reblocked) {
+    const index = candidates.findIndex(
+      (slot) => slotKey(slot) === slotKey(wanted)
+    );
+    if (index < 0) continue;
+    const [slot] = candidates.splice(index, 1);
+    const response = await api.blockSlot(slot.id);
+    if (!response.success) return response;
+  }
+  return { success: true };
+}
+
+/**
+ * Entry for a change to a date's slots: undoing restores the slots as they
+ * were before it, redoing replays it
+ */
+export function slotsEntry(
+  api: GarageApiService,
+  change: {
+    label: string;
+    date: string;
+    bayId?: string;
+    before: SlotSnapshot[];
+    apply: () => Promise<ApiResponse>;
+  }
+): HistoryEntry {
+  const { label, date, bayId, before, apply } = change;
+  return {
+    label,
+    dates: [date],
+    undo: () => restoreSlots(api, date, bayId, before),
+    redo: apply,
+  };
+}
+
+/**
+ * The slot at a position on a date as the API has it now
+ */
+export async function findSlotAt(
+  api: GarageApiService,
+  date: string,
+  position: SlotPosition
+): Promise<ApiResponse<Slot>> {
+  const response = await api.getSlotsForDate(
+    date,
+    position.bay_id || undefined
+  );
+  if (!response.success || !response.data) {
+    return { success: false, error: response.error };
+  }
+
+  const slot = response.data.find(
+    (candidate) => slotKey(candidate) === slotKey(position)
+  );
+  return slot
+    ? { success: true, data: slot }
+    : {
+        success: false,
+        error: {
+          kind: "not_found",
+          message: `No slot at ${position.start_time}-${position.end_time} on ${date}`,
+          status: 404,
+        },
+      };
+}
+
+/**
+ * Entry for a slot moved to new times: undoing moves whichever slot is at the
+ * new times back, redoing moves the one at the old times again
+ */
+export function slotMoveEntry(
+  api: GarageApiService,
+  change: {
+    label: string;
+    date: string;
+    slot: SlotPosition;
+    to: Pick<Slot, "start_time" | "end_time">;
+  }
+): HistoryEntry {
+  const { label, date, slot, to } = change;
+  const moved = { ...slot, ...to };
+  const move =
+    (from: SlotPosition, target: SlotPosition) =>
+    async (): Promise<ApiResponse> => {
+      const found = await findSlotAt(api, date, from);
+      if (!found.success || !found.data) return found;
+      return api.updateSlot(found.data.id, target.start_time, target.end_time);
+    };
+  return {
+    label,
+    dates: [date],
+    undo: move(moved, slot),
+    redo: move(slot, moved),
+  };
+}
+
+/**
+ * Entry for a slot blocked or unblocked: undoing and redoing set the blocked
+ * state of whichever slot is at its position
+ */
+export function slotBlockEntry(
+  api: GarageApiService,
+  change: { label: string; date: string; slot: SlotPosition; blocked: boolean }
+): HistoryEntry {
+  const { label, date, slot, blocked } = change;
+  const setBlocked = (value: boolean) => async (): Promise<ApiResponse> => {
+    const found = await findSlotAt(api, date, slot);
+    if (!found.success || !found.data) return found;
+    if (found.data.is_blocked === value) return { success: true };
+    return value
+      ? api.blockSlot(found.data.id)
+      : api.unblockSlot(found.data.id);
+  };
+  return {
+    label,
+    dates: [date],
+    undo: setBlocked(!blocked),
+    redo: setBlocked(blocked),
+  };
+}
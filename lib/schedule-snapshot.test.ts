@@ -0,0 +1,209 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type {
+  MonthScheduleItem,
+  Slot,
+  WeeklyPatternVersion,
+} from "./garage-api";
+import {
+  createScheduleSnapshot,
+  getRestorableVersions,
+  getSlotLayoutRepairs,
+  getSlotsToBlock,
+  loadScheduleSnapshot,
+  saveScheduleSnapshot,
+  summarizeSnapshot,
+} from "./schedule-snapshot";
+
+const today = "2026-10-19";
+
+const slot = (start_time: string, overrides: Partial<Slot> = {}): Slot => ({
+  id: `slot-${start_time}`,
+  garage_id: "garage-1",
+  bay_id: "bay-1",
+  date: today,
+  start_time,
+  end_time: `${String(Number(start_time.slice(0, 2)) + 1).padStart(2, "0")}:00`,
+  is_available: true,
+  is_blocked: false,
+  order_id: null,
+  ...overrides,
+});
+
+const specialDay = (id: string, event_date: string): MonthScheduleItem => ({
+  id,
+  garage_id: "garage-1",
+  bay_id: null,
+  event_date,
+  type: "HOLIDAY",
+  is_recurring: false,
+  day_of_week: 0,
+});
+
+const version = (
+  overrides: Partial<WeeklyPatternVersion> = {}
+): WeeklyPatternVersion => ({
+  id: "version-1",
+  garage_id: "garage-1",
+  bay_id: null,
+  label: "Standard hours",
+  effective_from: "2026-01-01",
+  effective_to: null,
+  schedules: [],
+  ...overrides,
+});
+
+const snapshot = (slots: Slot[]) =>
+  createScheduleSnapshot("garage-1", today, null, [], [], slots);
+
+describe("createScheduleSnapshot", () => {
+  it("regenerates through the reported horizon", () => {
+    const taken = createScheduleSnapshot(
+      "garage-1",
+      today,
+      "2026-11-17",
+      [],
+      [],
+      []
+    );
+    expect(taken.days_to_generate).toBe(30);
+    expect(taken.taken_on).toBe(today);
+  });
+
+  it("falls back to the last slot, then to 30 days", () => {
+    expect(
+      snapshot([slot("09:00", { date: "2026-12-31" })]).days_to_generate
+    ).toBe(74);
+    expect(snapshot([]).days_to_generate).toBe(30);
+  });
+
+  it("caps the horizon at a year", () => {
+    expect(
+      createScheduleSnapshot("garage-1", today, "2028-01-01", [], [], [])
+        .days_to_generate
+    ).toBe(365);
+  });
+
+  it("keeps upcoming special days once each", () => {
+    const christmas = specialDay("special-1", "2026-12-25T00:00:00Z");
+    const taken = createScheduleSnapshot(
+      "garage-1",
+      today,
+      null,
+      [],
+      [specialDay("special-0", "2026-10-01"), christmas, christmas],
+      []
+    );
+    expect(taken.special_days).toEqual([christmas]);
+  });
+
+  it("counts blocks and bookings", () => {
+    expect(
+      summarizeSnapshot(
+        snapshot([
+          slot("09:00", { is_blocked: true }),
+          slot("10:00", { order_id: "order-1" }),
+          slot("11:00"),
+        ])
+      )
+    ).toEqual({
+      versions: 0,
+      specialDays: 0,
+      slots: 3,
+      blocked: 1,
+      bookings: 1,
+    });
+  });
+});
+
+describe("getRestorableVersions", () => {
+  it("leaves out ended versions and orders the rest by bay and start", () => {
+    const taken = createScheduleSnapshot(
+      "garage-1",
+      today,
+      null,
+      [
+        version({ id: "bay-2", bay_id: "bay-2" }),
+        version({ id: "summer", effective_from: "2027-06-01" }),
+        version({ id: "ended", effective_to: "2026-09-30" }),
+        version({ id: "standard" }),
+      ],
+      [],
+      []
+    );
+    expect(getRestorableVersions(taken, today).map((item) => item.id)).toEqual([
+      "standard",
+      "summer",
+      "bay-2",
+    ]);
+  });
+});
+
+describe("getSlotLayoutRepairs", () => {
+  it("skips days that came back the same", () => {
+    const slots = [slot("09:00"), slot("10:00")];
+    expect(getSlotLayoutRepairs(snapshot(slots), slots, today)).toEqual([]);
+  });
+
+  it("lays out a changed day again around bookings made since", () => {
+    const saved = snapshot([slot("09:00"), slot("10:00"), slot("11:00")]);
+    const current = [
+      slot("08:30", { end_time: "09:30" }),
+      slot("10:30", { end_time: "11:30", order_id: "order-1" }),
+    ];
+    expect(getSlotLayoutRepairs(saved, current, today)).toEqual([
+      {
+        date: today,
+        bayId: "bay-1",
+        slots: [{ start_time: "09:00", end_time: "10:00" }],
+      },
+    ]);
+  });
+
+  it("leaves past days alone", () => {
+    const saved = snapshot([slot("09:00", { date: "2026-10-18" })]);
+    expect(getSlotLayoutRepairs(saved, [], today)).toEqual([]);
+  });
+});
+
+describe("getSlotsToBlock", () => {
+  it("finds unblocked free slots at the saved blocks' positions", () => {
+    const saved = snapshot([
+      slot("09:00", { is_blocked: true }),
+      slot("10:00", { is_blocked: true }),
+      slot("11:00", { is_blocked: true }),
+    ]);
+    const current = [
+      slot("09:00", { id: "new-1" }),
+      slot("10:00", { id: "new-2", is_blocked: true }),
+      slot("11:00", { id: "new-3", order_id: "order-1" }),
+    ];
+    expect(getSlotsToBlock(saved, current).map((item) => item.id)).toEqual([
+      "new-1",
+    ]);
+  });
+});
+
+describe("snapshot storage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps the latest snapshot of each garage", () => {
+    const items = new Map<string, string>();
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+      },
+    });
+
+    const taken = snapshot([slot("09:00")]);
+    expect(saveScheduleSnapshot(taken)).toBe(true);
+    expect(loadScheduleSnapshot("garage-1")).toEqual(taken);
+    expect(loadScheduleSnapshot("garage-2")).toBeNull();
+  });
+
+  it("refuses to save without storage", () => {
+    expect(saveScheduleSnapshot(snapshot([]))).toBe(false);
+  });
+});
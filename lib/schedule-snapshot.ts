@@ -0,0 +1,261 @@
+/**
+ * Schedule Snapshots
+ *
+ * Resetting the schedule deletes every weekly pattern, special day and slot
+ * for good, so the dashboard takes a snapshot of them first: the pattern
+ * versions, the special days of the coming year and the slots (with their
+ * blocked state) up to the end of the generation horizon, which restoring
+ * generates through again. Restoring replays the snapshot
+ * through the normal endpoints: patterns first, then special days, then the
+ * slot layout of any day that came out different, then the blocks.
+ *
+ * Bookings can't be recreated from the dashboard, so booked slots come back
+ * as free slots at the same times.
+ *
+ * The latest snapshot of each garage is kept in localStorage, as the API has
+ * nowhere to keep it.
+ */
+
+import type {
+  ManualSlotInput,
+  MonthScheduleItem,
+  Slot,
+  WeeklyPatternVersion,
+} from "./garage-api";
+import { daysBetween } from "./date-utils";
+import { slotsOverlap } from "./slot-generation";
+import { getBrowserStorage } from "./browser-storage";
+
+const STORAGE_KEY = "garage-schedule-snapshot";
+
+// How far ahead a snapshot reaches for special days, and for slots when the
+// API doesn't report its generation horizon
+export const SNAPSHOT_DAYS = 365;
+
+const DEFAULT_DAYS_TO_GENERATE = 30;
+const MAX_DAYS_TO_GENERATE = 365;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScheduleSnapshot {
+  garage_id: string | null;
+  created_at: string;
+  taken_on: string; // YYYY-MM-DD the snapshot starts from
+  days_to_generate: number; // slot horizon to regenerate on restore
+  versions: WeeklyPatternVersion[];
+  special_days: MonthScheduleItem[];
+  slots: Slot[];
+}
+
+export interface SnapshotSummary {
+  versions: number;
+  specialDays: number;
+  slots: number;
+  blocked: number;
+  bookings: number;
+}
+
+// A day whose slots must be laid out again after patterns and special days
+export interface SlotLayoutRepair {
+  date: string;
+  bayId: string | null;
+  slots: ManualSlotInput[];
+}
+
+// ============================================================================
+// CAPTURE
+// ============================================================================
+
+/**
+ * Build a snapshot from what the API returned. Special days are fetched per
+ * bay, so garage-wide ones arrive once per bay and are kept once.
+ * `generatedThrough` is the last date of the generation horizon; without it
+ * the horizon ends with the last slot.
+ */
+export function createScheduleSnapshot(
+  garageId: string | null,
+  today: string,
+  generatedThrough: string | null,
+  versions: WeeklyPatternVersion[],
+  specialDays: MonthScheduleItem[],
+  slots: Slot[]
+): ScheduleSnapshot {
+  const uniqueSpecialDays = specialDays.filter(
+    (day, index) =>
+      day.event_date.slice(0, 10) >= today &&
+      specialDays.findIndex((item) => item.id === day.id) === index
+  );
+  const lastDate =
+    generatedThrough ??
+    slots.reduce(
+      (latest, slot) => (slot.date > latest ? slot.date : latest),
+      ""
+    );
+
+  return {
+    garage_id: garageId,
+    created_at: new Date().toISOString(),
+    taken_on: today,
+    days_to_generate:
+      lastDate >= today
+        ? Math.min(MAX_DAYS_TO_GENERATE, daysBetween(today, lastDate) + 1)
+        : DEFAULT_DAYS_TO_GENERATE,
+    versions,
+    special_days: uniqueSpecialDays,
+    slots,
+  };
+}
+
+export function summarizeSnapshot(snapshot: ScheduleSnapshot): SnapshotSummary {
+  return {
+    versions: snapshot.versions.length,
+    specialDays: snapshot.special_days.length,
+    slots: snapshot.slots.length,
+    blocked: snapshot.slots.filter((slot) => slot.is_blocked).length,
+    bookings: snapshot.slots.filter((slot) => slot.order_id !== null).length,
+  };
+}
+
+// ============================================================================
+// RESTORE
+// ============================================================================
+
+/**
+ * Versions still worth replaying (ended ones can't be saved again), in the
+ * order the backend lays them out
+ */
+export function getRestorableVersions(
+  snapshot: ScheduleSnapshot,
+  today: string
+): WeeklyPatternVersion[] {
+  return snapshot.versions
+    .filter(
+      (version) =>
+        version.effective_to === null || version.effective_to >= today
+    )
+    .sort(
+      (a, b) =>
+        (a.bay_id || "").localeCompare(b.bay_id || "") ||
+        a.effective_from.localeCompare(b.effective_from)
+    );
+}
+
+const slotKey = (slot: {
+  date: string;
+  bay_id: string | null;
+  start_time: string;
+  end_time: string;
+}) => `${slot.date}|${slot.bay_id}|${slot.start_time}|${slot.end_time}`;
+
+const groupKey = (slot: Slot) => `${slot.date}|${slot.bay_id}`;
+
+/**
+ * Days (per bay) whose regenerated slots differ from the snapshot, with the
+ * layout to put back. Bookings made since stay where they are, so saved
+ * slots they overlap are left out. Past days are left alone.
+ */
+export function getSlotLayoutRepairs(
+  snapshot: ScheduleSnapshot,
+  current: Slot[],
+  today: string
+): SlotLayoutRepair[] {
+  const groups = new Map<string, { saved: Slot[]; current: Slot[] }>();
+  const add = (slot: Slot, field: "saved" | "current") => {
+    if (slot.date < today) return;
+    const group = groups.get(groupKey(slot)) || { saved: [], current: [] };
+    group[field].push(slot);
+    groups.set(groupKey(slot), group);
+  };
+  snapshot.slots.forEach((slot) => add(slot, "saved"));
+  current.forEach((slot) => add(slot, "current"));
+
+  const repairs: SlotLayoutRepair[] = [];
+  groups.forEach((group) => {
+    const booked = group.current.filter((slot) => slot.order_id !== null);
+    const free = group.current.filter((slot) => slot.order_id === null);
+    const wanted = group.saved.filter(
+      (slot) => !booked.some((other) => slotsOverlap(other, slot))
+    );
+    const keys = new Set(wanted.map(slotKey));
+    if (
+      keys.size === free.length &&
+      free.every((slot) => keys.has(slotKey(slot)))
+    ) {
+      return;
+    }
+
+    const sample = group.saved[0] || group.current[0];
+    repairs.push({
+      date: sample.date,
+      bayId: sample.bay_id,
+      slots: wanted.map((slot) => ({
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+      })),
+    });
+  });
+  return repairs.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Current slots the snapshot had blocked that aren't blocked yet
+ */
+export function getSlotsToBlock(
+  snapshot: ScheduleSnapshot,
+  current: Slot[]
+): Slot[] {
+  const blocked = new Set(
+    snapshot.slots.filter((slot) => slot.is_blocked).map(slotKey)
+  );
+  return current.filter(
+    (slot) =>
+      !slot.is_blocked && slot.order_id === null && blocked.has(slotKey(slot))
+  );
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+const getStorage = () => getBrowserStorage("local");
+
+const storageKey = (garageId: string | null) =>
+  `${STORAGE_KEY}:${garageId || "default"}`;
+
+export function loadScheduleSnapshot(
+  garageId: string | null
+): ScheduleSnapshot | null {
+  try {
+    const raw = getStorage()?.getItem(storageKey(garageId));
+    return raw ? (JSON.parse(raw) as ScheduleSnapshot) : null;
+  } catch (error) {
+    console.warn("Failed to load the schedule snapshot:", error);
+    return null;
+  }
+}
+
+/**
+ * Keep a snapshot as the garage's latest; false when it couldn't be stored
+ * (no storage, or over quota), in which case nothing should be reset
+ */
+export function saveScheduleSnapshot(snapshot: ScheduleSnapshot): boolean {
+  const storage = getStorage();
+  if (!storage) return false;
+  try {
+    storage.setItem(storageKey(snapshot.garage_id), JSON.stringify(snapshot));
+    return true;
+  } catch (error) {
+    console.warn("Failed to save the schedule snapshot:", error);
+    return false;
+  }
+}
+
+export function clearScheduleSnapshot(garageId: string | null): void {
+  try {
+    getStorage()?.removeItem(storageKey(garageId));
+  } catch (error) {
+    console.warn("Failed to clear the schedule snapshot:", error);
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { Slot } from "./garage-api";
+import {
+  fitAroundBookings,
+  generateSlots,
+  generateTimeSlots,
+  getOpenIntervals,
+  minutesToTime,
+  timeToMinutes,
+} from "./slot-generation";
+
+describe("time arithmetic", () => {
+  it("converts between HH:MM and minutes", () => {
+    expect(timeToMinutes("08:30")).toBe(510);
+    expect(minutesToTime(510)).toBe("08:30");
+    expect(minutesToTime(0)).toBe("00:00");
+  });
+});
+
+describe("getOpenIntervals", () => {
+  it("splits the hours around breaks in time order", () => {
+    expect(
+      getOpenIntervals("08:00", "17:00", [
+        { start_time: "15:00", end_time: "15:15" },
+        { start_time: "12:00", end_time: "13:00" },
+      ])
+    ).toEqual([
+      { start: "08:00", end: "12:00" },
+      { start: "13:00", end: "15:00" },
+      { start: "15:15", end: "17:00" },
+    ]);
+  });
+});
+
+describe("generateTimeSlots", () => {
+  it("packs whole slots into each interval, one buffer apart", () => {
+    expect(
+      generateTimeSlots("09:00", "12:30", 45, {
+        bufferMinutes: 15,
+        breaks: [{ start_time: "11:00", end_time: "11:30" }],
+      })
+    ).toEqual([
+      { start: "09:00", end: "09:45" },
+      { start: "10:00", end: "10:45" },
+      { start: "11:30", end: "12:15" },
+    ]);
+  });
+
+  it("tags slots with their bay", () => {
+    expect(generateTimeSlots("09:00", "10:00", 60, { bayId: "bay-1" })).toEqual(
+      [{ start: "09:00", end: "10:00", bay_id: "bay-1" }]
+    );
+  });
+});
+
+describe("generateSlots", () => {
+  it("generates nothing unless the day is open with hours", () => {
+    expect(generateSlots(null)).toEqual([]);
+    expect(generateSlots({ type: "HOLIDAY" })).toEqual([]);
+    expect(generateSlots({ type: "OPEN", start_time: "09:00" })).toEqual([]);
+  });
+
+  it("defaults to hour-long slots without a buffer", () => {
+    expect(
+      generateSlots({ type: "OPEN", start_time: "09:00", end_time: "11:00" })
+    ).toEqual([
+      { start_time: "09:00", end_time: "10:00" },
+      { start_time: "10:00", end_time: "11:00" },
+    ]);
+  });
+});
+
+describe("fitAroundBookings", () => {
+  const slot = (
+    start_time: string,
+    end_time: string,
+    order_id: string | null
+  ): Slot => ({
+    id: `slot-${start_time}`,
+    garage_id: "garage-1",
+    bay_id: "bay-1",
+    date: "2026-10-19",
+    start_time,
+    end_time,
+    is_available: order_id === null,
+    is_blocked: false,
+    order_id,
+  });
+
+  it("leaves out slots overlapping a booking, ignoring free slots", () => {
+    const slots = [
+      { start_time: "09:00", end_time: "10:00" },
+      { start_time: "10:00", end_time: "11:00" },
+      { start_time: "11:00", end_time: "12:00" },
+    ];
+    expect(
+      fitAroundBookings(slots, [
+        slot("09:30", "10:30", "order-1"),
+        slot("11:00", "12:00", null),
+      ])
+    ).toEqual([{ start_time: "11:00", end_time: "12:00" }]);
+  });
+});
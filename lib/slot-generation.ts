@@ -0,0 +1,143 @@
+/**
+ * Slot Generation
+ *
+ * HH:MM arithmetic, the open intervals between a day's breaks and the slots
+ * its hours generate, packed into each interval one buffer apart as the
+ * backend does. The dashboard's views and its client-side previews and
+ * exports all work from these, so they agree on a day's slots.
+ */
+
+import type { BreakWindow, ManualSlotInput, Slot } from "./garage-api";
+
+// Opening hours a day's slots are generated from
+export interface DayHours {
+  type: "OPEN" | "CLOSED" | "HOLIDAY";
+  start_time?: string | null;
+  end_time?: string | null;
+  slot_duration?: number | null;
+  buffer_minutes?: number | null;
+  breaks?: BreakWindow[];
+}
+
+/**
+ * Convert an HH:MM time string to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Convert minutes since midnight to an HH:MM time string
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/**
+ * Split opening hours into the intervals between break windows
+ */
+export function getOpenIntervals(
+  startTime: string,
+  endTime: string,
+  breaks: BreakWindow[] = []
+): Array<{ start: string; end: string }> {
+  const intervals: Array<{ start: string; end: string }> = [];
+  let current = startTime;
+
+  [...breaks]
+    .sort((a, b) => a.start_time.localeCompare(b.start_time))
+    .forEach((window) => {
+      intervals.push({ start: current, end: window.start_time });
+      current = window.end_time;
+    });
+  intervals.push({ start: current, end: endTime });
+
+  return intervals;
+}
+
+/**
+ * Generate time slots based on start time, end time, and duration.
+ * Slots are packed into each interval between breaks, separated by the
+ * buffer (turnaround time) when one is given, and tagged with the bay they
+ * belong to when a bayId is given.
+ */
+export function generateTimeSlots(
+  startTime: string,
+  endTime: string,
+  slotDuration: number,
+  options: {
+    bayId?: string;
+    breaks?: BreakWindow[];
+    bufferMinutes?: number;
+  } = {}
+): Array<{ start: string; end: string; bay_id?: string }> {
+  const { bayId, breaks = [], bufferMinutes = 0 } = options;
+  const slots: Array<{ start: string; end: string; bay_id?: string }> = [];
+
+  getOpenIntervals(startTime, endTime, breaks).forEach((interval) => {
+    // Convert to minutes since midnight
+    const startMinutes = timeToMinutes(interval.start);
+    const endMinutes = timeToMinutes(interval.end);
+
+    // Generate slots
+    for (
+      let currentMinutes = startMinutes;
+      currentMinutes + slotDuration <= endMinutes;
+      currentMinutes += slotDuration + bufferMinutes
+    ) {
+      const slotStart = minutesToTime(currentMinutes);
+      const slotEnd = minutesToTime(currentMinutes + slotDuration);
+
+      slots.push(
+        bayId
+          ? { start: slotStart, end: slotEnd, bay_id: bayId }
+          : { start: slotStart, end: slotEnd }
+      );
+    }
+  });
+
+  return slots;
+}
+
+/**
+ * Slots the backend generates for a day's hours (none unless it is open)
+ */
+export function generateSlots(hours: DayHours | null): ManualSlotInput[] {
+  if (!hours || hours.type !== "OPEN" || !hours.start_time || !hours.end_time) {
+    return [];
+  }
+
+  return generateTimeSlots(
+    hours.start_time,
+    hours.end_time,
+    hours.slot_duration || 60,
+    {
+      breaks: hours.breaks || [],
+      bufferMinutes: hours.buffer_minutes || 0,
+    }
+  ).map((slot) => ({ start_time: slot.start, end_time: slot.end }));
+}
+
+export function slotsOverlap(a: ManualSlotInput, b: ManualSlotInput): boolean {
+  return a.start_time < b.end_time && b.start_time < a.end_time;
+}
+
+/**
+ * Leave out slots that would overlap one of the day's bookings; bookings
+ * stay put when a day's slots are regenerated or replaced
+ */
+export function fitAroundBookings(
+  slots: ManualSlotInput[],
+  daySlots: Slot[]
+): ManualSlotInput[] {
+  const booked = daySlots.filter((slot) => slot.order_id !== null);
+  return slots.filter(
+    (slot) => !booked.some((other) => slotsOverlap(other, slot))
+  );
+}
@@ -0,0 +1,204 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  type SpecialDayRule,
+  describePattern,
+  expandPattern,
+  expandRule,
+  loadSpecialDayRules,
+  saveSpecialDayRules,
+  validateRule,
+} from "./special-day-rules";
+
+// In-memory stand-in for window.localStorage
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+const rule = (overrides: Partial<SpecialDayRule> = {}): SpecialDayRule => ({
+  id: "rule-1",
+  name: "Christmas",
+  pattern: { kind: "yearly_date", month: 12, day: 25 },
+  day: { type: "HOLIDAY" },
+  applied_dates: [],
+  created_at: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("expandPattern", () => {
+  it("expands a yearly date across years", () => {
+    expect(
+      expandPattern(
+        { kind: "yearly_date", month: 12, day: 25 },
+        "2026-01-01",
+        "2027-12-31"
+      )
+    ).toEqual(["2026-12-25", "2027-12-25"]);
+  });
+
+  it("skips 29 February outside leap years", () => {
+    expect(
+      expandPattern(
+        { kind: "yearly_date", month: 2, day: 29 },
+        "2026-01-01",
+        "2028-12-31"
+      )
+    ).toEqual(["2028-02-29"]);
+  });
+
+  it("finds the nth and the last weekday of a month", () => {
+    const may = { kind: "nth_weekday", month: 5, weekday: 1 } as const;
+    expect(
+      expandPattern({ ...may, nth: 1 }, "2026-01-01", "2026-12-31")
+    ).toEqual(["2026-05-04"]);
+    expect(
+      expandPattern({ ...may, nth: -1 }, "2026-01-01", "2026-12-31")
+    ).toEqual(["2026-05-25"]);
+  });
+
+  it("keeps a weekly interval in step with its anchor", () => {
+    expect(
+      expandPattern(
+        {
+          kind: "weekly_interval",
+          weekday: 6,
+          interval: 2,
+          anchor_date: "2026-01-03",
+        },
+        "2026-01-10",
+        "2026-02-07"
+      )
+    ).toEqual(["2026-01-17", "2026-01-31"]);
+  });
+
+  it("leaves out dates outside the range", () => {
+    expect(
+      expandPattern(
+        { kind: "yearly_date", month: 1, day: 1 },
+        "2026-01-02",
+        "2026-12-31"
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("expandRule", () => {
+  it("adds the opening hours and bay to each date", () => {
+    const requests = expandRule(
+      rule({
+        day: {
+          type: "OPEN",
+          start_time: "09:00",
+          end_time: "13:00",
+          slot_duration: 60,
+        },
+        bay_id: "bay-1",
+      }),
+      "2026-01-01",
+      "2026-12-31"
+    );
+    expect(requests).toEqual([
+      {
+        date: "2026-12-25",
+        type: "OPEN",
+        start_time: "09:00",
+        end_time: "13:00",
+        slot_duration: 60,
+        bay_id: "bay-1",
+      },
+    ]);
+  });
+});
+
+describe("describePattern", () => {
+  it("names each kind of pattern", () => {
+    expect(describePattern({ kind: "yearly_date", month: 12, day: 25 })).toBe(
+      "Every year on 25 December"
+    );
+    expect(
+      describePattern({ kind: "nth_weekday", month: 5, weekday: 1, nth: -1 })
+    ).toBe("Last Monday of May");
+    expect(
+      describePattern({
+        kind: "weekly_interval",
+        weekday: 6,
+        interval: 2,
+        anchor_date: "2026-01-03",
+      })
+    ).toBe("Every other Saturday");
+  });
+});
+
+describe("validateRule", () => {
+  it("accepts a complete rule", () => {
+    expect(validateRule(rule())).toBeNull();
+  });
+
+  it("rejects a day the month does not have", () => {
+    expect(
+      validateRule(
+        rule({ pattern: { kind: "yearly_date", month: 4, day: 31 } })
+      )
+    ).toBe("April has no day 31");
+  });
+
+  it("rejects an anchor on the wrong weekday", () => {
+    expect(
+      validateRule(
+        rule({
+          pattern: {
+            kind: "weekly_interval",
+            weekday: 1,
+            interval: 1,
+            anchor_date: "2026-01-03",
+          },
+        })
+      )
+    ).toBe("The starting date must be a Monday");
+  });
+
+  it("rejects opening hours that end before they start", () => {
+    expect(
+      validateRule(
+        rule({ day: { type: "OPEN", start_time: "17:00", end_time: "09:00" } })
+      )
+    ).toBe("Opening hours need a start time before the end time");
+  });
+});
+
+describe("persistence", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps each garage's rules apart", () => {
+    vi.stubGlobal("window", { localStorage: createMemoryStorage() });
+    saveSpecialDayRules("garage-a", [rule()]);
+
+    expect(loadSpecialDayRules("garage-a")).toEqual([rule()]);
+    expect(loadSpecialDayRules("garage-b")).toEqual([]);
+  });
+
+  it("moves rules saved before garages to the first garage opened", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("garage-special-day-rules", JSON.stringify([rule()]));
+    vi.stubGlobal("window", { localStorage: storage });
+
+    expect(loadSpecialDayRules("garage-a")).toEqual([rule()]);
+    expect(storage.getItem("garage-special-day-rules")).toBeNull();
+    expect(loadSpecialDayRules("garage-b")).toEqual([]);
+  });
+
+  it("has nothing to load outside the browser", () => {
+    expect(loadSpecialDayRules("garage-a")).toEqual([]);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Recurring Special-Day Rules
+ *
+ * The garage-dashboard API only stores special days for single dates, so
+ * recurring exceptions (Christmas every year, "last Monday of May", every
+ * other Saturday) are kept as rules on the client and expanded into
+ * SpecialDayRequest calls over a horizon. Each rule remembers the dates it
+ * applied so the whole series can later be edited or removed.
+ *
+ * Each garage's rules are persisted to localStorage, as the API has nowhere
+ * to keep them.
+ */
+
+import type { BreakWindow, SpecialDayRequest } from "./garage-api";
+import { addDays, daysBetween, parseDateStr, toDateStr } from "./date-utils";
+import { getBrowserStorage } from "./browser-storage";
+
+const STORAGE_KEY = "garage-special-day-rules";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RecurrencePattern =
+  | {
+      kind: "yearly_date";
+      month: number; // 1-12
+      day: number; // 1-31
+    }
+  | {
+      kind: "nth_weekday";
+      month: number; // 1-12
+      weekday: number; // 0 = Sunday
+      nth: number; // 1-4, or -1 for the last one in the month
+    }
+  | {
+      kind: "weekly_interval";
+      weekday: number; // 0 = Sunday
+      interval: number; // every n weeks
+      anchor_date: string; // YYYY-MM-DD occurrence the series counts from
+    };
+
+export interface SpecialDayRuleDay {
+  type: SpecialDayRequest["type"];
+  start_time?: string;
+  end_time?: string;
+  slot_duration?: number;
+  breaks?: BreakWindow[];
+}
+
+export interface SpecialDayRule {
+  id: string;
+  name: string;
+  pattern: RecurrencePattern;
+  day: SpecialDayRuleDay;
+  bay_id?: string; // omitted = garage-wide
+  applied_dates: string[]; // dates this rule last wrote special days for
+  created_at: string;
+}
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const ORDINALS: { [nth: number]: string } = {
+  1: "First",
+  2: "Second",
+  3: "Third",
+  4: "Fourth",
+  [-1]: "Last",
+};
+
+/**
+ * Date of the nth weekday in a month (nth = -1 for the last), or null when
+ * the month has no such day
+ */
+function nthWeekdayOfMonth(
+  year: number,
+  month: number,
+  weekday: number,
+  nth: number
+): string | null {
+  if (nth === -1) {
+    const last = new Date(year, month, 0);
+    last.setDate(last.getDate() - ((last.getDay() - weekday + 7) % 7));
+    return toDateStr(last);
+  }
+
+  const first = new Date(year, month - 1, 1);
+  const day = 1 + ((weekday - first.getDay() + 7) % 7) + (nth - 1) * 7;
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? toDateStr(date) : null;
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+/**
+ * All dates matched by a recurrence pattern between from and to (inclusive)
+ */
+export function expandPattern(
+  pattern: RecurrencePattern,
+  from: string,
+  to: string
+): string[] {
+  const dates: string[] = [];
+  const firstYear = parseDateStr(from).getFullYear();
+  const lastYear = parseDateStr(to).getFullYear();
+
+  switch (pattern.kind) {
+    case "yearly_date":
+      for (let year = firstYear; year <= lastYear; year++) {
+        const date = new Date(year, pattern.month - 1, pattern.day);
+        // Skip years where the date does not exist (29 February)
+        if (date.getMonth() === pattern.month - 1) dates.push(toDateStr(date));
+      }
+      break;
+
+    case "nth_weekday":
+      for (let year = firstYear; year <= lastYear; year++) {
+        const date = nthWeekdayOfMonth(
+          year,
+          pattern.month,
+          pattern.weekday,
+          pattern.nth
+        );
+        if (date) dates.push(date);
+      }
+      break;
+
+    case "weekly_interval": {
+      const step = Math.max(1, pattern.interval) * 7;
+      // First occurrence on or after from, counted in whole steps from the anchor
+      const offset = daysBetween(pattern.anchor_date, from);
+      const steps = Math.max(0, Math.ceil(offset / step));
+      for (
+        let date = addDays(pattern.anchor_date, steps * step);
+        date <= to;
+        date = addDays(date, step)
+      ) {
+        dates.push(date);
+      }
+      break;
+    }
+  }
+
+  return dates.filter((date) => date >= from && date <= to);
+}
+
+/**
+ * Special-day requests a rule expands to between from and to
+ */
+export function expandRule(
+  rule: SpecialDayRule,
+  from: string,
+  to: string
+): SpecialDayRequest[] {
+  return expandPattern(rule.pattern, from, to).map((date) => ({
+    date,
+    type: rule.day.type,
+    ...(rule.day.type === "OPEN" && {
+      start_time: rule.day.start_time,
+      end_time: rule.day.end_time,
+      slot_duration: rule.day.slot_duration,
+      ...(rule.day.breaks &&
+        rule.day.breaks.length > 0 && { breaks: rule.day.breaks }),
+    }),
+    ...(rule.bay_id && { bay_id: rule.bay_id }),
+  }));
+}
+
+/**
+ * Human-readable description of a recurrence pattern
+ */
+export function describePattern(pattern: RecurrencePattern): string {
+  switch (pattern.kind) {
+    case "yearly_date":
+      return `Every year on ${pattern.day} ${MONTH_NAMES[pattern.month - 1]}`;
+    case "nth_weekday":
+      return `${ORDINALS[pattern.nth]} ${WEEKDAY_NAMES[pattern.weekday]} of ${
+        MONTH_NAMES[pattern.month - 1]
+      }`;
+    case "weekly_interval":
+      return pattern.interval === 1
+        ? `Every ${WEEKDAY_NAMES[pattern.weekday]}`
+        : pattern.interval === 2
+        ? `Every other ${WEEKDAY_NAMES[pattern.weekday]}`
+        : `Every ${pattern.interval} weeks on ${
+            WEEKDAY_NAMES[pattern.weekday]
+          }`;
+  }
+}
+
+/**
+ * Check a rule before it is applied; returns an error message or null
+ */
+export function validateRule(
+  rule: Pick<SpecialDayRule, "name" | "pattern" | "day">
+): string | null {
+  if (!rule.name.trim()) return "Please give the rule a name";
+
+  const { pattern, day } = rule;
+  if (pattern.kind === "yearly_date") {
+    const maxDay = new Date(2024, pattern.month, 0).getDate(); // leap year
+    if (pattern.day < 1 || pattern.day > maxDay) {
+      return `${MONTH_NAMES[pattern.month - 1]} has no day ${pattern.day}`;
+    }
+  }
+  if (pattern.kind === "weekly_interval") {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(pattern.anchor_date)) {
+      return "Please choose a starting date";
+    }
+    if (parseDateStr(pattern.anchor_date).getDay() !== pattern.weekday) {
+      return `The starting date must be a ${WEEKDAY_NAMES[pattern.weekday]}`;
+    }
+    if (pattern.interval < 1) return "The interval must be at least 1 week";
+  }
+  if (
+    day.type === "OPEN" &&
+    (!day.start_time || !day.end_time || day.start_time >= day.end_time)
+  ) {
+    return "Opening hours need a start time before the end time";
+  }
+
+  return null;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+const getStorage = () => getBrowserStorage("local");
+
+const storageKey = (garageId: string | null) =>
+  `${STORAGE_KEY}:${garageId || "default"}`;
+
+/**
+ * Rules saved before garages had their own go to the first garage opened
+ * with an id, and the old key is dropped
+ */
+function migrateLegacyRules(storage: Storage, garageId: string | null): void {
+  const legacy = storage.getItem(STORAGE_KEY);
+  if (legacy === null || !garageId) return;
+  if (storage.getItem(storageKey(garageId)) === null) {
+    storage.setItem(storageKey(garageId), legacy);
+  }
+  storage.removeItem(STORAGE_KEY);
+}
+
+export function loadSpecialDayRules(garageId: string | null): SpecialDayRule[] {
+  try {
+    const storage = getStorage();
+    if (!storage) return [];
+    migrateLegacyRules(storage, garageId);
+    const raw = storage.getItem(storageKey(garageId));
+    return raw ? (JSON.parse(raw) as SpecialDayRule[]) : [];
+  } catch (error) {
+    console.warn("Failed to load special-day rules:", error);
+    return [];
+  }
+}
+
+export function saveSpecialDayRules(
+  garageId: string | null,
+  rules: SpecialDayRule[]
+): void {
+  try {
+    getStorage()?.setItem(storageKey(garageId), JSON.stringify(rules));
+  } catch (error) {
+    console.warn("Failed to save special-day rules:", error);
+  }
+}
+
+export function createRuleId(): string {
+  return `rule-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { toUtcDate } from "./date-utils";
+import {
+  UK_REGIONS,
+  getBankHolidayYears,
+  getBankHolidays,
+} from "./uk-bank-holidays";
+
+const allHolidays = (region: (typeof UK_REGIONS)[number]["value"]) =>
+  getBankHolidayYears(region).flatMap((year) => getBankHolidays(region, year));
+
+describe("getBankHolidays", () => {
+  it("returns a region's holidays of one year in date order", () => {
+    expect(getBankHolidays("england-and-wales", 2026)).toEqual([
+      { date: "2026-01-01", title: "New Year’s Day" },
+      { date: "2026-04-03", title: "Good Friday" },
+      { date: "2026-04-06", title: "Easter Monday" },
+      { date: "2026-05-04", title: "Early May bank holiday" },
+      { date: "2026-05-25", title: "Spring bank holiday" },
+      { date: "2026-08-31", title: "Summer bank holiday" },
+      { date: "2026-12-25", title: "Christmas Day" },
+      { date: "2026-12-28", title: "Boxing Day (substitute day)" },
+    ]);
+  });
+
+  it("includes the holidays only one division has", () => {
+    const dates = (region: (typeof UK_REGIONS)[number]["value"]) =>
+      getBankHolidays(region, 2026).map((holiday) => holiday.date);
+    expect(dates("scotland")).toContain("2026-11-30");
+    expect(dates("northern-ireland")).toContain("2026-03-17");
+    expect(dates("england-and-wales")).not.toContain("2026-11-30");
+  });
+
+  it("has nothing for a year outside the dataset", () => {
+    expect(getBankHolidays("scotland", 2019)).toEqual([]);
+  });
+});
+
+describe("getBankHolidayYears", () => {
+  it("lists each covered year once", () => {
+    expect(getBankHolidayYears("england-and-wales")).toEqual([
+      2025, 2026, 2027, 2028,
+    ]);
+  });
+});
+
+describe("dataset", () => {
+  it.each(UK_REGIONS.map((region) => region.value))(
+    "%s has sorted, unique weekday dates",
+    (region) => {
+      const dates = allHolidays(region).map((holiday) => holiday.date);
+      expect(dates).toEqual([...new Set(dates)].sort());
+      // Holidays falling on a weekend move to a substitute weekday
+      dates.forEach((date) => {
+        expect([0, 6], date).not.toContain(toUtcDate(date).getUTCDay());
+      });
+    }
+  );
+});
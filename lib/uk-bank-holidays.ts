@@ -0,0 +1,162 @@
+/**
+ * UK Bank Holidays
+ *
+ * Bundled bank holiday dates for the three UK divisions, following the
+ * GOV.UK bank holidays feed (including substitute days when a holiday falls
+ * on a weekend). Bump UK_BANK_HOLIDAYS_VERSION whenever dates are added or
+ * corrected so it is clear which dataset a garage applied.
+ */
+
+export type UkRegion = "england-and-wales" | "scotland" | "northern-ireland";
+
+export interface BankHoliday {
+  date: string; // YYYY-MM-DD
+  title: string;
+}
+
+export const UK_BANK_HOLIDAYS_VERSION = "2026.1";
+
+export const UK_REGIONS: Array<{ value: UkRegion; label: string }> = [
+  { value: "england-and-wales", label: "England and Wales" },
+  { value: "scotland", label: "Scotland" },
+  { value: "northern-ireland", label: "Northern Ireland" },
+];
+
+const UK_BANK_HOLIDAYS: Record<UkRegion, BankHoliday[]> = {
+  "england-and-wales": [
+    { date: "2025-01-01", title: "New Year’s Day" },
+    { date: "2025-04-18", title: "Good Friday" },
+    { date: "2025-04-21", title: "Easter Monday" },
+    { date: "2025-05-05", title: "Early May bank holiday" },
+    { date: "2025-05-26", title: "Spring bank holiday" },
+    { date: "2025-08-25", title: "Summer bank holiday" },
+    { date: "2025-12-25", title: "Christmas Day" },
+    { date: "2025-12-26", title: "Boxing Day" },
+    { date: "2026-01-01", title: "New Year’s Day" },
+    { date: "2026-04-03", title: "Good Friday" },
+    { date: "2026-04-06", title: "Easter Monday" },
+    { date: "2026-05-04", title: "Early May bank holiday" },
+    { date: "2026-05-25", title: "Spring bank holiday" },
+    { date: "2026-08-31", title: "Summer bank holiday" },
+    { date: "2026-12-25", title: "Christmas Day" },
+    { date: "2026-12-28", title: "Boxing Day (substitute day)" },
+    { date: "2027-01-01", title: "New Year’s Day" },
+    { date: "2027-03-26", title: "Good Friday" },
+    { date: "2027-03-29", title: "Easter Monday" },
+    { date: "2027-05-03", title: "Early May bank holiday" },
+    { date: "2027-05-31", title: "Spring bank holiday" },
+    { date: "2027-08-30", title: "Summer bank holiday" },
+    { date: "2027-12-27", title: "Christmas Day (substitute day)" },
+    { date: "2027-12-28", title: "Boxing Day (substitute day)" },
+    { date: "2028-01-03", title: "New Year’s Day (substitute day)" },
+    { date: "2028-04-14", title: "Good Friday" },
+    { date: "2028-04-17", title: "Easter Monday" },
+    { date: "2028-05-01", title: "Early May bank holiday" },
+    { date: "2028-05-29", title: "Spring bank holiday" },
+    { date: "2028-08-28", title: "Summer bank holiday" },
+    { date: "2028-12-25", title: "Christmas Day" },
+    { date: "2028-12-26", title: "Boxing Day" },
+  ],
+  scotland: [
+    { date: "2025-01-01", title: "New Year’s Day" },
+    { date: "2025-01-02", title: "2nd January" },
+    { date: "2025-04-18", title: "Good Friday" },
+    { date: "2025-05-05", title: "Early May bank holiday" },
+    { date: "2025-05-26", title: "Spring bank holiday" },
+    { date: "2025-08-04", title: "Summer bank holiday" },
+    { date: "2025-12-01", title: "St Andrew’s Day (substitute day)" },
+    { date: "2025-12-25", title: "Christmas Day" },
+    { date: "2025-12-26", title: "Boxing Day" },
+    { date: "2026-01-01", title: "New Year’s Day" },
+    { date: "2026-01-02", title: "2nd January" },
+    { date: "2026-04-03", title: "Good Friday" },
+    { date: "2026-05-04", title: "Early May bank holiday" },
+    { date: "2026-05-25", title: "Spring bank holiday" },
+    { date: "2026-08-03", title: "Summer bank holiday" },
+    { date: "2026-11-30", title: "St Andrew’s Day" },
+    { date: "2026-12-25", title: "Christmas Day" },
+    { date: "2026-12-28", title: "Boxing Day (substitute day)" },
+    { date: "2027-01-01", title: "New Year’s Day" },
+    { date: "2027-01-04", title: "2nd January (substitute day)" },
+    { date: "2027-03-26", title: "Good Friday" },
+    { date: "2027-05-03", title: "Early May bank holiday" },
+    { date: "2027-05-31", title: "Spring bank holiday" },
+    { date: "2027-08-02", title: "Summer bank holiday" },
+    { date: "2027-11-30", title: "St Andrew’s Day" },
+    { date: "2027-12-27", title: "Christmas Day (substitute day)" },
+    { date: "2027-12-28", title: "Boxing Day (substitute day)" },
+    { date: "2028-01-03", title: "New Year’s Day (substitute day)" },
+    { date: "2028-01-04", title: "2nd January (substitute day)" },
+    { date: "2028-04-14", title: "Good Friday" },
+    { date: "2028-05-01", title: "Early May bank holiday" },
+    { date: "2028-05-29", title: "Spring bank holiday" },
+    { date: "2028-08-07", title: "Summer bank holiday" },
+    { date: "2028-11-30", title: "St Andrew’s Day" },
+    { date: "2028-12-25", title: "Christmas Day" },
+    { date: "2028-12-26", title: "Boxing Day" },
+  ],
+  "northern-ireland": [
+    { date: "2025-01-01", title: "New Year’s Day" },
+    { date: "2025-03-17", title: "St Patrick’s Day" },
+    { date: "2025-04-18", title: "Good Friday" },
+    { date: "2025-04-21", title: "Easter Monday" },
+    { date: "2025-05-05", title: "Early May bank holiday" },
+    { date: "2025-05-26", title: "Spring bank holiday" },
+    { date: "2025-07-14", title: "Battle of the Boyne (substitute day)" },
+    { date: "2025-08-25", title: "Summer bank holiday" },
+    { date: "2025-12-25", title: "Christmas Day" },
+    { date: "2025-12-26", title: "Boxing Day" },
+    { date: "2026-01-01", title: "New Year’s Day" },
+    { date: "2026-03-17", title: "St Patrick’s Day" },
+    { date: "2026-04-03", title: "Good Friday" },
+    { date: "2026-04-06", title: "Easter Monday" },
+    { date: "2026-05-04", title: "Early May bank holiday" },
+    { date: "2026-05-25", title: "Spring bank holiday" },
+    { date: "2026-07-13", title: "Battle of the Boyne (substitute day)" },
+    { date: "2026-08-31", title: "Summer bank holiday" },
+    { date: "2026-12-25", title: "Christmas Day" },
+    { date: "2026-12-28", title: "Boxing Day (substitute day)" },
+    { date: "2027-01-01", title: "New Year’s Day" },
+    { date: "2027-03-17", title: "St Patrick’s Day" },
+    { date: "2027-03-26", title: "Good Friday" },
+    { date: "2027-03-29", title: "Easter Monday" },
+    { date: "2027-05-03", title: "Early May bank holiday" },
+    { date: "2027-05-31", title: "Spring bank holiday" },
+    { date: "2027-07-12", title: "Battle of the Boyne (Orangemen’s Day)" },
+    { date: "2027-08-30", title: "Summer bank holiday" },
+    { date: "2027-12-27", title: "Christmas Day (substitute day)" },
+    { date: "2027-12-28", title: "Boxing Day (substitute day)" },
+    { date: "2028-01-03", title: "New Year’s Day (substitute day)" },
+    { date: "2028-03-17", title: "St Patrick’s Day" },
+    { date: "2028-04-14", title: "Good Friday" },
+    { date: "2028-04-17", title: "Easter Monday" },
+    { date: "2028-05-01", title: "Early May bank holiday" },
+    { date: "2028-05-29", title: "Spring bank holiday" },
+    { date: "2028-07-12", title: "Battle of the Boyne (Orangemen’s Day)" },
+    { date: "2028-08-28", title: "Summer bank holiday" },
+    { date: "2028-12-25", title: "Christmas Day" },
+    { date: "2028-12-26", title: "Boxing Day" },
+  ],
+};
+
+/**
+ * Bank holidays of a region in a given year, in date order
+ */
+export function getBankHolidays(region: UkRegion, year: number): BankHoliday[] {
+  return UK_BANK_HOLIDAYS[region].filter((holiday) =>
+    holiday.date.startsWith(`${year}-`)
+  );
+}
+
+/**
+ * Years the bundled dataset covers for a region
+ */
+export function getBankHolidayYears(region: UkRegion): number[] {
+  return Array.from(
+    new Set(
+      UK_BANK_HOLIDAYS[region].map((holiday) =>
+        Number(holiday.date.slice(0, 4))
+      )
+    )
+  );
+}